@@ -1,11 +1,16 @@
 import { useState, useMemo, useEffect, useCallback, Suspense, lazy } from 'react';
-import type { Transaction } from './types';
+import type { FinancialSummary, Transaction } from './types';
 import { FinanceProvider } from './context/FinanceContext';
 import { useFinance } from './hooks/useFinance';
+import { useTransactionHistory } from './hooks/useTransactionHistory';
+import { useTransactionPages } from './hooks/useTransactionPages';
 import { useAuth } from './context/AuthContext';
 import { AppShell } from './components/layout/AppShell';
+import { UndoToast } from './components/layout/UndoToast';
 import { SummaryCards } from './components/dashboard/SummaryCards';
 import { RecentTransactions } from './components/dashboard/RecentTransactions';
+import { AccountBalances } from './components/dashboard/AccountBalances';
+import { CreditCardStatements } from './components/dashboard/CreditCardStatements';
 import { MonthSelector } from './components/dashboard/MonthSelector';
 import { Charts } from './components/dashboard/Charts';
 import { TransactionForm } from './components/transactions/TransactionForm';
@@ -13,8 +18,14 @@ import { NotificationSettingsPanel } from './components/notifications/Notificati
 import { SkeletonDashboard } from './components/ui/Skeleton';
 import { NoTransactionsEmpty } from './components/ui/EmptyState';
 import { AuthForm } from './components/auth/AuthForm';
-import { generateFinancialSummary } from './utils/calculations';
-import { convertCurrency, fetchLatestRates, updateExchangeRates, loadPersistedRates } from './utils/exchange';
+import { UnlockScreen } from './components/security/UnlockScreen';
+import { encryptionService } from './services/encryptionService';
+import { accumulateBalances } from './utils/aggregations';
+import { rollupMonthlyTotals } from './utils/rollups';
+import { convertTransaction, fetchLatestRates, loadPersistedRates, setRateProvider, setTrackedCurrencies } from './utils/exchange';
+import { enabledCurrencies } from './utils/currencies';
+import { buildFxGainReport } from './utils/fxGains';
+import { createRateProvider } from './rates/providers';
 import './index.css';
 
 // Lazy load heavy pages
@@ -57,9 +68,13 @@ interface DashboardContentProps {
   onRatesUpdate: (rates: Record<string, number>) => void;
 }
 
+// Rows shown under Recent Transactions
+const RECENT_COUNT = 5;
+
 function DashboardContent({ onRatesUpdate }: DashboardContentProps) {
   const { 
-    transactions, 
+    rollups,
+    valuation,
     settings, 
     addTransaction, 
     deleteTransaction, 
@@ -144,7 +159,7 @@ function DashboardContent({ onRatesUpdate }: DashboardContentProps) {
     // Get currencies from the selected currency pair
     // e.g., "TRY-USD" → [TRY, USD]
     const currencyPair = settings.currencyPair || 'TRY-USD';
-    const [curr1, curr2] = currencyPair.split('-') as ['TRY' | 'USD' | 'EUR' | 'GBP', 'TRY' | 'USD' | 'EUR' | 'GBP'];
+    const [curr1, curr2] = currencyPair.split('-');
     
     // Toggle between the two currencies in the pair
     const newCurrency = settings.currency === curr1 ? curr2 : curr1;
@@ -165,18 +180,16 @@ function DashboardContent({ onRatesUpdate }: DashboardContentProps) {
   const handleRefreshRates = useCallback(async () => {
     setIsFetchingRates(true);
     try {
-      const base = settings.currency || 'USD';
       console.log('[App] Manually refreshing rates');
-      const rates = await fetchLatestRates(base);
+      const rates = await fetchLatestRates();
       setExchangeRates(rates);
-      updateExchangeRates(rates);
       onRatesUpdate(rates);
     } catch (error) {
       console.error('[App] Error refreshing rates:', error);
     } finally {
       setIsFetchingRates(false);
     }
-  }, [settings.currency]);
+  }, []);
 
   const handleMonthChange = (month: number, year: number) => {
     setSelectedMonth(month);
@@ -195,61 +208,67 @@ function DashboardContent({ onRatesUpdate }: DashboardContentProps) {
     return result;
   }, [addTransaction]);
 
-  // Helper: Convert transaction amount to current display currency
+  // Helper: Convert transaction amount to current display currency (at its date under historical valuation)
+  // A settled amount recorded on the transaction wins over the computed one
   const getDisplayAmount = useCallback((transaction: Transaction): number => {
-    if ((transaction as any).originalCurrency === settings.currency) {
-      return transaction.amount;
-    }
-    const from = (transaction as any).originalCurrency || 'TRY';
-    return convertCurrency(transaction.amount, from, settings.currency);
-  }, [settings.currency]);
-
-  // Filter transactions by selected month/year
-  const filteredTransactions = useMemo(() => {
-    return transactions.filter((transaction) => {
-      const date = new Date(transaction.date);
-      return date.getMonth() === selectedMonth && date.getFullYear() === selectedYear;
-    });
-  }, [transactions, selectedMonth, selectedYear]);
-
-  // Calculate cumulative wealth up to selected month (Net Worth)
-  const cumulativeWealth = useMemo(() => {
-    let cumulative = 0;
-    transactions.forEach((t) => {
-      const date = new Date(t.date);
-      const tMonth = date.getMonth();
-      const tYear = date.getFullYear();
-      
-      // Include if before selected month/year, or same month/year
-      const isBeforeOrSame = 
-        tYear < selectedYear || 
-        (tYear === selectedYear && tMonth <= selectedMonth);
-      
-      if (isBeforeOrSame && (t.type === 'savings' || t.type === 'withdrawal')) {
-        if (t.type === 'savings') {
-          cumulative += getDisplayAmount(t);
-        } else {
-          cumulative -= getDisplayAmount(t);
-        }
-      }
-    });
-    return cumulative;
-  }, [transactions, selectedMonth, selectedYear, getDisplayAmount]);
+    return convertTransaction(transaction, settings.currency, valuation);
+  }, [settings.currency, valuation]);
+
+  // The dashboard needs the whole history only for account balances, card
+  // statements and savings holdings, and analytics always does; the rollups
+  // and paged reads cover everything else
+  const hasAccounts = !!settings.accounts?.length;
+  const hasSavings = !!rollups?.some((row) => row.type === 'savings' || row.type === 'withdrawal');
+  const { transactions } = useTransactionHistory(currentPage === 'analytics' || hasAccounts || hasSavings);
+  const hasTransactions = transactions.length > 0 || !!rollups?.length;
+
+  // Latest transactions of the selected month/year, read from the store
+  const monthQuery = useMemo(() => {
+    const month = `${selectedYear}-${String(selectedMonth + 1).padStart(2, '0')}`;
+    const lastDay = new Date(selectedYear, selectedMonth + 1, 0).getDate();
+    return { startDate: `${month}-01`, endDate: `${month}-${String(lastDay).padStart(2, '0')}` };
+  }, [selectedMonth, selectedYear]);
+  const { items: filteredTransactions } = useTransactionPages(monthQuery, RECENT_COUNT);
+
+  // Monthly totals from the rollup store, in the display currency (null until read)
+  const monthlyTotals = useMemo(
+    () => rollups && rollupMonthlyTotals(rollups, settings.currency, {}, valuation),
+    [rollups, settings.currency, valuation]
+  );
 
-  // Calculate summary for filtered transactions
-  const summary = useMemo(() => {
-    // For monthly summary: use filtered transactions (only selected month)
-    const convertedFiltered = filteredTransactions.map((t) => ({ ...t, amount: getDisplayAmount(t) }));
-    
-    const monthlySummary = generateFinancialSummary(convertedFiltered, selectedMonth, selectedYear);
-    // Override netWorth with cumulative calculation (already converted)
-    monthlySummary.netWorth = cumulativeWealth;
-    // Cash balance stays monthly (from filtered transactions)
-    
-    return monthlySummary;
-  }, [filteredTransactions, selectedMonth, selectedYear, getDisplayAmount, cumulativeWealth]);
+  // Savings held in foreign currencies, gold and other units: their cost and market value by month
+  const holdings = useMemo(
+    () => buildFxGainReport(transactions, settings.currency, { history: valuation.history, inflationRate: settings.inflationRate }),
+    [transactions, settings.currency, valuation.history, settings.inflationRate]
+  );
+
+  // Summary of the selected month; net worth is cumulative net savings up to it
+  const summary = useMemo((): FinancialSummary | null => {
+    if (!monthlyTotals) return null;
+    const monthKey = `${selectedYear}-${String(selectedMonth + 1).padStart(2, '0')}`;
+    const balances = accumulateBalances(monthlyTotals.filter((m) => m.month <= monthKey));
+    const { income, expense, savings, withdrawal } =
+      monthlyTotals.find((m) => m.month === monthKey) ?? { income: 0, expense: 0, savings: 0, withdrawal: 0 };
+    const netSavings = balances.length > 0 ? balances[balances.length - 1].savings : 0;
+
+    // Historical valuation books holdings at cost, current valuation at today's rates
+    const unrealized = holdings.series.filter((point) => point.month <= monthKey).pop()?.unrealized ?? 0;
+    const atMarket = valuation.mode === 'current';
+    return {
+      totalIncome: income,
+      totalExpense: expense,
+      totalSavings: savings - withdrawal,
+      cashBalance: income - expense - savings + withdrawal,
+      netWorth: atMarket ? netSavings : netSavings + unrealized,
+      netWorthCost: atMarket ? netSavings - unrealized : netSavings,
+      savingsRate: income === 0 ? 0 : ((income - expense) / income) * 100,
+    };
+  }, [monthlyTotals, holdings, valuation.mode, selectedMonth, selectedYear]);
 
-  // Fetch latest rates on initial mount and when currency changes
+  // Rates are kept for the enabled currencies
+  const trackedCurrencies = enabledCurrencies(settings).join(',');
+
+  // Fetch latest rates on initial mount and when the rate provider or enabled currencies change
   useEffect(() => {
     let cancelled = false;
     
@@ -260,20 +279,20 @@ function DashboardContent({ onRatesUpdate }: DashboardContentProps) {
         setExchangeRates(cached.rates);
       }
       
-      // Then fetch fresh rates from API
-      const base = settings.currency || 'USD';
-      console.log('[App] Fetching fresh rates');
-      const rates = await fetchLatestRates(base);
+      // Then ask the chosen provider for fresh rates
+      setRateProvider(createRateProvider(settings.rateProvider));
+      setTrackedCurrencies(trackedCurrencies.split(','));
+      console.log(`[App] Fetching fresh rates (${settings.rateProvider ?? 'api'})`);
+      const rates = await fetchLatestRates();
       if (!cancelled) {
         setExchangeRates(rates);
-        updateExchangeRates(rates);
         onRatesUpdate(rates); // Update parent state
       }
     };
     
     fetchRates();
     return () => { cancelled = true; };
-  }, [settings.currency]);
+  }, [settings.rateProvider, trackedCurrencies]);
 
   return (
     <AppShell
@@ -305,14 +324,14 @@ function DashboardContent({ onRatesUpdate }: DashboardContentProps) {
               {settings.language === 'tr' ? 'Panel' : 'Dashboard'}
             </h1>
             {/* Hide add button when there are no transactions (empty state has its own button) */}
-            {!isLoading && transactions.length > 0 && (
+            {!isLoading && hasTransactions && (
               <TransactionForm mode="add" onSubmit={handleAddTransaction} language={settings.language} currency={settings.currency} />
             )}
           </div>
 
           {isLoading ? (
             <SkeletonDashboard />
-          ) : transactions.length === 0 ? (
+          ) : !hasTransactions ? (
             <>
               {/* Hidden TransactionForm to be triggered by empty state button */}
               <TransactionForm 
@@ -344,15 +363,35 @@ function DashboardContent({ onRatesUpdate }: DashboardContentProps) {
                 summary={summary}
                 currency={settings.currency}
                 language={settings.language}
-                cumulativeWealth={cumulativeWealth}
               />
 
-              <Charts transactions={transactions} currency={settings.currency} language={settings.language} theme={settings.theme} selectedMonth={selectedMonth} selectedYear={selectedYear} />
+              {settings.accounts && settings.accounts.length > 0 && (
+                <AccountBalances
+                  accounts={settings.accounts}
+                  transactions={transactions}
+                  currency={settings.currency}
+                  language={settings.language}
+                  selectedMonth={selectedMonth}
+                  selectedYear={selectedYear}
+                />
+              )}
+
+              {settings.accounts && settings.accounts.length > 0 && (
+                <CreditCardStatements
+                  accounts={settings.accounts}
+                  transactions={transactions}
+                  language={settings.language}
+                />
+              )}
+
+              <Charts monthlyTotals={monthlyTotals} currency={settings.currency} language={settings.language} theme={settings.theme} selectedMonth={selectedMonth} selectedYear={selectedYear} />
 
               <RecentTransactions
                 transactions={filteredTransactions}
+                limit={RECENT_COUNT}
                 currency={settings.currency}
                 language={settings.language}
+                getDisplayAmount={getDisplayAmount}
                 onDelete={deleteTransaction}
                 onEdit={(transaction) => setEditingTransaction(transaction)}
               />
@@ -440,13 +479,16 @@ function DashboardContent({ onRatesUpdate }: DashboardContentProps) {
           onClose={() => setIsNotificationSettingsOpen(false)}
         />
       )}
+
+      <UndoToast />
     </AppShell>
   );
 }
 
 function App() {
-  const { isAuthenticated, isLoading: authLoading, isCloudEnabled } = useAuth();
+  const { isAuthenticated, isLoading: authLoading, isCloudEnabled, isLocalMode } = useAuth();
   const [exchangeRates, setExchangeRates] = useState<Record<string, number>>({});
+  const [isUnlocked, setIsUnlocked] = useState(() => !encryptionService.isEnabled() || encryptionService.isUnlocked());
 
   // Load exchange rates on mount
   useEffect(() => {
@@ -475,8 +517,8 @@ function App() {
 
   // Log auth state changes for debugging
   useEffect(() => {
-    console.log('🔍 [App] Auth state:', { isAuthenticated, authLoading, isCloudEnabled });
-  }, [isAuthenticated, authLoading, isCloudEnabled]);
+    console.log('🔍 [App] Auth state:', { isAuthenticated, authLoading, isCloudEnabled, isLocalMode });
+  }, [isAuthenticated, authLoading, isCloudEnabled, isLocalMode]);
 
   // Show loading skeleton while checking auth
   if (authLoading) {
@@ -487,11 +529,16 @@ function App() {
     );
   }
 
-  // Show login form if cloud is enabled but user not authenticated
-  if (isCloudEnabled && !isAuthenticated) {
+  // Show login form if cloud is enabled but user neither signed in nor chose local-only mode
+  if (isCloudEnabled && !isAuthenticated && !isLocalMode) {
     return <AuthForm />;
   }
 
+  // Encrypted local data needs the passphrase before anything is loaded
+  if (!isUnlocked) {
+    return <UnlockScreen onUnlock={() => setIsUnlocked(true)} />;
+  }
+
   // Show main app
   return (
     <FinanceProvider exchangeRates={exchangeRates}>
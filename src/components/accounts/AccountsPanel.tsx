@@ -0,0 +1,258 @@
+import { useState } from 'react';
+import { Pencil, Plus, Save, Trash2 } from 'lucide-react';
+import { useFinance } from '../../hooks/useFinance';
+import { useTransactionHistory } from '../../hooks/useTransactionHistory';
+import { Button } from '../ui/Button';
+import { Input } from '../ui/Input';
+import { Select } from '../ui/Select';
+import type { Account, AccountType } from '../../types';
+import { currencyOption, enabledCurrencies } from '../../utils/currencies';
+import { formatCurrency } from '../../utils/formatters';
+import { ACCOUNT_TYPES, accountBalances } from '../../utils/accounts';
+
+const DAYS = Array.from({ length: 31 }, (_, i) => String(i + 1));
+
+const parseAmount = (value: string) => Number(value.replace(',', '.')) || 0;
+
+/**
+ * Accounts and wallets: their balances, adding and editing one (with the
+ * statement days and limit of a credit card), closing and reopening them,
+ * and removing ones no transaction uses
+ */
+export function AccountsPanel() {
+  const { settings, valuation, addAccount, updateAccount, deleteAccount } = useFinance();
+  const { transactions } = useTransactionHistory();
+  const emptyDraft = {
+    name: '',
+    type: 'bank' as AccountType,
+    currency: settings.currency,
+    openingBalance: '',
+    statementDay: '',
+    dueDay: '',
+    creditLimit: '',
+  };
+  const [draft, setDraft] = useState(emptyDraft);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const texts = {
+    tr: {
+      description: 'İşlemleri maaş hesabı, kredi kartı, nakit gibi hesaplara bağlayın; bakiyeler ve hesaplar arası transferler buradan izlenir.',
+      none: 'Henüz hesap yok.',
+      name: 'Ad',
+      type: 'Tür',
+      currency: 'Para Birimi',
+      openingBalance: 'Açılış Bakiyesi',
+      add: 'Hesap Ekle',
+      edit: 'Düzenle',
+      save: 'Kaydet',
+      cancel: 'Vazgeç',
+      added: 'Hesap eklendi.',
+      saved: 'Hesap kaydedildi.',
+      invalid: 'Hesap adı gereklidir.',
+      statementDay: 'Hesap Kesim Günü',
+      dueDay: 'Son Ödeme Günü',
+      creditLimit: 'Limit',
+      close: 'Kapat',
+      reopen: 'Aç',
+      closed: 'kapalı',
+      inUse: 'Bu hesapta işlemler var; silmek yerine kapatın.',
+      types: { bank: 'Banka', credit: 'Kredi Kartı', cash: 'Nakit', brokerage: 'Yatırım' },
+    },
+    en: {
+      description: 'Link transactions to accounts like a salary account, a credit card or cash; their balances and transfers between them are tracked here.',
+      none: 'No accounts yet.',
+      name: 'Name',
+      type: 'Type',
+      currency: 'Currency',
+      openingBalance: 'Opening Balance',
+      add: 'Add Account',
+      edit: 'Edit',
+      save: 'Save',
+      cancel: 'Cancel',
+      added: 'Account added.',
+      saved: 'Account saved.',
+      invalid: 'An account name is required.',
+      statementDay: 'Statement Closing Day',
+      dueDay: 'Payment Due Day',
+      creditLimit: 'Credit Limit',
+      close: 'Close',
+      reopen: 'Reopen',
+      closed: 'closed',
+      inUse: 'This account has transactions; close it instead of removing it.',
+      types: { bank: 'Bank', credit: 'Credit Card', cash: 'Cash', brokerage: 'Brokerage' },
+    },
+  };
+
+  const t = texts[settings.language];
+  const balances = accountBalances(settings.accounts ?? [], transactions, valuation);
+
+  const isCredit = draft.type === 'credit';
+
+  const handleEdit = (account: Account) => {
+    setMessage(null);
+    setEditingId(account.id);
+    setDraft({
+      name: account.name,
+      type: account.type,
+      currency: account.currency,
+      openingBalance: String(account.openingBalance),
+      statementDay: account.statementDay ? String(account.statementDay) : '',
+      dueDay: account.dueDay ? String(account.dueDay) : '',
+      creditLimit: account.creditLimit ? String(account.creditLimit) : '',
+    });
+  };
+
+  const handleCancel = () => {
+    setEditingId(null);
+    setDraft(emptyDraft);
+  };
+
+  const handleSubmit = async () => {
+    if (!draft.name.trim()) {
+      setMessage({ type: 'error', text: t.invalid });
+      return;
+    }
+
+    // Statement days and limit only apply to credit cards
+    const fields = {
+      name: draft.name.trim(),
+      type: draft.type,
+      currency: draft.currency,
+      openingBalance: parseAmount(draft.openingBalance),
+      statementDay: isCredit && draft.statementDay ? Number(draft.statementDay) : undefined,
+      dueDay: isCredit && draft.dueDay ? Number(draft.dueDay) : undefined,
+      creditLimit: isCredit && draft.creditLimit ? parseAmount(draft.creditLimit) : undefined,
+    };
+    const ok = editingId ? await updateAccount(editingId, fields) : !!(await addAccount({ ...fields, isActive: true }));
+    if (ok) handleCancel();
+    setMessage(ok ? { type: 'success', text: editingId ? t.saved : t.added } : { type: 'error', text: t.invalid });
+  };
+
+  const handleDelete = async (id: string) => {
+    setMessage(null);
+    if (!(await deleteAccount(id))) setMessage({ type: 'error', text: t.inUse });
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-slate-600 dark:text-slate-400">{t.description}</p>
+
+      {balances.length === 0 ? (
+        <p className="text-xs text-slate-500 dark:text-slate-400">{t.none}</p>
+      ) : (
+        <ul className="divide-y divide-slate-200 dark:divide-slate-700 text-xs">
+          {balances.map(({ account, balance }) => (
+            <li key={account.id} className="flex items-center justify-between gap-3 py-1.5">
+              <span className={`font-medium ${account.isActive ? 'text-slate-900 dark:text-white' : 'text-slate-400'}`}>
+                {account.name}{' '}
+                <span className="font-normal text-slate-500 dark:text-slate-400">
+                  {t.types[account.type]}{account.isActive ? '' : ` · ${t.closed}`}
+                </span>
+              </span>
+              <span className="flex-1 text-right text-slate-700 dark:text-slate-300 tabular-nums">
+                {formatCurrency(balance, account.currency, settings.language)}
+              </span>
+              <button
+                type="button"
+                onClick={() => handleEdit(account)}
+                className="text-slate-400 hover:text-indigo-600"
+                aria-label={`${t.edit} ${account.name}`}
+              >
+                <Pencil size={14} />
+              </button>
+              <button
+                type="button"
+                onClick={() => updateAccount(account.id, { isActive: !account.isActive })}
+                className="text-slate-500 hover:text-indigo-600"
+              >
+                {account.isActive ? t.close : t.reopen}
+              </button>
+              <button
+                type="button"
+                onClick={() => handleDelete(account.id)}
+                className="text-slate-400 hover:text-rose-600"
+                aria-label={account.name}
+              >
+                <Trash2 size={14} />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+        <Input
+          label={t.name}
+          placeholder={settings.language === 'tr' ? 'Maaş hesabı' : 'Salary account'}
+          value={draft.name}
+          onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+        />
+        <Select
+          label={t.type}
+          value={draft.type}
+          onChange={(e) => setDraft({ ...draft, type: e.target.value as AccountType })}
+          options={ACCOUNT_TYPES.map((type) => ({ value: type, label: t.types[type] }))}
+        />
+        <Select
+          label={t.currency}
+          value={draft.currency}
+          onChange={(e) => setDraft({ ...draft, currency: e.target.value })}
+          options={enabledCurrencies(settings).map(currencyOption)}
+        />
+        <Input
+          label={t.openingBalance}
+          inputMode="decimal"
+          placeholder="0"
+          value={draft.openingBalance}
+          onChange={(e) => setDraft({ ...draft, openingBalance: e.target.value })}
+        />
+        {isCredit && (
+          <>
+            <Select
+              label={t.statementDay}
+              value={draft.statementDay}
+              onChange={(e) => setDraft({ ...draft, statementDay: e.target.value })}
+              options={[{ value: '', label: '-' }, ...DAYS.map((day) => ({ value: day, label: day }))]}
+            />
+            <Select
+              label={t.dueDay}
+              value={draft.dueDay}
+              onChange={(e) => setDraft({ ...draft, dueDay: e.target.value })}
+              options={[{ value: '', label: '-' }, ...DAYS.map((day) => ({ value: day, label: day }))]}
+            />
+            <Input
+              label={t.creditLimit}
+              inputMode="decimal"
+              value={draft.creditLimit}
+              onChange={(e) => setDraft({ ...draft, creditLimit: e.target.value })}
+            />
+          </>
+        )}
+      </div>
+      <div className="flex gap-2">
+        <Button variant="outline" size="sm" onClick={handleSubmit}>
+          <span className="flex items-center gap-1.5">
+            {editingId ? <Save size={14} /> : <Plus size={14} />}
+            {editingId ? t.save : t.add}
+          </span>
+        </Button>
+        {editingId && (
+          <Button variant="ghost" size="sm" onClick={handleCancel}>
+            {t.cancel}
+          </Button>
+        )}
+      </div>
+
+      {message && (
+        <p
+          className={`text-xs font-medium ${
+            message.type === 'success' ? 'text-emerald-600 dark:text-emerald-400' : 'text-rose-600 dark:text-rose-400'
+          }`}
+        >
+          {message.text}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,153 @@
+import { useMemo } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import type { Transaction, CurrencyCode } from '../../types';
+import { useFinance } from '../../hooks/useFinance';
+import { Card } from '../ui/Card';
+import { formatCurrency } from '../../utils/formatters';
+import { buildFxGainReport } from '../../utils/fxGains';
+
+interface FxGainPanelProps {
+  transactions: Transaction[];
+  language: 'tr' | 'en';
+  currency: CurrencyCode;
+}
+
+const LINES = {
+  costBasis: '#64748b',
+  marketValue: '#3b82f6',
+  realValue: '#f59e0b',
+};
+
+/**
+ * Realized and unrealized FX gain/loss on savings held in foreign
+ * currencies, with the inflation-adjusted value of the holdings over time
+ */
+export function FxGainPanel({ transactions, language, currency }: FxGainPanelProps) {
+  const { settings, valuation } = useFinance();
+
+  const report = useMemo(
+    () => buildFxGainReport(transactions, currency, { history: valuation.history, inflationRate: settings.inflationRate }),
+    [transactions, currency, valuation.history, settings.inflationRate]
+  );
+
+  const texts = {
+    tr: {
+      title: 'Döviz ve Altın Kazanç / Kayıp',
+      description: 'Yabancı para birimi, altın ve diğer birimlerdeki birikimlerin maliyeti, bugünkü değeri ve kur farkı (ortalama maliyet).',
+      currency: 'Para Birimi',
+      held: 'Eldeki',
+      costBasis: 'Maliyet',
+      marketValue: 'Güncel Değer',
+      unrealized: 'Gerçekleşmemiş',
+      realized: 'Gerçekleşen',
+      realValue: 'Reel Değer',
+      realHint: 'Reel değer, güncel değerin yıllık %{rate} enflasyonla düzeltilmiş hâlidir.',
+    },
+    en: {
+      title: 'FX & Gold Gain / Loss',
+      description: 'Cost, current value and gain of savings held in foreign currencies, gold and other units (average cost).',
+      currency: 'Currency',
+      held: 'Held',
+      costBasis: 'Cost Basis',
+      marketValue: 'Market Value',
+      unrealized: 'Unrealized',
+      realized: 'Realized',
+      realValue: 'Real Value',
+      realHint: 'Real value is the market value adjusted for {rate}% annual inflation.',
+    },
+  };
+
+  const t = texts[language];
+
+  if (report.positions.length === 0) return null;
+
+  const latest = report.series[report.series.length - 1];
+  const gainClass = (value: number) =>
+    value >= 0 ? 'text-emerald-600 dark:text-emerald-400' : 'text-rose-600 dark:text-rose-400';
+
+  return (
+    <Card className="p-6">
+      <h3 className="text-lg font-semibold text-slate-900 dark:text-white">{t.title}</h3>
+      <p className="text-sm text-slate-600 dark:text-slate-400 mb-4">{t.description}</p>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-6">
+        {([
+          ['costBasis', latest.costBasis, 'text-slate-900 dark:text-white'],
+          ['marketValue', latest.marketValue, 'text-slate-900 dark:text-white'],
+          ['unrealized', latest.unrealized, gainClass(latest.unrealized)],
+          ['realized', latest.realized, gainClass(latest.realized)],
+          ['realValue', latest.realValue, 'text-amber-600 dark:text-amber-400'],
+        ] as const).map(([key, value, className]) => (
+          <div key={key}>
+            <p className="text-xs font-medium text-slate-500 dark:text-slate-400 uppercase">{t[key]}</p>
+            <p className={`text-lg font-bold mt-1 ${className}`}>{formatCurrency(value, currency, language)}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="overflow-x-auto mb-6">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-slate-500 dark:text-slate-400 uppercase">
+              <th className="py-2 pr-3">{t.currency}</th>
+              <th className="py-2 pr-3 text-right">{t.held}</th>
+              <th className="py-2 pr-3 text-right">{t.costBasis}</th>
+              <th className="py-2 pr-3 text-right">{t.marketValue}</th>
+              <th className="py-2 pr-3 text-right">{t.unrealized}</th>
+              <th className="py-2 text-right">{t.realized}</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-200 dark:divide-slate-700 tabular-nums">
+            {report.positions.map((position) => (
+              <tr key={position.currency} className="text-slate-700 dark:text-slate-300">
+                <td className="py-2 pr-3 font-medium text-slate-900 dark:text-white">{position.currency}</td>
+                <td className="py-2 pr-3 text-right">{formatCurrency(position.units, position.currency, language)}</td>
+                <td className="py-2 pr-3 text-right">{formatCurrency(position.costBasis, currency, language)}</td>
+                <td className="py-2 pr-3 text-right">{formatCurrency(position.marketValue, currency, language)}</td>
+                <td className={`py-2 pr-3 text-right ${gainClass(position.unrealized)}`}>
+                  {formatCurrency(position.unrealized, currency, language)}
+                </td>
+                <td className={`py-2 text-right ${gainClass(position.realized)}`}>
+                  {formatCurrency(position.realized, currency, language)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <ResponsiveContainer width="100%" height={260}>
+        <LineChart data={report.series}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#334155" opacity={0.1} />
+          <XAxis dataKey="month" stroke="#64748b" fontSize={12} tick={{ fill: '#64748b' }} />
+          <YAxis
+            stroke="#64748b"
+            fontSize={12}
+            tick={{ fill: '#64748b' }}
+            tickFormatter={(value) => `${(value / 1000).toFixed(0)}K`}
+          />
+          <Tooltip
+            contentStyle={{
+              backgroundColor: '#1e293b',
+              border: '1px solid #334155',
+              borderRadius: '8px',
+              fontSize: '12px'
+            }}
+            formatter={(value: number) => formatCurrency(value, currency, language)}
+          />
+          <Legend
+            wrapperStyle={{ fontSize: '12px' }}
+            formatter={(value) => t[value as keyof typeof LINES] ?? value}
+          />
+          {(Object.keys(LINES) as Array<keyof typeof LINES>).map((key) => (
+            <Line key={key} type="monotone" dataKey={key} stroke={LINES[key]} strokeWidth={2} dot={false} />
+          ))}
+        </LineChart>
+      </ResponsiveContainer>
+
+      <p className="text-xs text-slate-500 dark:text-slate-400 mt-2">
+        {t.realHint.replace('{rate}', String(settings.inflationRate))}
+      </p>
+    </Card>
+  );
+}
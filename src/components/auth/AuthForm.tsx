@@ -4,6 +4,7 @@ import { Button } from '../ui/Button';
 import { Input } from '../ui/Input';
 import { Card } from '../ui/Card';
 import { signIn, signUp, resetPassword } from '../../lib/supabase';
+import { useAuth } from '../../context/AuthContext';
 
 interface AuthFormProps {
   language?: 'tr' | 'en';
@@ -29,6 +30,7 @@ export function AuthForm({ language: providedLanguage }: AuthFormProps) {
   };
 
   const language = getLanguage();
+  const { enableLocalMode } = useAuth();
   const [mode, setMode] = useState<AuthMode>('signin');
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
@@ -60,6 +62,8 @@ export function AuthForm({ language: providedLanguage }: AuthFormProps) {
       invalidEmail: 'Geçerli bir e-posta adresi girin.',
       passwordMismatch: 'Şifreler eşleşmiyor.',
       passwordTooShort: 'Şifre en az 6 karakter olmalıdır.',
+      continueOffline: 'Hesapsız devam et',
+      continueOfflineHint: 'Verileriniz yalnızca bu cihazda saklanır. İstediğiniz zaman giriş yapabilirsiniz.',
     },
     en: {
       signin: 'Sign In',
@@ -78,6 +82,8 @@ export function AuthForm({ language: providedLanguage }: AuthFormProps) {
       invalidEmail: 'Please enter a valid email address.',
       passwordMismatch: 'Passwords do not match.',
       passwordTooShort: 'Password must be at least 6 characters.',
+      continueOffline: 'Continue without an account',
+      continueOfflineHint: 'Your data stays on this device. You can sign in at any time.',
     },
   };
 
@@ -343,6 +349,19 @@ export function AuthForm({ language: providedLanguage }: AuthFormProps) {
               <span>{t.backToSignin}</span>
             </button>
           )}
+
+          {/* Local-only mode */}
+          <div className="pt-4 border-t border-slate-800 text-center space-y-1">
+            <button
+              type="button"
+              onClick={enableLocalMode}
+              disabled={isLoading}
+              className="text-sm text-slate-300 hover:text-white font-medium transition-colors disabled:opacity-50"
+            >
+              {t.continueOffline} →
+            </button>
+            <p className="text-xs text-slate-500">{t.continueOfflineHint}</p>
+          </div>
         </div>
       </Card>
     </div>
@@ -1,6 +1,7 @@
 import { AlertTriangle } from 'lucide-react';
 import { formatCurrency } from '../../utils/formatters';
 import { translateCategory } from '../../utils/i18n';
+import type { CurrencyCode } from '../../types';
 
 interface BudgetProgressBarProps {
   category: string;
@@ -9,7 +10,7 @@ interface BudgetProgressBarProps {
   percentage: number;
   exceeded: boolean;
   alertThreshold: number;
-  currency: 'TRY' | 'USD' | 'EUR' | 'GBP';
+  currency: CurrencyCode;
   language: 'tr' | 'en';
 }
 
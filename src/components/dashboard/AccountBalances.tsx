@@ -0,0 +1,86 @@
+import { useMemo } from 'react';
+import { Banknote, CreditCard, Landmark, LineChart } from 'lucide-react';
+import type { Account, AccountType, CurrencyCode, Transaction } from '../../types';
+import { useFinance } from '../../hooks/useFinance';
+import { Card } from '../ui/Card';
+import { formatCurrency } from '../../utils/formatters';
+import { convertAt } from '../../utils/exchange';
+import { sumAmounts } from '../../utils/money';
+import { accountBalances } from '../../utils/accounts';
+
+interface AccountBalancesProps {
+  accounts: Account[];
+  transactions: Transaction[];
+  currency: CurrencyCode;
+  language: 'tr' | 'en';
+  selectedMonth: number;
+  selectedYear: number;
+}
+
+const ICONS: Record<AccountType, typeof Landmark> = {
+  bank: Landmark,
+  credit: CreditCard,
+  cash: Banknote,
+  brokerage: LineChart,
+};
+
+/**
+ * Balance of every open account at the end of the selected month, each in
+ * its own currency, and their total in the display currency
+ */
+export function AccountBalances({ accounts, transactions, currency, language, selectedMonth, selectedYear }: AccountBalancesProps) {
+  const { valuation } = useFinance();
+
+  const lastDay = new Date(selectedYear, selectedMonth + 1, 0).getDate();
+  const monthEnd = `${selectedYear}-${String(selectedMonth + 1).padStart(2, '0')}-${String(lastDay).padStart(2, '0')}`;
+
+  const balances = useMemo(
+    () => accountBalances(accounts.filter((account) => account.isActive), transactions, valuation, monthEnd),
+    [accounts, transactions, valuation, monthEnd]
+  );
+
+  const total = sumAmounts(
+    balances.map(({ account, balance }) => convertAt(balance, account.currency, currency, monthEnd, valuation)),
+    currency
+  );
+
+  const texts = {
+    tr: { title: 'Hesaplar', total: 'Toplam' },
+    en: { title: 'Accounts', total: 'Total' },
+  };
+
+  const t = texts[language];
+
+  if (balances.length === 0) return null;
+
+  return (
+    <Card className="p-4 mb-6">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-semibold text-slate-900 dark:text-white">{t.title}</h3>
+        <p className="text-sm text-slate-600 dark:text-slate-400">
+          {t.total}: <span className="font-bold text-slate-900 dark:text-white">{formatCurrency(total, currency, language)}</span>
+        </p>
+      </div>
+      <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-3">
+        {balances.map(({ account, balance }) => {
+          const Icon = ICONS[account.type];
+          return (
+            <div key={account.id} className="flex items-center gap-3 rounded-lg bg-slate-50 dark:bg-slate-800/50 p-3 min-w-0">
+              <Icon className="text-slate-500 dark:text-slate-400 flex-shrink-0" size={18} />
+              <div className="min-w-0">
+                <p className="text-xs text-slate-500 dark:text-slate-400 truncate">{account.name}</p>
+                <p
+                  className={`text-sm font-bold truncate ${
+                    balance < 0 ? 'text-rose-600 dark:text-rose-400' : 'text-slate-900 dark:text-white'
+                  }`}
+                >
+                  {formatCurrency(balance, account.currency, language)}
+                </p>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </Card>
+  );
+}
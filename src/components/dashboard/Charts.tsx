@@ -1,13 +1,13 @@
-import { useMemo } from 'react';
+import { useCallback, useMemo } from 'react';
 import { LineChart, Line, ComposedChart, Bar, PieChart, Pie, Cell, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
-import type { Transaction } from '../../types';
 import { Card } from '../ui/Card';
+import { SkeletonChart } from '../ui/Skeleton';
 import { formatCurrency } from '../../utils/formatters';
 import { t } from '../../utils/i18n';
-import { convertCurrency } from '../../utils/exchange';
+import { accumulateBalances, type MonthlyTotals } from '../../utils/aggregations';
 
 interface ChartsProps {
-  transactions: Transaction[];
+  monthlyTotals: MonthlyTotals[] | null;   // Oldest first; null while loading
   currency: string;
   language: 'tr' | 'en';
   theme?: 'light' | 'dark';
@@ -15,6 +15,13 @@ interface ChartsProps {
   selectedYear?: number;
 }
 
+interface ChartMonth {
+  income: number;
+  expense: number;
+  savings: number;
+  month: string;        // Display label
+}
+
 const COLORS = {
   income: '#10b981',
   expense: '#ef4444',
@@ -51,7 +58,7 @@ const CustomTooltip = ({ active, payload, label }: any) => {
   );
 };
 
-export function Charts({ transactions, currency, language, theme = 'light', selectedMonth = 0, selectedYear = 2024 }: ChartsProps) {
+export function Charts({ monthlyTotals, currency, language, theme = 'light', selectedMonth = 0, selectedYear = 2024 }: ChartsProps) {
   // Custom bar label that formats to currency (2 decimals) - only shows if value > 0
   const renderBarLabel = (props: any) => {
     const { x, y, value, width } = props;
@@ -78,76 +85,47 @@ export function Charts({ transactions, currency, language, theme = 'light', sele
   };
   
   // IMPORTANT: All hooks must be called before any conditional returns
-  // Calculate monthly data - all months
-  const { monthlyList, monthlyMap } = useMemo(() => {
-    const dataByMonth: Record<string, { income: number; expense: number; savings: number; month: string }> = {};
-    
-    transactions.forEach((t) => {
-      const date = new Date(t.date);
-      const monthKey = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
-      const from = (t as any).originalCurrency || 'TRY';
-      const amt = from === currency ? t.amount : convertCurrency(t.amount, from, currency);
-      
-      if (!dataByMonth[monthKey]) {
-        const locale = language === 'tr' ? 'tr-TR' : 'en-US';
-        dataByMonth[monthKey] = { 
-          income: 0, 
-          expense: 0,
-          savings: 0,
-          month: new Date(date.getFullYear(), date.getMonth(), 1).toLocaleDateString(locale, { month: 'short', year: 'numeric' })
-        };
-      }
-      
-      if (t.type === 'income') {
-        dataByMonth[monthKey].income += amt;
-      } else if (t.type === 'expense') {
-        dataByMonth[monthKey].expense += amt;
-      } else if (t.type === 'savings') {
-        dataByMonth[monthKey].savings += amt;
-      } else if (t.type === 'withdrawal') {
-        dataByMonth[monthKey].savings -= amt;
-      }
-    });
+  const monthLabel = useCallback((monthKey: string) => {
+    const [year, month] = monthKey.split('-').map(Number);
+    const locale = language === 'tr' ? 'tr-TR' : 'en-US';
+    return new Date(year, month - 1, 1).toLocaleDateString(locale, { month: 'short', year: 'numeric' });
+  }, [language]);
 
-    const monthlyList = Object.entries(dataByMonth)
-      .sort(([a], [b]) => a.localeCompare(b))
-      .map(([_, data]) => data);
+  // Savings are shown net of withdrawals
+  const monthlyMap = useMemo(() => {
+    const dataByMonth: Record<string, ChartMonth> = {};
+    for (const m of monthlyTotals ?? []) {
+      dataByMonth[m.month] = {
+        income: m.income,
+        expense: m.expense,
+        savings: m.savings - m.withdrawal,
+        month: monthLabel(m.month),
+      };
+    }
+    return dataByMonth;
+  }, [monthlyTotals, monthLabel]);
 
-    return { monthlyList, monthlyMap: dataByMonth };
-  }, [transactions, currency, language]);
-  
   // Get only selected month data for cash flow and pie chart
   const selectedMonthData = useMemo(() => {
-    const date = new Date(selectedYear, selectedMonth, 1);
-    const monthKey = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+    const monthKey = `${selectedYear}-${String(selectedMonth + 1).padStart(2, '0')}`;
     return monthlyMap[monthKey] || { income: 0, expense: 0, savings: 0, month: 'N/A' };
   }, [monthlyMap, selectedMonth, selectedYear]);
 
   const recentThreeMonths = useMemo(() => {
-    const items = [] as { income: number; expense: number; savings: number; month: string }[];
-    const locale = language === 'tr' ? 'tr-TR' : 'en-US';
+    const items = [] as ChartMonth[];
     for (let i = 2; i >= 0; i -= 1) {
       const date = new Date(selectedYear, selectedMonth - i, 1);
       const key = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
-      const label = date.toLocaleDateString(locale, { month: 'short', year: 'numeric' });
-      items.push(
-        monthlyMap[key] || { income: 0, expense: 0, savings: 0, month: label }
-      );
+      items.push(monthlyMap[key] || { income: 0, expense: 0, savings: 0, month: monthLabel(key) });
     }
     return items;
-  }, [monthlyMap, selectedMonth, selectedYear, language]);
+  }, [monthlyMap, selectedMonth, selectedYear, monthLabel]);
 
-  // Calculate cumulative wealth
-  const wealthData = useMemo(() => {
-    let cumulative = 0;
-    return monthlyList.map((month) => {
-      cumulative += month.income - month.expense;
-      return {
-        ...month,
-        wealth: cumulative,
-      };
-    });
-  }, [monthlyList]);
+  // Cumulative wealth (income - expense) at the end of each month
+  const wealthData = useMemo(
+    () => accumulateBalances(monthlyTotals ?? []).map((b) => ({ month: monthLabel(b.month), wealth: b.net })),
+    [monthlyTotals, monthLabel]
+  );
 
   // Prepare pie chart data
   const pieData = useMemo(() => {
@@ -181,7 +159,17 @@ export function Charts({ transactions, currency, language, theme = 'light', sele
   }, [selectedMonthData, language]);
 
   // NOW we can do conditional rendering after all hooks have been called
-  if (transactions.length === 0) {
+  if (!monthlyTotals) {
+    return (
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+        <SkeletonChart />
+        <SkeletonChart />
+        <SkeletonChart />
+      </div>
+    );
+  }
+
+  if (monthlyTotals.length === 0) {
     return (
       <Card className="p-8 text-center">
         <p className="text-slate-500 dark:text-slate-400">
@@ -0,0 +1,217 @@
+import { useMemo, useState } from 'react';
+import { CreditCard } from 'lucide-react';
+import type { Account, Transaction } from '../../types';
+import { useFinance } from '../../hooks/useFinance';
+import { Card } from '../ui/Card';
+import { Button } from '../ui/Button';
+import { Select } from '../ui/Select';
+import { formatCurrency, formatDateShort } from '../../utils/formatters';
+import { negate, toAmount } from '../../utils/money';
+import { accountDelta } from '../../utils/accounts';
+import { buildStatements, daysUntilDue, hasStatements } from '../../utils/statements';
+
+interface CreditCardStatementsProps {
+  accounts: Account[];
+  transactions: Transaction[];
+  language: 'tr' | 'en';
+}
+
+const texts = {
+  tr: {
+    title: 'Kredi Kartları',
+    owed: 'Güncel borç',
+    available: 'Kullanılabilir limit',
+    cycle: 'Dönem',
+    current: 'açık dönem',
+    statement: 'Ekstre',
+    due: 'Son ödeme',
+    paid: 'Ödenen',
+    remaining: 'Kalan',
+    settled: 'Ödendi',
+    dueIn: '{days} gün kaldı',
+    dueToday: 'Bugün son gün',
+    overdue: '{days} gün gecikti',
+    from: 'Ödenecek hesap',
+    pay: 'Ekstreyi Öde',
+    noPurchases: 'Bu dönemde harcama yok.',
+  },
+  en: {
+    title: 'Credit Cards',
+    owed: 'Owed now',
+    available: 'Available credit',
+    cycle: 'Cycle',
+    current: 'open cycle',
+    statement: 'Statement',
+    due: 'Due',
+    paid: 'Paid',
+    remaining: 'Remaining',
+    settled: 'Paid',
+    dueIn: '{days} days left',
+    dueToday: 'Due today',
+    overdue: '{days} days overdue',
+    from: 'Pay from',
+    pay: 'Pay Statement',
+    noPurchases: 'No purchases in this cycle.',
+  },
+};
+
+/**
+ * Statements of every open credit card with closing and due days: what's
+ * owed against the limit, the latest statement and its due date, paying it
+ * from another account, and the purchases of each cycle
+ */
+export function CreditCardStatements({ accounts, transactions, language }: CreditCardStatementsProps) {
+  const cards = accounts.filter((account) => account.isActive && hasStatements(account));
+  if (cards.length === 0) return null;
+
+  return (
+    <Card className="p-4 mb-6">
+      <h3 className="text-sm font-semibold text-slate-900 dark:text-white mb-3">{texts[language].title}</h3>
+      <div className="space-y-4 divide-y divide-slate-200 dark:divide-slate-700">
+        {cards.map((card) => (
+          <CardStatements key={card.id} card={card} accounts={accounts} transactions={transactions} language={language} />
+        ))}
+      </div>
+    </Card>
+  );
+}
+
+interface CardStatementsProps {
+  card: Account;
+  accounts: Account[];
+  transactions: Transaction[];
+  language: 'tr' | 'en';
+}
+
+function CardStatements({ card, accounts, transactions, language }: CardStatementsProps) {
+  const { valuation, payStatement } = useFinance();
+  const t = texts[language];
+
+  const statements = useMemo(() => buildStatements(card, transactions, valuation), [card, transactions, valuation]);
+  const payFrom = accounts.filter((account) => account.isActive && account.id !== card.id);
+  const [chosenFrom, setChosenFrom] = useState('');
+  const fromAccountId = payFrom.some((account) => account.id === chosenFrom) ? chosenFrom : payFrom[0]?.id ?? '';
+  const [isPaying, setIsPaying] = useState(false);
+
+  // The latest closed statement is shown by default, the open cycle when there's none yet
+  const closed = statements.filter((statement) => statement.isClosed);
+  const latest = closed[closed.length - 1];
+  const [selected, setSelected] = useState<string | null>(null);
+  const shown = statements.find((statement) => statement.closingDate === selected) ?? latest ?? statements[statements.length - 1];
+  const owed = statements[statements.length - 1]?.balance ?? 0;
+  const formatAmount = (amount: number) => formatCurrency(amount, card.currency, language);
+
+  const handlePay = async () => {
+    if (!latest || !fromAccountId) return;
+    setIsPaying(true);
+    await payStatement(latest, fromAccountId);
+    setIsPaying(false);
+  };
+
+  const dueStatus = () => {
+    if (!latest || latest.remaining <= 0) return { text: t.settled, className: 'text-emerald-600 dark:text-emerald-400' };
+    const days = daysUntilDue(latest);
+    if (days < 0) return { text: t.overdue.replace('{days}', String(-days)), className: 'text-rose-600 dark:text-rose-400' };
+    return {
+      text: days === 0 ? t.dueToday : t.dueIn.replace('{days}', String(days)),
+      className: days <= 3 ? 'text-amber-600 dark:text-amber-400' : 'text-slate-600 dark:text-slate-400',
+    };
+  };
+
+  return (
+    <div className="pt-4 first:pt-0 space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="flex items-center gap-2 text-sm font-medium text-slate-900 dark:text-white">
+          <CreditCard size={16} className="text-slate-500 dark:text-slate-400" />
+          {card.name}
+        </p>
+        <p className="text-xs text-slate-600 dark:text-slate-400">
+          {t.owed}: <span className="font-semibold text-slate-900 dark:text-white">{formatAmount(owed)}</span>
+          {card.creditLimit ? (
+            <> · {t.available}: <span className="font-semibold text-slate-900 dark:text-white">{formatAmount(card.creditLimit - owed)}</span></>
+          ) : null}
+        </p>
+      </div>
+
+      {card.creditLimit ? (
+        <div className="h-1.5 rounded-full bg-slate-200 dark:bg-slate-700 overflow-hidden">
+          <div
+            className={`h-full ${owed > card.creditLimit * 0.8 ? 'bg-rose-500' : 'bg-sky-500'}`}
+            style={{ width: `${Math.min(100, Math.max(0, (owed / card.creditLimit) * 100))}%` }}
+          />
+        </div>
+      ) : null}
+
+      {latest && (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-xs">
+          <div>
+            <p className="text-slate-500 dark:text-slate-400">{t.statement} ({formatDateShort(latest.closingDate, language)})</p>
+            <p className="text-sm font-bold text-slate-900 dark:text-white">{formatAmount(latest.balance)}</p>
+          </div>
+          <div>
+            <p className="text-slate-500 dark:text-slate-400">{t.due}</p>
+            <p className="text-sm font-bold text-slate-900 dark:text-white">{formatDateShort(latest.dueDate, language)}</p>
+            <p className={dueStatus().className}>{dueStatus().text}</p>
+          </div>
+          <div>
+            <p className="text-slate-500 dark:text-slate-400">{t.paid}</p>
+            <p className="text-sm font-bold text-slate-900 dark:text-white">{formatAmount(latest.paid)}</p>
+          </div>
+          <div>
+            <p className="text-slate-500 dark:text-slate-400">{t.remaining}</p>
+            <p className="text-sm font-bold text-slate-900 dark:text-white">{formatAmount(latest.remaining)}</p>
+          </div>
+        </div>
+      )}
+
+      {latest && latest.remaining > 0 && payFrom.length > 0 && (
+        <div className="flex flex-wrap items-end gap-2">
+          <Select
+            label={t.from}
+            value={fromAccountId}
+            onChange={(e) => setChosenFrom(e.target.value)}
+            options={payFrom.map((account) => ({ value: account.id, label: account.name }))}
+          />
+          <Button size="sm" onClick={handlePay} disabled={isPaying || !fromAccountId}>
+            {t.pay} ({formatAmount(latest.remaining)})
+          </Button>
+        </div>
+      )}
+
+      {shown && (
+        <div className="space-y-2">
+          <Select
+            label={t.cycle}
+            value={shown.closingDate}
+            onChange={(e) => setSelected(e.target.value)}
+            options={[...statements].reverse().map((statement) => ({
+              value: statement.closingDate,
+              label: `${formatDateShort(statement.periodStart, language)} – ${formatDateShort(statement.closingDate, language)}${
+                statement.isClosed ? '' : ` (${t.current})`
+              }`,
+            }))}
+          />
+          {shown.purchases.length === 0 ? (
+            <p className="text-xs text-slate-500 dark:text-slate-400">{t.noPurchases}</p>
+          ) : (
+            <ul className="divide-y divide-slate-200 dark:divide-slate-700 text-xs">
+              {shown.purchases.map((purchase) => (
+                <li key={purchase.id} className="flex items-center justify-between gap-3 py-1.5">
+                  <span className="text-slate-500 dark:text-slate-400 w-20 flex-shrink-0">{formatDateShort(purchase.date, language)}</span>
+                  <span className="flex-1 truncate text-slate-900 dark:text-white">{purchase.title || '-'}</span>
+                  <span className="tabular-nums text-slate-700 dark:text-slate-300">
+                    {formatAmount(toAmount(negate(accountDelta(purchase, card, valuation))))}
+                  </span>
+                </li>
+              ))}
+              <li className="flex items-center justify-between gap-3 py-1.5 font-semibold text-slate-900 dark:text-white">
+                <span />
+                <span className="tabular-nums">{formatAmount(shown.charges)}</span>
+              </li>
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
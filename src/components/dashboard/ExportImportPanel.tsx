@@ -2,11 +2,13 @@ import { useState, useRef } from 'react';
 import { Download, Upload } from 'lucide-react';
 import { Button } from '../ui/Button';
 import { useFinance } from '../../hooks/useFinance';
+import { useTransactionHistory } from '../../hooks/useTransactionHistory';
 import { useDataExportImport } from '../../hooks/useDataExportImport';
 import { t } from '../../utils/i18n';
 
 export function ExportImportPanel() {
-  const { transactions, settings, importData } = useFinance();
+  const { settings, importData } = useFinance();
+  const { transactions } = useTransactionHistory();
   const { downloadJSON, importFromJSON, importFromCSV } = useDataExportImport();
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [status, setStatus] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
@@ -47,7 +49,7 @@ export function ExportImportPanel() {
       if (fileType === 'json') {
         result = importFromJSON(fileContent);
       } else {
-        result = importFromCSV(fileContent);
+        result = importFromCSV(fileContent, settings.currency);
       }
 
       if (result.success && result.data) {
@@ -3,13 +3,13 @@ import { Badge } from '../ui/Badge';
 import { Trash2, Edit2 } from 'lucide-react';
 import { formatCurrency, formatDateShort } from '../../utils/formatters';
 import { t } from '../../utils/i18n';
-import { convertCurrency } from '../../utils/exchange';
 import type { Transaction } from '../../types';
 
 interface RecentTransactionsProps {
   transactions: Transaction[];
   currency: string;
   language: string;
+  getDisplayAmount: (transaction: Transaction) => number;
   onDelete: (id: string) => void;
   onEdit?: (transaction: Transaction) => void;
   limit?: number;
@@ -19,6 +19,7 @@ export function RecentTransactions({
   transactions,
   currency,
   language,
+  getDisplayAmount,
   onDelete,
   onEdit,
   limit = 5,
@@ -40,10 +41,7 @@ export function RecentTransactions({
         <div className="space-y-3">
           {recent.map((transaction) => {
             if (!transaction) return null;
-          const originalCurrency = ((transaction as any).originalCurrency as string | undefined) || 'TRY';
-          const amountDisplay = originalCurrency !== currency
-            ? convertCurrency(transaction.amount, originalCurrency, currency)
-            : transaction.amount;
+          const amountDisplay = getDisplayAmount(transaction);
           return (
           <div
             key={transaction.id}
@@ -75,15 +73,17 @@ export function RecentTransactions({
                   transaction.type === 'income' ? 'text-emerald-600 dark:text-emerald-400' : 
                   transaction.type === 'savings' ? 'text-purple-600 dark:text-purple-400' :
                   transaction.type === 'withdrawal' ? 'text-orange-600 dark:text-orange-400' :
+                  transaction.type === 'transfer' ? 'text-sky-600 dark:text-sky-400' :
                   'text-rose-600 dark:text-rose-400'
                 }`}>
-                  {transaction.type === 'income' ? '+' : '-'}
+                  {transaction.type === 'income' ? '+' : transaction.type === 'transfer' ? '' : '-'}
                   {formatCurrency(amountDisplay, currency as any)}
                 </p>
                 <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
                   {transaction.type === 'income' ? (language === 'tr' ? 'Gelir' : 'Income') :
                    transaction.type === 'savings' ? (language === 'tr' ? 'Tasarruf' : 'Savings') :
                    transaction.type === 'withdrawal' ? (language === 'tr' ? 'Tasarruftan Çıkış' : 'Withdrawal') :
+                   transaction.type === 'transfer' ? (language === 'tr' ? 'Transfer' : 'Transfer') :
                    (language === 'tr' ? 'Gider' : 'Expense')}
                 </p>
               </div>
@@ -1,17 +1,26 @@
 import { Card } from '../ui/Card';
+import { SkeletonSummaryCard } from '../ui/Skeleton';
 import { formatCurrency, formatPercentage } from '../../utils/formatters';
 import { t } from '../../utils/i18n';
 import { type FinancialSummary } from '../../types';
 import { TrendingUp, TrendingDown, Wallet, Target } from 'lucide-react';
 
 interface SummaryCardsProps {
-  summary: FinancialSummary;
+  summary: FinancialSummary | null;   // Null while totals are being computed
   currency: string;
   language: 'tr' | 'en';
   cumulativeWealth?: number;
 }
 
 export function SummaryCards({ summary, currency, language, cumulativeWealth = summary?.netWorth ?? 0 }: SummaryCardsProps) {
+  if (!summary) {
+    return (
+      <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4 mb-6">
+        {[...Array(6)].map((_, i) => <SkeletonSummaryCard key={i} />)}
+      </div>
+    );
+  }
+
   return (
     <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4 mb-6">
       {/* Total Income Card */}
@@ -115,6 +124,11 @@ export function SummaryCards({ summary, currency, language, cumulativeWealth = s
             }`}>
               {formatCurrency(cumulativeWealth ?? 0, currency as any)}
             </p>
+            {summary.netWorthCost !== undefined && summary.netWorthCost !== cumulativeWealth && (
+              <p className="text-xs text-slate-500 dark:text-slate-400 truncate">
+                {language === 'tr' ? 'Maliyet' : 'Cost'}: {formatCurrency(summary.netWorthCost, currency)}
+              </p>
+            )}
           </div>
           <div className={`p-1.5 rounded-md flex-shrink-0 ${
             (cumulativeWealth ?? 0) >= 0 
@@ -0,0 +1,236 @@
+import { useState } from 'react';
+import { ShieldCheck, Wrench } from 'lucide-react';
+import { useFinance } from '../../hooks/useFinance';
+import { Button } from '../ui/Button';
+import {
+  INTEGRITY_ISSUE_TYPES,
+  countIssues,
+  type IntegrityIssue,
+  type IntegrityIssueType,
+} from '../../utils/integrity';
+import type { RecordChange } from '../../utils/undoJournal';
+import { diffFields } from '../../utils/versioning';
+
+// Planned changes listed in a dry run before "and N more"
+const DRY_RUN_LIMIT = 10;
+
+/**
+ * Scans the local store for inconsistent records and repairs them by type,
+ * optionally as a dry run that only lists what would change
+ */
+export function IntegrityPanel() {
+  const { settings, checkIntegrity, repairIntegrity } = useFinance();
+  const [issues, setIssues] = useState<IntegrityIssue[] | null>(null);
+  const [dryRun, setDryRun] = useState(true);
+  const [planned, setPlanned] = useState<RecordChange[] | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const texts = {
+    tr: {
+      description: 'Tüm kayıtları tutarsızlıklara karşı tarar. Onarımdan önce anlık görüntü alınır ve onarım geri alınabilir.',
+      scan: 'Tara',
+      clean: 'Sorun bulunamadı.',
+      repair: 'Onar',
+      repairAll: 'Tümünü Onar',
+      dryRun: 'Deneme çalıştırması (değişiklik yapmadan göster)',
+      manual: '{count} tanesi elle düzeltilmeli',
+      plannedTitle: 'Yapılacak değişiklikler ({count}):',
+      nothingToRepair: 'Otomatik onarılabilecek bir şey yok.',
+      repaired: '{count} kayıt onarıldı.',
+      deleted: 'silinecek',
+      more: 've {count} tane daha',
+      failed: 'İşlem başarısız oldu.',
+      tables: { transactions: 'İşlem', budgets: 'Bütçe', recurring: 'Tekrarlayan' },
+      types: {
+        orphanedRecurringId: ['Sahipsiz tekrarlayan bağlantısı', 'Silinmiş bir tekrarlayan işleme bağlı işlemler; bağlantı kaldırılır.'],
+        duplicateOccurrence: ['Yinelenen tekrar', 'Aynı tarih için iki kez oluşturulmuş işlemler; fazlası silinir.'],
+        unknownBudgetCategory: ['Var olmayan kategori bütçesi', 'Artık olmayan kategoriler için bütçeler; bütçe silinir.'],
+        unknownCurrency: ['Bilinmeyen para birimi', 'Desteklenmeyen para birimi; düzeltilir ya da TRY yapılır.'],
+        malformedDate: ['Hatalı tarih', 'Geçersiz tarihler; tarih kısmı okunabiliyorsa düzeltilir.'],
+        invalidAmount: ['Geçersiz tutar', 'Negatif ya da sayı olmayan tutarlar; negatifler pozitife çevrilir.'],
+        scheduleMismatch: ['Takvim uyuşmazlığı', 'Sonraki tarihi son oluşturulanla uyuşmayan tekrarlayanlar; yeniden hesaplanır.'],
+      } as Record<IntegrityIssueType, [string, string]>,
+    },
+    en: {
+      description: 'Scans every record for inconsistencies. A snapshot is taken before a repair, and repairs can be undone.',
+      scan: 'Scan',
+      clean: 'No issues found.',
+      repair: 'Repair',
+      repairAll: 'Repair All',
+      dryRun: 'Dry run (show changes without applying them)',
+      manual: '{count} need manual fixing',
+      plannedTitle: 'Planned changes ({count}):',
+      nothingToRepair: 'Nothing can be repaired automatically.',
+      repaired: '{count} records repaired.',
+      deleted: 'will be deleted',
+      more: 'and {count} more',
+      failed: 'The operation failed.',
+      tables: { transactions: 'Transaction', budgets: 'Budget', recurring: 'Recurring' },
+      types: {
+        orphanedRecurringId: ['Orphaned recurring link', 'Transactions linked to a deleted recurring template; the link is removed.'],
+        duplicateOccurrence: ['Duplicate occurrence', 'Transactions generated twice for the same date; the extra one is deleted.'],
+        unknownBudgetCategory: ['Budget for a missing category', 'Budgets for categories that no longer exist; the budget is deleted.'],
+        unknownCurrency: ['Unknown currency', 'Unsupported currency codes; corrected or set to TRY.'],
+        malformedDate: ['Malformed date', 'Invalid dates; fixed when the date part can be read.'],
+        invalidAmount: ['Invalid amount', 'Negative or non-numeric amounts; negatives are made positive.'],
+        scheduleMismatch: ['Schedule mismatch', 'Recurring templates whose next date does not follow the last one; recalculated.'],
+      } as Record<IntegrityIssueType, [string, string]>,
+    },
+  };
+
+  const t = texts[settings.language];
+
+  const handleScan = async () => {
+    setMessage(null);
+    setPlanned(null);
+    setIsWorking(true);
+    const result = await checkIntegrity();
+    setIsWorking(false);
+    if (result) {
+      setIssues(result);
+    } else {
+      setMessage({ type: 'error', text: t.failed });
+    }
+  };
+
+  const handleRepair = async (types: IntegrityIssueType[]) => {
+    setMessage(null);
+    setPlanned(null);
+    setIsWorking(true);
+    const changes = await repairIntegrity(types, dryRun);
+    if (!changes) {
+      setIsWorking(false);
+      setMessage({ type: 'error', text: t.failed });
+      return;
+    }
+
+    if (changes.length === 0) {
+      setMessage({ type: 'success', text: t.nothingToRepair });
+    } else if (dryRun) {
+      setPlanned(changes);
+    } else {
+      setMessage({ type: 'success', text: t.repaired.replace('{count}', String(changes.length)) });
+      setIssues(await checkIntegrity());
+    }
+    setIsWorking(false);
+  };
+
+  const counts = issues ? countIssues(issues) : null;
+  const found = INTEGRITY_ISSUE_TYPES.filter((type) => counts && counts[type] > 0);
+  const manualCount = (type: IntegrityIssueType) =>
+    issues?.filter((issue) => issue.type === type && issue.fix === undefined).length ?? 0;
+
+  const describeChange = (change: RecordChange) => {
+    const record = (change.before ?? change.after) as unknown as { title?: string; category?: string };
+    const label = `${t.tables[change.table]} "${record.title || record.category || change.recordId}"`;
+    if (!change.after) return `${label}: ${t.deleted}`;
+
+    const before = change.before as unknown as Record<string, unknown>;
+    const after = change.after as unknown as Record<string, unknown>;
+    const fields = diffFields(before, after).map(
+      (field) => `${field} ${before[field] ?? '—'} → ${after[field] ?? '—'}`
+    );
+    return `${label}: ${fields.join(', ')}`;
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-start justify-between gap-3">
+        <p className="text-xs text-slate-600 dark:text-slate-400">{t.description}</p>
+        <Button variant="outline" size="sm" onClick={handleScan} isLoading={isWorking && !counts}>
+          <span className="flex items-center gap-1.5">
+            <ShieldCheck size={14} />
+            {t.scan}
+          </span>
+        </Button>
+      </div>
+
+      {counts && found.length === 0 && (
+        <p className="text-xs font-medium text-emerald-600 dark:text-emerald-400">{t.clean}</p>
+      )}
+
+      {found.length > 0 && (
+        <>
+          <label className="flex items-center gap-2 text-xs text-slate-700 dark:text-slate-300">
+            <input
+              type="checkbox"
+              checked={dryRun}
+              onChange={(e) => {
+                setDryRun(e.target.checked);
+                setPlanned(null);
+              }}
+              className="rounded border-slate-300 dark:border-slate-600"
+            />
+            {t.dryRun}
+          </label>
+
+          <ul className="divide-y divide-slate-200 dark:divide-slate-700">
+            {found.map((type) => {
+              const manual = manualCount(type);
+              return (
+                <li key={type} className="flex items-center justify-between gap-2 py-2">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-slate-900 dark:text-white">
+                      {t.types[type][0]}
+                      <span className="ml-2 text-xs font-semibold text-amber-600 dark:text-amber-400">{counts![type]}</span>
+                    </p>
+                    <p className="text-xs text-slate-500 dark:text-slate-400">{t.types[type][1]}</p>
+                    {manual > 0 && (
+                      <p className="text-xs text-rose-600 dark:text-rose-400">{t.manual.replace('{count}', String(manual))}</p>
+                    )}
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleRepair([type])}
+                    disabled={isWorking || manual === counts![type]}
+                  >
+                    <span className="flex items-center gap-1.5">
+                      <Wrench size={14} />
+                      {t.repair}
+                    </span>
+                  </Button>
+                </li>
+              );
+            })}
+          </ul>
+
+          <Button variant="outline" size="sm" onClick={() => handleRepair(found)} disabled={isWorking}>
+            {t.repairAll}
+          </Button>
+        </>
+      )}
+
+      {planned && (
+        <div className="space-y-1 rounded-lg bg-slate-50 dark:bg-slate-800/50 p-3">
+          <p className="text-xs font-semibold text-slate-700 dark:text-slate-300">
+            {t.plannedTitle.replace('{count}', String(planned.length))}
+          </p>
+          <ul className="text-xs text-slate-600 dark:text-slate-400 space-y-0.5">
+            {planned.slice(0, DRY_RUN_LIMIT).map((change) => (
+              <li key={`${change.table}:${change.recordId}`} className="break-words">
+                {describeChange(change)}
+              </li>
+            ))}
+          </ul>
+          {planned.length > DRY_RUN_LIMIT && (
+            <p className="text-xs text-slate-500 dark:text-slate-400">
+              {t.more.replace('{count}', String(planned.length - DRY_RUN_LIMIT))}
+            </p>
+          )}
+        </div>
+      )}
+
+      {message && (
+        <p
+          className={`text-xs font-medium ${
+            message.type === 'success' ? 'text-emerald-600 dark:text-emerald-400' : 'text-rose-600 dark:text-rose-400'
+          }`}
+        >
+          {message.text}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+import { useState } from 'react';
+import { ClipboardCheck, RefreshCw } from 'lucide-react';
+import { useFinance } from '../../hooks/useFinance';
+import { Button } from '../ui/Button';
+import type { RollupMismatch } from '../../services/rollupService';
+
+// Mismatches listed before "and N more"
+const MISMATCH_LIMIT = 10;
+
+/**
+ * Checks the monthly rollups against a full recompute and rebuilds them
+ */
+export function RollupPanel() {
+  const { settings, rollups, verifyRollups, rebuildRollups } = useFinance();
+  const [mismatches, setMismatches] = useState<RollupMismatch[] | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const texts = {
+    tr: {
+      title: 'Aylık Özetler',
+      description: 'Pano, bütçeler ve analiz aylık toplamları özet tablosundan okur ({count} satır). Doğrulama, tabloyu tüm işlemlerden yeniden hesaplananla karşılaştırır.',
+      verify: 'Doğrula',
+      rebuild: 'Yeniden Oluştur',
+      consistent: 'Özetler işlemlerle tutarlı.',
+      found: '{count} uyuşmazlık bulundu (kayıtlı → hesaplanan):',
+      rebuilt: 'Özetler yeniden oluşturuldu.',
+      more: 've {count} tane daha',
+      failed: 'İşlem başarısız oldu.',
+    },
+    en: {
+      title: 'Monthly Rollups',
+      description: 'The dashboard, budgets and analytics read monthly totals from the rollup table ({count} rows). Verify compares it with a full recompute from every transaction.',
+      verify: 'Verify',
+      rebuild: 'Rebuild',
+      consistent: 'Rollups match the transactions.',
+      found: '{count} mismatches found (stored → recomputed):',
+      rebuilt: 'Rollups rebuilt.',
+      more: 'and {count} more',
+      failed: 'The operation failed.',
+    },
+  };
+
+  const t = texts[settings.language];
+
+  const handleVerify = async () => {
+    setMessage(null);
+    setIsWorking(true);
+    const result = await verifyRollups();
+    setIsWorking(false);
+    if (result) {
+      setMismatches(result);
+    } else {
+      setMessage({ type: 'error', text: t.failed });
+    }
+  };
+
+  const handleRebuild = async () => {
+    setMessage(null);
+    setMismatches(null);
+    setIsWorking(true);
+    const ok = await rebuildRollups();
+    setIsWorking(false);
+    setMessage(ok ? { type: 'success', text: t.rebuilt } : { type: 'error', text: t.failed });
+  };
+
+  const describe = ({ key, expected, actual }: RollupMismatch) => {
+    const [year, month, type, category, currency] = key;
+    const label = `${year}-${String(month).padStart(2, '0')} ${type} ${category} ${currency}`;
+    const side = (value: RollupMismatch['actual']) => (value ? `${value.amount.toFixed(2)} (${value.count})` : '—');
+    return `${label}: ${side(actual)} → ${side(expected)}`;
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <p className="text-sm font-medium text-slate-900 dark:text-white">{t.title}</p>
+          <p className="text-xs text-slate-600 dark:text-slate-400">
+            {t.description.replace('{count}', String(rollups?.length ?? 0))}
+          </p>
+        </div>
+        <div className="flex gap-2 flex-shrink-0">
+          <Button variant="outline" size="sm" onClick={handleVerify} disabled={isWorking}>
+            <span className="flex items-center gap-1.5">
+              <ClipboardCheck size={14} />
+              {t.verify}
+            </span>
+          </Button>
+          <Button variant="ghost" size="sm" onClick={handleRebuild} disabled={isWorking}>
+            <span className="flex items-center gap-1.5">
+              <RefreshCw size={14} />
+              {t.rebuild}
+            </span>
+          </Button>
+        </div>
+      </div>
+
+      {mismatches && mismatches.length === 0 && (
+        <p className="text-xs font-medium text-emerald-600 dark:text-emerald-400">{t.consistent}</p>
+      )}
+
+      {mismatches && mismatches.length > 0 && (
+        <div className="space-y-1 rounded-lg bg-slate-50 dark:bg-slate-800/50 p-3">
+          <p className="text-xs font-semibold text-amber-600 dark:text-amber-400">
+            {t.found.replace('{count}', String(mismatches.length))}
+          </p>
+          <ul className="text-xs text-slate-600 dark:text-slate-400 space-y-0.5">
+            {mismatches.slice(0, MISMATCH_LIMIT).map((mismatch) => (
+              <li key={mismatch.key.join('|')} className="break-words">
+                {describe(mismatch)}
+              </li>
+            ))}
+          </ul>
+          {mismatches.length > MISMATCH_LIMIT && (
+            <p className="text-xs text-slate-500 dark:text-slate-400">
+              {t.more.replace('{count}', String(mismatches.length - MISMATCH_LIMIT))}
+            </p>
+          )}
+        </div>
+      )}
+
+      {message && (
+        <p
+          className={`text-xs font-medium ${
+            message.type === 'success' ? 'text-emerald-600 dark:text-emerald-400' : 'text-rose-600 dark:text-rose-400'
+          }`}
+        >
+          {message.text}
+        </p>
+      )}
+    </div>
+  );
+}
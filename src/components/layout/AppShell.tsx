@@ -2,12 +2,13 @@ import { Settings, Moon, Sun, Globe, DollarSign, LayoutDashboard, Repeat, Target
 import type { ReactNode } from 'react';
 import { NotificationCenter } from '../notifications/NotificationCenter';
 import type { Notification } from '../../utils/notifications';
+import type { CurrencyCode } from '../../types';
 
 interface AppShellProps {
   children: ReactNode;
   theme: 'light' | 'dark';
   language: 'tr' | 'en';
-  currency: 'TRY' | 'USD' | 'EUR' | 'GBP';
+  currency: CurrencyCode;
   currencyPair?: string;
   exchangeRates?: Record<string, number>;
   isFetchingRates?: boolean;
@@ -0,0 +1,163 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Redo2, Undo2, X } from 'lucide-react';
+import { useFinance } from '../../hooks/useFinance';
+import { DESTRUCTIVE_ACTIONS, type JournalAction } from '../../utils/undoJournal';
+
+// How long the toast stays on screen (ms)
+const TOAST_DURATION = 8000;
+
+type Notice = { action: JournalAction };
+
+/**
+ * Ctrl/Cmd+Z and Ctrl/Cmd+Shift+Z shortcuts, plus an "Undo" toast after
+ * destructive actions and a short confirmation (with "Redo") after each undo
+ */
+export function UndoToast() {
+  const { settings, lastAction, canRedo, undo, redo } = useFinance();
+  // Entries up to this id no longer get a toast (dismissed, timed out or undone)
+  const [dismissedUpTo, setDismissedUpTo] = useState(0);
+  const [notice, setNotice] = useState<Notice | null>(null);
+  const noticeTimer = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+
+  const texts = {
+    tr: {
+      undo: 'Geri Al',
+      redo: 'Yinele',
+      undone: 'Geri alındı',
+      dismiss: 'Kapat',
+      actions: {
+        addTransaction: 'İşlem eklendi',
+        updateTransaction: 'İşlem düzenlendi',
+        deleteTransaction: 'İşlem silindi',
+        addBulkTransactions: 'İşlemler içe aktarıldı',
+        importData: 'Yedek yüklendi',
+        clearAll: 'Tüm veriler silindi',
+        addRecurring: 'Tekrarlayan işlem eklendi',
+        updateRecurring: 'Tekrarlayan işlem düzenlendi',
+        deleteRecurring: 'Tekrarlayan işlem silindi',
+        toggleRecurring: 'Tekrarlayan işlem durumu değişti',
+        addBudget: 'Bütçe eklendi',
+        updateBudget: 'Bütçe düzenlendi',
+        deleteBudget: 'Bütçe silindi',
+        toggleBudget: 'Bütçe durumu değişti',
+        revertRecord: 'Önceki sürüme dönüldü',
+        repairData: 'Veri onarıldı',
+      } as Record<JournalAction, string>,
+    },
+    en: {
+      undo: 'Undo',
+      redo: 'Redo',
+      undone: 'Undone',
+      dismiss: 'Dismiss',
+      actions: {
+        addTransaction: 'Transaction added',
+        updateTransaction: 'Transaction edited',
+        deleteTransaction: 'Transaction deleted',
+        addBulkTransactions: 'Transactions imported',
+        importData: 'Backup loaded',
+        clearAll: 'All data cleared',
+        addRecurring: 'Recurring transaction added',
+        updateRecurring: 'Recurring transaction edited',
+        deleteRecurring: 'Recurring transaction deleted',
+        toggleRecurring: 'Recurring transaction paused/resumed',
+        addBudget: 'Budget added',
+        updateBudget: 'Budget edited',
+        deleteBudget: 'Budget deleted',
+        toggleBudget: 'Budget paused/resumed',
+        revertRecord: 'Reverted to an earlier version',
+        repairData: 'Data repaired',
+      } as Record<JournalAction, string>,
+    },
+  };
+
+  const t = texts[settings.language];
+
+  const toastId =
+    lastAction && lastAction.id > dismissedUpTo && DESTRUCTIVE_ACTIONS.includes(lastAction.action)
+      ? lastAction.id
+      : null;
+
+  const showNotice = useCallback((next: Notice) => {
+    clearTimeout(noticeTimer.current);
+    setNotice(next);
+    noticeTimer.current = setTimeout(() => setNotice(null), TOAST_DURATION);
+  }, []);
+
+  const handleUndo = useCallback(async () => {
+    if (!lastAction) return;
+    const { id, action } = lastAction;
+    setDismissedUpTo((prev) => Math.max(prev, id));
+    if (await undo()) showNotice({ action });
+  }, [lastAction, undo, showNotice]);
+
+  const handleRedo = useCallback(async () => {
+    if (!canRedo) return;
+    setNotice(null);
+    await redo();
+  }, [canRedo, redo]);
+
+  // Keyboard shortcuts; text fields keep their own undo
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.key.toLowerCase() !== 'z') return;
+
+      const target = event.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) {
+        return;
+      }
+
+      event.preventDefault();
+      void (event.shiftKey ? handleRedo() : handleUndo());
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [handleUndo, handleRedo]);
+
+  // Hide the undo toast after a while
+  useEffect(() => {
+    if (toastId === null) return;
+    const timer = setTimeout(() => setDismissedUpTo((prev) => Math.max(prev, toastId)), TOAST_DURATION);
+    return () => clearTimeout(timer);
+  }, [toastId]);
+
+  useEffect(() => () => clearTimeout(noticeTimer.current), []);
+
+  const message =
+    toastId !== null && lastAction
+      ? t.actions[lastAction.action]
+      : notice
+        ? `${t.undone}: ${t.actions[notice.action]}`
+        : null;
+  if (!message) return null;
+
+  const dismiss = () => {
+    setNotice(null);
+    if (toastId !== null) setDismissedUpTo((prev) => Math.max(prev, toastId));
+  };
+
+  return (
+    <div
+      role="status"
+      className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50 flex items-center gap-3 px-4 py-3 rounded-xl shadow-2xl bg-slate-900 text-white dark:bg-slate-100 dark:text-slate-900 text-sm"
+    >
+      <span>{message}</span>
+      {toastId !== null ? (
+        <button onClick={handleUndo} className="flex items-center gap-1 font-semibold text-emerald-400 dark:text-emerald-600 hover:underline">
+          <Undo2 size={14} />
+          {t.undo}
+        </button>
+      ) : (
+        canRedo && (
+          <button onClick={handleRedo} className="flex items-center gap-1 font-semibold text-emerald-400 dark:text-emerald-600 hover:underline">
+            <Redo2 size={14} />
+            {t.redo}
+          </button>
+        )
+      )}
+      <button onClick={dismiss} className="p-1 text-slate-400 hover:text-white dark:hover:text-slate-900" aria-label={t.dismiss}>
+        <X size={14} />
+      </button>
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { Bell, X, CheckCircle2, AlertCircle, Info, TrendingUp, Settings as SettingsIcon, Clock } from 'lucide-react';
+import { Bell, X, CheckCircle2, AlertCircle, Info, TrendingUp, Settings as SettingsIcon, Clock, CreditCard } from 'lucide-react';
 import { useState, useEffect } from 'react';
 import type { Notification } from '../../utils/notifications';
 import { t } from '../../utils/i18n';
@@ -54,6 +54,15 @@ export function NotificationCenter({
           badge: language === 'tr' ? 'Hatırlatma' : 'Reminder',
           badgeColor: 'bg-blue-100 dark:bg-blue-900/50 text-blue-700 dark:text-blue-300'
         };
+      case 'statement_due':
+        return {
+          icon: CreditCard,
+          iconColor: 'text-sky-600 dark:text-sky-400',
+          bgColor: 'bg-sky-50 dark:bg-sky-950/30',
+          borderColor: 'border-l-sky-500',
+          badge: language === 'tr' ? 'Ekstre' : 'Statement',
+          badgeColor: 'bg-sky-100 dark:bg-sky-900/50 text-sky-700 dark:text-sky-300'
+        };
       case 'savings_milestone':
         return {
           icon: CheckCircle2,
@@ -135,6 +135,28 @@ export function NotificationSettingsPanel({
               </label>
             </div>
 
+            {/* Statement Reminders */}
+            <div className="flex items-center justify-between p-4 border border-slate-200 dark:border-slate-700 rounded-lg">
+              <div>
+                <h3 className="font-medium text-slate-900 dark:text-white">
+                  {t('statementReminders', language)}
+                </h3>
+                <p className="text-sm text-slate-500 dark:text-slate-400">
+                  {t('statementRemindersDesc', language)}
+                </p>
+              </div>
+              <label className="relative inline-flex items-center cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={settings.statementReminders}
+                  onChange={(e) => onUpdate({ statementReminders: e.target.checked })}
+                  disabled={!settings.enabled}
+                  className="sr-only peer"
+                />
+                <div className="w-11 h-6 bg-slate-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-blue-300 dark:peer-focus:ring-blue-800 rounded-full peer dark:bg-slate-700 peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-slate-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all dark:border-slate-600 peer-checked:bg-blue-500 peer-disabled:opacity-50"></div>
+              </label>
+            </div>
+
             {/* Savings Milestones */}
             <div className="flex items-center justify-between p-4 border border-slate-200 dark:border-slate-700 rounded-lg">
               <div>
@@ -0,0 +1,108 @@
+import { useState } from 'react';
+import { Plus, X } from 'lucide-react';
+import { Button } from '../ui/Button';
+import { currencyName, getCurrency, isCurrencyCode, listCurrencyCodes } from '../../utils/currencies';
+import type { CurrencyCode } from '../../types';
+
+interface EnabledCurrenciesFieldProps {
+  value: CurrencyCode[];
+  onChange: (codes: CurrencyCode[]) => void;
+  language: 'tr' | 'en';
+  locked: CurrencyCode;          // The default currency can't be removed
+}
+
+/**
+ * Chips for the enabled currencies, with an ISO 4217 code field to add more
+ */
+export function EnabledCurrenciesField({ value, onChange, language, locked }: EnabledCurrenciesFieldProps) {
+  const [code, setCode] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const texts = {
+    tr: {
+      label: 'Kullanılan Para Birimleri',
+      placeholder: 'ISO kodu, ör. CHF',
+      add: 'Ekle',
+      invalid: 'Geçerli bir ISO 4217 kodu girin.',
+      remove: 'Kaldır',
+    },
+    en: {
+      label: 'Enabled Currencies',
+      placeholder: 'ISO code, e.g. CHF',
+      add: 'Add',
+      invalid: 'Enter a valid ISO 4217 code.',
+      remove: 'Remove',
+    },
+  };
+
+  const t = texts[language];
+
+  const handleAdd = () => {
+    const normalized = code.trim().toUpperCase();
+    if (!isCurrencyCode(normalized)) {
+      setError(t.invalid);
+      return;
+    }
+    setError(null);
+    setCode('');
+    if (!value.includes(normalized)) onChange([...value, normalized]);
+  };
+
+  return (
+    <div>
+      <label className="block text-xs font-medium text-slate-700 dark:text-slate-300 mb-2">{t.label}</label>
+      <div className="flex flex-wrap gap-1.5 mb-2">
+        {value.map((currency) => (
+          <span
+            key={currency}
+            title={currencyName(currency, language)}
+            className="inline-flex items-center gap-1 rounded-full bg-slate-100 dark:bg-slate-800 px-2.5 py-1 text-xs font-medium text-slate-700 dark:text-slate-300"
+          >
+            {getCurrency(currency).symbol !== currency && <span>{getCurrency(currency).symbol}</span>}
+            {currency}
+            {currency !== locked && (
+              <button
+                type="button"
+                aria-label={`${t.remove} ${currency}`}
+                onClick={() => onChange(value.filter((c) => c !== currency))}
+                className="text-slate-400 hover:text-rose-500"
+              >
+                <X size={12} />
+              </button>
+            )}
+          </span>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <input
+          list="currency-codes"
+          value={code}
+          maxLength={3}
+          placeholder={t.placeholder}
+          onChange={(e) => setCode(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              handleAdd();
+            }
+          }}
+          className="w-36 h-9 px-3 rounded-lg border border-slate-300 dark:border-slate-700 bg-white dark:bg-slate-800/50 text-sm text-slate-900 dark:text-white uppercase"
+        />
+        <datalist id="currency-codes">
+          {listCurrencyCodes()
+            .filter((c) => !value.includes(c))
+            .map((c) => (
+              <option key={c} value={c}>{currencyName(c, language)}</option>
+            ))}
+        </datalist>
+        <Button variant="outline" size="sm" onClick={handleAdd} disabled={!code.trim()}>
+          <span className="flex items-center gap-1.5">
+            <Plus size={14} />
+            {t.add}
+          </span>
+        </Button>
+      </div>
+      {error && <p className="text-xs font-medium text-rose-600 dark:text-rose-400 mt-1">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+import { useRef, useState } from 'react';
+import { Trash2, Upload } from 'lucide-react';
+import { useFinance } from '../../hooks/useFinance';
+import { Button } from '../ui/Button';
+
+/**
+ * Dated exchange rates: what's known, importing a rate file, clearing
+ */
+export function RateHistoryPanel() {
+  const { settings, rateHistory, importRates, clearRates } = useFinance();
+  const [isWorking, setIsWorking] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const texts = {
+    tr: {
+      title: 'Geçmiş Kurlar',
+      description: 'Her gün çekilen kurlar saklanır; eski tarihler için JSON veya CSV kur dosyası içe aktarabilirsiniz (tarih,para birimi,kur ya da tarih,TRY,EUR,...; 1 USD karşılığı).',
+      known: '{count} gün biliniyor ({from} – {to})',
+      none: 'Henüz geçmiş kur yok; bugünün kuru kullanılıyor.',
+      import: 'Kur Dosyası Yükle',
+      clear: 'Temizle',
+      imported: '{count} günün kurları içe aktarıldı.',
+      cleared: 'Geçmiş kurlar silindi.',
+      failed: 'Kur dosyası okunamadı.',
+    },
+    en: {
+      title: 'Historical Rates',
+      description: 'Rates are kept for every day they are fetched; import a JSON or CSV rate file for older dates (date,currency,rate or date,TRY,EUR,...; per 1 USD).',
+      known: '{count} days known ({from} – {to})',
+      none: 'No historical rates yet; today\'s rate is used.',
+      import: 'Import Rate File',
+      clear: 'Clear',
+      imported: 'Imported rates for {count} days.',
+      cleared: 'Historical rates cleared.',
+      failed: 'Could not read the rate file.',
+    },
+  };
+
+  const t = texts[settings.language];
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setMessage(null);
+    setIsWorking(true);
+    const count = await importRates(await file.text());
+    setIsWorking(false);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+    setMessage(
+      count !== null
+        ? { type: 'success', text: t.imported.replace('{count}', String(count)) }
+        : { type: 'error', text: t.failed }
+    );
+  };
+
+  const handleClear = async () => {
+    setMessage(null);
+    setIsWorking(true);
+    const ok = await clearRates();
+    setIsWorking(false);
+    setMessage(ok ? { type: 'success', text: t.cleared } : { type: 'error', text: t.failed });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <p className="text-sm font-medium text-slate-900 dark:text-white">{t.title}</p>
+        <p className="text-xs text-slate-600 dark:text-slate-400">{t.description}</p>
+      </div>
+
+      <p className="text-xs text-slate-500 dark:text-slate-400">
+        {rateHistory.length > 0
+          ? t.known
+              .replace('{count}', String(rateHistory.length))
+              .replace('{from}', rateHistory[0].date)
+              .replace('{to}', rateHistory[rateHistory.length - 1].date)
+          : t.none}
+      </p>
+
+      <div className="flex gap-2">
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,.csv"
+          onChange={(e) => handleFile(e.target.files?.[0])}
+          className="hidden"
+        />
+        <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()} disabled={isWorking}>
+          <span className="flex items-center gap-1.5">
+            <Upload size={14} />
+            {t.import}
+          </span>
+        </Button>
+        <Button variant="ghost" size="sm" onClick={handleClear} disabled={isWorking || rateHistory.length === 0}>
+          <span className="flex items-center gap-1.5">
+            <Trash2 size={14} />
+            {t.clear}
+          </span>
+        </Button>
+      </div>
+
+      {message && (
+        <p
+          className={`text-xs font-medium ${
+            message.type === 'success' ? 'text-emerald-600 dark:text-emerald-400' : 'text-rose-600 dark:text-rose-400'
+          }`}
+        >
+          {message.text}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,143 @@
+import { useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { tr, enUS } from 'date-fns/locale';
+import { AlertTriangle, Save } from 'lucide-react';
+import { useFinance } from '../../hooks/useFinance';
+import { Button } from '../ui/Button';
+import { Input } from '../ui/Input';
+import { ManualRateProvider } from '../../rates/providers';
+import { getExchangeRates, getRateStatus, getTrackedCurrencies, type RateSource } from '../../utils/exchange';
+import { isCommodity } from '../../utils/currencies';
+
+interface RateSourcesPanelProps {
+  onRefreshRates?: () => void;
+}
+
+/**
+ * Today's rates with their source and age, stale warnings, and manual entry
+ * when the manual provider is chosen
+ */
+export function RateSourcesPanel({ onRefreshRates }: RateSourcesPanelProps) {
+  const { settings } = useFinance();
+  const [manualRates, setManualRates] = useState<Record<string, string>>(() => {
+    const rates = ManualRateProvider.load()?.rates ?? getExchangeRates();
+    return Object.fromEntries(getTrackedCurrencies().map((code) => [code, rates[code] ? String(rates[code]) : '']));
+  });
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const texts = {
+    tr: {
+      title: 'Kur Kaynakları',
+      description: 'Güncel kurların nereden geldiği ve ne kadar eski olduğu (1 USD karşılığı).',
+      sources: { api: 'API', manual: 'Elle', file: 'Dosya', mock: 'Test', default: 'Yerleşik tahmin' } as Record<RateSource, string>,
+      never: 'hiç güncellenmedi',
+      stale: 'Bazı kurlar eski. Kurları yenileyin veya kaynağı değiştirin.',
+      manualTitle: 'Elle Girilen Kurlar (1 USD =)',
+      saveManual: 'Kurları Kaydet',
+      saved: 'Kurlar kaydedildi.',
+      invalid: 'Kurlar sıfırdan büyük sayılar olmalı.',
+      fileHint: 'Dosya kaynağı, aşağıdan içe aktarılan kur dosyalarının en son gününü kullanır.',
+    },
+    en: {
+      title: 'Rate Sources',
+      description: 'Where today\'s rates come from and how old they are (per 1 USD).',
+      sources: { api: 'API', manual: 'Manual', file: 'File', mock: 'Test', default: 'Built-in estimate' } as Record<RateSource, string>,
+      never: 'never updated',
+      stale: 'Some rates are stale. Refresh the rates or switch the source.',
+      manualTitle: 'Manual Rates (1 USD =)',
+      saveManual: 'Save Rates',
+      saved: 'Rates saved.',
+      invalid: 'Rates must be numbers greater than zero.',
+      fileHint: 'The file source uses the latest day of the rate files imported below.',
+    },
+  };
+
+  const t = texts[settings.language];
+  const locale = settings.language === 'tr' ? tr : enUS;
+  const status = getRateStatus();
+  const hasStale = status.some((row) => row.stale);
+  // Commodity units are priced in the unit prices panel
+  const editable = getTrackedCurrencies().filter((code) => code !== 'USD' && !isCommodity(code));
+
+  const handleSaveManual = () => {
+    const rates: Record<string, number> = {};
+    for (const code of editable) {
+      const rate = Number(manualRates[code]?.replace(',', '.'));
+      if (!Number.isFinite(rate) || rate <= 0) {
+        setMessage({ type: 'error', text: t.invalid });
+        return;
+      }
+      rates[code] = rate;
+    }
+    ManualRateProvider.save(rates);
+    setMessage({ type: 'success', text: t.saved });
+    onRefreshRates?.();
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <p className="text-sm font-medium text-slate-900 dark:text-white">{t.title}</p>
+        <p className="text-xs text-slate-600 dark:text-slate-400">{t.description}</p>
+      </div>
+
+      <ul className="divide-y divide-slate-200 dark:divide-slate-700 text-xs">
+        {status.map((row) => (
+          <li key={row.currency} className="flex items-center justify-between gap-3 py-1.5">
+            <span className="font-medium text-slate-900 dark:text-white w-10">{row.currency}</span>
+            <span className="text-slate-700 dark:text-slate-300 tabular-nums">{row.rate?.toFixed(4) ?? '—'}</span>
+            <span className="flex-1 text-right text-slate-500 dark:text-slate-400">
+              {t.sources[row.source]} ·{' '}
+              {row.asOf ? formatDistanceToNow(new Date(row.asOf), { addSuffix: true, locale }) : t.never}
+            </span>
+            {row.stale && <AlertTriangle size={14} className="text-amber-500 flex-shrink-0" />}
+          </li>
+        ))}
+      </ul>
+
+      {hasStale && (
+        <p className="flex items-center gap-1.5 text-xs font-medium text-amber-600 dark:text-amber-400">
+          <AlertTriangle size={14} />
+          {t.stale}
+        </p>
+      )}
+
+      {settings.rateProvider === 'manual' && (
+        <div className="space-y-2 rounded-lg bg-slate-50 dark:bg-slate-800/50 p-3">
+          <p className="text-xs font-semibold text-slate-700 dark:text-slate-300">{t.manualTitle}</p>
+          <div className="grid grid-cols-3 gap-2">
+            {editable.map((code) => (
+              <Input
+                key={code}
+                label={code}
+                inputMode="decimal"
+                value={manualRates[code] ?? ''}
+                onChange={(e) => setManualRates({ ...manualRates, [code]: e.target.value })}
+              />
+            ))}
+          </div>
+          <Button variant="outline" size="sm" onClick={handleSaveManual}>
+            <span className="flex items-center gap-1.5">
+              <Save size={14} />
+              {t.saveManual}
+            </span>
+          </Button>
+        </div>
+      )}
+
+      {settings.rateProvider === 'file' && (
+        <p className="text-xs text-slate-500 dark:text-slate-400">{t.fileHint}</p>
+      )}
+
+      {message && (
+        <p
+          className={`text-xs font-medium ${
+            message.type === 'success' ? 'text-emerald-600 dark:text-emerald-400' : 'text-rose-600 dark:text-rose-400'
+          }`}
+        >
+          {message.text}
+        </p>
+      )}
+    </div>
+  );
+}
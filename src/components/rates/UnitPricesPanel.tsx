@@ -0,0 +1,246 @@
+import { useState } from 'react';
+import { Plus, Save, Trash2 } from 'lucide-react';
+import { useFinance } from '../../hooks/useFinance';
+import { useTransactionHistory } from '../../hooks/useTransactionHistory';
+import { Button } from '../ui/Button';
+import { Input } from '../ui/Input';
+import { Select } from '../ui/Select';
+import type { CurrencyCode, CustomUnit } from '../../types';
+import { convertCurrency, getExchangeRates } from '../../utils/exchange';
+import { currencyName, currencyOption, enabledCurrencies, isCurrencyCode, listUnitCodes, UNIT_CODE_PATTERN } from '../../utils/currencies';
+import { dateToISOString, formatCurrency } from '../../utils/formatters';
+
+interface UnitPricesPanelProps {
+  // Called after a custom unit is added (enabled) or removed, for forms holding settings
+  onUnitsChange?: (customUnits: CustomUnit[], code: CurrencyCode, enabled: boolean) => void;
+}
+
+/**
+ * Commodity units (gold, silver, user-defined ones like çeyrek): their
+ * latest prices, entering a price for a day, and defining custom units
+ */
+export function UnitPricesPanel({ onUnitsChange }: UnitPricesPanelProps) {
+  const { settings, rateHistory, updateSettings, recordUnitPrice } = useFinance();
+  const { transactions } = useTransactionHistory();
+  const units = listUnitCodes();
+  const [price, setPrice] = useState({ code: units[0], date: dateToISOString(new Date()), value: '' });
+  const [unit, setUnit] = useState({ code: '', name: '', minorUnits: '0', base: '', quantity: '' });
+  const [isWorking, setIsWorking] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const texts = {
+    tr: {
+      title: 'Altın ve Emtia Fiyatları',
+      description: 'Altın gibi birimlerde tutulan birikimler miktar olarak kaydedilir ve buradaki fiyatlarla değerlenir. Gram altın fiyatı onsu ve ondan tanımlanan birimleri de fiyatlar.',
+      none: 'fiyat yok',
+      unit: 'Birim',
+      date: 'Tarih',
+      price: 'Birim Fiyat ({currency})',
+      savePrice: 'Fiyatı Kaydet',
+      priceSaved: 'Fiyat kaydedildi.',
+      priceFailed: 'Fiyat kaydedilemedi. Fiyat sıfırdan büyük olmalı.',
+      customTitle: 'Özel Birimler',
+      code: 'Kod',
+      name: 'Ad',
+      decimals: 'Ondalık',
+      base: 'Karşılığı (opsiyonel)',
+      quantity: 'Miktar',
+      noBase: 'Kendi fiyatı',
+      addUnit: 'Birim Ekle',
+      unitAdded: 'Birim eklendi ve etkinleştirildi.',
+      invalidUnit: 'Kod 3-8 büyük harf/rakam olmalı ve bir para birimiyle çakışmamalı; ad gerekli.',
+      inUse: 'Bu birimle kayıtlı işlemler var; silinemez.',
+    },
+    en: {
+      title: 'Gold & Commodity Prices',
+      description: 'Savings held in units like gold are recorded as quantities and valued at these prices. A gram gold price also prices the ounce and any unit defined through it.',
+      none: 'no price',
+      unit: 'Unit',
+      date: 'Date',
+      price: 'Unit Price ({currency})',
+      savePrice: 'Save Price',
+      priceSaved: 'Price saved.',
+      priceFailed: 'Could not save the price. It must be greater than zero.',
+      customTitle: 'Custom Units',
+      code: 'Code',
+      name: 'Name',
+      decimals: 'Decimals',
+      base: 'Equals (optional)',
+      quantity: 'Quantity',
+      noBase: 'Own price',
+      addUnit: 'Add Unit',
+      unitAdded: 'Unit added and enabled.',
+      invalidUnit: 'The code must be 3-8 upper-case letters/digits not used by a currency; a name is required.',
+      inUse: 'Transactions are recorded in this unit; it can\'t be removed.',
+    },
+  };
+
+  const t = texts[settings.language];
+  const rates = getExchangeRates();
+  const customUnits = settings.customUnits ?? [];
+
+  // Day of the latest known price per unit
+  const pricedOn = (code: string) => rateHistory.filter((entry) => entry.rates[code]).pop()?.date;
+
+  const handleSavePrice = async () => {
+    setMessage(null);
+    setIsWorking(true);
+    const ok = await recordUnitPrice(price.code, price.date, Number(price.value.replace(',', '.')));
+    setIsWorking(false);
+    if (ok) setPrice({ ...price, value: '' });
+    setMessage(ok ? { type: 'success', text: t.priceSaved } : { type: 'error', text: t.priceFailed });
+  };
+
+  const handleAddUnit = async () => {
+    const code = unit.code.trim().toUpperCase();
+    const quantity = Number(unit.quantity.replace(',', '.'));
+    if (!UNIT_CODE_PATTERN.test(code) || isCurrencyCode(code) || !unit.name.trim()) {
+      setMessage({ type: 'error', text: t.invalidUnit });
+      return;
+    }
+
+    const added: CustomUnit = {
+      code,
+      name: unit.name.trim(),
+      minorUnits: Number(unit.minorUnits),
+      ...(unit.base && quantity > 0 ? { base: unit.base, quantity } : {}),
+    };
+    const ok = await updateSettings({
+      customUnits: [...customUnits, added],
+      enabledCurrencies: [...enabledCurrencies(settings), code],
+    });
+    if (ok) {
+      setUnit({ code: '', name: '', minorUnits: '0', base: '', quantity: '' });
+      onUnitsChange?.([...customUnits, added], code, true);
+    }
+    setMessage(ok ? { type: 'success', text: t.unitAdded } : { type: 'error', text: t.invalidUnit });
+  };
+
+  const handleRemoveUnit = async (code: string) => {
+    if (transactions.some((transaction) => transaction.originalCurrency === code)) {
+      setMessage({ type: 'error', text: t.inUse });
+      return;
+    }
+    const remaining = customUnits.filter((custom) => custom.code !== code);
+    const ok = await updateSettings({
+      customUnits: remaining,
+      enabledCurrencies: enabledCurrencies(settings).filter((enabled) => enabled !== code),
+    });
+    if (ok) onUnitsChange?.(remaining, code, false);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <p className="text-sm font-medium text-slate-900 dark:text-white">{t.title}</p>
+        <p className="text-xs text-slate-600 dark:text-slate-400">{t.description}</p>
+      </div>
+
+      <ul className="divide-y divide-slate-200 dark:divide-slate-700 text-xs">
+        {units.map((code) => (
+          <li key={code} className="flex items-center justify-between gap-3 py-1.5">
+            <span className="font-medium text-slate-900 dark:text-white">
+              {code} <span className="font-normal text-slate-500 dark:text-slate-400">{currencyName(code, settings.language)}</span>
+            </span>
+            <span className="flex-1 text-right text-slate-700 dark:text-slate-300 tabular-nums">
+              {rates[code]
+                ? `${formatCurrency(convertCurrency(1, code, settings.currency), settings.currency, settings.language)}${pricedOn(code) ? ` · ${pricedOn(code)}` : ''}`
+                : t.none}
+            </span>
+            {customUnits.some((custom) => custom.code === code) && (
+              <button
+                type="button"
+                onClick={() => handleRemoveUnit(code)}
+                className="text-slate-400 hover:text-rose-600"
+                aria-label={code}
+              >
+                <Trash2 size={14} />
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      <div className="grid grid-cols-3 gap-2">
+        <Select
+          label={t.unit}
+          value={price.code}
+          onChange={(e) => setPrice({ ...price, code: e.target.value })}
+          options={units.map(currencyOption)}
+        />
+        <Input
+          label={t.date}
+          type="date"
+          value={price.date}
+          onChange={(e) => setPrice({ ...price, date: e.target.value })}
+        />
+        <Input
+          label={t.price.replace('{currency}', settings.currency)}
+          inputMode="decimal"
+          value={price.value}
+          onChange={(e) => setPrice({ ...price, value: e.target.value })}
+        />
+      </div>
+      <Button variant="outline" size="sm" onClick={handleSavePrice} disabled={isWorking || !price.value || !price.date}>
+        <span className="flex items-center gap-1.5">
+          <Save size={14} />
+          {t.savePrice}
+        </span>
+      </Button>
+
+      <div className="space-y-2 rounded-lg bg-slate-50 dark:bg-slate-800/50 p-3">
+        <p className="text-xs font-semibold text-slate-700 dark:text-slate-300">{t.customTitle}</p>
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
+          <Input
+            label={t.code}
+            placeholder="CEYREK"
+            value={unit.code}
+            onChange={(e) => setUnit({ ...unit, code: e.target.value })}
+          />
+          <Input
+            label={t.name}
+            placeholder={settings.language === 'tr' ? 'Çeyrek altın' : 'Quarter gold coin'}
+            value={unit.name}
+            onChange={(e) => setUnit({ ...unit, name: e.target.value })}
+          />
+          <Select
+            label={t.decimals}
+            value={unit.minorUnits}
+            onChange={(e) => setUnit({ ...unit, minorUnits: e.target.value })}
+            options={['0', '1', '2', '3'].map((digits) => ({ value: digits, label: digits }))}
+          />
+          <Select
+            label={t.base}
+            value={unit.base}
+            onChange={(e) => setUnit({ ...unit, base: e.target.value })}
+            options={[{ value: '', label: t.noBase }, ...units.map(currencyOption)]}
+          />
+          <Input
+            label={t.quantity}
+            inputMode="decimal"
+            placeholder="1.6"
+            disabled={!unit.base}
+            value={unit.quantity}
+            onChange={(e) => setUnit({ ...unit, quantity: e.target.value })}
+          />
+        </div>
+        <Button variant="outline" size="sm" onClick={handleAddUnit}>
+          <span className="flex items-center gap-1.5">
+            <Plus size={14} />
+            {t.addUnit}
+          </span>
+        </Button>
+      </div>
+
+      {message && (
+        <p
+          className={`text-xs font-medium ${
+            message.type === 'success' ? 'text-emerald-600 dark:text-emerald-400' : 'text-rose-600 dark:text-rose-400'
+          }`}
+        >
+          {message.text}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,215 @@
+import { useRef, useState } from 'react';
+import { KeyRound, Download, Upload } from 'lucide-react';
+import { useFinance } from '../../hooks/useFinance';
+import { Button } from '../ui/Button';
+import { Input } from '../ui/Input';
+import { e2eService, E2E_FIELDS, type E2EField } from '../../services/e2eService';
+import { downloadFile } from '../../utils/export';
+
+type KeyAction = 'idle' | 'export' | 'import';
+
+export function CloudEncryptionPanel() {
+  const { settings, cloudEncryptedFields, setCloudEncryptedFields, importCloudKey } = useFinance();
+  const [fields, setFields] = useState<E2EField[]>(cloudEncryptedFields);
+  const [keyAction, setKeyAction] = useState<KeyAction>('idle');
+  const [passphrase, setPassphrase] = useState('');
+  const [keyFile, setKeyFile] = useState<File | null>(null);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const texts = {
+    tr: {
+      title: 'Uçtan Uca Şifreleme',
+      description: 'Seçilen alanlar buluta gönderilmeden önce bu cihazda şifrelenir. Anahtar cihazdan hiç çıkmaz; sunucu yalnızca şifreli veriyi görür.',
+      fields: { title: 'Başlık', description: 'Açıklama', amount: 'Tutar' } as Record<E2EField, string>,
+      save: 'Kaydet ve Yeniden Yükle',
+      keyId: 'Anahtar',
+      noKey: 'Bu cihazda anahtar yok',
+      exportKey: 'Anahtarı Dışa Aktar',
+      importKey: 'Anahtar Dosyası Yükle',
+      chooseFile: 'Dosya Seç',
+      filePassphrase: 'Dosya Parolası',
+      exportHint: 'Diğer cihazlarınızda veya veri kaybında bu dosya ve parola gerekir. Güvenli bir yerde saklayın.',
+      confirm: 'Onayla',
+      cancel: 'Vazgeç',
+      saved: 'Şifreleme ayarları kaydedildi.',
+      exported: 'Anahtar dosyası indirildi.',
+      imported: 'Anahtar yüklendi.',
+      saveFailed: 'Ayarlar kaydedilemedi.',
+      exportFailed: 'Anahtar dışa aktarılamadı.',
+      importFailed: 'Anahtar yüklenemedi. Dosyayı ve parolayı kontrol edin.',
+    },
+    en: {
+      title: 'End-to-End Encryption',
+      description: 'The selected fields are encrypted on this device before they are sent to the cloud. The key never leaves the device; the server only sees ciphertext.',
+      fields: { title: 'Title', description: 'Description', amount: 'Amount' } as Record<E2EField, string>,
+      save: 'Save and Re-upload',
+      keyId: 'Key',
+      noKey: 'No key on this device',
+      exportKey: 'Export Key',
+      importKey: 'Import Key File',
+      chooseFile: 'Choose File',
+      filePassphrase: 'File Passphrase',
+      exportHint: 'Your other devices, or a recovery after data loss, need this file and passphrase. Keep them somewhere safe.',
+      confirm: 'Confirm',
+      cancel: 'Cancel',
+      saved: 'Encryption settings saved.',
+      exported: 'Key file downloaded.',
+      imported: 'Key imported.',
+      saveFailed: 'Could not save the settings.',
+      exportFailed: 'Could not export the key.',
+      importFailed: 'Could not import the key. Check the file and passphrase.',
+    },
+  };
+
+  const t = texts[settings.language];
+  const keyId = e2eService.getKeyId();
+  const isDirty = fields.length !== cloudEncryptedFields.length || fields.some((f) => !cloudEncryptedFields.includes(f));
+
+  const toggleField = (field: E2EField) => {
+    setFields((current) => (current.includes(field) ? current.filter((f) => f !== field) : [...current, field]));
+  };
+
+  const closeKeyAction = () => {
+    setKeyAction('idle');
+    setPassphrase('');
+    setKeyFile(null);
+  };
+
+  const handleSave = async () => {
+    setMessage(null);
+    setIsWorking(true);
+    const ok = await setCloudEncryptedFields(fields);
+    setIsWorking(false);
+    setMessage(ok ? { type: 'success', text: t.saved } : { type: 'error', text: t.saveFailed });
+  };
+
+  const handleKeyAction = async () => {
+    setMessage(null);
+    setIsWorking(true);
+
+    if (keyAction === 'export') {
+      try {
+        const file = await e2eService.exportRecoveryFile(passphrase);
+        downloadFile(JSON.stringify(file, null, 2), `monera-e2e-key-${file.keyId}.json`, 'application/json');
+        setMessage({ type: 'success', text: t.exported });
+        closeKeyAction();
+      } catch (error) {
+        console.error('[CloudEncryptionPanel] Export error:', error);
+        setMessage({ type: 'error', text: t.exportFailed });
+      }
+    } else if (keyFile) {
+      if (await importCloudKey(await keyFile.text(), passphrase)) {
+        setFields(e2eService.getFields());
+        setMessage({ type: 'success', text: t.imported });
+        closeKeyAction();
+      } else {
+        setMessage({ type: 'error', text: t.importFailed });
+      }
+    }
+
+    setIsWorking(false);
+  };
+
+  return (
+    <div className="space-y-3 pt-3 border-t border-slate-200 dark:border-slate-700">
+      <div className="flex items-start gap-3">
+        <KeyRound size={18} className="text-indigo-600 dark:text-indigo-400 flex-shrink-0 mt-0.5" />
+        <div>
+          <p className="text-sm font-medium text-slate-900 dark:text-white">{t.title}</p>
+          <p className="text-xs text-slate-600 dark:text-slate-400">{t.description}</p>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-3">
+        {E2E_FIELDS.map((field) => (
+          <label key={field} className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={fields.includes(field)}
+              onChange={() => toggleField(field)}
+              className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+            />
+            {t.fields[field]}
+          </label>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-xs text-slate-500 dark:text-slate-400 font-mono">
+          {keyId ? `${t.keyId}: ${keyId}` : t.noKey}
+        </p>
+        <Button size="sm" onClick={handleSave} disabled={!isDirty} isLoading={isWorking && keyAction === 'idle'}>
+          {t.save}
+        </Button>
+      </div>
+
+      {keyAction === 'idle' ? (
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" size="sm" onClick={() => setKeyAction('export')} disabled={!keyId}>
+            <span className="flex items-center gap-1.5">
+              <Download size={14} />
+              {t.exportKey}
+            </span>
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setKeyAction('import')}>
+            <span className="flex items-center gap-1.5">
+              <Upload size={14} />
+              {t.importKey}
+            </span>
+          </Button>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {keyAction === 'import' && (
+            <div className="flex items-center gap-2">
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".json"
+                onChange={(e) => setKeyFile(e.target.files?.[0] ?? null)}
+                className="hidden"
+              />
+              <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+                {t.chooseFile}
+              </Button>
+              <span className="text-xs text-slate-500 dark:text-slate-400 truncate">{keyFile?.name}</span>
+            </div>
+          )}
+          <Input
+            type="password"
+            label={t.filePassphrase}
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            autoComplete={keyAction === 'export' ? 'new-password' : 'current-password'}
+            helperText={keyAction === 'export' ? t.exportHint : undefined}
+          />
+          <div className="flex gap-2 justify-end">
+            <Button variant="ghost" size="sm" onClick={closeKeyAction} disabled={isWorking}>
+              {t.cancel}
+            </Button>
+            <Button
+              size="sm"
+              onClick={handleKeyAction}
+              isLoading={isWorking}
+              disabled={!passphrase || (keyAction === 'import' && !keyFile)}
+            >
+              {t.confirm}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {message && (
+        <p
+          className={`text-xs font-medium ${
+            message.type === 'success' ? 'text-emerald-600 dark:text-emerald-400' : 'text-rose-600 dark:text-rose-400'
+          }`}
+        >
+          {message.text}
+        </p>
+      )}
+    </div>
+  );
+}
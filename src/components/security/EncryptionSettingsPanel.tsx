@@ -0,0 +1,207 @@
+import { useState } from 'react';
+import { Lock, LockOpen, ShieldCheck } from 'lucide-react';
+import { useFinance } from '../../hooks/useFinance';
+import { Button } from '../ui/Button';
+import { Input } from '../ui/Input';
+import { encryptionService, MIN_PASSPHRASE_LENGTH } from '../../services/encryptionService';
+
+type PanelMode = 'idle' | 'enable' | 'change' | 'disable';
+
+export function EncryptionSettingsPanel() {
+  const { settings, isEncrypted, enableEncryption, changePassphrase, disableEncryption } = useFinance();
+  const [mode, setMode] = useState<PanelMode>('idle');
+  const [current, setCurrent] = useState('');
+  const [next, setNext] = useState('');
+  const [confirm, setConfirm] = useState('');
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const texts = {
+    tr: {
+      enabled: 'Yerel veriler şifreli',
+      disabled: 'Yerel veriler şifresiz',
+      description: 'İşlem başlıkları, açıklamaları ve tutarları bu cihazda parolanızdan türetilen bir anahtarla (AES-GCM) şifrelenir.',
+      enable: 'Şifrelemeyi Aç',
+      change: 'Parolayı Değiştir',
+      disable: 'Şifrelemeyi Kapat',
+      lock: 'Şimdi Kilitle',
+      currentPassphrase: 'Mevcut Parola',
+      newPassphrase: 'Yeni Parola',
+      confirmPassphrase: 'Yeni Parola (Tekrar)',
+      passphrase: 'Parola',
+      save: 'Onayla',
+      cancel: 'Vazgeç',
+      tooShort: `Parola en az ${MIN_PASSPHRASE_LENGTH} karakter olmalıdır.`,
+      mismatch: 'Parolalar eşleşmiyor.',
+      warning: 'Parolanızı unutursanız bu cihazdaki veriler kurtarılamaz.',
+      enabledDone: 'Şifreleme açıldı.',
+      changedDone: 'Parola değiştirildi ve veriler yeniden şifrelendi.',
+      disabledDone: 'Şifreleme kapatıldı.',
+      failed: 'İşlem başarısız. Parolanızı kontrol edin.',
+    },
+    en: {
+      enabled: 'Local data is encrypted',
+      disabled: 'Local data is not encrypted',
+      description: 'Transaction titles, descriptions and amounts are encrypted on this device with a key derived from your passphrase (AES-GCM).',
+      enable: 'Turn On Encryption',
+      change: 'Change Passphrase',
+      disable: 'Turn Off Encryption',
+      lock: 'Lock Now',
+      currentPassphrase: 'Current Passphrase',
+      newPassphrase: 'New Passphrase',
+      confirmPassphrase: 'Confirm New Passphrase',
+      passphrase: 'Passphrase',
+      save: 'Confirm',
+      cancel: 'Cancel',
+      tooShort: `Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters.`,
+      mismatch: 'Passphrases do not match.',
+      warning: 'If you forget your passphrase, the data on this device cannot be recovered.',
+      enabledDone: 'Encryption turned on.',
+      changedDone: 'Passphrase changed and data re-encrypted.',
+      disabledDone: 'Encryption turned off.',
+      failed: 'Operation failed. Check your passphrase.',
+    },
+  };
+
+  const t = texts[settings.language];
+
+  const reset = (nextMode: PanelMode = 'idle') => {
+    setMode(nextMode);
+    setCurrent('');
+    setNext('');
+    setConfirm('');
+  };
+
+  const handleSubmit = async () => {
+    setMessage(null);
+
+    if (mode === 'enable' || mode === 'change') {
+      if (next.length < MIN_PASSPHRASE_LENGTH) {
+        setMessage({ type: 'error', text: t.tooShort });
+        return;
+      }
+      if (next !== confirm) {
+        setMessage({ type: 'error', text: t.mismatch });
+        return;
+      }
+    }
+
+    setIsWorking(true);
+    const ok =
+      mode === 'enable'
+        ? await enableEncryption(next)
+        : mode === 'change'
+          ? await changePassphrase(current, next)
+          : await disableEncryption(current);
+    setIsWorking(false);
+
+    if (!ok) {
+      setMessage({ type: 'error', text: t.failed });
+      return;
+    }
+
+    setMessage({
+      type: 'success',
+      text: mode === 'enable' ? t.enabledDone : mode === 'change' ? t.changedDone : t.disabledDone,
+    });
+    reset();
+  };
+
+  const handleLock = () => {
+    // Reload drops every decrypted record from memory and shows the unlock screen
+    encryptionService.lock();
+    window.location.reload();
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-start gap-3">
+        {isEncrypted ? (
+          <ShieldCheck size={18} className="text-emerald-600 dark:text-emerald-400 flex-shrink-0 mt-0.5" />
+        ) : (
+          <LockOpen size={18} className="text-slate-500 dark:text-slate-400 flex-shrink-0 mt-0.5" />
+        )}
+        <div>
+          <p className="text-sm font-medium text-slate-900 dark:text-white">
+            {isEncrypted ? t.enabled : t.disabled}
+          </p>
+          <p className="text-xs text-slate-600 dark:text-slate-400">{t.description}</p>
+        </div>
+      </div>
+
+      {mode === 'idle' ? (
+        <div className="flex flex-wrap gap-2">
+          {isEncrypted ? (
+            <>
+              <Button variant="outline" size="sm" onClick={() => reset('change')}>
+                {t.change}
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => reset('disable')}>
+                {t.disable}
+              </Button>
+              <Button variant="ghost" size="sm" onClick={handleLock}>
+                <span className="flex items-center gap-1.5">
+                  <Lock size={14} />
+                  {t.lock}
+                </span>
+              </Button>
+            </>
+          ) : (
+            <Button size="sm" onClick={() => reset('enable')}>
+              {t.enable}
+            </Button>
+          )}
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {mode !== 'enable' && (
+            <Input
+              type="password"
+              label={mode === 'disable' ? t.passphrase : t.currentPassphrase}
+              value={current}
+              onChange={(e) => setCurrent(e.target.value)}
+              autoComplete="current-password"
+            />
+          )}
+          {mode !== 'disable' && (
+            <>
+              <Input
+                type="password"
+                label={t.newPassphrase}
+                value={next}
+                onChange={(e) => setNext(e.target.value)}
+                autoComplete="new-password"
+              />
+              <Input
+                type="password"
+                label={t.confirmPassphrase}
+                value={confirm}
+                onChange={(e) => setConfirm(e.target.value)}
+                autoComplete="new-password"
+                helperText={t.warning}
+              />
+            </>
+          )}
+          <div className="flex gap-2 justify-end">
+            <Button variant="ghost" size="sm" onClick={() => reset()} disabled={isWorking}>
+              {t.cancel}
+            </Button>
+            <Button size="sm" onClick={handleSubmit} isLoading={isWorking}>
+              {t.save}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {message && (
+        <p
+          className={`text-xs font-medium ${
+            message.type === 'success' ? 'text-emerald-600 dark:text-emerald-400' : 'text-rose-600 dark:text-rose-400'
+          }`}
+        >
+          {message.text}
+        </p>
+      )}
+    </div>
+  );
+}
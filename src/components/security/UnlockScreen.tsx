@@ -0,0 +1,147 @@
+import { useState, type FormEvent } from 'react';
+import { Lock, AlertCircle } from 'lucide-react';
+import { Button } from '../ui/Button';
+import { Input } from '../ui/Input';
+import { Card } from '../ui/Card';
+import { encryptionService } from '../../services/encryptionService';
+import { getCurrentAdapter } from '../../db/migration';
+
+interface UnlockScreenProps {
+  onUnlock: () => void;
+  language?: 'tr' | 'en';
+}
+
+export function UnlockScreen({ onUnlock, language = 'tr' }: UnlockScreenProps) {
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState('');
+  const [failedAttempts, setFailedAttempts] = useState(0);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [confirmReset, setConfirmReset] = useState(false);
+
+  const texts = {
+    tr: {
+      title: 'Verileriniz şifreli',
+      subtitle: 'Devam etmek için parolanızı girin.',
+      passphrase: 'Parola',
+      unlock: 'Kilidi Aç',
+      wrongPassphrase: 'Parola yanlış. Verileriniz şifreli kalmaya devam ediyor.',
+      attempts: 'Başarısız deneme',
+      unlockError: 'Kilit açılamadı. Lütfen tekrar deneyin.',
+      forgot: 'Parolamı unuttum',
+      resetWarning: 'Parola olmadan veriler çözülemez. Bu cihazdaki tüm veriler silinecek ve şifreleme kapatılacak. Bulut kopyaları etkilenmez.',
+      confirmReset: 'Yerel Verileri Sil',
+      cancel: 'Vazgeç',
+    },
+    en: {
+      title: 'Your data is encrypted',
+      subtitle: 'Enter your passphrase to continue.',
+      passphrase: 'Passphrase',
+      unlock: 'Unlock',
+      wrongPassphrase: 'Wrong passphrase. Your data stays encrypted.',
+      attempts: 'Failed attempts',
+      unlockError: 'Could not unlock. Please try again.',
+      forgot: 'I forgot my passphrase',
+      resetWarning: 'Without the passphrase the data cannot be decrypted. All data on this device will be erased and encryption turned off. Cloud copies are not affected.',
+      confirmReset: 'Erase Local Data',
+      cancel: 'Cancel',
+    },
+  };
+
+  const t = texts[language];
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setIsUnlocking(true);
+
+    try {
+      if (await encryptionService.unlock(passphrase)) {
+        onUnlock();
+        return;
+      }
+      setFailedAttempts((count) => count + 1);
+      setError(t.wrongPassphrase);
+      setPassphrase('');
+    } catch (err) {
+      console.error('[UnlockScreen] Unlock error:', err);
+      setError(t.unlockError);
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  const handleReset = async () => {
+    try {
+      await encryptionService.reset(await getCurrentAdapter());
+      onUnlock();
+    } catch (err) {
+      console.error('[UnlockScreen] Reset error:', err);
+      setError(t.unlockError);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4 bg-gradient-to-br from-slate-950 via-indigo-950 to-slate-900">
+      <Card className="w-full max-w-md p-6 md:p-8 shadow-2xl border border-slate-800 bg-slate-900/90 backdrop-blur-xl">
+        <div className="text-center mb-6">
+          <div className="inline-flex items-center justify-center w-14 h-14 bg-gradient-to-br from-indigo-500 to-purple-600 rounded-2xl mb-4 shadow-lg shadow-indigo-500/50">
+            <Lock className="w-7 h-7 text-white" />
+          </div>
+          <h1 className="text-xl font-bold text-white mb-1">{t.title}</h1>
+          <p className="text-sm text-slate-400">{t.subtitle}</p>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-rose-500/10 border border-rose-500/30 rounded-lg flex items-start gap-3">
+            <AlertCircle className="w-5 h-5 text-rose-400 flex-shrink-0 mt-0.5" />
+            <div className="text-sm text-rose-300 font-medium">
+              <p>{error}</p>
+              {failedAttempts > 1 && (
+                <p className="text-xs text-rose-400/80 mt-1">
+                  {t.attempts}: {failedAttempts}
+                </p>
+              )}
+            </div>
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <Input
+            type="password"
+            label={t.passphrase}
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            autoComplete="current-password"
+            autoFocus
+          />
+          <Button type="submit" className="w-full" isLoading={isUnlocking} disabled={!passphrase}>
+            {t.unlock}
+          </Button>
+        </form>
+
+        <div className="mt-6 pt-4 border-t border-slate-800">
+          {confirmReset ? (
+            <div className="space-y-3">
+              <p className="text-xs text-slate-400">{t.resetWarning}</p>
+              <div className="flex gap-2">
+                <Button variant="danger" size="sm" onClick={handleReset}>
+                  {t.confirmReset}
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => setConfirmReset(false)}>
+                  {t.cancel}
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <button
+              onClick={() => setConfirmReset(true)}
+              className="text-xs font-medium text-slate-400 hover:text-slate-200 hover:underline"
+            >
+              {t.forgot}
+            </button>
+          )}
+        </div>
+      </Card>
+    </div>
+  );
+}
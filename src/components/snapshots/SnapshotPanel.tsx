@@ -0,0 +1,288 @@
+import { useCallback, useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { tr, enUS } from 'date-fns/locale';
+import { Camera, History, Trash2 } from 'lucide-react';
+import { useFinance } from '../../hooks/useFinance';
+import { Button } from '../ui/Button';
+import { Modal } from '../ui/Modal';
+import {
+  snapshotService,
+  type RestorePreview,
+  type SnapshotReason,
+  type SnapshotSummary,
+  type TableDiff,
+} from '../../services/snapshotService';
+
+// Records listed per table in the preview before "and N more"
+const PREVIEW_LIMIT = 5;
+
+export function SnapshotPanel() {
+  const { settings, createSnapshot, previewSnapshotRestore, restoreSnapshot } = useFinance();
+  const [snapshots, setSnapshots] = useState<SnapshotSummary[]>([]);
+  const [selected, setSelected] = useState<SnapshotSummary | null>(null);
+  const [preview, setPreview] = useState<RestorePreview | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const texts = {
+    tr: {
+      description: 'Her gün ve toplu silme/içe aktarma işlemlerinden önce otomatik anlık görüntü alınır.',
+      takeSnapshot: 'Şimdi Al',
+      empty: 'Henüz anlık görüntü yok.',
+      preview: 'Önizle',
+      restoreTitle: 'Geri Yükle',
+      restore: 'Bu Ana Geri Dön',
+      cancel: 'Vazgeç',
+      loading: 'Karşılaştırılıyor...',
+      restoreNote: 'Tüm yerel veriler bu anlık görüntüdeki hâline döner. Mevcut durum önce ayrıca kaydedilir.',
+      noChanges: 'Mevcut verilerle aynı, değişecek bir şey yok.',
+      restored: 'Geri gelecek',
+      removed: 'Silinecek',
+      changed: 'Değişecek',
+      more: 've {count} tane daha',
+      settingsChanged: 'Ayarlar da geri yüklenecek.',
+      counts: '{transactions} işlem · {budgets} bütçe · {recurring} tekrarlayan',
+      tables: { transactions: 'İşlemler', budgets: 'Bütçeler', recurring: 'Tekrarlayan İşlemler' },
+      reasons: {
+        daily: 'Günlük',
+        manual: 'Manuel',
+        'before-clear': 'Tümünü silmeden önce',
+        'before-replace': 'Değiştirerek içe aktarmadan önce',
+        'before-import': 'Yedek yüklemeden önce',
+        'before-restore': 'Geri yüklemeden önce',
+        'before-delete-all': 'Bulutta toplu silmeden önce',
+        'before-cleanup': 'Temizlikten önce',
+        'before-repair': 'Veri onarımından önce',
+      } as Record<SnapshotReason, string>,
+      created: 'Anlık görüntü alındı.',
+      restoreDone: 'Veriler geri yüklendi.',
+      failed: 'İşlem başarısız oldu.',
+    },
+    en: {
+      description: 'A snapshot is taken automatically every day and before bulk deletes or imports.',
+      takeSnapshot: 'Take Now',
+      empty: 'No snapshots yet.',
+      preview: 'Preview',
+      restoreTitle: 'Restore',
+      restore: 'Restore This Point',
+      cancel: 'Cancel',
+      loading: 'Comparing...',
+      restoreNote: 'All local data goes back to this snapshot. The current state is saved as a snapshot first.',
+      noChanges: 'Same as the current data, nothing would change.',
+      restored: 'Will come back',
+      removed: 'Will be removed',
+      changed: 'Will change',
+      more: 'and {count} more',
+      settingsChanged: 'Settings will be restored too.',
+      counts: '{transactions} transactions · {budgets} budgets · {recurring} recurring',
+      tables: { transactions: 'Transactions', budgets: 'Budgets', recurring: 'Recurring Transactions' },
+      reasons: {
+        daily: 'Daily',
+        manual: 'Manual',
+        'before-clear': 'Before clearing all data',
+        'before-replace': 'Before a replacing import',
+        'before-import': 'Before loading a backup',
+        'before-restore': 'Before a restore',
+        'before-delete-all': 'Before a cloud bulk delete',
+        'before-cleanup': 'Before cleanup',
+        'before-repair': 'Before a data repair',
+      } as Record<SnapshotReason, string>,
+      created: 'Snapshot taken.',
+      restoreDone: 'Data restored.',
+      failed: 'The operation failed.',
+    },
+  };
+
+  const t = texts[settings.language];
+  const locale = settings.language === 'tr' ? tr : enUS;
+
+  const reload = useCallback(async () => {
+    setSnapshots(await snapshotService.list());
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    snapshotService.list().then((list) => {
+      if (!cancelled) setSnapshots(list);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const handleCreate = async () => {
+    setMessage(null);
+    setIsWorking(true);
+    const ok = await createSnapshot();
+    await reload();
+    setIsWorking(false);
+    setMessage(ok ? { type: 'success', text: t.created } : { type: 'error', text: t.failed });
+  };
+
+  const handleDelete = async (id: number) => {
+    await snapshotService.delete(id);
+    await reload();
+  };
+
+  const openPreview = async (snapshot: SnapshotSummary) => {
+    setMessage(null);
+    setSelected(snapshot);
+    setPreview(null);
+    const result = await previewSnapshotRestore(snapshot.id);
+    if (!result) {
+      setSelected(null);
+      setMessage({ type: 'error', text: t.failed });
+      return;
+    }
+    setPreview(result);
+  };
+
+  const closePreview = () => {
+    setSelected(null);
+    setPreview(null);
+  };
+
+  const handleRestore = async () => {
+    if (!selected || isWorking) return;
+
+    setIsWorking(true);
+    const ok = await restoreSnapshot(selected.id);
+    await reload();
+    setIsWorking(false);
+    closePreview();
+    setMessage(ok ? { type: 'success', text: t.restoreDone } : { type: 'error', text: t.failed });
+  };
+
+  const formatCounts = (stats: SnapshotSummary['stats']) =>
+    t.counts
+      .replace('{transactions}', String(stats.transactions))
+      .replace('{budgets}', String(stats.budgets))
+      .replace('{recurring}', String(stats.recurring));
+
+  const recordLabel = (record: { id: string; title?: string; category?: string }) =>
+    record.title || record.category || record.id;
+
+  const hasChanges = (diff: TableDiff<{ id: string }>) =>
+    diff.restored.length + diff.removed.length + diff.changed.length > 0;
+
+  const renderDiff = (label: string, diff: TableDiff<{ id: string; title?: string; category?: string }>) => {
+    if (!hasChanges(diff)) return null;
+
+    const groups: Array<[string, typeof diff.restored, string]> = [
+      [t.restored, diff.restored, 'text-emerald-600 dark:text-emerald-400'],
+      [t.removed, diff.removed, 'text-rose-600 dark:text-rose-400'],
+      [t.changed, diff.changed, 'text-amber-600 dark:text-amber-400'],
+    ];
+
+    return (
+      <div key={label} className="space-y-1">
+        <p className="text-xs font-semibold text-slate-700 dark:text-slate-300">{label}</p>
+        {groups
+          .filter(([, records]) => records.length > 0)
+          .map(([groupLabel, records, color]) => (
+            <div key={groupLabel} className="text-xs">
+              <span className={`font-medium ${color}`}>
+                {groupLabel} ({records.length}):
+              </span>{' '}
+              <span className="text-slate-600 dark:text-slate-400">
+                {records.slice(0, PREVIEW_LIMIT).map(recordLabel).join(', ')}
+                {records.length > PREVIEW_LIMIT && ` ${t.more.replace('{count}', String(records.length - PREVIEW_LIMIT))}`}
+              </span>
+            </div>
+          ))}
+      </div>
+    );
+  };
+
+  const previewIsEmpty =
+    preview &&
+    !preview.settingsChanged &&
+    !hasChanges(preview.transactions) &&
+    !hasChanges(preview.budgets) &&
+    !hasChanges(preview.recurring);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-start justify-between gap-3">
+        <p className="text-xs text-slate-600 dark:text-slate-400">{t.description}</p>
+        <Button variant="outline" size="sm" onClick={handleCreate} isLoading={isWorking && !selected}>
+          <span className="flex items-center gap-1.5">
+            <Camera size={14} />
+            {t.takeSnapshot}
+          </span>
+        </Button>
+      </div>
+
+      {snapshots.length === 0 ? (
+        <p className="text-xs text-slate-500 dark:text-slate-400">{t.empty}</p>
+      ) : (
+        <ul className="divide-y divide-slate-200 dark:divide-slate-700 max-h-72 overflow-y-auto">
+          {snapshots.map((snapshot) => (
+            <li key={snapshot.id} className="flex items-center justify-between gap-2 py-2">
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-slate-900 dark:text-white">
+                  {format(new Date(snapshot.createdAt), 'd MMM yyyy HH:mm', { locale })}
+                  <span className="ml-2 text-xs font-normal text-slate-500 dark:text-slate-400">
+                    {t.reasons[snapshot.reason]}
+                  </span>
+                </p>
+                <p className="text-xs text-slate-500 dark:text-slate-400 truncate">{formatCounts(snapshot.stats)}</p>
+              </div>
+              <div className="flex items-center gap-1 flex-shrink-0">
+                <Button variant="ghost" size="sm" onClick={() => openPreview(snapshot)}>
+                  <span className="flex items-center gap-1.5">
+                    <History size={14} />
+                    {t.preview}
+                  </span>
+                </Button>
+                <button
+                  onClick={() => handleDelete(snapshot.id)}
+                  className="p-2 text-slate-400 hover:text-rose-600 dark:hover:text-rose-400 transition-colors"
+                  aria-label="Delete snapshot"
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {message && (
+        <p
+          className={`text-xs font-medium ${
+            message.type === 'success' ? 'text-emerald-600 dark:text-emerald-400' : 'text-rose-600 dark:text-rose-400'
+          }`}
+        >
+          {message.text}
+        </p>
+      )}
+
+      <Modal
+        isOpen={selected !== null}
+        title={t.restoreTitle}
+        onClose={closePreview}
+        onConfirm={preview && !previewIsEmpty ? handleRestore : undefined}
+        confirmLabel={t.restore}
+        cancelLabel={t.cancel}
+        isDanger
+      >
+        {!preview ? (
+          <p className="text-sm text-slate-500 dark:text-slate-400">{t.loading}</p>
+        ) : previewIsEmpty ? (
+          <p className="text-sm text-slate-600 dark:text-slate-400">{t.noChanges}</p>
+        ) : (
+          <div className="space-y-3">
+            <p className="text-xs text-slate-600 dark:text-slate-400">{t.restoreNote}</p>
+            {renderDiff(t.tables.transactions, preview.transactions)}
+            {renderDiff(t.tables.budgets, preview.budgets)}
+            {renderDiff(t.tables.recurring, preview.recurring)}
+            {preview.settingsChanged && (
+              <p className="text-xs text-slate-600 dark:text-slate-400">{t.settingsChanged}</p>
+            )}
+          </div>
+        )}
+      </Modal>
+    </div>
+  );
+}
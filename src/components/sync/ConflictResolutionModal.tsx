@@ -0,0 +1,220 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Smartphone, Cloud } from 'lucide-react';
+import { useFinance } from '../../hooks/useFinance';
+import { Modal } from '../ui/Modal';
+import { Button } from '../ui/Button';
+import { diffFields, mergeRecords, type FieldSide } from '../../utils/versioning';
+import type { ConflictResolution, SyncConflict, VersionedRecord } from '../../services/syncService';
+
+interface ConflictResolutionModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const FIELD_LABELS: Record<string, { tr: string; en: string }> = {
+  title: { tr: 'Başlık', en: 'Title' },
+  amount: { tr: 'Tutar', en: 'Amount' },
+  category: { tr: 'Kategori', en: 'Category' },
+  date: { tr: 'Tarih', en: 'Date' },
+  type: { tr: 'Tür', en: 'Type' },
+  description: { tr: 'Açıklama', en: 'Description' },
+  originalCurrency: { tr: 'Para Birimi', en: 'Currency' },
+  currency: { tr: 'Para Birimi', en: 'Currency' },
+  monthlyLimit: { tr: 'Aylık Limit', en: 'Monthly Limit' },
+  alertThreshold: { tr: 'Uyarı Eşiği', en: 'Alert Threshold' },
+  isActive: { tr: 'Aktif', en: 'Active' },
+  frequency: { tr: 'Sıklık', en: 'Frequency' },
+  startDate: { tr: 'Başlangıç', en: 'Start Date' },
+  endDate: { tr: 'Bitiş', en: 'End Date' },
+  nextOccurrence: { tr: 'Sonraki Tarih', en: 'Next Occurrence' },
+  lastGenerated: { tr: 'Son Oluşturma', en: 'Last Generated' },
+};
+
+export function ConflictResolutionModal({ isOpen, onClose }: ConflictResolutionModalProps) {
+  const { settings, syncStatus, getSyncConflicts, resolveSyncConflict } = useFinance();
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+  const [choices, setChoices] = useState<Record<string, FieldSide>>({});
+  const [isResolving, setIsResolving] = useState(false);
+
+  const texts = {
+    tr: {
+      title: 'Senkronizasyon Çakışmaları',
+      of: '/',
+      description: 'Bu kayıt hem bu cihazda hem de başka bir cihazda değiştirildi.',
+      deletedRemotely: 'Bu kayıt başka bir cihazda silindi, ancak burada düzenlendi.',
+      field: 'Alan',
+      thisDevice: 'Bu cihaz',
+      otherDevice: 'Diğer cihaz',
+      keepLocal: 'Benimkini Koru',
+      keepRemote: 'Diğerini Kullan',
+      acceptDelete: 'Silmeyi Kabul Et',
+      merge: 'Seçilenleri Birleştir',
+      noConflicts: 'Çözülecek çakışma yok.',
+      yes: 'Evet',
+      no: 'Hayır',
+      recordTypes: { transactions: 'İşlem', budgets: 'Bütçe', recurring: 'Tekrarlayan İşlem' },
+    },
+    en: {
+      title: 'Sync Conflicts',
+      of: 'of',
+      description: 'This record was changed on this device and on another device.',
+      deletedRemotely: 'This record was deleted on another device but edited here.',
+      field: 'Field',
+      thisDevice: 'This device',
+      otherDevice: 'Other device',
+      keepLocal: 'Keep Mine',
+      keepRemote: 'Use Theirs',
+      acceptDelete: 'Accept Delete',
+      merge: 'Merge Selected',
+      noConflicts: 'No conflicts to resolve.',
+      yes: 'Yes',
+      no: 'No',
+      recordTypes: { transactions: 'Transaction', budgets: 'Budget', recurring: 'Recurring Transaction' },
+    },
+  };
+
+  const t = texts[settings.language];
+
+  const loadConflicts = useCallback(async () => {
+    const pending = await getSyncConflicts();
+    setConflicts(pending);
+    setChoices({});
+  }, [getSyncConflicts]);
+
+  // Reload when opened and whenever a sync finds or settles conflicts
+  useEffect(() => {
+    if (!isOpen) return;
+
+    let cancelled = false;
+    getSyncConflicts().then((pending) => {
+      if (cancelled) return;
+      setConflicts(pending);
+      setChoices({});
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, syncStatus.conflicts, getSyncConflicts]);
+
+  const conflict = conflicts[0];
+  const fields = conflict?.remote ? diffFields(conflict.local, conflict.remote) : [];
+
+  const formatValue = (value: unknown) => {
+    if (value === undefined || value === null || value === '') return '—';
+    if (typeof value === 'boolean') return value ? t.yes : t.no;
+    return String(value);
+  };
+
+  const handleResolve = async (resolution: ConflictResolution) => {
+    if (!conflict) return;
+
+    setIsResolving(true);
+    const merged: VersionedRecord | undefined =
+      resolution === 'merge' && conflict.remote
+        ? mergeRecords(conflict.local, conflict.remote, choices)
+        : undefined;
+
+    const resolved = await resolveSyncConflict(conflict.id, resolution, merged);
+    setIsResolving(false);
+
+    if (!resolved) return;
+    if (conflicts.length <= 1) {
+      onClose();
+    }
+    await loadConflicts();
+  };
+
+  const recordTitle = conflict
+    ? ('title' in conflict.local ? conflict.local.title : conflict.local.category)
+    : '';
+
+  return (
+    <Modal isOpen={isOpen} title={t.title} onClose={onClose}>
+      {!conflict ? (
+        <p className="text-sm text-slate-600 dark:text-slate-400">{t.noConflicts}</p>
+      ) : (
+        <div className="space-y-4">
+          {/* Record header */}
+          <div>
+            <div className="flex items-center justify-between text-xs text-slate-500 dark:text-slate-400">
+              <span>{t.recordTypes[conflict.table]}</span>
+              <span>
+                1 {t.of} {conflicts.length}
+              </span>
+            </div>
+            <h3 className="text-base font-semibold text-slate-900 dark:text-white">{recordTitle}</h3>
+            <p className="text-xs text-slate-600 dark:text-slate-400 mt-1">
+              {conflict.remote ? t.description : t.deletedRemotely}
+            </p>
+          </div>
+
+          {/* Field-by-field diff */}
+          {conflict.remote && fields.length > 0 && (
+            <div className="border border-slate-200 dark:border-slate-800 rounded-lg overflow-hidden">
+              <div className="grid grid-cols-3 gap-2 px-3 py-2 bg-slate-50 dark:bg-slate-800 text-xs font-semibold text-slate-600 dark:text-slate-300">
+                <span>{t.field}</span>
+                <span className="flex items-center gap-1">
+                  <Smartphone className="w-3.5 h-3.5" />
+                  {t.thisDevice}
+                </span>
+                <span className="flex items-center gap-1">
+                  <Cloud className="w-3.5 h-3.5" />
+                  {t.otherDevice}
+                </span>
+              </div>
+              {fields.map((field) => {
+                const side = choices[field] ?? 'local';
+                const local = (conflict.local as unknown as Record<string, unknown>)[field];
+                const remote = (conflict.remote as unknown as Record<string, unknown>)[field];
+                return (
+                  <div
+                    key={field}
+                    className="grid grid-cols-3 gap-2 px-3 py-2 border-t border-slate-200 dark:border-slate-800 text-xs"
+                  >
+                    <span className="font-medium text-slate-700 dark:text-slate-300">
+                      {FIELD_LABELS[field]?.[settings.language] ?? field}
+                    </span>
+                    {(['local', 'remote'] as const).map((option) => (
+                      <label
+                        key={option}
+                        className={`flex items-start gap-1.5 cursor-pointer break-words ${
+                          side === option
+                            ? 'text-indigo-700 dark:text-indigo-300 font-medium'
+                            : 'text-slate-600 dark:text-slate-400'
+                        }`}
+                      >
+                        <input
+                          type="radio"
+                          name={`conflict-${field}`}
+                          checked={side === option}
+                          onChange={() => setChoices((prev) => ({ ...prev, [field]: option }))}
+                          className="mt-0.5"
+                        />
+                        <span>{formatValue(option === 'local' ? local : remote)}</span>
+                      </label>
+                    ))}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          {/* Actions */}
+          <div className="flex flex-wrap gap-2 justify-end">
+            <Button variant="outline" size="sm" onClick={() => handleResolve('remote')} disabled={isResolving}>
+              {conflict.remote ? t.keepRemote : t.acceptDelete}
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => handleResolve('local')} disabled={isResolving}>
+              {t.keepLocal}
+            </Button>
+            {conflict.remote && fields.length > 0 && (
+              <Button size="sm" onClick={() => handleResolve('merge')} disabled={isResolving}>
+                {t.merge}
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+    </Modal>
+  );
+}
@@ -1,8 +1,9 @@
 import { useState } from 'react';
-import { Cloud, RefreshCw, CheckCircle, AlertCircle, Clock } from 'lucide-react';
+import { Cloud, RefreshCw, CheckCircle, AlertCircle, Clock, Upload, GitMerge } from 'lucide-react';
 import { useFinance } from '../../hooks/useFinance';
 import { useAuth } from '../../context/AuthContext';
 import { Button } from '../ui/Button';
+import { ConflictResolutionModal } from './ConflictResolutionModal';
 import { formatDistanceToNow } from 'date-fns';
 import { tr, enUS } from 'date-fns/locale';
 
@@ -11,6 +12,7 @@ export function SyncStatusIndicator() {
   const { isAuthenticated, isCloudEnabled } = useAuth();
   const [isSyncing, setIsSyncing] = useState(false);
   const [syncMessage, setSyncMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [showConflicts, setShowConflicts] = useState(false);
 
   const locale = settings.language === 'tr' ? tr : enUS;
 
@@ -27,6 +29,10 @@ export function SyncStatusIndicator() {
       syncError: 'Senkronizasyon hatası',
       itemsSynced: 'öğe senkronize edildi',
       conflicts: 'çakışma',
+      pendingChanges: 'değişiklik gönderilmeyi bekliyor',
+      allPushed: 'Tüm değişiklikler gönderildi',
+      conflictsDetected: 'kayıtta çakışma var',
+      resolve: 'Çöz',
     },
     en: {
       cloudActive: 'Cloud Active',
@@ -40,6 +46,10 @@ export function SyncStatusIndicator() {
       syncError: 'Sync error',
       itemsSynced: 'items synced',
       conflicts: 'conflicts',
+      pendingChanges: 'changes waiting to upload',
+      allPushed: 'All changes uploaded',
+      conflictsDetected: 'records in conflict',
+      resolve: 'Resolve',
     },
   };
 
@@ -137,6 +147,34 @@ export function SyncStatusIndicator() {
         </div>
       )}
 
+      {/* Outbox */}
+      <div className="flex items-center gap-2 text-xs text-slate-600 dark:text-slate-400">
+        <Upload className="w-3.5 h-3.5" />
+        <span>
+          {syncStatus.pendingCount > 0
+            ? `${syncStatus.pendingCount} ${t.pendingChanges}`
+            : t.allPushed}
+        </span>
+      </div>
+
+      {/* Unresolved conflicts */}
+      {syncStatus.conflicts > 0 && (
+        <div className="flex items-center justify-between gap-2 text-xs text-amber-700 dark:text-amber-300">
+          <div className="flex items-center gap-2">
+            <GitMerge className="w-3.5 h-3.5" />
+            <span>
+              {syncStatus.conflicts} {t.conflictsDetected}
+            </span>
+          </div>
+          <button
+            onClick={() => setShowConflicts(true)}
+            className="font-semibold underline hover:text-amber-800 dark:hover:text-amber-200"
+          >
+            {t.resolve}
+          </button>
+        </div>
+      )}
+
       {/* Sync Message */}
       {syncMessage && (
         <div
@@ -183,6 +221,8 @@ export function SyncStatusIndicator() {
           <span>{syncStatus.error}</span>
         </div>
       )}
+
+      <ConflictResolutionModal isOpen={showConflicts} onClose={() => setShowConflicts(false)} />
     </div>
   );
 }
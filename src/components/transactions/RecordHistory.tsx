@@ -0,0 +1,177 @@
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { tr, enUS } from 'date-fns/locale';
+import { RotateCcw } from 'lucide-react';
+import { useFinance } from '../../hooks/useFinance';
+import type { AuditEntry, AuditSource } from '../../services/auditService';
+import { diffFields } from '../../utils/versioning';
+import { getDeviceInfo } from '../../utils/device';
+import { t as translate, translateCategory, type TranslationKey } from '../../utils/i18n';
+
+interface RecordHistoryProps {
+  table: AuditEntry['table'];
+  recordId: string;
+  language: 'tr' | 'en';
+  onReverted?: () => void;
+}
+
+// Record fields with a label in the shared translations
+const FIELD_LABELS: Record<string, TranslationKey> = {
+  title: 'title',
+  amount: 'amount',
+  category: 'category',
+  date: 'date',
+  description: 'description',
+  type: 'transactionType',
+  originalCurrency: 'currency',
+};
+
+/**
+ * Change history of one record from the audit log, newest first, with a
+ * "revert" action on every earlier version
+ */
+export function RecordHistory({ table, recordId, language, onReverted }: RecordHistoryProps) {
+  const { getRecordHistory, revertToVersion } = useFinance();
+  const [entries, setEntries] = useState<AuditEntry[] | null>(null);
+  const [revertingId, setRevertingId] = useState<number | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  const texts = {
+    tr: {
+      loading: 'Geçmiş yükleniyor...',
+      empty: 'Bu kayıt için geçmiş yok.',
+      created: 'Oluşturuldu',
+      deleted: 'Silindi',
+      revert: 'Bu sürüme dön',
+      thisDevice: 'bu cihaz',
+      failed: 'Geri dönülemedi.',
+      sources: {
+        manual: 'Elle',
+        import: 'İçe aktarma',
+        recurring: 'Tekrarlayan işlem',
+        cleanup: 'Temizlik',
+        sync: 'Başka bir cihazdan (senkronizasyon)',
+        undo: 'Geri al / yinele',
+        restore: 'Anlık görüntüden geri yükleme',
+        revert: 'Önceki sürüme dönüş',
+        repair: 'Veri onarımı',
+      } as Record<AuditSource, string>,
+    },
+    en: {
+      loading: 'Loading history...',
+      empty: 'No history for this record.',
+      created: 'Created',
+      deleted: 'Deleted',
+      revert: 'Revert to this version',
+      thisDevice: 'this device',
+      failed: 'Could not revert.',
+      sources: {
+        manual: 'Manual',
+        import: 'Import',
+        recurring: 'Recurring generator',
+        cleanup: 'Cleanup',
+        sync: 'Another device (sync)',
+        undo: 'Undo / redo',
+        restore: 'Snapshot restore',
+        revert: 'Reverted',
+        repair: 'Data repair',
+      } as Record<AuditSource, string>,
+    },
+  };
+
+  const t = texts[language];
+  const locale = language === 'tr' ? tr : enUS;
+  const deviceId = getDeviceInfo().id;
+
+  useEffect(() => {
+    let cancelled = false;
+    getRecordHistory(table, recordId).then((history) => {
+      if (!cancelled) setEntries(history);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [getRecordHistory, table, recordId]);
+
+  const handleRevert = async (entryId: number) => {
+    setFailed(false);
+    setRevertingId(entryId);
+    const ok = await revertToVersion(entryId);
+    setRevertingId(null);
+    if (ok) {
+      onReverted?.();
+    } else {
+      setFailed(true);
+    }
+  };
+
+  const fieldLabel = (field: string) => (FIELD_LABELS[field] ? translate(FIELD_LABELS[field], language) : field);
+
+  const formatValue = (field: string, value: unknown) => {
+    if (value === undefined || value === null || value === '') return '—';
+    if (field === 'category' && typeof value === 'string') return translateCategory(value, language);
+    return Array.isArray(value) ? value.join(', ') : String(value);
+  };
+
+  const describe = (entry: AuditEntry) => {
+    if (!entry.before) return [t.created];
+    if (!entry.after) return [t.deleted];
+
+    const before = entry.before as unknown as Record<string, unknown>;
+    const after = entry.after as unknown as Record<string, unknown>;
+    return diffFields(before, after).map(
+      (field) => `${fieldLabel(field)}: ${formatValue(field, before[field])} → ${formatValue(field, after[field])}`
+    );
+  };
+
+  if (!entries) {
+    return <p className="text-xs text-slate-500 dark:text-slate-400">{t.loading}</p>;
+  }
+  if (entries.length === 0) {
+    return <p className="text-xs text-slate-500 dark:text-slate-400">{t.empty}</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      <ul className="divide-y divide-slate-200 dark:divide-slate-700 max-h-60 overflow-y-auto">
+        {entries.map((entry, index) => (
+          <li key={entry.id} className="py-2 space-y-1">
+            <div className="flex items-start justify-between gap-2">
+              <div className="min-w-0">
+                <p className="text-xs font-medium text-slate-900 dark:text-white">
+                  {format(new Date(entry.at), 'd MMM yyyy HH:mm', { locale })}
+                  <span className="ml-2 font-normal text-slate-500 dark:text-slate-400">{t.sources[entry.source]}</span>
+                </p>
+                {entry.source !== 'sync' && (
+                  <p className="text-xs text-slate-500 dark:text-slate-400">
+                    {entry.deviceName}
+                    {entry.deviceId === deviceId && ` (${t.thisDevice})`}
+                  </p>
+                )}
+              </div>
+              {/* The newest entry is the current version */}
+              {index > 0 && entry.after && (
+                <button
+                  onClick={() => handleRevert(entry.id!)}
+                  disabled={revertingId !== null}
+                  className="flex items-center gap-1 text-xs font-medium text-indigo-600 dark:text-indigo-400 hover:underline disabled:opacity-50 flex-shrink-0"
+                >
+                  <RotateCcw size={12} />
+                  {t.revert}
+                </button>
+              )}
+            </div>
+            <ul className="text-xs text-slate-600 dark:text-slate-400">
+              {describe(entry).map((line) => (
+                <li key={line} className="break-words">
+                  {line}
+                </li>
+              ))}
+            </ul>
+          </li>
+        ))}
+      </ul>
+      {failed && <p className="text-xs font-medium text-rose-600 dark:text-rose-400">{t.failed}</p>}
+    </div>
+  );
+}
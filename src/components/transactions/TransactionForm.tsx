@@ -1,15 +1,19 @@
 import { useState, useEffect } from 'react';
-import { Plus } from 'lucide-react';
+import { Plus, History } from 'lucide-react';
 import { Button } from '../ui/Button';
 import { Modal } from '../ui/Modal';
 import { Input } from '../ui/Input';
 import { Select } from '../ui/Select';
-import type { Transaction, RecurringTransaction } from '../../types';
+import type { Transaction, RecurringTransaction, CurrencyCode, TransactionType } from '../../types';
 import { INCOME_CATEGORIES, EXPENSE_CATEGORIES, SAVINGS_CATEGORIES } from '../../types';
 import { dateToISOString } from '../../utils/formatters';
 import { t, translateCategory } from '../../utils/i18n';
 import { useFinance } from '../../hooks/useFinance';
+import { currencyOption, enabledCurrencies, getCurrency, isCommodity } from '../../utils/currencies';
+import { money, toAmount, toDecimalString } from '../../utils/money';
+import { TRANSFER_CATEGORY } from '../../utils/accounts';
 import { useAlert } from '../../hooks/useAlert';
+import { RecordHistory } from './RecordHistory';
 
 interface TransactionFormProps {
   mode: 'add' | 'edit';
@@ -18,7 +22,7 @@ interface TransactionFormProps {
   onClose?: () => void;
   triggerButton?: boolean;
   language: 'tr' | 'en';
-  currency: 'TRY' | 'USD' | 'EUR' | 'GBP';
+  currency: CurrencyCode;
 }
 
 export function TransactionForm({ 
@@ -30,18 +34,24 @@ export function TransactionForm({
   language,
   currency
 }: TransactionFormProps) {
-  const { addRecurringTransaction, getBudgetProgress, budgets } = useFinance();
+  const { addRecurringTransaction, getBudgetProgress, budgets, settings } = useFinance();
   const { showConfirm, AlertComponent } = useAlert();
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [isRecurring, setIsRecurring] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
   const [formData, setFormData] = useState<{
-    type: 'income' | 'expense' | 'savings' | 'withdrawal';
+    type: TransactionType;
     title: string;
     amount: string;
     category: string;
     date: string;
     description: string;
-    originalCurrency: 'TRY' | 'USD' | 'EUR' | 'GBP';
+    originalCurrency: CurrencyCode;
+    settledAmount: string;
+    settledCurrency: CurrencyCode;
+    rate: string;
+    accountId: string;
+    toAccountId: string;
     frequency: 'daily' | 'weekly' | 'monthly' | 'yearly';
     endDate: string;
   }>({
@@ -52,12 +62,51 @@ export function TransactionForm({
     date: dateToISOString(new Date()),
     description: '',
     originalCurrency: currency,
+    settledAmount: '',
+    settledCurrency: currency,
+    rate: '',
+    accountId: '',
+    toAccountId: '',
     frequency: 'monthly',
     endDate: '',
   });
 
   const [errors, setErrors] = useState<Record<string, string>>({});
 
+  // Enabled currencies, plus the edited transaction's own if it's no longer enabled
+  const enabled = enabledCurrencies(settings);
+  const currencyOptions = (enabled.includes(formData.originalCurrency) ? enabled : [...enabled, formData.originalCurrency])
+    .map(currencyOption);
+
+  // Open accounts, plus the edited transaction's own if they were closed since
+  const accounts = (settings.accounts ?? []).filter(
+    (account) => account.isActive || account.id === formData.accountId || account.id === formData.toAccountId
+  );
+  const accountOptions = accounts.map((account) => ({ value: account.id, label: `${account.name} (${account.currency})` }));
+  const isTransfer = formData.type === 'transfer';
+
+  // Picking an account in a new transaction switches to the account's currency
+  const handleAccountChange = (accountId: string) => {
+    const account = accounts.find((candidate) => candidate.id === accountId);
+    setFormData({
+      ...formData,
+      accountId,
+      originalCurrency: mode === 'add' && account ? account.currency : formData.originalCurrency,
+    });
+  };
+
+  // Gold, silver or a custom unit: the amount is a quantity, the rate a unit price
+  const isUnit = isCommodity(formData.originalCurrency);
+
+  // Paid in another currency: the bank's rate or the settled amount can be recorded
+  const isForeign = formData.originalCurrency !== formData.settledCurrency && !(isRecurring && mode === 'add');
+
+  // Settled amount for an amount at a rate, as the input shows it
+  const settleAt = (amount: string, rate: string): string | null => {
+    const value = parseFloat(amount) * parseFloat(rate);
+    return value > 0 ? toDecimalString(money(value, formData.settledCurrency)) : null;
+  };
+
   // Load transaction data when editing
   useEffect(() => {
     if (mode === 'edit' && transaction) {
@@ -69,6 +118,11 @@ export function TransactionForm({
         date: transaction.date,
         description: transaction.description || '',
         originalCurrency: (transaction as any).originalCurrency || currency,
+        settledAmount: transaction.settledAmount?.toString() ?? '',
+        settledCurrency: transaction.settledCurrency ?? currency,
+        rate: '',
+        accountId: transaction.accountId ?? '',
+        toAccountId: transaction.toAccountId ?? '',
         frequency: 'monthly',
         endDate: '',
       });
@@ -97,15 +151,27 @@ export function TransactionForm({
       newErrors.amount = language === 'tr' ? 'Tutar çok büyük' : 'Amount is too large';
     }
     
-    // Category is required only if not withdrawal
-    if (formData.type !== 'withdrawal' && !formData.category) {
+    // Category is required only if not withdrawal or transfer
+    if (formData.type !== 'withdrawal' && !isTransfer && !formData.category) {
       newErrors.category = language === 'tr' ? 'Kategori gereklidir' : 'Category is required';
     }
+
+    if (isTransfer && !formData.accountId) {
+      newErrors.accountId = language === 'tr' ? 'Gönderen hesap gereklidir' : 'From account is required';
+    }
+
+    if (isTransfer && (!formData.toAccountId || formData.toAccountId === formData.accountId)) {
+      newErrors.toAccountId = language === 'tr' ? 'Farklı bir alıcı hesap seçin' : 'Choose a different account to transfer to';
+    }
     
     if (!formData.date) {
       newErrors.date = language === 'tr' ? 'Tarih gereklidir' : 'Date is required';
     }
     
+    if (isForeign && formData.settledAmount && !(parseFloat(formData.settledAmount) > 0)) {
+      newErrors.settledAmount = language === 'tr' ? 'Ödenen tutar 0\'dan büyük olmalıdır' : 'Settled amount must be greater than 0';
+    }
+    
     if (formData.description && formData.description.length > 500) {
       newErrors.description = language === 'tr' ? 'Açıklama en fazla 500 karakter olabilir' : 'Description must be 500 characters or less';
     }
@@ -171,6 +237,9 @@ export function TransactionForm({
       // Note: Actual transactions will be generated automatically
     } else {
       // Normal transaction
+      const settled = isForeign && formData.settledAmount
+        ? money(parseFloat(formData.settledAmount), formData.settledCurrency)
+        : null;
       const result = await Promise.resolve(onSubmit({
         type: formData.type,
         title: formData.title,
@@ -179,6 +248,10 @@ export function TransactionForm({
         date: formData.date,
         description: formData.description || undefined,
         originalCurrency: formData.originalCurrency,
+        settledAmount: settled ? toAmount(settled) : undefined,
+        settledCurrency: settled?.currency,
+        accountId: formData.accountId || undefined,
+        toAccountId: isTransfer ? formData.toAccountId : undefined,
       }));
 
       if (result === false) {
@@ -199,6 +272,11 @@ export function TransactionForm({
       date: dateToISOString(new Date()),
       description: '',
       originalCurrency: currency,
+      settledAmount: '',
+      settledCurrency: currency,
+      rate: '',
+      accountId: '',
+      toAccountId: '',
       frequency: 'monthly',
       endDate: '',
     });
@@ -210,6 +288,7 @@ export function TransactionForm({
 
   const handleClose = () => {
     setIsModalOpen(false);
+    setShowHistory(false);
     setErrors({});
     onClose?.();
   };
@@ -249,12 +328,16 @@ export function TransactionForm({
             label={t('transactionType', language)}
             value={formData.type}
             onChange={(e) => {
-              const newType = e.target.value as 'income' | 'expense' | 'savings' | 'withdrawal';
+              const newType = e.target.value as TransactionType;
               const newCategory = newType === 'income' 
                 ? INCOME_CATEGORIES[0] 
                 : (newType === 'savings' || newType === 'withdrawal')
                 ? SAVINGS_CATEGORIES[0]
+                : newType === 'transfer'
+                ? TRANSFER_CATEGORY
                 : EXPENSE_CATEGORIES[0];
+              // Templates don't carry accounts, so transfers can't recur
+              if (newType === 'transfer') setIsRecurring(false);
               setFormData((prev) => ({
                 ...prev,
                 type: newType,
@@ -266,9 +349,33 @@ export function TransactionForm({
               { value: 'expense', label: t('expenseType', language) },
               { value: 'savings', label: t('savingsType', language) },
               { value: 'withdrawal', label: t('withdrawal', language) },
+              // Transfers need two accounts
+              ...(accounts.length >= 2 || isTransfer ? [{ value: 'transfer', label: t('transfer', language) }] : []),
             ]}
           />
 
+          {/* Account(s) the money moves in */}
+          {accounts.length > 0 && (
+            <div className={isTransfer ? 'grid grid-cols-2 gap-3' : undefined}>
+              <Select
+                label={isTransfer ? (language === 'tr' ? 'Gönderen Hesap' : 'From Account') : (language === 'tr' ? 'Hesap' : 'Account')}
+                value={formData.accountId}
+                onChange={(e) => handleAccountChange(e.target.value)}
+                error={errors.accountId}
+                options={[{ value: '', label: language === 'tr' ? 'Hesap yok' : 'No account' }, ...accountOptions]}
+              />
+              {isTransfer && (
+                <Select
+                  label={language === 'tr' ? 'Alıcı Hesap' : 'To Account'}
+                  value={formData.toAccountId}
+                  onChange={(e) => setFormData({ ...formData, toAccountId: e.target.value })}
+                  error={errors.toAccountId}
+                  options={[{ value: '', label: '—' }, ...accountOptions]}
+                />
+              )}
+            </div>
+          )}
+
           {/* Title */}
           <Input
             label={t('title', language)}
@@ -282,14 +389,20 @@ export function TransactionForm({
 
           {/* Amount */}
           <Input
-            label={t('amount', language)}
+            label={isUnit
+              ? `${language === 'tr' ? 'Miktar' : 'Quantity'} (${getCurrency(formData.originalCurrency).symbol})`
+              : t('amount', language)}
             type="number"
-            placeholder="0.00"
+            placeholder={(0).toFixed(getCurrency(formData.originalCurrency).minorUnits)}
             min="0"
             max="999999999"
-            step="0.01"
+            step={10 ** -getCurrency(formData.originalCurrency).minorUnits}
             value={formData.amount}
-            onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+            onChange={(e) => setFormData({
+              ...formData,
+              amount: e.target.value,
+              settledAmount: (formData.rate && settleAt(e.target.value, formData.rate)) || formData.settledAmount,
+            })}
             error={errors.amount}
           />
 
@@ -297,17 +410,44 @@ export function TransactionForm({
           <Select
             label={t('currency', language)}
             value={formData.originalCurrency}
-            onChange={(e) => setFormData({ ...formData, originalCurrency: e.target.value as any })}
-            options={[
-              { value: 'TRY', label: '₺ TRY' },
-              { value: 'USD', label: '$ USD' },
-              { value: 'EUR', label: '€ EUR' },
-              { value: 'GBP', label: '£ GBP' },
-            ]}
+            onChange={(e) => setFormData({ ...formData, originalCurrency: e.target.value })}
+            options={currencyOptions}
           />
 
-          {/* Category - Hidden for withdrawal */}
-          {formData.type !== 'withdrawal' && (
+          {/* What a foreign-currency payment actually cost (bank statement) */}
+          {isForeign && (
+            <div className="grid grid-cols-2 gap-3">
+              <Input
+                label={`${isUnit ? (language === 'tr' ? 'Birim Fiyat' : 'Unit Price') : (language === 'tr' ? 'Banka Kuru' : 'Bank Rate')} (1 ${formData.originalCurrency} = ? ${formData.settledCurrency})`}
+                type="number"
+                min="0"
+                step="any"
+                placeholder={language === 'tr' ? 'Opsiyonel' : 'Optional'}
+                value={formData.rate}
+                onChange={(e) => setFormData({
+                  ...formData,
+                  rate: e.target.value,
+                  settledAmount: settleAt(formData.amount, e.target.value) ?? formData.settledAmount,
+                })}
+              />
+              <Input
+                label={`${language === 'tr' ? 'Ödenen Tutar' : 'Settled Amount'} (${formData.settledCurrency})`}
+                type="number"
+                min="0"
+                step={10 ** -getCurrency(formData.settledCurrency).minorUnits}
+                placeholder={language === 'tr' ? 'Opsiyonel' : 'Optional'}
+                value={formData.settledAmount}
+                onChange={(e) => setFormData({ ...formData, settledAmount: e.target.value, rate: '' })}
+                error={errors.settledAmount}
+                helperText={language === 'tr'
+                  ? 'Girilirse toplamlarda hesaplanan kur yerine bu tutar kullanılır'
+                  : 'When set, totals use this amount instead of the computed rate'}
+              />
+            </div>
+          )}
+
+          {/* Category - Hidden for withdrawal and transfer */}
+          {formData.type !== 'withdrawal' && !isTransfer && (
             <Select
               label={t('category', language)}
               value={formData.category}
@@ -338,7 +478,7 @@ export function TransactionForm({
           />
 
           {/* Recurring Toggle (Add mode only) */}
-          {mode === 'add' && (
+          {mode === 'add' && !isTransfer && (
             <div className="flex items-center gap-2 pt-2">
               <input
                 id="recurring-toggle"
@@ -380,6 +520,28 @@ export function TransactionForm({
               />
             </div>
           )}
+
+          {/* Change history (Edit mode only) */}
+          {mode === 'edit' && transaction && (
+            <div className="pt-2 border-t border-slate-200 dark:border-slate-700 space-y-2">
+              <button
+                type="button"
+                onClick={() => setShowHistory((prev) => !prev)}
+                className="flex items-center gap-1.5 text-sm font-medium text-slate-700 dark:text-slate-300 hover:text-indigo-600 dark:hover:text-indigo-400"
+              >
+                <History size={14} />
+                {language === 'tr' ? 'Değişiklik Geçmişi' : 'Change History'}
+              </button>
+              {showHistory && (
+                <RecordHistory
+                  table="transactions"
+                  recordId={transaction.id}
+                  language={language}
+                  onReverted={handleClose}
+                />
+              )}
+            </div>
+          )}
         </div>
       </Modal>
 
@@ -0,0 +1,56 @@
+import { useEffect, useState, type ReactNode } from 'react';
+
+interface VirtualListProps<T> {
+  items: T[];
+  itemHeight: number;          // px, every row gets the same height
+  maxHeight: number;           // px, the list scrolls beyond this
+  getKey: (item: T) => string;
+  renderItem: (item: T) => ReactNode;
+  onEndReached?: () => void;   // Called when the last rows come into view
+  overscan?: number;           // Rows rendered above and below the visible ones
+  className?: string;
+}
+
+/**
+ * Scrollable list that only mounts the rows in view (plus `overscan`), so
+ * thousands of items cost the same as a screenful
+ */
+export function VirtualList<T>({
+  items,
+  itemHeight,
+  maxHeight,
+  getKey,
+  renderItem,
+  onEndReached,
+  overscan = 5,
+  className,
+}: VirtualListProps<T>) {
+  const [scrollTop, setScrollTop] = useState(0);
+
+  const totalHeight = items.length * itemHeight;
+  const viewportHeight = Math.min(maxHeight, totalHeight);
+  const first = Math.max(0, Math.floor(scrollTop / itemHeight) - overscan);
+  const last = Math.min(items.length, Math.ceil((scrollTop + viewportHeight) / itemHeight) + overscan);
+
+  useEffect(() => {
+    if (onEndReached && items.length > 0 && last >= items.length) onEndReached();
+  }, [onEndReached, last, items.length]);
+
+  return (
+    <div
+      className={className}
+      style={{ height: viewportHeight, overflowY: 'auto' }}
+      onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+    >
+      <div style={{ height: totalHeight, position: 'relative' }}>
+        <div style={{ transform: `translateY(${first * itemHeight}px)` }}>
+          {items.slice(first, last).map((item) => (
+            <div key={getKey(item)} style={{ height: itemHeight }}>
+              {renderItem(item)}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -4,3 +4,4 @@ export { Card } from './Card';
 export { Modal } from './Modal';
 export { Select } from './Select';
 export { Badge } from './Badge';
+export { VirtualList } from './VirtualList';
@@ -1,20 +1,40 @@
 import { createContext, useContext, useEffect, useState, type ReactNode } from 'react';
 import type { User } from '@supabase/supabase-js';
 import { supabase, isSupabaseConfigured } from '../lib/supabase';
+import { syncService } from '../services/syncService';
 
 interface AuthContextType {
   user: User | null;
   isLoading: boolean;
   isAuthenticated: boolean;
   isCloudEnabled: boolean;
+  // Local-only mode: the app runs entirely on the device without an account
+  isLocalMode: boolean;
+  enableLocalMode: () => void;
+  disableLocalMode: () => void;
 }
 
+const LOCAL_MODE_KEY = 'monera-local-mode';
+
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const cloudEnabled = isSupabaseConfigured();
+  const [localModeChosen, setLocalModeChosen] = useState<boolean>(() => {
+    return localStorage.getItem(LOCAL_MODE_KEY) === 'true';
+  });
+
+  const enableLocalMode = () => {
+    localStorage.setItem(LOCAL_MODE_KEY, 'true');
+    setLocalModeChosen(true);
+  };
+
+  const disableLocalMode = () => {
+    localStorage.removeItem(LOCAL_MODE_KEY);
+    setLocalModeChosen(false);
+  };
 
   useEffect(() => {
     console.log('🔐 [AuthContext] Initializing...', { cloudEnabled });
@@ -25,9 +45,13 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       return;
     }
 
+    // Whose sync state to drop on sign-out (the SIGNED_OUT event has no session)
+    let userId: string | null = null;
+
     // Check active session
     supabase.auth.getSession().then(({ data: { session } }) => {
       console.log('✅ [AuthContext] Session loaded:', session?.user?.email || 'No user');
+      userId = session?.user?.id ?? null;
       setUser(session?.user ?? null);
       setIsLoading(false);
     });
@@ -37,6 +61,10 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       data: { subscription },
     } = supabase.auth.onAuthStateChange((event, session) => {
       console.log('🔄 [AuthContext] Auth state changed:', event, session?.user?.email || 'No user');
+      if (event === 'SIGNED_OUT' && userId) {
+        syncService.resetSyncState(userId);
+      }
+      userId = session?.user?.id ?? null;
       setUser(session?.user ?? null);
     });
 
@@ -50,6 +78,10 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         isLoading,
         isAuthenticated: !!user,
         isCloudEnabled: cloudEnabled,
+        // Without Supabase configured the app is always local-only
+        isLocalMode: !cloudEnabled || (localModeChosen && !user),
+        enableLocalMode,
+        disableLocalMode,
       }}
     >
       {children}
@@ -1,18 +1,59 @@
-import { createContext, useCallback, useEffect, useState } from 'react';
-import type { ReactNode } from 'react';
+import { createContext, useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type { ReactNode, SetStateAction } from 'react';
 import { v4 as uuidv4 } from 'uuid';
-import type { Transaction, AppSettings, RecurringTransaction, CategoryBudget } from '../types';
+import type { Transaction, AppSettings, RecurringTransaction, CategoryBudget, CurrencyCode, Account } from '../types';
 import { DEFAULT_SETTINGS } from '../types';
 import { DEFAULT_APP_SETTINGS } from '../utils/constants';
-import { calculateCashBalance } from '../utils/calculations';
+import { calculateTotalExpense } from '../utils/calculations';
+import { compare as compareMoney, money, sum as sumMoney, toAmount } from '../utils/money';
+import { registerCustomUnits } from '../utils/currencies';
+import { buildStatements, hasStatements, statementPayment, type Statement } from '../utils/statements';
+import { calculateNextOccurrence } from '../utils/recurringUtils';
 import { NotificationManager, DEFAULT_NOTIFICATION_SETTINGS, type Notification, type NotificationSettings } from '../utils/notifications';
-import { syncService, type SyncStatus, type SyncResult } from '../services/syncService';
+import {
+  syncService,
+  type ConflictResolution,
+  type RemoteChange,
+  type SyncConflict,
+  type SyncOperation,
+  type SyncResult,
+  type SyncStatus,
+  type SyncTable,
+  type VersionedRecord,
+} from '../services/syncService';
+import { realtimeService } from '../services/realtimeService';
+import { encryptionService } from '../services/encryptionService';
+import { e2eService, type E2EField } from '../services/e2eService';
+import { snapshotService, type RestorePreview } from '../services/snapshotService';
+import { bumpVersion } from '../utils/versioning';
+import {
+  UndoJournal,
+  applyRecordState,
+  diffRecords,
+  replayEntry,
+  type JournalAction,
+  type JournalDirection,
+  type JournalEntry,
+  type RecordChange,
+  type ReplayedWrite,
+} from '../utils/undoJournal';
+import { auditService, type AuditEntry, type AuditSource } from '../services/auditService';
+import { findIntegrityIssues, planRepairs, type IntegrityIssue, type IntegrityIssueType } from '../utils/integrity';
+import { rollupService, type MonthlyRollup, type RollupMismatch } from '../services/rollupService';
+import { rateService } from '../services/rateService';
+import { bookedAmount, convertAt, getRateHistory, onRateHistoryChange, onRatesFetched, type DatedRates, type Valuation } from '../utils/exchange';
 import { useAuth } from './AuthContext';
-import { supabase, getCurrentUser } from '../lib/supabase';
-import { runCleanup } from '../lib/cleanupDuplicates';
+import type { StorageAdapter, TransactionCursor, TransactionPage, TransactionQuery, TransactionTotal } from '../db/StorageAdapter';
+import { WALK_PAGE_SIZE, collectPages } from '../db/transactionQuery';
+import { IndexedDBAdapter } from '../db/IndexedDBAdapter';
+import { autoMigrate, getCurrentAdapter } from '../db/migration';
 
 export interface FinanceContextType {
+  // Transactions read so far: the last STARTUP_MONTHS at startup, everything once loadHistory ran
   transactions: Transaction[];
+  historyLoaded: boolean;
+  loadHistory: () => Promise<void>;
+  transactionsVersion: number;        // Bumped on every change to the stored transactions
   settings: AppSettings;
   recurringTransactions: RecurringTransaction[];
   budgets: CategoryBudget[];
@@ -22,6 +63,10 @@ export interface FinanceContextType {
   addBulkTransactions: (transactions: (Omit<Transaction, 'id'> & { id?: string })[], replaceMode?: boolean) => Promise<boolean>;
   deleteTransaction: (id: string) => Promise<void>;
   updateTransaction: (id: string, updates: Partial<Omit<Transaction, 'id'>>) => Promise<boolean>;
+
+  // Paged reads straight from the store, newest first (long transaction lists)
+  getTransactionsPage: (query: TransactionQuery, limit: number, cursor?: TransactionCursor | null) => Promise<TransactionPage | null>;
+  getTransactionTotals: (query: TransactionQuery) => Promise<TransactionTotal[] | null>;
   
   // Recurring transaction actions (P2 Sprint 1)
   addRecurringTransaction: (recurring: Omit<RecurringTransaction, 'id'>) => Promise<string>;
@@ -50,17 +95,68 @@ export interface FinanceContextType {
   // Settings actions
   updateSettings: (settings: Partial<AppSettings>) => Promise<boolean>;
   resetSettings: () => Promise<boolean>;
+
+  // Accounts (kept with the settings)
+  addAccount: (account: Omit<Account, 'id'>) => Promise<string | null>;
+  updateAccount: (id: string, updates: Partial<Omit<Account, 'id'>>) => Promise<boolean>;
+  deleteAccount: (id: string) => Promise<boolean>;   // Only accounts no transaction uses
+  payStatement: (statement: Statement, fromAccountId: string) => Promise<boolean>;   // Transfers what's left of it to the card
   
   // Data management
-  exportData: () => string;
+  exportData: () => Promise<string>;
   importData: (data: string) => Promise<boolean>;
   clearAll: () => Promise<void>;
   
   // Cloud sync actions (P3 Sprint 2)
   syncStatus: SyncStatus;
   syncNow: () => Promise<SyncResult>;
+  getSyncConflicts: () => Promise<SyncConflict[]>;
+  resolveSyncConflict: (conflictId: string, resolution: ConflictResolution, merged?: VersionedRecord) => Promise<boolean>;
   autoSync: boolean;
   setAutoSync: (enabled: boolean) => void;
+
+  // Local encryption at rest
+  isEncrypted: boolean;
+  enableEncryption: (passphrase: string) => Promise<boolean>;
+  changePassphrase: (current: string, next: string) => Promise<boolean>;
+  disableEncryption: (passphrase: string) => Promise<boolean>;
+
+  // End-to-end encryption of synced fields
+  cloudEncryptedFields: E2EField[];
+  setCloudEncryptedFields: (fields: E2EField[]) => Promise<boolean>;
+  importCloudKey: (content: string, passphrase: string) => Promise<boolean>;
+
+  // Local snapshots
+  createSnapshot: () => Promise<boolean>;
+  previewSnapshotRestore: (snapshotId: number) => Promise<RestorePreview | null>;
+  restoreSnapshot: (snapshotId: number) => Promise<boolean>;
+
+  // Undo / redo of finance mutations
+  canUndo: boolean;
+  canRedo: boolean;
+  lastAction: JournalEntry | null;   // The entry the next undo would revert
+  undo: () => Promise<boolean>;
+  redo: () => Promise<boolean>;
+
+  // Per-record audit trail
+  getRecordHistory: (table: AuditEntry['table'], recordId: string) => Promise<AuditEntry[]>;
+  revertToVersion: (auditEntryId: number) => Promise<boolean>;
+
+  // Data integrity checker
+  checkIntegrity: () => Promise<IntegrityIssue[] | null>;
+  repairIntegrity: (types: IntegrityIssueType[], dryRun: boolean) => Promise<RecordChange[] | null>;
+
+  // Monthly rollups (null until first read)
+  rollups: MonthlyRollup[] | null;
+  rebuildRollups: () => Promise<boolean>;
+  verifyRollups: () => Promise<RollupMismatch[] | null>;
+
+  // Dated exchange rates
+  rateHistory: DatedRates[];
+  valuation: Valuation;               // settings.valuation with the rate history, for convertAt
+  importRates: (content: string) => Promise<number | null>;   // Days imported
+  recordUnitPrice: (code: CurrencyCode, date: string, price: number) => Promise<boolean>;   // Price in settings.currency
+  clearRates: () => Promise<boolean>;
 }
 
 export const FinanceContext = createContext<FinanceContextType | undefined>(undefined);
@@ -68,19 +164,124 @@ export const FinanceContext = createContext<FinanceContextType | undefined>(unde
 interface FinanceProviderProps {
   children: ReactNode;
   exchangeRates?: Record<string, number>;
+  // Optional storage backend override (defaults to IndexedDB after auto-migration)
+  storage?: StorageAdapter;
+}
+
+// Months of transactions read at startup: the dashboard's recent months and
+// what the budget and spending alerts look back over. The rollups cover the
+// rest of the history until a view asks for it (loadHistory).
+const STARTUP_MONTHS = 12;
+
+// Upper bound for date ranges open towards the future (generated recurring dates)
+const OPEN_END = '9999-12-31';
+
+/**
+ * First day of the oldest month in the startup window
+ */
+function startupWindowStart(): string {
+  const today = new Date();
+  const start = new Date(today.getFullYear(), today.getMonth() - (STARTUP_MONTHS - 1), 1);
+  return `${start.getFullYear()}-${String(start.getMonth() + 1).padStart(2, '0')}-01`;
+}
+
+// How each type moves the cash on hand (transfers stay within it)
+const CASH_SIGNS: Record<Transaction['type'], number> = {
+  income: 1,
+  expense: -1,
+  savings: -1,
+  withdrawal: 1,
+  transfer: 0,
+};
+
+/**
+ * Expand a recurring template into concrete transactions, starting at its
+ * nextOccurrence and ending at endDate (or 60 days from today)
+ */
+function buildRecurringOccurrences(recurring: RecurringTransaction, maxCount: number = Infinity): Transaction[] {
+  const horizon = new Date();
+  horizon.setDate(horizon.getDate() + 60);
+  const maxDate = recurring.endDate || horizon.toISOString().split('T')[0];
+
+  const occurrences: Transaction[] = [];
+  let currentDate = recurring.nextOccurrence;
+
+  while (currentDate <= maxDate && occurrences.length < maxCount) {
+    occurrences.push({
+      id: uuidv4(),
+      title: recurring.title,
+      amount: recurring.amount,
+      category: recurring.category,
+      type: recurring.type,
+      date: currentDate,
+      originalCurrency: recurring.originalCurrency,
+      isRecurring: true,
+      recurringId: recurring.id,
+      description: recurring.description,
+      ...bumpVersion(),
+    });
+    currentDate = calculateNextOccurrence(currentDate, recurring.frequency);
+  }
+
+  return occurrences;
+}
+
+/**
+ * Insert, update or (record = null) remove one record in a state list.
+ * An update merges over the current record so its local-only fields stay.
+ */
+function mergeRecord<T extends { id: string }>(list: T[], recordId: string, record: T | null): T[] {
+  if (!record) return list.filter((r) => r.id !== recordId);
+  return list.some((r) => r.id === recordId)
+    ? list.map((r) => (r.id === recordId ? { ...r, ...record } : r))
+    : [record, ...list];
 }
 
-export function FinanceProvider({ children, exchangeRates = {} }: FinanceProviderProps) {
-  const { isAuthenticated, isCloudEnabled } = useAuth();
+/**
+ * Journal change for one record (null = did not exist / no longer exists)
+ */
+function journalChange(table: RecordChange['table'], recordId: string, before: VersionedRecord | null, after: VersionedRecord | null): RecordChange {
+  return { table, recordId, before, after };
+}
+
+export function FinanceProvider({ children, exchangeRates = {}, storage: storageOverride }: FinanceProviderProps) {
+  const { user, isAuthenticated, isCloudEnabled } = useAuth();
+  const userId = user?.id;
+  // Cloud is an optional layer: local writes always happen, cloud mirroring only when signed in
+  const isCloudActive = isAuthenticated && isCloudEnabled;
   
   const [isLoading, setIsLoading] = useState(true);
+  const [storage, setStorage] = useState<StorageAdapter>(() => storageOverride ?? new IndexedDBAdapter());
 
-  // State management using React state (synced with Supabase)
+  // State management using React state (backed by the local StorageAdapter)
   const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [historyLoaded, setHistoryLoaded] = useState(false);
+  const [transactionsVersion, setTransactionsVersion] = useState(0);
+  const transactionWrites = useRef(0);
+  // The history read in flight, shared by every view asking for it
+  const historyRequest = useRef<Promise<void> | null>(null);
   const [budgets, setBudgets] = useState<CategoryBudget[]>([]);
   const [settings, setSettings] = useState<AppSettings>(DEFAULT_APP_SETTINGS);
   const [recurringTransactions, setRecurringTransactions] = useState<RecurringTransaction[]>([]);
   const [deletedIds, setDeletedIds] = useState<Set<string>>(new Set());
+  const [rollups, setRollups] = useState<MonthlyRollup[] | null>(null);
+  const [rateHistory, setRateHistory] = useState<DatedRates[]>(getRateHistory);
+  // What convertAt needs to value past amounts
+  const valuation = useMemo<Valuation>(
+    () => ({ mode: settings.valuation, history: rateHistory }),
+    [settings.valuation, rateHistory]
+  );
+  const [isEncrypted, setIsEncrypted] = useState(() => encryptionService.isEnabled());
+  const [cloudEncryptedFields, setCloudEncryptedFieldsState] = useState<E2EField[]>(() => e2eService.getFields());
+
+  // Undo/redo journal (in memory, cleared on reload)
+  const [journal] = useState(() => new UndoJournal());
+  const [journalState, setJournalState] = useState<{ canUndo: boolean; canRedo: boolean; lastAction: JournalEntry | null }>({
+    canUndo: false,
+    canRedo: false,
+    lastAction: null,
+  });
+  const isReplaying = useRef(false);
 
   // Notification system (P2 Sprint 5)
   const [notificationSettings, setNotificationSettings] = useState<NotificationSettings>(DEFAULT_NOTIFICATION_SETTINGS);
@@ -94,12 +295,52 @@ export function FinanceProvider({ children, exchangeRates = {} }: FinanceProvide
     return stored ? JSON.parse(stored) : true;
   });
 
+  // Record local mutations in the sync outbox (pushed when signed in and online)
+  const queueSync = useCallback(
+    (table: SyncTable, op: SyncOperation, ids: string[]) => {
+      if (!isCloudActive) return;
+      syncService.enqueue(table, op, ids).catch((error) => {
+        console.error('[FinanceContext] Error queueing sync:', error);
+      });
+    },
+    [isCloudActive]
+  );
+
+  // Append changes to the audit log and fold them into the monthly rollups
+  // (a failed audit or rollup write never fails the mutation)
+  const audit = useCallback(
+    (changes: RecordChange[], source: AuditSource) => {
+      auditService.record(storage, changes, source).catch((error) => {
+        console.error('[FinanceContext] Error writing audit log:', error);
+      });
+      rollupService
+        .apply(storage, changes)
+        .then(async (changed) => {
+          if (changed) setRollups(await rollupService.getAll(storage));
+        })
+        .catch((error) => {
+          console.error('[FinanceContext] Error updating rollups:', error);
+        });
+    },
+    [storage]
+  );
+
+  // Journal a user action for undo and log it in the audit trail
+  const recordAction = useCallback(
+    (action: JournalAction, changes: RecordChange[], source: AuditSource = 'manual', settings?: JournalEntry['settings']) => {
+      audit(changes, source);
+      return journal.record(action, changes, settings);
+    },
+    [journal, audit]
+  );
+
   // Load notification settings from localStorage
   useEffect(() => {
     try {
       const stored = localStorage.getItem('monera_notification_settings');
       if (stored) {
-        const loadedSettings = JSON.parse(stored);
+        // Settings saved before a kind of notification existed get its default
+        const loadedSettings = { ...DEFAULT_NOTIFICATION_SETTINGS, ...JSON.parse(stored) };
         setNotificationSettings(loadedSettings);
         notificationManager.updateSettings(loadedSettings);
       }
@@ -116,122 +357,92 @@ export function FinanceProvider({ children, exchangeRates = {} }: FinanceProvide
     });
   }, [notificationManager]);
 
-  // Initialize - Load data from Supabase only
+  useEffect(() => {
+    journal.setOnChange(() => {
+      setJournalState({ canUndo: journal.canUndo(), canRedo: journal.canRedo(), lastAction: journal.peekUndo() });
+    });
+  }, [journal]);
+
+  // Every change to the stored transactions reaches state through here, so
+  // paged views and totals know to read the store again
+  const changeTransactions = useCallback((update: SetStateAction<Transaction[]>) => {
+    setTransactions(update);
+    setTransactionsVersion(++transactionWrites.current);
+  }, []);
+
+  // Replace React state with the current contents of the local store; of the
+  // transactions only the startup window is read
+  const loadFromStorage = useCallback(async (source: StorageAdapter) => {
+    const [recent, budgets, recurring, settings] = await Promise.all([
+      source.getTransactionsByDateRange(startupWindowStart(), OPEN_END),
+      source.getAllBudgets(),
+      source.getAllRecurring(),
+      source.getSettings(),
+    ]);
+    historyRequest.current = null;
+    setHistoryLoaded(false);
+    changeTransactions(recent);
+    setBudgets(budgets);
+    setRecurringTransactions(recurring);
+    // Custom units must be known before anything renders amounts in them
+    registerCustomUnits(settings.customUnits);
+    setSettings({ ...DEFAULT_APP_SETTINGS, ...settings });
+  }, [changeTransactions]);
+
+  // Read every transaction into state (views over the whole history call this
+  // through useTransactionHistory). A write during the read starts it over.
+  const loadHistory = useCallback((): Promise<void> => {
+    if (historyRequest.current) return historyRequest.current;
+
+    const readAll = async () => {
+      let all: Transaction[];
+      let writes: number;
+      do {
+        writes = transactionWrites.current;
+        all = await storage.getAllTransactions();
+      } while (writes !== transactionWrites.current);
+      return all;
+    };
+
+    const request: Promise<void> = readAll().then(
+      (all) => {
+        // A reload from the store since then has made this read stale
+        if (historyRequest.current !== request) return;
+        setTransactions(all);
+        setHistoryLoaded(true);
+      },
+      (error) => {
+        console.error('[FinanceContext] Error loading transaction history:', error);
+        if (historyRequest.current === request) historyRequest.current = null;
+      }
+    );
+    historyRequest.current = request;
+    return request;
+  }, [storage]);
+
+  // Initialize - Load data from the local StorageAdapter (works without an account)
   useEffect(() => {
     let mounted = true;
 
     async function initialize() {
       try {
-        const user = await getCurrentUser();
-        
-        if (!mounted) return;
-        
-        if (!user || !isAuthenticated) {
-          // Not authenticated - empty state
-          setTransactions([]);
-          setBudgets([]);
-          setRecurringTransactions([]);
-          setIsLoading(false);
-          return;
+        let activeStorage = storageOverride;
+        if (!activeStorage) {
+          // Move any legacy localStorage data into IndexedDB before reading
+          await autoMigrate();
+          // App only mounts the provider once an encrypted store is unlocked
+          activeStorage = encryptionService.wrap(await getCurrentAdapter());
         }
 
-        console.log('[FinanceContext] Loading from Supabase for user:', user.email);
-
-        // Load ALL data from Supabase (no local cache)
-        const [txsResult, bdgsResult, recurResult, settResult] = await Promise.all([
-          supabase.from('transactions').select('*').eq('user_id', user.id),
-          supabase.from('budgets').select('*').eq('user_id', user.id),
-          supabase.from('recurring_transactions').select('*').eq('user_id', user.id),
-          supabase.from('settings').select('*').eq('user_id', user.id).single()
-        ]);
-
         if (!mounted) return;
+        setStorage(activeStorage);
 
-        // Map Supabase data to local types
-        const txs: Transaction[] = (txsResult.data || []).map(tx => ({
-          id: tx.id,
-          title: tx.title,
-          amount: tx.amount,
-          category: tx.category,
-          date: tx.date,
-          type: tx.type,
-          description: tx.description,
-          isRecurring: tx.is_recurring,
-          recurringId: tx.recurring_id,
-          originalCurrency: tx.original_currency
-        }));
-
-        const bdgs: CategoryBudget[] = (bdgsResult.data || []).map(b => ({
-          id: b.id,
-          category: b.category,
-          monthlyLimit: b.monthly_limit,
-          alertThreshold: b.alert_threshold,
-          isActive: b.is_active,
-          currency: b.currency
-        }));
-
-        const recur: RecurringTransaction[] = (recurResult.data || []).map(r => ({
-          id: r.id,
-          title: r.title,
-          amount: r.amount,
-          category: r.category,
-          type: r.type,
-          frequency: r.frequency,
-          startDate: r.start_date,
-          endDate: r.end_date,
-          lastGenerated: r.last_generated,
-          nextOccurrence: r.next_occurrence,
-          isActive: r.is_active,
-          description: r.description,
-          originalCurrency: r.original_currency
-        }));
-
-        let sett = DEFAULT_APP_SETTINGS;
-        if (settResult.data) {
-          sett = {
-            currency: settResult.data.currency,
-            language: settResult.data.language,
-            theme: settResult.data.theme,
-            inflationRate: settResult.data.inflation_rate
-          };
-        }
-
-        setTransactions(txs);
-        setBudgets(bdgs);
-        setRecurringTransactions(recur);
-        setSettings(sett);
-        
-        setIsLoading(false);
-
-        // Run cleanup after loading - removes duplicate transactions/budgets
-        console.log('[FinanceContext] Starting cleanup of duplicates...');
-        const cleanupResult = await runCleanup();
-        if (cleanupResult.transactions > 0 || cleanupResult.budgets > 0) {
-          console.log('[FinanceContext] Cleanup removed:', cleanupResult);
-          // Reload data after cleanup
-          const cleanTxsResult = await supabase.from('transactions').select('*').eq('user_id', user.id);
-          if (cleanTxsResult.data) {
-            const cleanTxs: Transaction[] = cleanTxsResult.data.map(tx => ({
-              id: tx.id,
-              title: tx.title,
-              amount: tx.amount,
-              category: tx.category,
-              date: tx.date,
-              type: tx.type,
-              description: tx.description,
-              isRecurring: tx.is_recurring,
-              recurringId: tx.recurring_id,
-              originalCurrency: tx.original_currency
-            }));
-            if (mounted) {
-              setTransactions(cleanTxs);
-            }
-          }
-        }
+        console.log('[FinanceContext] Loading from local storage');
+        await loadFromStorage(activeStorage);
       } catch (error) {
         console.error('[FinanceContext] Initialization error:', error);
-        if (!mounted) return;
-        setIsLoading(false);
+      } finally {
+        if (mounted) setIsLoading(false);
       }
     }
 
@@ -240,7 +451,7 @@ export function FinanceProvider({ children, exchangeRates = {} }: FinanceProvide
     return () => {
       mounted = false;
     };
-  }, [isAuthenticated]);
+  }, [storageOverride, loadFromStorage]);
 
   // Summary is calculated in App component for correct month/year context
 
@@ -257,61 +468,63 @@ export function FinanceProvider({ children, exchangeRates = {} }: FinanceProvide
     return amount * (tryRate / currencyRate);
   }, [exchangeRates]);
 
+  // Cash on hand and total savings in TRY over the whole history, added up
+  // from the rollups (rows are per booked currency) rather than the transactions
+  const readCashTotals = useCallback(async () => {
+    const rows = await rollupService.getAll(storage);
+    let cash = 0;
+    let savings = 0;
+    for (const row of rows) {
+      const amount = convertToTRY(row.amount, row.currency);
+      cash += CASH_SIGNS[row.type] * amount;
+      if (row.type === 'savings') savings += amount;
+    }
+    return { cash, savings };
+  }, [storage, convertToTRY]);
+
   // Transaction actions
   const addTransaction = useCallback(
     async (transaction: Omit<Transaction, 'id'>) => {
-      const user = await getCurrentUser();
-      if (!user || !isAuthenticated) {
-        console.error('[FinanceContext] Not authenticated');
-        return false;
-      }
-
       // Pre-check for savings validation
+      let totalSavingsInTRY = 0;
       if (transaction.type === 'savings') {
-        const cashBalanceInTRY = transactions.reduce((acc, t) => {
-          const amountInTRY = convertToTRY(t.amount, (t as any).originalCurrency || 'TRY');
-          if (t.type === 'income') return acc + amountInTRY;
-          if (t.type === 'expense') return acc - amountInTRY;
-          if (t.type === 'savings') return acc - amountInTRY;
-          if (t.type === 'withdrawal') return acc + amountInTRY;
-          return acc;
-        }, 0);
-        
-        const savingsInTRY = convertToTRY(transaction.amount, transaction.originalCurrency);
-        
-        if (savingsInTRY > cashBalanceInTRY) {
+        let totals: { cash: number; savings: number };
+        try {
+          totals = await readCashTotals();
+        } catch (error) {
+          console.error('[FinanceContext] Error reading cash balance:', error);
+          return false;
+        }
+
+        // What the savings cost in cash (the settled amount when there is one)
+        const booked = bookedAmount(transaction);
+        const savingsInTRY = convertToTRY(booked.amount, booked.currency);
+
+        if (savingsInTRY > totals.cash) {
           return false; // Insufficient balance
         }
+        totalSavingsInTRY = totals.savings + savingsInTRY;
       }
 
       // Create transaction with ID
       const newTransaction: Transaction = {
         ...transaction,
         id: uuidv4(),
+        ...bumpVersion(),
       };
       
-      // Insert to Supabase
-      const { error } = await supabase.from('transactions').insert({
-        id: newTransaction.id,
-        user_id: user.id,
-        title: newTransaction.title,
-        amount: newTransaction.amount,
-        category: newTransaction.category,
-        type: newTransaction.type,
-        date: newTransaction.date,
-        description: newTransaction.description,
-        is_recurring: newTransaction.isRecurring || false,
-        recurring_id: newTransaction.recurringId,
-        original_currency: newTransaction.originalCurrency,
-      });
-
-      if (error) {
-        console.error('[FinanceContext] Error adding transaction to Supabase:', error);
+      try {
+        await storage.addTransaction(newTransaction);
+      } catch (error) {
+        console.error('[FinanceContext] Error adding transaction:', error);
         return false;
       }
+
+      queueSync('transactions', 'upsert', [newTransaction.id]);
+      recordAction('addTransaction', [journalChange('transactions', newTransaction.id, null, newTransaction)]);
       
       // Update local state
-      setTransactions((prev) => {
+      changeTransactions((prev) => {
         const updated = [newTransaction, ...prev];
         
         // Check notifications (expense spike)
@@ -330,15 +543,13 @@ export function FinanceProvider({ children, exchangeRates = {} }: FinanceProvide
           );
           
           if (categoryBudget) {
-            const spent = updated
+            const spent = calculateTotalExpense(updated
               .filter(t => {
                 const date = new Date(t.date);
-                return t.type === 'expense' && 
-                       t.category === newTransaction.category &&
+                return t.category === newTransaction.category &&
                        date.getMonth() === month &&
                        date.getFullYear() === year;
-              })
-              .reduce((sum, t) => sum + t.amount, 0);
+              }));
             
             notificationManager.checkBudgetAlerts(categoryBudget, spent, month, year);
           }
@@ -346,10 +557,7 @@ export function FinanceProvider({ children, exchangeRates = {} }: FinanceProvide
         
         // Check savings milestone
         if (newTransaction.type === 'savings') {
-          const totalSavings = updated
-            .filter(t => t.type === 'savings')
-            .reduce((sum, t) => sum + t.amount, 0);
-          notificationManager.checkSavingsMilestone(totalSavings);
+          notificationManager.checkSavingsMilestone(totalSavingsInTRY);
         }
         
         return updated;
@@ -357,27 +565,49 @@ export function FinanceProvider({ children, exchangeRates = {} }: FinanceProvide
       
       return true;
     },
-    [transactions, convertToTRY, budgets, notificationManager, isAuthenticated]
+    [readCashTotals, convertToTRY, budgets, notificationManager, storage, queueSync, recordAction, changeTransactions]
+  );
+
+  const getTransactionsPage = useCallback(
+    async (query: TransactionQuery, limit: number, cursor?: TransactionCursor | null): Promise<TransactionPage | null> => {
+      try {
+        return await storage.getTransactionsPage(query, limit, cursor);
+      } catch (error) {
+        console.error('[FinanceContext] Error reading transaction page:', error);
+        return null;
+      }
+    },
+    [storage]
+  );
+
+  const getTransactionTotals = useCallback(
+    async (query: TransactionQuery): Promise<TransactionTotal[] | null> => {
+      try {
+        return await storage.getTransactionTotals(query);
+      } catch (error) {
+        console.error('[FinanceContext] Error reading transaction totals:', error);
+        return null;
+      }
+    },
+    [storage]
   );
 
   const deleteTransaction = useCallback(
     async (id: string) => {
-      const user = await getCurrentUser();
-      if (!user || !isAuthenticated) {
-        console.error('[FinanceContext] Not authenticated');
+      let existing: Transaction | undefined;
+      try {
+        existing = transactions.find((t) => t.id === id) ?? (await storage.getTransaction(id));
+        await storage.deleteTransaction(id);
+      } catch (error) {
+        console.error('[FinanceContext] Error deleting transaction:', error);
         return;
       }
 
-      // Delete from Supabase
-      const { error } = await supabase.from('transactions').delete().eq('id', id).eq('user_id', user.id);
-      
-      if (error) {
-        console.error('[FinanceContext] Error deleting transaction from Supabase:', error);
-        return;
-      }
+      queueSync('transactions', 'delete', [id]);
+      if (existing) recordAction('deleteTransaction', [journalChange('transactions', id, existing, null)]);
 
       // Update state
-      setTransactions((prev) => prev.filter((t) => t.id !== id));
+      changeTransactions((prev) => prev.filter((t) => t.id !== id));
       
       // Track deleted ID to prevent re-import
       setDeletedIds((prev) => {
@@ -386,38 +616,28 @@ export function FinanceProvider({ children, exchangeRates = {} }: FinanceProvide
         return newSet;
       });
     },
-    [isAuthenticated]
+    [transactions, storage, queueSync, recordAction, changeTransactions]
   );
 
   const addBulkTransactions = useCallback(
     async (newTransactions: (Omit<Transaction, 'id'> & { id?: string })[], replaceMode: boolean = false) => {
-      const user = await getCurrentUser();
-      if (!user || !isAuthenticated) {
-        console.error('[FinanceContext] Not authenticated');
+      // Duplicates are checked against the whole store, not just what state holds
+      let existing: Transaction[];
+      try {
+        existing = await storage.getAllTransactions();
+      } catch (error) {
+        console.error('[FinanceContext] Error reading transactions for import:', error);
         return false;
       }
+      // In replace mode nothing existing survives, so nothing counts as a duplicate
+      const baseTransactions = replaceMode ? [] : existing;
 
-      // If replace mode, clear deletedIds as well since we're starting fresh
-      if (replaceMode) {
-        setDeletedIds(new Set());
-        // Delete all existing transactions from Supabase
-        const { error: deleteError } = await supabase
-          .from('transactions')
-          .delete()
-          .eq('user_id', user.id);
-        
-        if (deleteError) {
-          console.error('[FinanceContext] Error clearing transactions:', deleteError);
-          return false;
-        }
-      }
-      
       // Build transactions with IDs
       const keyOf = (t: Omit<Transaction, 'id'> | Transaction) =>
-        `${(t.title || '').trim().toLowerCase()}|${t.amount}|${(t.category || '').trim().toLowerCase()}|${t.date}|${t.type}|${(t as any).originalCurrency || 'TRY'}`;
+        `${(t.title || '').trim().toLowerCase()}|${t.amount}|${(t.category || '').trim().toLowerCase()}|${t.date}|${t.type}|${t.originalCurrency || 'TRY'}`;
 
-      const existingKeys = new Set(transactions.map((p) => keyOf(p)));
-      const existingIds = new Set(transactions.map((p) => p.id));
+      const existingKeys = new Set(baseTransactions.map((p) => keyOf(p)));
+      const existingIds = new Set(baseTransactions.map((p) => p.id));
 
       // Filter out duplicates
       const dedupedIncoming = newTransactions.filter((t) => {
@@ -434,142 +654,117 @@ export function FinanceProvider({ children, exchangeRates = {} }: FinanceProvide
       });
 
       // Add IDs if missing
-      const withIds = dedupedIncoming.map((t) => ({
+      const withIds: Transaction[] = dedupedIncoming.map((t) => ({
         ...t,
         id: t.id || uuidv4(),
+        ...bumpVersion(t),
       }));
 
-      // Insert to Supabase
-      if (withIds.length > 0) {
-        const { error: insertError } = await supabase
-          .from('transactions')
-          .insert(withIds.map(tx => ({
-            id: tx.id,
-            user_id: user.id,
-            title: tx.title,
-            amount: tx.amount,
-            category: tx.category,
-            type: tx.type,
-            date: tx.date,
-            description: tx.description,
-            is_recurring: tx.isRecurring || false,
-            recurring_id: tx.recurringId,
-            original_currency: tx.originalCurrency,
-          })));
-
-        if (insertError) {
-          console.error('[FinanceContext] Error inserting bulk transactions:', insertError);
-          return false;
+      try {
+        if (replaceMode) {
+          await snapshotService.create(storage, 'before-replace');
+          // Drop existing transactions but keep budgets, recurring templates and settings
+          const current = await storage.exportAll();
+          await storage.importAll({ ...current, transactions: withIds });
+        } else if (withIds.length > 0) {
+          await storage.bulkAddTransactions(withIds);
         }
+      } catch (error) {
+        console.error('[FinanceContext] Error inserting bulk transactions:', error);
+        return false;
+      }
+
+      if (replaceMode) {
+        // Starting fresh, so previously deleted IDs may be imported again
+        setDeletedIds(new Set());
+      }
+
+      if (replaceMode) {
+        const keptIds = new Set(withIds.map((t) => t.id));
+        queueSync('transactions', 'delete', existing.filter((t) => !keptIds.has(t.id)).map((t) => t.id));
       }
+      queueSync('transactions', 'upsert', withIds.map((t) => t.id));
+      recordAction(
+        'addBulkTransactions',
+        replaceMode
+          ? diffRecords('transactions', existing, withIds)
+          : withIds.map((t) => journalChange('transactions', t.id, null, t)),
+        'import'
+      );
 
       // Update local state
-      setTransactions((prev) => {
-        const baseTransactions = replaceMode ? [] : prev;
-        return [...withIds, ...baseTransactions];
+      changeTransactions((prev) => {
+        const base = replaceMode ? [] : prev;
+        return [...withIds, ...base];
       });
 
       return true;
     },
-    [transactions, deletedIds, isAuthenticated]
+    [deletedIds, storage, queueSync, recordAction, changeTransactions]
   );
 
   const updateTransaction = useCallback(
     async (id: string, updates: Partial<Omit<Transaction, 'id'>>) => {
-      const user = await getCurrentUser();
-      if (!user || !isAuthenticated) {
-        console.error('[FinanceContext] Not authenticated');
+      let current: Transaction | undefined;
+      try {
+        current = transactions.find((t) => t.id === id) ?? (await storage.getTransaction(id));
+      } catch (error) {
+        console.error('[FinanceContext] Error reading transaction:', error);
         return false;
       }
+      if (!current) return false;
 
-      let updated = false;
-      setTransactions((prev) => {
-        const index = prev.findIndex((t) => t.id === id);
-        if (index === -1) return prev;
+      const stamped = { ...updates, ...bumpVersion(current) };
+      const updatedTransaction: Transaction = { ...current, ...stamped };
 
-        const updatedTransaction: Transaction = { ...prev[index], ...updates };
-        const next = [...prev];
-        next[index] = updatedTransaction;
-
-        if (updatedTransaction.type === 'savings') {
-          const cashAfterUpdate = calculateCashBalance(next);
-          if (cashAfterUpdate < 0) {
-            return prev;
+      if (updatedTransaction.type === 'savings') {
+        // The balance with this transaction as edited instead of as it was
+        const cashEffect = (t: Transaction) => {
+          const booked = bookedAmount(t);
+          return CASH_SIGNS[t.type] * convertToTRY(booked.amount, booked.currency);
+        };
+        try {
+          const { cash } = await readCashTotals();
+          if (cash - cashEffect(current) + cashEffect(updatedTransaction) < 0) {
+            return false;
           }
-        }
-
-        updated = true;
-        return next;
-      });
-
-      if (updated) {
-        // Update in Supabase
-        const { error } = await supabase.from('transactions').update({
-          title: updates.title,
-          amount: updates.amount,
-          category: updates.category,
-          type: updates.type,
-          date: updates.date,
-          description: updates.description,
-          is_recurring: updates.isRecurring,
-          recurring_id: updates.recurringId,
-          original_currency: updates.originalCurrency,
-        }).eq('id', id).eq('user_id', user.id);
-
-        if (error) {
-          console.error('[FinanceContext] Error updating transaction in Supabase:', error);
+        } catch (error) {
+          console.error('[FinanceContext] Error reading cash balance:', error);
           return false;
         }
       }
 
-      return updated;
+      try {
+        await storage.updateTransaction(id, stamped);
+      } catch (error) {
+        console.error('[FinanceContext] Error updating transaction:', error);
+        return false;
+      }
+
+      queueSync('transactions', 'upsert', [id]);
+      recordAction('updateTransaction', [journalChange('transactions', id, current, updatedTransaction)]);
+
+      changeTransactions((prev) => mergeRecord(prev, id, updatedTransaction));
+      return true;
     },
-    [isAuthenticated]
+    [transactions, storage, convertToTRY, readCashTotals, queueSync, recordAction, changeTransactions]
   );
 
   // Settings actions
   const updateSettings = useCallback(
     async (newSettings: Partial<AppSettings>): Promise<boolean> => {
-      const user = await getCurrentUser();
-      if (!user || !isAuthenticated) {
-        console.error('[FinanceContext] Not authenticated');
+      try {
+        await storage.updateSettings(newSettings);
+      } catch (error) {
+        console.error('[FinanceContext] Error saving settings:', error);
         return false;
       }
 
-      // First try upsert
-      const { error: upsertError } = await supabase.from('app_settings').upsert({
-        user_id: user.id,
-        language: newSettings.language,
-        currency: newSettings.currency,
-        theme: newSettings.theme,
-        notifications_enabled: newSettings.notificationsEnabled,
-        notification_sound: newSettings.notificationSound,
-        updated_at: new Date().toISOString(),
-      }).eq('user_id', user.id);
-
-      if (upsertError) {
-        console.error('[FinanceContext] Upsert failed, trying insert:', upsertError);
-        
-        // If upsert fails (table might not exist), try insert
-        const { error: insertError } = await supabase.from('app_settings').insert({
-          user_id: user.id,
-          language: newSettings.language,
-          currency: newSettings.currency,
-          theme: newSettings.theme,
-          notifications_enabled: newSettings.notificationsEnabled,
-          notification_sound: newSettings.notificationSound,
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString(),
-        });
+      queueSync('settings', 'upsert', ['default']);
 
-        if (insertError) {
-          console.error('[FinanceContext] Both upsert and insert failed:', insertError);
-          // Table doesn't exist, just update local state
-          console.warn('[FinanceContext] Settings table not available, using local state only');
-        }
+      if ('customUnits' in newSettings) {
+        registerCustomUnits(newSettings.customUnits);
       }
-
-      // Update state regardless (local-first approach)
       setSettings((prev) => {
         const updated = { ...prev, ...newSettings };
         
@@ -593,197 +788,201 @@ export function FinanceProvider({ children, exchangeRates = {} }: FinanceProvide
       
       return true;
     },
-    [isAuthenticated, notificationManager]
+    [storage, queueSync, notificationManager]
   );
 
-  const resetSettings = useCallback(async (): Promise<boolean> => {
-    const user = await getCurrentUser();
-    if (!user || !isAuthenticated) {
-      console.error('[FinanceContext] Not authenticated');
-      return false;
-    }
+  // Account actions
+  const addAccount = useCallback(
+    async (account: Omit<Account, 'id'>): Promise<string | null> => {
+      const id = uuidv4();
+      const ok = await updateSettings({ accounts: [...(settings.accounts ?? []), { ...account, id }] });
+      return ok ? id : null;
+    },
+    [settings.accounts, updateSettings]
+  );
 
-    // Update in Supabase
-    const { error } = await supabase.from('app_settings').update({
-      language: DEFAULT_SETTINGS.language,
-      currency: DEFAULT_SETTINGS.currency,
-      theme: DEFAULT_SETTINGS.theme,
-      notifications_enabled: DEFAULT_SETTINGS.notificationsEnabled,
-      notification_sound: DEFAULT_SETTINGS.notificationSound,
-    }).eq('user_id', user.id);
+  const updateAccount = useCallback(
+    (id: string, updates: Partial<Omit<Account, 'id'>>): Promise<boolean> =>
+      updateSettings({
+        accounts: (settings.accounts ?? []).map((account) => (account.id === id ? { ...account, ...updates } : account)),
+      }),
+    [settings.accounts, updateSettings]
+  );
+
+  const deleteAccount = useCallback(
+    async (id: string): Promise<boolean> => {
+      let inUse: boolean;
+      try {
+        const page = await storage.getTransactionsPage({ accountId: id }, 1);
+        inUse = page.items.length > 0;
+      } catch (error) {
+        console.error('[FinanceContext] Error checking account transactions:', error);
+        return false;
+      }
+      if (inUse) {
+        console.error('[FinanceContext] Account has transactions; close it instead:', id);
+        return false;
+      }
+      return updateSettings({ accounts: (settings.accounts ?? []).filter((account) => account.id !== id) });
+    },
+    [storage, settings.accounts, updateSettings]
+  );
+
+  const payStatement = useCallback(
+    async (statement: Statement, fromAccountId: string): Promise<boolean> => {
+      const card = settings.accounts?.find((account) => account.id === statement.accountId);
+      if (!card || statement.remaining <= 0) {
+        console.error('[FinanceContext] Nothing to pay on statement:', statement.accountId, statement.closingDate);
+        return false;
+      }
+      const title = settings.language === 'tr'
+        ? `${card.name} ekstre ödemesi (${statement.closingDate})`
+        : `${card.name} statement payment (${statement.closingDate})`;
+      return addTransaction(statementPayment(statement, card, fromAccountId, title));
+    },
+    [settings.accounts, settings.language, addTransaction]
+  );
 
-    if (error) {
+  const resetSettings = useCallback(async (): Promise<boolean> => {
+    try {
+      await storage.resetSettings();
+    } catch (error) {
       console.error('[FinanceContext] Error resetting settings:', error);
       return false;
     }
 
+    queueSync('settings', 'upsert', ['default']);
+
     // Update state
+    registerCustomUnits(DEFAULT_SETTINGS.customUnits);
     setSettings(DEFAULT_SETTINGS);
     return true;
-  }, [isAuthenticated]);
+  }, [storage, queueSync]);
 
-  // Data management
-  const exportData = useCallback(() => {
+  // Data management (transactions come from the store; state may hold only the startup window)
+  const exportData = useCallback(async () => {
     return JSON.stringify(
-      { transactions, budgets, recurringTransactions, settings },
+      { transactions: await storage.getAllTransactions(), budgets, recurringTransactions, settings },
       null,
       2
     );
-  }, [transactions, budgets, recurringTransactions, settings]);
+  }, [storage, budgets, recurringTransactions, settings]);
 
   const importData = useCallback(
     async (data: string): Promise<boolean> => {
-      const user = await getCurrentUser();
-      if (!user || !isAuthenticated) {
-        console.error('[FinanceContext] Not authenticated');
-        return false;
-      }
-
       try {
         const parsed = JSON.parse(data);
         if (!parsed.transactions || !Array.isArray(parsed.transactions)) {
           return false;
         }
 
-        // Import transactions to Supabase
-        const { error: txError } = await supabase.from('transactions').insert(
-          parsed.transactions.map((tx: Transaction) => ({
-            id: tx.id,
-            user_id: user.id,
-            title: tx.title,
-            amount: tx.amount,
-            category: tx.category,
-            type: tx.type,
-            date: tx.date,
-            original_currency: tx.originalCurrency,
-            is_recurring: tx.isRecurring,
-            recurring_id: tx.recurringId || null,
-            description: tx.description || null,
-          }))
-        );
-
-        if (txError) {
-          console.error('[FinanceContext] Error importing transactions:', txError);
-          return false;
-        }
-
-        // Import budgets if available
-        if (parsed.budgets && Array.isArray(parsed.budgets)) {
-          const { error: budgetError } = await supabase.from('budgets').insert(
-            parsed.budgets.map((b: CategoryBudget) => ({
-              id: b.id,
-              user_id: user.id,
-              category: b.category,
-              monthly_limit: b.monthlyLimit,
-              alert_threshold: b.alertThreshold,
-              is_active: b.isActive,
-              currency: b.currency,
-            }))
-          );
-
-          if (budgetError) {
-            console.error('[FinanceContext] Error importing budgets:', budgetError);
-          }
-        }
+        const imported = {
+          transactions: parsed.transactions as Transaction[],
+          budgets: Array.isArray(parsed.budgets) ? (parsed.budgets as CategoryBudget[]) : budgets,
+          recurring: Array.isArray(parsed.recurringTransactions)
+            ? (parsed.recurringTransactions as RecurringTransaction[])
+            : recurringTransactions,
+          settings: parsed.settings ? { ...settings, ...parsed.settings } as AppSettings : settings,
+        };
 
-        // Import recurring transactions if available
-        if (parsed.recurringTransactions && Array.isArray(parsed.recurringTransactions)) {
-          const { error: recurringError } = await supabase.from('recurring_transactions').insert(
-            parsed.recurringTransactions.map((r: RecurringTransaction) => ({
-              id: r.id,
-              user_id: user.id,
-              title: r.title,
-              amount: r.amount,
-              category: r.category,
-              type: r.type,
-              frequency: r.frequency,
-              start_date: r.startDate,
-              end_date: r.endDate || null,
-              last_generated: r.lastGenerated || null,
-              next_occurrence: r.nextOccurrence,
-              is_active: r.isActive,
-              description: r.description || null,
-              original_currency: r.originalCurrency,
-            }))
-          );
+        const previous = await storage.getAllTransactions();
+        await snapshotService.create(storage, 'before-import');
+        await storage.importAll(imported);
 
-          if (recurringError) {
-            console.error('[FinanceContext] Error importing recurring:', recurringError);
-          }
-        }
+        // Records missing from the import were dropped by importAll
+        const dropped = <T extends { id: string }>(previous: T[], next: T[]) => {
+          const nextIds = new Set(next.map((r) => r.id));
+          return previous.filter((r) => !nextIds.has(r.id)).map((r) => r.id);
+        };
+        queueSync('transactions', 'delete', dropped(previous, imported.transactions));
+        queueSync('budgets', 'delete', dropped(budgets, imported.budgets));
+        queueSync('recurring', 'delete', dropped(recurringTransactions, imported.recurring));
+        queueSync('recurring', 'upsert', imported.recurring.map((r) => r.id));
+        queueSync('transactions', 'upsert', imported.transactions.map((t) => t.id));
+        queueSync('budgets', 'upsert', imported.budgets.map((b) => b.id));
+        queueSync('settings', 'upsert', ['default']);
+        recordAction(
+          'importData',
+          [
+            ...diffRecords('transactions', previous, imported.transactions),
+            ...diffRecords('budgets', budgets, imported.budgets),
+            ...diffRecords('recurring', recurringTransactions, imported.recurring),
+          ],
+          'import',
+          { before: settings, after: imported.settings }
+        );
 
         // Update state
-        setTransactions(parsed.transactions);
-        if (parsed.budgets) setBudgets(parsed.budgets);
-        if (parsed.recurringTransactions) setRecurringTransactions(parsed.recurringTransactions);
-        if (parsed.settings) setSettings(parsed.settings);
+        changeTransactions(imported.transactions);
+        setBudgets(imported.budgets);
+        setRecurringTransactions(imported.recurring);
+        registerCustomUnits(imported.settings.customUnits);
+        setSettings(imported.settings);
         
         return true;
-      } catch {
+      } catch (error) {
+        console.error('[FinanceContext] Error importing data:', error);
         return false;
       }
     },
-    [isAuthenticated]
+    [budgets, recurringTransactions, settings, storage, queueSync, recordAction, changeTransactions]
   );
 
   const clearAll = useCallback(async () => {
-    const user = await getCurrentUser();
-    if (!user || !isAuthenticated) {
-      console.error('[FinanceContext] Not authenticated');
+    let cleared: Transaction[];
+    try {
+      cleared = await storage.getAllTransactions();
+      await snapshotService.create(storage, 'before-clear');
+      await storage.clearAll();
+    } catch (error) {
+      console.error('[FinanceContext] Error clearing data:', error);
       return;
     }
 
-    // Delete all data from Supabase
-    await supabase.from('transactions').delete().eq('user_id', user.id);
-    await supabase.from('budgets').delete().eq('user_id', user.id);
-    await supabase.from('recurring_transactions').delete().eq('user_id', user.id);
+    queueSync('transactions', 'delete', cleared.map((t) => t.id));
+    queueSync('budgets', 'delete', budgets.map((b) => b.id));
+    queueSync('recurring', 'delete', recurringTransactions.map((r) => r.id));
+    queueSync('settings', 'upsert', ['default']);
+    recordAction(
+      'clearAll',
+      [
+        ...diffRecords('transactions', cleared, []),
+        ...diffRecords('budgets', budgets, []),
+        ...diffRecords('recurring', recurringTransactions, []),
+      ],
+      'manual',
+      { before: settings, after: DEFAULT_APP_SETTINGS }
+    );
 
     // Clear state
-    setTransactions([]);
+    changeTransactions([]);
     setBudgets([]);
     setRecurringTransactions([]);
+    registerCustomUnits(DEFAULT_APP_SETTINGS.customUnits);
     setSettings(DEFAULT_APP_SETTINGS);
     setDeletedIds(new Set());
-  }, [isAuthenticated]);
+  }, [budgets, recurringTransactions, settings, storage, queueSync, recordAction, changeTransactions]);
 
   // Recurring Transaction actions (P2)
   const addRecurringTransaction = useCallback(
     async (recurring: Omit<RecurringTransaction, 'id'>): Promise<string> => {
-      const user = await getCurrentUser();
-      if (!user || !isAuthenticated) {
-        console.error('[FinanceContext] Not authenticated');
-        return '';
-      }
-
       const newRecurring: RecurringTransaction = {
         ...recurring,
         id: uuidv4(),
         isActive: true,
+        ...bumpVersion(),
       };
 
-      // Insert to Supabase
-      const { error } = await supabase.from('recurring_transactions').insert({
-        id: newRecurring.id,
-        user_id: user.id,
-        title: newRecurring.title,
-        amount: newRecurring.amount,
-        category: newRecurring.category,
-        type: newRecurring.type,
-        frequency: newRecurring.frequency,
-        start_date: newRecurring.startDate,
-        end_date: newRecurring.endDate || null,
-        last_generated: newRecurring.lastGenerated || null,
-        next_occurrence: newRecurring.nextOccurrence,
-        is_active: newRecurring.isActive,
-        description: newRecurring.description || null,
-        original_currency: newRecurring.originalCurrency,
-      });
-
-      if (error) {
+      try {
+        await storage.addRecurring(newRecurring);
+      } catch (error) {
         console.error('[FinanceContext] Error adding recurring:', error);
         return '';
       }
 
+      queueSync('recurring', 'upsert', [newRecurring.id]);
+      const entry = recordAction('addRecurring', [journalChange('recurring', newRecurring.id, null, newRecurring)]);
+
       // Update state with new recurring transaction
       setRecurringTransactions((prev) => [newRecurring, ...prev]);
 
@@ -791,137 +990,36 @@ export function FinanceProvider({ children, exchangeRates = {} }: FinanceProvide
       // This is done separately to avoid circular dependency issues
       (async () => {
         try {
-          const user = await getCurrentUser();
-          if (!user || !isAuthenticated) return;
-
           // Generate first transaction(s) for this recurring
-          const today = new Date();
-          today.setHours(0, 0, 0, 0);
-
-          const startDate = new Date(newRecurring.startDate);
-          startDate.setHours(0, 0, 0, 0);
+          const newTransactions = buildRecurringOccurrences(newRecurring, 5);
+          if (newTransactions.length === 0) return;
+
+          await storage.bulkAddTransactions(newTransactions);
+          changeTransactions((prev) => [...newTransactions, ...prev]);
+
+          // Update nextOccurrence
+          const lastTx = newTransactions[newTransactions.length - 1];
+          const schedule = {
+            lastGenerated: lastTx.date,
+            nextOccurrence: calculateNextOccurrence(lastTx.date, newRecurring.frequency),
+            ...bumpVersion(newRecurring),
+          };
+          await storage.updateRecurring(newRecurring.id, schedule);
 
-          const endDate = newRecurring.endDate ? new Date(newRecurring.endDate) : null;
-          if (endDate) {
-            endDate.setHours(0, 0, 0, 0);
-          }
+          queueSync('transactions', 'upsert', newTransactions.map((t) => t.id));
+          queueSync('recurring', 'upsert', [newRecurring.id]);
 
-          let currentDate = new Date(newRecurring.nextOccurrence);
-          currentDate.setHours(0, 0, 0, 0);
-
-          const maxDate = endDate ? endDate : new Date(today.getTime() + 60 * 24 * 60 * 60 * 1000);
-          const transactionsToAdd: Transaction[] = [];
-
-          while (currentDate <= maxDate && transactionsToAdd.length < 5) {
-            const dateString = currentDate.toISOString().split('T')[0];
-            transactionsToAdd.push({
-              id: uuidv4(),
-              title: newRecurring.title,
-              amount: newRecurring.amount,
-              category: newRecurring.category,
-              type: newRecurring.type,
-              date: dateString,
-              originalCurrency: newRecurring.originalCurrency,
-              isRecurring: true,
-              recurringId: newRecurring.id,
-              description: newRecurring.description,
-            });
-
-            switch (newRecurring.frequency) {
-              case 'daily':
-                currentDate.setDate(currentDate.getDate() + 1);
-                break;
-              case 'weekly':
-                currentDate.setDate(currentDate.getDate() + 7);
-                break;
-              case 'biweekly':
-                currentDate.setDate(currentDate.getDate() + 14);
-                break;
-              case 'monthly':
-                currentDate.setMonth(currentDate.getMonth() + 1);
-                break;
-              case 'quarterly':
-                currentDate.setMonth(currentDate.getMonth() + 3);
-                break;
-              case 'yearly':
-                currentDate.setFullYear(currentDate.getFullYear() + 1);
-                break;
-            }
-          }
+          // Undoing the template also removes what it generated
+          const generated = [
+            ...newTransactions.map((t) => journalChange('transactions', t.id, null, t)),
+            journalChange('recurring', newRecurring.id, newRecurring, { ...newRecurring, ...schedule }),
+          ];
+          audit(generated, 'recurring');
+          if (entry) journal.extend(entry.id, generated);
 
-          if (transactionsToAdd.length > 0) {
-            const { data: existingTxs } = await supabase
-              .from('transactions')
-              .select('date')
-              .eq('user_id', user.id)
-              .eq('recurring_id', newRecurring.id);
-
-            const existingDates = new Set((existingTxs || []).map(t => t.date));
-            const newTransactions = transactionsToAdd.filter(
-              (tx) => !existingDates.has(tx.date)
-            );
-
-            if (newTransactions.length > 0) {
-              await supabase.from('transactions').insert(
-                newTransactions.map(tx => ({
-                  id: tx.id,
-                  user_id: user.id,
-                  title: tx.title,
-                  amount: tx.amount,
-                  category: tx.category,
-                  type: tx.type,
-                  date: tx.date,
-                  original_currency: tx.originalCurrency,
-                  is_recurring: tx.isRecurring,
-                  recurring_id: tx.recurringId || null,
-                  description: tx.description || null,
-                }))
-              );
-
-              setTransactions((prev) => [...newTransactions, ...prev]);
-
-              // Update nextOccurrence
-              const lastTx = newTransactions[newTransactions.length - 1];
-              const nextDate = new Date(lastTx.date);
-              switch (newRecurring.frequency) {
-                case 'daily':
-                  nextDate.setDate(nextDate.getDate() + 1);
-                  break;
-                case 'weekly':
-                  nextDate.setDate(nextDate.getDate() + 7);
-                  break;
-                case 'biweekly':
-                  nextDate.setDate(nextDate.getDate() + 14);
-                  break;
-                case 'monthly':
-                  nextDate.setMonth(nextDate.getMonth() + 1);
-                  break;
-                case 'quarterly':
-                  nextDate.setMonth(nextDate.getMonth() + 3);
-                  break;
-                case 'yearly':
-                  nextDate.setFullYear(nextDate.getFullYear() + 1);
-                  break;
-              }
-
-              await supabase.from('recurring_transactions').update({
-                last_generated: lastTx.date,
-                next_occurrence: nextDate.toISOString().split('T')[0],
-              }).eq('id', newRecurring.id).eq('user_id', user.id);
-
-              setRecurringTransactions((prev) =>
-                prev.map((r) =>
-                  r.id === newRecurring.id
-                    ? {
-                        ...r,
-                        lastGenerated: lastTx.date,
-                        nextOccurrence: nextDate.toISOString().split('T')[0],
-                      }
-                    : r
-                )
-              );
-            }
-          }
+          setRecurringTransactions((prev) =>
+            prev.map((r) => (r.id === newRecurring.id ? { ...r, ...schedule } : r))
+          );
         } catch (err) {
           console.error('[FinanceContext] Error generating transactions for new recurring:', err);
         }
@@ -929,173 +1027,140 @@ export function FinanceProvider({ children, exchangeRates = {} }: FinanceProvide
       
       return newRecurring.id;
     },
-    [isAuthenticated]
+    [storage, queueSync, journal, recordAction, audit, changeTransactions]
   );
 
-  const updateRecurringTransaction = useCallback(
-    async (id: string, updates: Partial<Omit<RecurringTransaction, 'id'>>, applyToExisting = false): Promise<boolean> => {
-      const user = await getCurrentUser();
-      if (!user || !isAuthenticated) {
-        console.error('[FinanceContext] Not authenticated');
-        return false;
-      }
+  // Applies a template edit and returns what changed (null on failure); not journaled itself
+  const saveRecurringUpdate = useCallback(
+    async (
+      id: string,
+      updates: Partial<Omit<RecurringTransaction, 'id'>>,
+      applyToExisting: boolean
+    ): Promise<RecordChange[] | null> => {
+      const current = recurringTransactions.find((r) => r.id === id) ?? (await storage.getRecurring(id));
+      if (!current) return null;
 
-      // Update in Supabase
-      const { error } = await supabase.from('recurring_transactions').update({
-        title: updates.title,
-        amount: updates.amount,
-        category: updates.category,
-        type: updates.type,
-        frequency: updates.frequency,
-        start_date: updates.startDate,
-        end_date: updates.endDate || null,
-        last_generated: updates.lastGenerated || null,
-        next_occurrence: updates.nextOccurrence,
-        is_active: updates.isActive,
-        description: updates.description || null,
-        original_currency: updates.originalCurrency,
-      }).eq('id', id).eq('user_id', user.id);
-
-      if (error) {
+      const stamped = { ...updates, ...bumpVersion(current) };
+      const updatedRecurring: RecurringTransaction = { ...current, ...stamped };
+
+      try {
+        await storage.updateRecurring(id, stamped);
+      } catch (error) {
         console.error('[FinanceContext] Error updating recurring:', error);
-        return false;
+        return null;
       }
 
+      queueSync('recurring', 'upsert', [id]);
+      const changes = [journalChange('recurring', id, current, updatedRecurring)];
+
       // If applyToExisting is true, update generated transactions too
       if (applyToExisting) {
-        // Update existing transactions that were generated from this recurring transaction
-        const updatePayload: any = {};
-        if (updates.title !== undefined) updatePayload.title = updates.title;
-        if (updates.category !== undefined) updatePayload.category = updates.category;
-        if (updates.description !== undefined) updatePayload.description = updates.description;
-
-        if (Object.keys(updatePayload).length > 0) {
-          const { error: updateError } = await supabase
-            .from('transactions')
-            .update(updatePayload)
-            .eq('recurring_id', id)
-            .eq('user_id', user.id);
-
-          if (updateError) {
-            console.error('[FinanceContext] Error updating generated transactions:', updateError);
+        const txUpdates: Partial<Transaction> = {};
+        if (updates.title !== undefined) txUpdates.title = updates.title;
+        if (updates.category !== undefined) txUpdates.category = updates.category;
+        if (updates.description !== undefined) txUpdates.description = updates.description;
+
+        if (Object.keys(txUpdates).length > 0) {
+          let previous: Transaction[] = [];
+          let generated: Transaction[] = [];
+          try {
+            // Generated transactions of any date, not just those state holds
+            previous = (await storage.getAllTransactions()).filter((t) => t.recurringId === id);
+            generated = previous.map((t) => ({ ...t, ...txUpdates, ...bumpVersion(t) }));
+            for (const tx of generated) {
+              await storage.updateTransaction(tx.id, tx);
+            }
+          } catch (error) {
             // Don't fail the entire operation, just log the error
+            console.error('[FinanceContext] Error updating generated transactions:', error);
           }
+
+          queueSync('transactions', 'upsert', generated.map((t) => t.id));
+          changes.push(...generated.map((t, i) => journalChange('transactions', t.id, previous[i], t)));
+
+          const updatedById = new Map(generated.map((t) => [t.id, t]));
+          changeTransactions((prev) => prev.map((t) => updatedById.get(t.id) ?? t));
         }
       }
 
       // Update state
-      let updated = false;
-      setRecurringTransactions((prev) => {
-        const index = prev.findIndex((r) => r.id === id);
-        if (index === -1) return prev;
-
-        const updatedRecurring: RecurringTransaction = { ...prev[index], ...updates };
-        const next = [...prev];
-        next[index] = updatedRecurring;
-        updated = true;
-        return next;
-      });
+      setRecurringTransactions((prev) => prev.map((r) => (r.id === id ? updatedRecurring : r)));
+      return changes;
+    },
+    [recurringTransactions, storage, queueSync, changeTransactions]
+  );
 
-      // If applyToExisting, also update local transaction state
-      if (applyToExisting && updated) {
-        setTransactions((prev) => {
-          return prev.map((t) => {
-            if (t.recurringId === id) {
-              const updated: Transaction = { ...t };
-              if (updates.title !== undefined) updated.title = updates.title;
-              if (updates.category !== undefined) updated.category = updates.category;
-              if (updates.description !== undefined) updated.description = updates.description;
-              return updated;
-            }
-            return t;
-          });
-        });
-      }
+  const updateRecurringTransaction = useCallback(
+    async (id: string, updates: Partial<Omit<RecurringTransaction, 'id'>>, applyToExisting = false): Promise<boolean> => {
+      const changes = await saveRecurringUpdate(id, updates, applyToExisting);
+      if (!changes) return false;
 
-      return updated;
+      recordAction('updateRecurring', changes);
+      return true;
     },
-    [isAuthenticated]
+    [saveRecurringUpdate, recordAction]
   );
 
   const deleteRecurringTransaction = useCallback(
     async (id: string) => {
-      const user = await getCurrentUser();
-      if (!user || !isAuthenticated) {
-        console.error('[FinanceContext] Not authenticated');
-        return;
-      }
-
-      // First, delete all generated transactions with this recurring_id
-      const { error: transactionsError } = await supabase
-        .from('transactions')
-        .delete()
-        .eq('recurring_id', id)
-        .eq('user_id', user.id);
-
-      if (transactionsError) {
-        console.error('[FinanceContext] Error deleting related transactions:', transactionsError);
-        return;
-      }
+      let generated: Transaction[];
+      let template: RecurringTransaction | undefined;
+      try {
+        template = recurringTransactions.find((r) => r.id === id) ?? (await storage.getRecurring(id));
 
-      // Then, delete the recurring transaction template
-      const { error } = await supabase
-        .from('recurring_transactions')
-        .delete()
-        .eq('id', id)
-        .eq('user_id', user.id);
+        // First, delete all generated transactions with this recurringId
+        generated = (await storage.getAllTransactions()).filter((t) => t.recurringId === id);
+        for (const tx of generated) {
+          await storage.deleteTransaction(tx.id);
+        }
 
-      if (error) {
+        // Then, delete the recurring transaction template
+        await storage.deleteRecurring(id);
+      } catch (error) {
         console.error('[FinanceContext] Error deleting recurring:', error);
         return;
       }
 
+      queueSync('transactions', 'delete', generated.map((t) => t.id));
+      queueSync('recurring', 'delete', [id]);
+      recordAction('deleteRecurring', [
+        ...generated.map((t) => journalChange('transactions', t.id, t, null)),
+        ...(template ? [journalChange('recurring', id, template, null)] : []),
+      ]);
+
       // Update state - remove from both transactions and recurring transactions
-      setTransactions((prev) => prev.filter((t) => t.recurringId !== id));
+      changeTransactions((prev) => prev.filter((t) => t.recurringId !== id));
       setRecurringTransactions((prev) => prev.filter((r) => r.id !== id));
     },
-    [isAuthenticated]
+    [recurringTransactions, storage, queueSync, recordAction, changeTransactions]
   );
 
   const toggleRecurringActive = useCallback(
     async (id: string) => {
-      const user = await getCurrentUser();
-      if (!user || !isAuthenticated) {
-        console.error('[FinanceContext] Not authenticated');
-        return;
-      }
-
       const recurring = recurringTransactions.find(r => r.id === id);
       if (!recurring) return;
 
-      const newIsActive = !recurring.isActive;
-
-      // Update in Supabase
-      const { error } = await supabase
-        .from('recurring_transactions')
-        .update({ is_active: newIsActive })
-        .eq('id', id)
-        .eq('user_id', user.id);
+      const changes = { isActive: !recurring.isActive, ...bumpVersion(recurring) };
 
-      if (error) {
+      try {
+        await storage.updateRecurring(id, changes);
+      } catch (error) {
         console.error('[FinanceContext] Error toggling recurring:', error);
         return;
       }
 
+      queueSync('recurring', 'upsert', [id]);
+      recordAction('toggleRecurring', [journalChange('recurring', id, recurring, { ...recurring, ...changes })]);
+
       // Update state
       setRecurringTransactions((prev) =>
-        prev.map((r) => (r.id === id ? { ...r, isActive: newIsActive } : r))
+        prev.map((r) => (r.id === id ? { ...r, ...changes } : r))
       );
     },
-    [recurringTransactions, isAuthenticated]
+    [recurringTransactions, storage, queueSync, recordAction]
   );
 
   const generateRecurringTransactions = useCallback(async (): Promise<number> => {
-    const user = await getCurrentUser();
-    if (!user || !isAuthenticated) {
-      console.error('[FinanceContext] Not authenticated');
-      return 0;
-    }
-
     let totalGeneratedCount = 0;
     const today = new Date();
     today.setHours(0, 0, 0, 0);
@@ -1127,269 +1192,149 @@ export function FinanceProvider({ children, exchangeRates = {} }: FinanceProvide
       notificationManager.checkRecurringReminders(pendingRecurring);
     }
 
+    // Dates already generated per template, so repeated runs never duplicate
+    const existingDates = new Map<string, Set<string>>();
+    for (const tx of await storage.getAllTransactions()) {
+      if (!tx.recurringId) continue;
+      if (!existingDates.has(tx.recurringId)) existingDates.set(tx.recurringId, new Set());
+      existingDates.get(tx.recurringId)!.add(tx.date);
+    }
+
     for (const recurring of recurringTransactions) {
       if (!recurring.isActive) continue;
 
-      const startDate = new Date(recurring.startDate);
-      startDate.setHours(0, 0, 0, 0);
-
-      const endDate = recurring.endDate ? new Date(recurring.endDate) : null;
-      if (endDate) {
-        endDate.setHours(0, 0, 0, 0);
-      }
+      // Generate all transactions from nextOccurrence up to endDate (or today + 60 days)
+      const transactionsToAdd = buildRecurringOccurrences(recurring);
+      if (transactionsToAdd.length === 0) continue;
 
-      // Start from nextOccurrence
-      let currentDate = new Date(recurring.nextOccurrence);
-      currentDate.setHours(0, 0, 0, 0);
+      const seenDates = existingDates.get(recurring.id) ?? new Set<string>();
+      const newTransactions = transactionsToAdd.filter((tx) => !seenDates.has(tx.date));
 
-      // Generate all transactions from currentDate up to endDate (or today + 60 days)
-      const transactionsToAdd: Transaction[] = [];
-      
-      // Safety limit: generate up to 60 days from now if no endDate
-      const maxDate = endDate ? endDate : new Date(today.getTime() + 60 * 24 * 60 * 60 * 1000);
-      
-      while (currentDate <= maxDate) {
-        const transactionDate = new Date(currentDate);
-        const dateString = transactionDate.toISOString().split('T')[0];
-
-        const newTransaction: Transaction = {
-          id: uuidv4(),
-          title: recurring.title,
-          amount: recurring.amount,
-          category: recurring.category,
-          type: recurring.type,
-          date: dateString,
-          originalCurrency: recurring.originalCurrency,
-          isRecurring: true,
-          recurringId: recurring.id,
-          description: recurring.description,
-        };
-
-        transactionsToAdd.push(newTransaction);
-
-        // Move to next occurrence
-        switch (recurring.frequency) {
-          case 'daily':
-            currentDate.setDate(currentDate.getDate() + 1);
-            break;
-          case 'weekly':
-            currentDate.setDate(currentDate.getDate() + 7);
-            break;
-          case 'biweekly':
-            currentDate.setDate(currentDate.getDate() + 14);
-            break;
-          case 'monthly':
-            currentDate.setMonth(currentDate.getMonth() + 1);
-            break;
-          case 'quarterly':
-            currentDate.setMonth(currentDate.getMonth() + 3);
-            break;
-          case 'yearly':
-            currentDate.setFullYear(currentDate.getFullYear() + 1);
-            break;
+      if (newTransactions.length > 0) {
+        try {
+          await storage.bulkAddTransactions(newTransactions);
+        } catch (error) {
+          console.error('[FinanceContext] Error adding generated transactions:', error);
+          continue;
         }
-      }
 
-      // Add all transactions at once
-      if (transactionsToAdd.length > 0) {
-        // Check Supabase for existing transactions with same recurring_id and date
-        const { data: existingTxs, error: checkError } = await supabase
-          .from('transactions')
-          .select('date')
-          .eq('user_id', user.id)
-          .eq('recurring_id', recurring.id);
-
-        if (!checkError && existingTxs) {
-          // Filter out duplicates from Supabase
-          const existingDates = new Set(existingTxs.map(t => t.date));
-          const newTransactions = transactionsToAdd.filter(
-            (tx) => !existingDates.has(tx.date)
-          );
-          
-          if (newTransactions.length > 0) {
-            // Insert to Supabase
-            const { error } = await supabase.from('transactions').insert(
-              newTransactions.map(tx => ({
-                id: tx.id,
-                user_id: user.id,
-                title: tx.title,
-                amount: tx.amount,
-                category: tx.category,
-                type: tx.type,
-                date: tx.date,
-                original_currency: tx.originalCurrency,
-                is_recurring: tx.isRecurring,
-                recurring_id: tx.recurringId || null,
-                description: tx.description || null,
-              }))
-            );
-
-            if (error) {
-              console.error('[FinanceContext] Error adding generated transactions:', error);
-              continue;
-            }
+        queueSync('transactions', 'upsert', newTransactions.map((t) => t.id));
+        audit(newTransactions.map((t) => journalChange('transactions', t.id, null, t)), 'recurring');
 
-            totalGeneratedCount += newTransactions.length;
+        totalGeneratedCount += newTransactions.length;
 
-            // Update state
-            setTransactions((prev) => [...newTransactions, ...prev]);
-          }
-        }
-
-        // Update lastGenerated and nextOccurrence
-        const lastTransaction = transactionsToAdd[transactionsToAdd.length - 1];
-        const lastDate = new Date(lastTransaction.date);
-        
-        let nextDate = new Date(lastDate);
-        switch (recurring.frequency) {
-          case 'daily':
-            nextDate.setDate(nextDate.getDate() + 1);
-            break;
-          case 'weekly':
-            nextDate.setDate(nextDate.getDate() + 7);
-            break;
-          case 'biweekly':
-            nextDate.setDate(nextDate.getDate() + 14);
-            break;
-          case 'monthly':
-            nextDate.setMonth(nextDate.getMonth() + 1);
-            break;
-          case 'quarterly':
-            nextDate.setMonth(nextDate.getMonth() + 3);
-            break;
-          case 'yearly':
-            nextDate.setFullYear(nextDate.getFullYear() + 1);
-            break;
-        }
-        
-        await updateRecurringTransaction(recurring.id, {
-          lastGenerated: lastTransaction.date,
-          nextOccurrence: nextDate.toISOString().split('T')[0],
-        });
+        // Update state
+        changeTransactions((prev) => [...newTransactions, ...prev]);
       }
+
+      // Update lastGenerated and nextOccurrence
+      const lastTransaction = transactionsToAdd[transactionsToAdd.length - 1];
+      const scheduleChanges = await saveRecurringUpdate(recurring.id, {
+        lastGenerated: lastTransaction.date,
+        nextOccurrence: calculateNextOccurrence(lastTransaction.date, recurring.frequency),
+      }, false);
+      if (scheduleChanges) audit(scheduleChanges, 'recurring');
     }
 
     return totalGeneratedCount;
-  }, [recurringTransactions, isAuthenticated, updateRecurringTransaction, notificationManager]);
+  }, [recurringTransactions, storage, queueSync, saveRecurringUpdate, notificationManager, audit, changeTransactions]);
 
   // Budget Management (P2 Sprint 2)
   const setBudget = useCallback(
     async (budget: Omit<CategoryBudget, 'id'>): Promise<string> => {
-      const user = await getCurrentUser();
-      if (!user || !isAuthenticated) {
-        console.error('[FinanceContext] Not authenticated');
-        return '';
-      }
-
       const newBudget: CategoryBudget = {
         id: uuidv4(),
         ...budget,
+        ...bumpVersion(),
       };
 
-      // Insert to Supabase
-      const { error } = await supabase.from('budgets').insert({
-        id: newBudget.id,
-        user_id: user.id,
-        category: newBudget.category,
-        monthly_limit: newBudget.monthlyLimit,
-        alert_threshold: newBudget.alertThreshold,
-        is_active: newBudget.isActive,
-        currency: newBudget.currency,
-      });
-
-      if (error) {
+      try {
+        await storage.addBudget(newBudget);
+      } catch (error) {
         console.error('[FinanceContext] Error adding budget:', error);
         return '';
       }
 
+      queueSync('budgets', 'upsert', [newBudget.id]);
+      recordAction('addBudget', [journalChange('budgets', newBudget.id, null, newBudget)]);
+
       // Update state immediately
       setBudgets((prev) => [...prev, newBudget]);
       return newBudget.id;
     },
-    [isAuthenticated]
+    [storage, queueSync, recordAction]
   );
 
   const updateBudget = useCallback(
     async (id: string, updates: Partial<Omit<CategoryBudget, 'id'>>): Promise<boolean> => {
-      const user = await getCurrentUser();
-      if (!user || !isAuthenticated) {
-        console.error('[FinanceContext] Not authenticated');
-        return false;
-      }
+      const budget = budgets.find((b) => b.id === id);
+      if (!budget) return false;
 
-      // Update in Supabase
-      const { error } = await supabase.from('budgets').update({
-        monthly_limit: updates.monthlyLimit,
-        alert_threshold: updates.alertThreshold,
-        is_active: updates.isActive,
-        currency: updates.currency,
-      }).eq('id', id).eq('user_id', user.id);
+      const stamped = { ...updates, ...bumpVersion(budget) };
 
-      if (error) {
+      try {
+        await storage.updateBudget(id, stamped);
+      } catch (error) {
         console.error('[FinanceContext] Error updating budget:', error);
         return false;
       }
 
+      queueSync('budgets', 'upsert', [id]);
+      recordAction('updateBudget', [journalChange('budgets', id, budget, { ...budget, ...stamped })]);
+
       // Update state
       setBudgets((prev) =>
-        prev.map((budget) =>
-          budget.id === id ? { ...budget, ...updates } : budget
+        prev.map((b) =>
+          b.id === id ? { ...b, ...stamped } : b
         )
       );
       return true;
     },
-    [isAuthenticated]
+    [budgets, storage, queueSync, recordAction]
   );
 
   const deleteBudget = useCallback(
     async (id: string) => {
-      const user = await getCurrentUser();
-      if (!user || !isAuthenticated) {
-        console.error('[FinanceContext] Not authenticated');
-        return;
-      }
-
-      // Delete from Supabase
-      const { error } = await supabase.from('budgets').delete().eq('id', id).eq('user_id', user.id);
-
-      if (error) {
+      const budget = budgets.find((b) => b.id === id);
+      try {
+        await storage.deleteBudget(id);
+      } catch (error) {
         console.error('[FinanceContext] Error deleting budget:', error);
         return;
       }
 
+      queueSync('budgets', 'delete', [id]);
+      if (budget) recordAction('deleteBudget', [journalChange('budgets', id, budget, null)]);
+
       // Update state
-      setBudgets((prev) => prev.filter((budget) => budget.id !== id));
+      setBudgets((prev) => prev.filter((b) => b.id !== id));
     },
-    [isAuthenticated]
+    [budgets, storage, queueSync, recordAction]
   );
 
   const toggleBudgetActive = useCallback(
     async (id: string) => {
-      const user = await getCurrentUser();
-      if (!user || !isAuthenticated) {
-        console.error('[FinanceContext] Not authenticated');
-        return;
-      }
-
       const budget = budgets.find(b => b.id === id);
       if (!budget) return;
 
-      const newIsActive = !budget.isActive;
+      const changes = { isActive: !budget.isActive, ...bumpVersion(budget) };
 
-      // Update in Supabase
-      const { error } = await supabase.from('budgets').update({ is_active: newIsActive }).eq('id', id).eq('user_id', user.id);
-
-      if (error) {
+      try {
+        await storage.updateBudget(id, changes);
+      } catch (error) {
         console.error('[FinanceContext] Error toggling budget:', error);
         return;
       }
 
+      queueSync('budgets', 'upsert', [id]);
+      recordAction('toggleBudget', [journalChange('budgets', id, budget, { ...budget, ...changes })]);
+
       // Update state
       setBudgets((prev) =>
-        prev.map((b) => (b.id === id ? { ...b, isActive: newIsActive } : b))
+        prev.map((b) => (b.id === id ? { ...b, ...changes } : b))
       );
     },
-    [budgets, isAuthenticated]
+    [budgets, storage, queueSync, recordAction]
   );
 
   const getBudgetProgress = useCallback(
@@ -1400,39 +1345,27 @@ export function FinanceProvider({ children, exchangeRates = {} }: FinanceProvide
       );
       if (!budget) return null;
 
-      // Calculate total spent in this category for this month
-      const spent = transactions
-        .filter((t) => {
-          const date = new Date(t.date);
-          return (
-            t.type === 'expense' &&
-            t.category === category &&
-            date.getMonth() === month &&
-            date.getFullYear() === year
-          );
-        })
-        .reduce((sum, t) => {
-          // Convert to budget currency if needed
-          const from = (t as any).originalCurrency || settings.currency;
-          if (from === budget.currency) {
-            return sum + t.amount;
-          }
-          // Basic conversion (would use exchange rates in production)
-          const rate = exchangeRates[`${from}-${budget.currency}`] || 1;
-          return sum + t.amount * rate;
-        }, 0);
+      // Total spent in this category for this month, from the rollups
+      const midMonth = `${year}-${String(month + 1).padStart(2, '0')}-15`;
+      const spent = sumMoney(
+        (rollups ?? [])
+          .filter((r) => r.type === 'expense' && r.category === category && r.month === month + 1 && r.year === year)
+          .map((r) => money(convertAt(r.amount, r.currency, budget.currency, midMonth, valuation), budget.currency)),
+        budget.currency
+      );
+      const limit = money(budget.monthlyLimit, budget.currency);
 
-      const percentage = budget.monthlyLimit > 0 ? (spent / budget.monthlyLimit) * 100 : 0;
-      const exceeded = spent > budget.monthlyLimit;
+      const percentage = limit.minor > 0 ? (spent.minor / limit.minor) * 100 : 0;
+      const exceeded = compareMoney(spent, limit) > 0;
 
       return {
-        spent,
+        spent: toAmount(spent),
         limit: budget.monthlyLimit,
         percentage,
         exceeded,
       };
     },
-    [budgets, transactions, settings.currency, exchangeRates]
+    [budgets, rollups, valuation]
   );
 
   const checkBudgetExceeded = useCallback(
@@ -1488,10 +1421,9 @@ export function FinanceProvider({ children, exchangeRates = {} }: FinanceProvide
 
   // Cloud sync actions (P3 Sprint 2)
   const syncNow = useCallback(async (): Promise<SyncResult> => {
-    const user = await getCurrentUser();
-    console.log('🔄 [FinanceContext] syncNow called:', { isAuthenticated, isCloudEnabled, userId: user?.id });
+    console.log('🔄 [FinanceContext] syncNow called:', { isAuthenticated, isCloudEnabled });
     
-    if (!user || !isAuthenticated || !isCloudEnabled) {
+    if (!isCloudActive) {
       console.warn('⚠️ [FinanceContext] Sync skipped - not authenticated or cloud disabled');
       return {
         success: false,
@@ -1501,79 +1433,351 @@ export function FinanceProvider({ children, exchangeRates = {} }: FinanceProvide
       };
     }
 
-    // Since we're using Supabase directly now, reload data from Supabase
+    const result = await syncService.syncAll(storage);
+
+    // Local store now holds the merged data - refresh React state from it
     try {
-      const [{ data: txs }, { data: budgets }, { data: recurring }] = await Promise.all([
-        supabase.from('transactions').select('*').eq('user_id', user.id),
-        supabase.from('budgets').select('*').eq('user_id', user.id),
-        supabase.from('recurring_transactions').select('*').eq('user_id', user.id),
-      ]);
+      await loadFromStorage(storage);
+    } catch (error) {
+      console.error('❌ [FinanceContext] Reload after sync failed:', error);
+    }
+
+    return result;
+  }, [isAuthenticated, isCloudEnabled, isCloudActive, storage, loadFromStorage]);
+
+  const getSyncConflicts = useCallback(() => syncService.getConflicts(storage), [storage]);
+
+  const resolveSyncConflict = useCallback(
+    async (conflictId: string, resolution: ConflictResolution, merged?: VersionedRecord): Promise<boolean> => {
+      const resolved = await syncService.resolveConflict(storage, conflictId, resolution, merged);
+      if (!resolved) return false;
+
+      try {
+        await loadFromStorage(storage);
+      } catch (error) {
+        console.error('[FinanceContext] Reload after conflict resolution failed:', error);
+      }
+      return true;
+    },
+    [storage, loadFromStorage]
+  );
 
-      if (txs) {
-        const mapped = txs.map(tx => ({
-          id: tx.id,
-          title: tx.title,
-          amount: tx.amount,
-          category: tx.category,
-          type: tx.type,
-          date: tx.date,
-          originalCurrency: tx.original_currency,
-          isRecurring: tx.is_recurring,
-          recurringId: tx.recurring_id,
-          description: tx.description,
-        }));
-        setTransactions(mapped);
-        console.log(`📊 [FinanceContext] Loaded ${mapped.length} transactions from Supabase`);
+  // Encryption changes rewrite the stored records; in-memory state is already plaintext
+  const enableEncryption = useCallback(
+    async (passphrase: string): Promise<boolean> => {
+      try {
+        setStorage(await encryptionService.enable(storage, passphrase));
+        setIsEncrypted(true);
+        return true;
+      } catch (error) {
+        console.error('[FinanceContext] Error enabling encryption:', error);
+        return false;
       }
+    },
+    [storage]
+  );
 
-      if (budgets) {
-        const mapped = budgets.map(b => ({
-          id: b.id,
-          category: b.category,
-          monthlyLimit: b.monthly_limit,
-          alertThreshold: b.alert_threshold,
-          isActive: b.is_active,
-          currency: b.currency,
-        }));
-        setBudgets(mapped);
+  const changePassphrase = useCallback(
+    async (current: string, next: string): Promise<boolean> => {
+      try {
+        setStorage(await encryptionService.changePassphrase(storage, current, next));
+        return true;
+      } catch (error) {
+        console.error('[FinanceContext] Error changing passphrase:', error);
+        return false;
       }
+    },
+    [storage]
+  );
 
-      if (recurring) {
-        const mapped = recurring.map(r => ({
-          id: r.id,
-          title: r.title,
-          amount: r.amount,
-          category: r.category,
-          type: r.type,
-          frequency: r.frequency,
-          startDate: r.start_date,
-          endDate: r.end_date,
-          lastGenerated: r.last_generated,
-          nextOccurrence: r.next_occurrence,
-          isActive: r.is_active,
-          description: r.description,
-          originalCurrency: r.original_currency,
-        }));
-        setRecurringTransactions(mapped);
+  const disableEncryption = useCallback(
+    async (passphrase: string): Promise<boolean> => {
+      try {
+        setStorage(await encryptionService.disable(storage, passphrase));
+        setIsEncrypted(false);
+        return true;
+      } catch (error) {
+        console.error('[FinanceContext] Error disabling encryption:', error);
+        return false;
       }
+    },
+    [storage]
+  );
 
-      console.log('✅ [FinanceContext] Sync completed successfully');
-      return {
-        success: true,
-        synced: (txs?.length || 0) + (budgets?.length || 0) + (recurring?.length || 0),
-        conflicts: 0,
-        errors: [],
-      };
+  // Rows already in the cloud are re-uploaded so they match the new field choice
+  const setCloudEncryptedFields = useCallback(
+    async (fields: E2EField[]): Promise<boolean> => {
+      try {
+        await e2eService.setFields(fields);
+        setCloudEncryptedFieldsState(e2eService.getFields());
+
+        if (isCloudActive) {
+          const all = await storage.getAllTransactions();
+          await syncService.enqueue('transactions', 'upsert', all.map((t) => t.id));
+          await syncService.enqueue('recurring', 'upsert', recurringTransactions.map((r) => r.id));
+          await syncNow();
+        }
+        return true;
+      } catch (error) {
+        console.error('[FinanceContext] Error updating end-to-end encryption:', error);
+        return false;
+      }
+    },
+    [isCloudActive, storage, recurringTransactions, syncNow]
+  );
+
+  // A restored key makes rows from other devices readable - pull them right away
+  const importCloudKey = useCallback(
+    async (content: string, passphrase: string): Promise<boolean> => {
+      try {
+        await e2eService.importRecoveryFile(content, passphrase);
+        setCloudEncryptedFieldsState(e2eService.getFields());
+        if (isCloudActive) await syncNow();
+        return true;
+      } catch (error) {
+        console.error('[FinanceContext] Error importing end-to-end key:', error);
+        return false;
+      }
+    },
+    [isCloudActive, syncNow]
+  );
+
+  const createSnapshot = useCallback(async (): Promise<boolean> => {
+    try {
+      await snapshotService.create(storage, 'manual');
+      return true;
     } catch (error) {
-      console.error('❌ [FinanceContext] Sync failed:', error);
-      return {
-        success: false,
-        synced: 0,
-        conflicts: 0,
-        errors: [error instanceof Error ? error.message : 'Unknown sync error'],
-      };
+      console.error('[FinanceContext] Error creating snapshot:', error);
+      return false;
+    }
+  }, [storage]);
+
+  const previewSnapshotRestore = useCallback(
+    async (snapshotId: number): Promise<RestorePreview | null> => {
+      try {
+        return await snapshotService.preview(storage, snapshotId);
+      } catch (error) {
+        console.error('[FinanceContext] Error previewing snapshot:', error);
+        return null;
+      }
+    },
+    [storage]
+  );
+
+  // Restore replaces the whole store; the sync outbox gets the difference
+  const restoreSnapshot = useCallback(
+    async (snapshotId: number): Promise<boolean> => {
+      try {
+        const preview = await snapshotService.preview(storage, snapshotId);
+        const before = await storage.exportAll();
+        await snapshotService.restore(storage, snapshotId);
+        const after = await storage.exportAll();
+        audit(
+          [
+            ...diffRecords('transactions', before.transactions, after.transactions),
+            ...diffRecords('budgets', before.budgets, after.budgets),
+            ...diffRecords('recurring', before.recurring, after.recurring),
+          ],
+          'restore'
+        );
+
+        const ids = (records: { id: string }[]) => records.map((r) => r.id);
+        queueSync('transactions', 'delete', ids(preview.transactions.removed));
+        queueSync('budgets', 'delete', ids(preview.budgets.removed));
+        queueSync('recurring', 'delete', ids(preview.recurring.removed));
+        queueSync('recurring', 'upsert', ids([...preview.recurring.restored, ...preview.recurring.changed]));
+        queueSync('transactions', 'upsert', ids([...preview.transactions.restored, ...preview.transactions.changed]));
+        queueSync('budgets', 'upsert', ids([...preview.budgets.restored, ...preview.budgets.changed]));
+        if (preview.settingsChanged) queueSync('settings', 'upsert', ['default']);
+
+        await loadFromStorage(storage);
+        setDeletedIds(new Set());
+        // The journal describes edits on top of the data that was just replaced
+        journal.clear();
+        return true;
+      } catch (error) {
+        console.error('[FinanceContext] Error restoring snapshot:', error);
+        return false;
+      }
+    },
+    [storage, queueSync, loadFromStorage, journal, audit]
+  );
+
+  // Replays the latest (undo) or latest undone (redo) journal entry against the store
+  const replayJournal = useCallback(
+    async (direction: JournalDirection): Promise<boolean> => {
+      const entry = direction === 'undo' ? journal.peekUndo() : journal.peekRedo();
+      if (!entry || isReplaying.current) return false;
+
+      isReplaying.current = true;
+      try {
+        const writes = await replayEntry(storage, entry, direction);
+        for (const write of writes) {
+          queueSync(write.table, write.op, [write.recordId]);
+        }
+        audit(writes, 'undo');
+        if (entry.settings) queueSync('settings', 'upsert', ['default']);
+
+        await loadFromStorage(storage);
+
+        // Records brought back may be imported again
+        const restored = new Set(writes.filter((w) => w.op === 'upsert').map((w) => w.recordId));
+        setDeletedIds((prev) => new Set([...prev].filter((id) => !restored.has(id))));
+
+        if (direction === 'undo') {
+          journal.commitUndo();
+        } else {
+          journal.commitRedo();
+        }
+        return true;
+      } catch (error) {
+        console.error(`[FinanceContext] Error during ${direction}:`, error);
+        return false;
+      } finally {
+        isReplaying.current = false;
+      }
+    },
+    [journal, storage, queueSync, loadFromStorage, audit]
+  );
+
+  const undo = useCallback(() => replayJournal('undo'), [replayJournal]);
+  const redo = useCallback(() => replayJournal('redo'), [replayJournal]);
+
+  const getRecordHistory = useCallback(
+    async (table: AuditEntry['table'], recordId: string): Promise<AuditEntry[]> => {
+      try {
+        return await auditService.history(storage, table, recordId);
+      } catch (error) {
+        console.error('[FinanceContext] Error reading record history:', error);
+        return [];
+      }
+    },
+    [storage]
+  );
+
+  // Writes the version an audit entry produced back as a new (undoable) edit
+  const revertToVersion = useCallback(
+    async (auditEntryId: number): Promise<boolean> => {
+      try {
+        const entry = await auditService.get(storage, auditEntryId);
+        if (!entry?.after) return false;
+
+        const write = await applyRecordState(storage, entry.table, entry.recordId, entry.after);
+        if (!write) return true;
+
+        queueSync(write.table, 'upsert', [write.recordId]);
+        recordAction('revertRecord', [write], 'revert');
+        await loadFromStorage(storage);
+        return true;
+      } catch (error) {
+        console.error('[FinanceContext] Error reverting record:', error);
+        return false;
+      }
+    },
+    [storage, queueSync, recordAction, loadFromStorage]
+  );
+
+  // Scans the whole local store, not just what the pages have loaded
+  const checkIntegrity = useCallback(async (): Promise<IntegrityIssue[] | null> => {
+    try {
+      const [allTransactions, budgets, recurring] = await Promise.all([
+        storage.getAllTransactions(),
+        storage.getAllBudgets(),
+        storage.getAllRecurring(),
+      ]);
+      return findIntegrityIssues({ transactions: allTransactions, budgets, recurring });
+    } catch (error) {
+      console.error('[FinanceContext] Error checking data integrity:', error);
+      return null;
+    }
+  }, [storage]);
+
+  // A dry run only returns the planned changes; a real run takes a snapshot first and is undoable
+  const repairIntegrity = useCallback(
+    async (types: IntegrityIssueType[], dryRun: boolean): Promise<RecordChange[] | null> => {
+      try {
+        const issues = await checkIntegrity();
+        if (!issues) return null;
+
+        const planned = planRepairs(issues, types);
+        if (dryRun || planned.length === 0) return planned;
+
+        await snapshotService.create(storage, 'before-repair');
+        const writes: ReplayedWrite[] = [];
+        for (const change of planned) {
+          const write = await applyRecordState(storage, change.table, change.recordId, change.after);
+          if (write) writes.push(write);
+        }
+
+        for (const write of writes) {
+          queueSync(write.table, write.op, [write.recordId]);
+        }
+        recordAction('repairData', writes, 'repair');
+        await loadFromStorage(storage);
+
+        // Removed duplicates must not come back with the next import
+        const removed = writes.filter((w) => w.op === 'delete' && w.table === 'transactions').map((w) => w.recordId);
+        if (removed.length > 0) setDeletedIds((prev) => new Set([...prev, ...removed]));
+        return writes;
+      } catch (error) {
+        console.error('[FinanceContext] Error repairing data:', error);
+        return null;
+      }
+    },
+    [checkIntegrity, storage, queueSync, recordAction, loadFromStorage]
+  );
+
+  const rebuildRollups = useCallback(async (): Promise<boolean> => {
+    try {
+      await rollupService.rebuild(storage);
+      setRollups(await rollupService.getAll(storage));
+      return true;
+    } catch (error) {
+      console.error('[FinanceContext] Error rebuilding rollups:', error);
+      return false;
+    }
+  }, [storage]);
+
+  const verifyRollups = useCallback(async (): Promise<RollupMismatch[] | null> => {
+    try {
+      return await rollupService.verify(storage);
+    } catch (error) {
+      console.error('[FinanceContext] Error verifying rollups:', error);
+      return null;
+    }
+  }, [storage]);
+
+  const importRates = useCallback(async (content: string): Promise<number | null> => {
+    try {
+      return await rateService.importFile(content);
+    } catch (error) {
+      console.error('[FinanceContext] Error importing rates:', error);
+      return null;
+    }
+  }, []);
+
+  const recordUnitPrice = useCallback(
+    async (code: CurrencyCode, date: string, price: number): Promise<boolean> => {
+      try {
+        await rateService.recordPrice(code, date, price, settings.currency);
+        return true;
+      } catch (error) {
+        console.error('[FinanceContext] Error recording unit price:', error);
+        return false;
+      }
+    },
+    [settings.currency]
+  );
+
+  const clearRates = useCallback(async (): Promise<boolean> => {
+    try {
+      await rateService.clear();
+      return true;
+    } catch (error) {
+      console.error('[FinanceContext] Error clearing rates:', error);
+      return false;
     }
-  }, [isAuthenticated, isCloudEnabled]);
+  }, []);
 
   const handleAutoSyncChange = useCallback((enabled: boolean) => {
     setAutoSync(enabled);
@@ -1582,16 +1786,136 @@ export function FinanceProvider({ children, exchangeRates = {} }: FinanceProvide
 
   // Subscribe to sync status changes
   useEffect(() => {
-    // Since we're using Supabase directly now, we don't need to subscribe to syncService
-    // Just mark sync status as idle
-    setSyncStatus({
-      isSyncing: false,
-      lastSyncTime: null,
-      error: null,
+    return syncService.onSyncStatusChange(setSyncStatus);
+  }, []);
+
+  // Dated rates: load the store, follow its changes and keep each day's fetched rates
+  useEffect(() => {
+    const unsubscribeHistory = onRateHistoryChange(setRateHistory);
+    rateService.load().catch((error) => {
+      console.error('[FinanceContext] Error loading rate history:', error);
+    });
+    const unsubscribeFetched = onRatesFetched((rates) => {
+      const today = new Date().toISOString().split('T')[0];
+      rateService.record(today, rates).catch((error) => {
+        console.error('[FinanceContext] Error recording rates:', error);
+      });
     });
-    return;
+    return () => {
+      unsubscribeHistory();
+      unsubscribeFetched();
+    };
   }, []);
 
+  // Remind of credit card statements due soon or overdue (each card's whole
+  // history is read from the store, state may hold only the startup window)
+  useEffect(() => {
+    if (isLoading) return;
+
+    let cancelled = false;
+    const checkStatements = async () => {
+      for (const card of settings.accounts ?? []) {
+        if (!card.isActive || !hasStatements(card)) continue;
+        const cardTransactions = await collectPages((cursor) =>
+          storage.getTransactionsPage({ accountId: card.id }, WALK_PAGE_SIZE, cursor)
+        );
+        if (cancelled) return;
+        const latest = buildStatements(card, cardTransactions, valuation).filter((statement) => statement.isClosed).pop();
+        if (latest) notificationManager.checkStatementDue(card, latest);
+      }
+    };
+    checkStatements().catch((error) => {
+      console.error('[FinanceContext] Error checking statements:', error);
+    });
+    return () => { cancelled = true; };
+  }, [isLoading, storage, settings.accounts, transactionsVersion, valuation, notificationManager]);
+
+  // Daily snapshot on startup, re-checked every hour while the app stays open
+  useEffect(() => {
+    if (storageOverride || isLoading) return;
+
+    const takeDailySnapshot = () => {
+      snapshotService.ensureDaily(storage).catch((error) => {
+        console.error('[FinanceContext] Daily snapshot failed:', error);
+      });
+    };
+    takeDailySnapshot();
+    const timer = setInterval(takeDailySnapshot, 60 * 60 * 1000);
+    return () => clearInterval(timer);
+  }, [storageOverride, isLoading, storage]);
+
+  // audit() refreshes the rollups after local changes; sync pulls update the
+  // table directly, so also re-read it whenever the stored transactions change.
+  // The table is built on the first run after upgrading.
+  useEffect(() => {
+    if (isLoading) return;
+
+    let cancelled = false;
+    rollupService
+      .ensureBuilt(storage)
+      .then(() => rollupService.getAll(storage))
+      .then((rows) => {
+        if (!cancelled) setRollups(rows);
+      })
+      .catch((error) => {
+        console.error('[FinanceContext] Error loading rollups:', error);
+      });
+    return () => { cancelled = true; };
+  }, [isLoading, storage, transactionsVersion]);
+
+  // Push the outbox now and whenever the browser comes back online
+  useEffect(() => {
+    if (!isCloudActive || isLoading) return;
+    return syncService.attach(storage);
+  }, [isCloudActive, isLoading, storage]);
+
+  // Live updates from other devices: apply to the local store, then merge into state
+  useEffect(() => {
+    if (!isCloudActive || isLoading || !userId) return;
+
+    const mergeChange = (change: RemoteChange) => {
+      switch (change.table) {
+        case 'transactions':
+          changeTransactions((prev) => mergeRecord(prev, change.recordId, change.record as Transaction | null));
+          break;
+        case 'budgets':
+          setBudgets((prev) => mergeRecord(prev, change.recordId, change.record as CategoryBudget | null));
+          break;
+        case 'recurring':
+          setRecurringTransactions((prev) =>
+            mergeRecord(prev, change.recordId, change.record as RecurringTransaction | null)
+          );
+          break;
+        case 'settings': {
+          const updates = Object.fromEntries(
+            Object.entries(change.settings).filter(([, value]) => value !== undefined)
+          ) as Partial<AppSettings>;
+          if (updates.language) {
+            notificationManager.setLanguage(updates.language);
+          }
+          if (updates.customUnits) {
+            registerCustomUnits(updates.customUnits);
+          }
+          setSettings((prev) => ({ ...prev, ...updates }));
+          break;
+        }
+      }
+    };
+
+    return realtimeService.subscribe(userId, (event) => {
+      void syncService
+        .applyRemoteChange(storage, event)
+        .then((change) => {
+          if (change) mergeChange(change);
+        })
+        .catch((error) => {
+          // State may be out of step with the store now - a full sync rebuilds it
+          console.error('[FinanceContext] Error applying realtime change:', error);
+          void syncNow();
+        });
+    });
+  }, [isCloudActive, isLoading, userId, storage, notificationManager, changeTransactions, syncNow]);
+
   // Auto-sync on mount if authenticated
   useEffect(() => {
     console.log('🔍 [FinanceContext] Auto-sync check:', { 
@@ -1625,6 +1949,9 @@ export function FinanceProvider({ children, exchangeRates = {} }: FinanceProvide
 
   const value: FinanceContextType = {
     transactions,
+    historyLoaded,
+    loadHistory,
+    transactionsVersion,
     settings,
     recurringTransactions,
     budgets,
@@ -1632,6 +1959,8 @@ export function FinanceProvider({ children, exchangeRates = {} }: FinanceProvide
     addBulkTransactions,
     deleteTransaction,
     updateTransaction,
+    getTransactionsPage,
+    getTransactionTotals,
     addRecurringTransaction,
     updateRecurringTransaction,
     deleteRecurringTransaction,
@@ -1652,13 +1981,46 @@ export function FinanceProvider({ children, exchangeRates = {} }: FinanceProvide
     clearAllNotifications,
     updateSettings,
     resetSettings,
+    addAccount,
+    updateAccount,
+    deleteAccount,
+    payStatement,
     exportData,
     importData,
     clearAll,
     syncStatus,
+    getSyncConflicts,
+    resolveSyncConflict,
     syncNow,
     autoSync,
     setAutoSync: handleAutoSyncChange,
+    isEncrypted,
+    enableEncryption,
+    changePassphrase,
+    disableEncryption,
+    cloudEncryptedFields,
+    setCloudEncryptedFields,
+    importCloudKey,
+    createSnapshot,
+    previewSnapshotRestore,
+    restoreSnapshot,
+    canUndo: journalState.canUndo,
+    canRedo: journalState.canRedo,
+    lastAction: journalState.lastAction,
+    undo,
+    redo,
+    getRecordHistory,
+    revertToVersion,
+    checkIntegrity,
+    repairIntegrity,
+    rollups,
+    rebuildRollups,
+    verifyRollups,
+    rateHistory,
+    valuation,
+    importRates,
+    recordUnitPrice,
+    clearRates,
   };
 
   // Show loading state while initializing storage
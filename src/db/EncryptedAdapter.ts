@@ -0,0 +1,295 @@
+import type { StorageAdapter, TransactionCursor, TransactionPage, TransactionQuery, TransactionTotal } from './StorageAdapter';
+import { WALK_PAGE_SIZE, searchPages, totalPages } from './transactionQuery';
+import type { Transaction, CategoryBudget, RecurringTransaction, AppSettings } from '../types';
+import { encryptString, decryptString, isEncryptedValue } from '../utils/crypto';
+
+// Fields that identify what a payment was for and how much it was.
+// Dates, categories and types stay readable so the inner adapter can index them.
+const SEALED_FIELDS = ['title', 'description', 'amount', 'settledAmount'] as const;
+const NUMERIC_FIELDS: ReadonlySet<string> = new Set(['amount', 'settledAmount']);
+
+type SealedRecord = Pick<Transaction, 'title' | 'description' | 'amount' | 'settledAmount'>;
+
+type StoredData = {
+  transactions: Transaction[];
+  budgets: CategoryBudget[];
+  recurring: RecurringTransaction[];
+  settings: AppSettings;
+};
+
+/**
+ * Encrypted Storage Adapter
+ *
+ * Wraps another adapter and encrypts transaction and recurring template
+ * titles, descriptions and amounts (settled amounts included) with AES-GCM before they reach it.
+ * Benefits:
+ * - Works on top of any backend (IndexedDB, localStorage, ...)
+ * - Plaintext records written before encryption was enabled still read fine
+ *
+ * Limitations:
+ * - Amounts are stored as ciphertext, so the inner adapter can't sort or sum them
+ * - Budgets and settings are not encrypted
+ */
+export class EncryptedAdapter implements StorageAdapter {
+  private inner: StorageAdapter;
+  private key: CryptoKey;
+
+  constructor(inner: StorageAdapter, key: CryptoKey) {
+    this.inner = inner;
+    this.key = key;
+  }
+
+  /**
+   * The wrapped adapter (reads return ciphertext)
+   */
+  getInner(): StorageAdapter {
+    return this.inner;
+  }
+
+  // ============================================
+  // HELPER METHODS
+  // ============================================
+
+  private async seal<T extends Partial<SealedRecord>>(record: T): Promise<T> {
+    const sealed: Record<string, unknown> = { ...record };
+    for (const field of SEALED_FIELDS) {
+      const value = record[field];
+      if (value !== undefined && value !== null) {
+        sealed[field] = await encryptString(this.key, String(value));
+      }
+    }
+    return sealed as T;
+  }
+
+  private async open<T extends Partial<SealedRecord>>(record: T): Promise<T> {
+    const opened: Record<string, unknown> = { ...record };
+    for (const field of SEALED_FIELDS) {
+      const value: unknown = record[field];
+      if (isEncryptedValue(value)) {
+        const plaintext = await decryptString(this.key, value);
+        opened[field] = NUMERIC_FIELDS.has(field) ? Number(plaintext) : plaintext;
+      }
+    }
+    return opened as T;
+  }
+
+  private openAll<T extends Partial<SealedRecord>>(records: T[]): Promise<T[]> {
+    return Promise.all(records.map(record => this.open(record)));
+  }
+
+  private async openOne<T extends Partial<SealedRecord>>(record: T | undefined): Promise<T | undefined> {
+    return record && this.open(record);
+  }
+
+  // ============================================
+  // TRANSACTIONS
+  // ============================================
+
+  async addTransaction(transaction: Transaction): Promise<void> {
+    await this.inner.addTransaction(await this.seal(transaction));
+  }
+
+  async bulkAddTransactions(transactions: Transaction[]): Promise<void> {
+    await this.inner.bulkAddTransactions(await Promise.all(transactions.map(tx => this.seal(tx))));
+  }
+
+  async updateTransaction(id: string, updates: Partial<Transaction>): Promise<void> {
+    await this.inner.updateTransaction(id, await this.seal(updates));
+  }
+
+  async deleteTransaction(id: string): Promise<void> {
+    await this.inner.deleteTransaction(id);
+  }
+
+  async getTransaction(id: string): Promise<Transaction | undefined> {
+    return this.openOne(await this.inner.getTransaction(id));
+  }
+
+  async getAllTransactions(): Promise<Transaction[]> {
+    return this.openAll(await this.inner.getAllTransactions());
+  }
+
+  async getTransactionsByDateRange(startDate: string, endDate: string): Promise<Transaction[]> {
+    return this.openAll(await this.inner.getTransactionsByDateRange(startDate, endDate));
+  }
+
+  async getTransactionsByCategory(category: string): Promise<Transaction[]> {
+    return this.openAll(await this.inner.getTransactionsByCategory(category));
+  }
+
+  async getTransactionsByType(type: 'income' | 'expense' | 'savings' | 'withdrawal'): Promise<Transaction[]> {
+    return this.openAll(await this.inner.getTransactionsByType(type));
+  }
+
+  async getTransactionsByCategoryAndType(
+    category: string,
+    type: 'income' | 'expense' | 'savings' | 'withdrawal'
+  ): Promise<Transaction[]> {
+    return this.openAll(await this.inner.getTransactionsByCategoryAndType(category, type));
+  }
+
+  async getTransactionsByMonth(month: number, year: number): Promise<Transaction[]> {
+    return this.openAll(await this.inner.getTransactionsByMonth(month, year));
+  }
+
+  async getTransactionsPage(
+    query: TransactionQuery,
+    limit: number,
+    cursor?: TransactionCursor | null
+  ): Promise<TransactionPage> {
+    // Titles and descriptions are ciphertext in the inner store, so text search runs after opening
+    const { search, ...indexed } = query;
+    const fetchPage = async (from: TransactionCursor | null) => {
+      const page = await this.inner.getTransactionsPage(indexed, limit, from);
+      return { ...page, items: await this.openAll(page.items) };
+    };
+    return search?.trim() ? searchPages(fetchPage, search, limit, cursor) : fetchPage(cursor ?? null);
+  }
+
+  async getTransactionTotals(query: TransactionQuery): Promise<TransactionTotal[]> {
+    // Amounts are ciphertext in the inner store, so they are added up after opening
+    return totalPages(cursor => this.getTransactionsPage(query, WALK_PAGE_SIZE, cursor));
+  }
+
+  // ============================================
+  // BUDGETS (stored as-is)
+  // ============================================
+
+  async addBudget(budget: CategoryBudget): Promise<void> {
+    return this.inner.addBudget(budget);
+  }
+
+  async updateBudget(id: string, updates: Partial<CategoryBudget>): Promise<void> {
+    return this.inner.updateBudget(id, updates);
+  }
+
+  async deleteBudget(id: string): Promise<void> {
+    return this.inner.deleteBudget(id);
+  }
+
+  async getBudget(id: string): Promise<CategoryBudget | undefined> {
+    return this.inner.getBudget(id);
+  }
+
+  async getAllBudgets(): Promise<CategoryBudget[]> {
+    return this.inner.getAllBudgets();
+  }
+
+  async getActiveBudgets(): Promise<CategoryBudget[]> {
+    return this.inner.getActiveBudgets();
+  }
+
+  async getBudgetByCategory(category: string): Promise<CategoryBudget | undefined> {
+    return this.inner.getBudgetByCategory(category);
+  }
+
+  // ============================================
+  // RECURRING TRANSACTIONS
+  // ============================================
+
+  async addRecurring(recurring: RecurringTransaction): Promise<void> {
+    await this.inner.addRecurring(await this.seal(recurring));
+  }
+
+  async updateRecurring(id: string, updates: Partial<RecurringTransaction>): Promise<void> {
+    await this.inner.updateRecurring(id, await this.seal(updates));
+  }
+
+  async deleteRecurring(id: string): Promise<void> {
+    await this.inner.deleteRecurring(id);
+  }
+
+  async getRecurring(id: string): Promise<RecurringTransaction | undefined> {
+    return this.openOne(await this.inner.getRecurring(id));
+  }
+
+  async getAllRecurring(): Promise<RecurringTransaction[]> {
+    return this.openAll(await this.inner.getAllRecurring());
+  }
+
+  async getActiveRecurring(): Promise<RecurringTransaction[]> {
+    return this.openAll(await this.inner.getActiveRecurring());
+  }
+
+  async getPendingRecurring(): Promise<RecurringTransaction[]> {
+    return this.openAll(await this.inner.getPendingRecurring());
+  }
+
+  // ============================================
+  // SETTINGS (stored as-is)
+  // ============================================
+
+  async getSettings(): Promise<AppSettings> {
+    return this.inner.getSettings();
+  }
+
+  async updateSettings(updates: Partial<AppSettings>): Promise<void> {
+    return this.inner.updateSettings(updates);
+  }
+
+  async resetSettings(): Promise<void> {
+    return this.inner.resetSettings();
+  }
+
+  // ============================================
+  // BULK OPERATIONS
+  // ============================================
+
+  /**
+   * Encrypt one record the way it is stored in the inner adapter
+   * (budgets have no sealed fields and pass through unchanged)
+   */
+  async sealRecord<T extends object>(record: T): Promise<T> {
+    return this.seal(record as Partial<SealedRecord>) as Promise<T>;
+  }
+
+  /**
+   * Decrypt one record read from the inner adapter
+   */
+  async openRecord<T extends object>(record: T): Promise<T> {
+    return this.open(record as Partial<SealedRecord>) as Promise<T>;
+  }
+
+  /**
+   * Encrypt a full data set the way it is stored in the inner adapter
+   */
+  async sealData(data: StoredData): Promise<StoredData> {
+    return {
+      ...data,
+      transactions: await Promise.all(data.transactions.map(tx => this.seal(tx))),
+      recurring: await Promise.all(data.recurring.map(r => this.seal(r)))
+    };
+  }
+
+  /**
+   * Decrypt a full data set read from the inner adapter
+   */
+  async openData(data: StoredData): Promise<StoredData> {
+    return {
+      ...data,
+      transactions: await this.openAll(data.transactions),
+      recurring: await this.openAll(data.recurring)
+    };
+  }
+
+  async exportAll(): Promise<StoredData> {
+    return this.openData(await this.inner.exportAll());
+  }
+
+  async importAll(data: StoredData): Promise<void> {
+    await this.inner.importAll(await this.sealData(data));
+  }
+
+  async clearAll(): Promise<void> {
+    return this.inner.clearAll();
+  }
+
+  async getStats(): Promise<{
+    transactions: number;
+    budgets: number;
+    recurring: number;
+    hasSettings: boolean;
+  }> {
+    return this.inner.getStats();
+  }
+}
@@ -0,0 +1,250 @@
+import type { StorageAdapter, TransactionCursor, TransactionPage, TransactionQuery, TransactionTotal } from './StorageAdapter';
+import { pageTransactions, totalTransactions } from './transactionQuery';
+import type { Transaction, CategoryBudget, RecurringTransaction, AppSettings } from '../types';
+import { DEFAULT_SETTINGS } from '../types';
+
+/**
+ * In-Memory Storage Adapter
+ *
+ * Keeps everything in Maps for the lifetime of the instance
+ * Benefits:
+ * - No browser APIs needed (tests, previews, server-side tooling)
+ * - Reference implementation of the StorageAdapter contract
+ *
+ * Limitations:
+ * - Nothing is persisted
+ */
+export class InMemoryAdapter implements StorageAdapter {
+  private transactions = new Map<string, Transaction>();
+  private budgets = new Map<string, CategoryBudget>();
+  private recurring = new Map<string, RecurringTransaction>();
+  private settings: AppSettings | null = null;
+
+  // ============================================
+  // HELPER METHODS
+  // ============================================
+
+  // Callers get copies so they can't mutate the store behind our back
+  private values<T>(map: Map<string, T>): T[] {
+    return Array.from(map.values(), value => ({ ...value }));
+  }
+
+  private patch<T>(map: Map<string, T>, id: string, updates: Partial<T>): void {
+    const current = map.get(id);
+    if (current) {
+      map.set(id, { ...current, ...updates });
+    }
+  }
+
+  private insert<T extends { id: string }>(map: Map<string, T>, record: T): void {
+    if (map.has(record.id)) {
+      throw new Error(`[InMemoryAdapter] Duplicate id: ${record.id}`);
+    }
+    map.set(record.id, { ...record });
+  }
+
+  // ============================================
+  // TRANSACTIONS
+  // ============================================
+
+  async addTransaction(transaction: Transaction): Promise<void> {
+    this.insert(this.transactions, transaction);
+  }
+
+  async bulkAddTransactions(transactions: Transaction[]): Promise<void> {
+    transactions.forEach(tx => this.insert(this.transactions, tx));
+  }
+
+  async updateTransaction(id: string, updates: Partial<Transaction>): Promise<void> {
+    this.patch(this.transactions, id, updates);
+  }
+
+  async deleteTransaction(id: string): Promise<void> {
+    this.transactions.delete(id);
+  }
+
+  async getTransaction(id: string): Promise<Transaction | undefined> {
+    const transaction = this.transactions.get(id);
+    return transaction && { ...transaction };
+  }
+
+  async getAllTransactions(): Promise<Transaction[]> {
+    return this.values(this.transactions);
+  }
+
+  async getTransactionsByDateRange(startDate: string, endDate: string): Promise<Transaction[]> {
+    return this.values(this.transactions).filter(t => t.date >= startDate && t.date <= endDate);
+  }
+
+  async getTransactionsByCategory(category: string): Promise<Transaction[]> {
+    return this.values(this.transactions).filter(t => t.category === category);
+  }
+
+  async getTransactionsByType(type: 'income' | 'expense' | 'savings' | 'withdrawal'): Promise<Transaction[]> {
+    return this.values(this.transactions).filter(t => t.type === type);
+  }
+
+  async getTransactionsByCategoryAndType(
+    category: string,
+    type: 'income' | 'expense' | 'savings' | 'withdrawal'
+  ): Promise<Transaction[]> {
+    return this.values(this.transactions).filter(t => t.category === category && t.type === type);
+  }
+
+  async getTransactionsByMonth(month: number, year: number): Promise<Transaction[]> {
+    // Calculate date range for the month
+    const startDate = `${year}-${String(month + 1).padStart(2, '0')}-01`;
+    const endDay = new Date(year, month + 1, 0).getDate();
+    const endDate = `${year}-${String(month + 1).padStart(2, '0')}-${String(endDay).padStart(2, '0')}`;
+
+    return this.getTransactionsByDateRange(startDate, endDate);
+  }
+
+  async getTransactionsPage(
+    query: TransactionQuery,
+    limit: number,
+    cursor?: TransactionCursor | null
+  ): Promise<TransactionPage> {
+    return pageTransactions(this.values(this.transactions), query, limit, cursor);
+  }
+
+  async getTransactionTotals(query: TransactionQuery): Promise<TransactionTotal[]> {
+    return totalTransactions(this.values(this.transactions), query);
+  }
+
+  // ============================================
+  // BUDGETS
+  // ============================================
+
+  async addBudget(budget: CategoryBudget): Promise<void> {
+    this.insert(this.budgets, budget);
+  }
+
+  async updateBudget(id: string, updates: Partial<CategoryBudget>): Promise<void> {
+    this.patch(this.budgets, id, updates);
+  }
+
+  async deleteBudget(id: string): Promise<void> {
+    this.budgets.delete(id);
+  }
+
+  async getBudget(id: string): Promise<CategoryBudget | undefined> {
+    const budget = this.budgets.get(id);
+    return budget && { ...budget };
+  }
+
+  async getAllBudgets(): Promise<CategoryBudget[]> {
+    return this.values(this.budgets);
+  }
+
+  async getActiveBudgets(): Promise<CategoryBudget[]> {
+    return this.values(this.budgets).filter(b => b.isActive);
+  }
+
+  async getBudgetByCategory(category: string): Promise<CategoryBudget | undefined> {
+    return this.values(this.budgets).find(b => b.category === category);
+  }
+
+  // ============================================
+  // RECURRING TRANSACTIONS
+  // ============================================
+
+  async addRecurring(recurring: RecurringTransaction): Promise<void> {
+    this.insert(this.recurring, recurring);
+  }
+
+  async updateRecurring(id: string, updates: Partial<RecurringTransaction>): Promise<void> {
+    this.patch(this.recurring, id, updates);
+  }
+
+  async deleteRecurring(id: string): Promise<void> {
+    this.recurring.delete(id);
+  }
+
+  async getRecurring(id: string): Promise<RecurringTransaction | undefined> {
+    const recurring = this.recurring.get(id);
+    return recurring && { ...recurring };
+  }
+
+  async getAllRecurring(): Promise<RecurringTransaction[]> {
+    return this.values(this.recurring);
+  }
+
+  async getActiveRecurring(): Promise<RecurringTransaction[]> {
+    return this.values(this.recurring).filter(r => r.isActive);
+  }
+
+  async getPendingRecurring(): Promise<RecurringTransaction[]> {
+    const today = new Date().toISOString().split('T')[0];
+    return this.values(this.recurring).filter(r => r.isActive && r.nextOccurrence <= today);
+  }
+
+  // ============================================
+  // SETTINGS
+  // ============================================
+
+  async getSettings(): Promise<AppSettings> {
+    return { ...(this.settings ?? DEFAULT_SETTINGS) };
+  }
+
+  async updateSettings(updates: Partial<AppSettings>): Promise<void> {
+    this.settings = { ...(await this.getSettings()), ...updates };
+  }
+
+  async resetSettings(): Promise<void> {
+    this.settings = { ...DEFAULT_SETTINGS };
+  }
+
+  // ============================================
+  // BULK OPERATIONS
+  // ============================================
+
+  async exportAll(): Promise<{
+    transactions: Transaction[];
+    budgets: CategoryBudget[];
+    recurring: RecurringTransaction[];
+    settings: AppSettings;
+  }> {
+    return {
+      transactions: await this.getAllTransactions(),
+      budgets: await this.getAllBudgets(),
+      recurring: await this.getAllRecurring(),
+      settings: await this.getSettings()
+    };
+  }
+
+  async importAll(data: {
+    transactions: Transaction[];
+    budgets: CategoryBudget[];
+    recurring: RecurringTransaction[];
+    settings: AppSettings;
+  }): Promise<void> {
+    await this.clearAll();
+
+    data.transactions.forEach(tx => this.insert(this.transactions, tx));
+    data.budgets.forEach(b => this.insert(this.budgets, b));
+    data.recurring.forEach(r => this.insert(this.recurring, r));
+    this.settings = { ...data.settings };
+  }
+
+  async clearAll(): Promise<void> {
+    this.transactions.clear();
+    this.budgets.clear();
+    this.recurring.clear();
+    this.settings = null;
+  }
+
+  async getStats(): Promise<{
+    transactions: number;
+    budgets: number;
+    recurring: number;
+    hasSettings: boolean;
+  }> {
+    return {
+      transactions: this.transactions.size,
+      budgets: this.budgets.size,
+      recurring: this.recurring.size,
+      hasSettings: this.settings !== null
+    };
+  }
+}
@@ -1,4 +1,5 @@
-import type { StorageAdapter } from './StorageAdapter';
+import type { StorageAdapter, TransactionCursor, TransactionPage, TransactionQuery, TransactionTotal } from './StorageAdapter';
+import { WALK_PAGE_SIZE, cursorOf, isAfterCursor, matchesTransactionQuery, totalPages } from './transactionQuery';
 import type { Transaction, CategoryBudget, RecurringTransaction, AppSettings } from '../types';
 import { db } from './schema';
 import { DEFAULT_SETTINGS } from '../types';
@@ -23,6 +24,10 @@ export class IndexedDBAdapter implements StorageAdapter {
     await db.transactions.add(transaction);
   }
 
+  async bulkAddTransactions(transactions: Transaction[]): Promise<void> {
+    await db.transactions.bulkAdd(transactions);
+  }
+
   async updateTransaction(id: string, updates: Partial<Transaction>): Promise<void> {
     await db.transactions.update(id, updates);
   }
@@ -83,6 +88,30 @@ export class IndexedDBAdapter implements StorageAdapter {
     return await this.getTransactionsByDateRange(startDate, endDate);
   }
 
+  async getTransactionsPage(
+    query: TransactionQuery,
+    limit: number,
+    cursor?: TransactionCursor | null
+  ): Promise<TransactionPage> {
+    // Walks the 'date' index backwards; IndexedDB orders equal dates by primary key, so ties come id-descending
+    const upper = [cursor?.date, query.endDate].filter((date): date is string => !!date).sort()[0] ?? '\uffff';
+    const rows = await db.transactions
+      .where('date')
+      .between(query.startDate ?? '', upper, true, true)
+      .reverse()
+      .filter(t => isAfterCursor(t, cursor) && matchesTransactionQuery(t, query))
+      .limit(limit + 1)
+      .toArray();
+
+    const items = rows.slice(0, limit);
+    return { items, nextCursor: rows.length > limit ? cursorOf(items[items.length - 1]) : null };
+  }
+
+  async getTransactionTotals(query: TransactionQuery): Promise<TransactionTotal[]> {
+    // Page by page over the date index, so the whole table is never held at once
+    return totalPages(cursor => this.getTransactionsPage(query, WALK_PAGE_SIZE, cursor));
+  }
+
   // ============================================
   // BUDGETS
   // ============================================
@@ -108,10 +137,9 @@ export class IndexedDBAdapter implements StorageAdapter {
   }
 
   async getActiveBudgets(): Promise<CategoryBudget[]> {
-    // Uses indexed 'isActive' field
+    // Booleans are not valid IndexedDB keys, so the 'isActive' index is empty - filter instead
     return await db.budgets
-      .where('isActive')
-      .equals(1)
+      .filter(b => b.isActive)
       .toArray();
   }
 
@@ -148,20 +176,20 @@ export class IndexedDBAdapter implements StorageAdapter {
   }
 
   async getActiveRecurring(): Promise<RecurringTransaction[]> {
-    // Uses indexed 'isActive' field
+    // Booleans are not valid IndexedDB keys, so the 'isActive' index is empty - filter instead
     return await db.recurring
-      .where('isActive')
-      .equals(1)
+      .filter(r => r.isActive)
       .toArray();
   }
 
   async getPendingRecurring(): Promise<RecurringTransaction[]> {
     const today = new Date().toISOString().split('T')[0];
     
-    // Uses compound index [isActive+nextOccurrence] for efficient filtering
+    // Uses indexed 'nextOccurrence' field, then drops paused templates
     return await db.recurring
-      .where('[isActive+nextOccurrence]')
-      .between([1, ''], [1, today], false, true)
+      .where('nextOccurrence')
+      .belowOrEqual(today)
+      .filter(r => r.isActive)
       .toArray();
   }
 
@@ -173,9 +201,7 @@ export class IndexedDBAdapter implements StorageAdapter {
     const settings = await db.settings.get('default');
     
     if (!settings) {
-      // Initialize with defaults if not exists
-      const defaultSettings = { ...DEFAULT_SETTINGS, id: 'default' };
-      await db.settings.add(defaultSettings);
+      // Defaults until the first write, same as the other adapters
       return DEFAULT_SETTINGS;
     }
     
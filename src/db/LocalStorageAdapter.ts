@@ -1,4 +1,5 @@
-import type { StorageAdapter } from './StorageAdapter';
+import type { StorageAdapter, TransactionCursor, TransactionPage, TransactionQuery, TransactionTotal } from './StorageAdapter';
+import { pageTransactions, totalTransactions } from './transactionQuery';
 import type { Transaction, CategoryBudget, RecurringTransaction, AppSettings } from '../types';
 import { DEFAULT_SETTINGS } from '../types';
 
@@ -57,6 +58,11 @@ export class LocalStorageAdapter implements StorageAdapter {
     this.saveToStorage(this.KEYS.TRANSACTIONS, transactions);
   }
 
+  async bulkAddTransactions(newTransactions: Transaction[]): Promise<void> {
+    const transactions = await this.getAllTransactions();
+    this.saveToStorage(this.KEYS.TRANSACTIONS, [...transactions, ...newTransactions]);
+  }
+
   async updateTransaction(id: string, updates: Partial<Transaction>): Promise<void> {
     const transactions = await this.getAllTransactions();
     const index = transactions.findIndex(t => t.id === id);
@@ -106,11 +112,22 @@ export class LocalStorageAdapter implements StorageAdapter {
   }
 
   async getTransactionsByMonth(month: number, year: number): Promise<Transaction[]> {
+    // Compare date strings - new Date('YYYY-MM-DD') is UTC and shifts months in some timezones
+    const prefix = `${year}-${String(month + 1).padStart(2, '0')}-`;
     const transactions = await this.getAllTransactions();
-    return transactions.filter(t => {
-      const date = new Date(t.date);
-      return date.getMonth() === month && date.getFullYear() === year;
-    });
+    return transactions.filter(t => t.date.startsWith(prefix));
+  }
+
+  async getTransactionsPage(
+    query: TransactionQuery,
+    limit: number,
+    cursor?: TransactionCursor | null
+  ): Promise<TransactionPage> {
+    return pageTransactions(await this.getAllTransactions(), query, limit, cursor);
+  }
+
+  async getTransactionTotals(query: TransactionQuery): Promise<TransactionTotal[]> {
+    return totalTransactions(await this.getAllTransactions(), query);
   }
 
   // ============================================
@@ -202,31 +219,7 @@ export class LocalStorageAdapter implements StorageAdapter {
     const today = new Date().toISOString().split('T')[0];
     const recurrings = await this.getAllRecurring();
     
-    return recurrings.filter(r => {
-      if (!r.isActive) return false;
-      
-      // Use lastGenerated to determine if transaction is due
-      const lastDate = r.lastGenerated || r.startDate;
-      
-      // Check if enough time has passed based on frequency
-      const lastDateObj = new Date(lastDate);
-      const todayObj = new Date(today);
-      
-      switch (r.frequency) {
-        case 'daily':
-          return lastDateObj < todayObj;
-        case 'weekly':
-          const weekInMs = 7 * 24 * 60 * 60 * 1000;
-          return todayObj.getTime() - lastDateObj.getTime() >= weekInMs;
-        case 'monthly':
-          return lastDateObj.getMonth() !== todayObj.getMonth() || 
-                 lastDateObj.getFullYear() !== todayObj.getFullYear();
-        case 'yearly':
-          return lastDateObj.getFullYear() !== todayObj.getFullYear();
-        default:
-          return false;
-      }
-    });
+    return recurrings.filter(r => r.isActive && r.nextOccurrence <= today);
   }
 
   // ============================================
@@ -0,0 +1,324 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { StorageAdapter } from './StorageAdapter';
+import type { CategoryBudget, RecurringTransaction, AppSettings } from '../types';
+import { DEFAULT_SETTINGS } from '../types';
+import { IndexedDBAdapter } from './IndexedDBAdapter';
+import { LocalStorageAdapter } from './LocalStorageAdapter';
+import { InMemoryAdapter } from './InMemoryAdapter';
+import { SupabaseAdapter } from './SupabaseAdapter';
+import { EncryptedAdapter } from './EncryptedAdapter';
+import { createFakeSupabase } from '../test/fakeSupabase';
+import { deriveKey, generateSalt } from '../utils/crypto';
+import { tx } from '../test/fixtures';
+
+/**
+ * StorageAdapter contract suite
+ *
+ * Every backend runs the same scenarios, so FinanceContext can switch
+ * adapters without behaviour changes.
+ */
+
+// Low iteration count keeps key derivation fast in tests
+const testKey = await deriveKey('contract-passphrase', generateSalt(), 1_000);
+
+const backends: Array<[string, () => StorageAdapter]> = [
+  ['InMemoryAdapter', () => new InMemoryAdapter()],
+  ['LocalStorageAdapter', () => new LocalStorageAdapter()],
+  ['IndexedDBAdapter', () => new IndexedDBAdapter()],
+  ['SupabaseAdapter', () => new SupabaseAdapter(createFakeSupabase().client)],
+  ['EncryptedAdapter', () => new EncryptedAdapter(new InMemoryAdapter(), testKey)],
+];
+
+const isoDate = (offsetDays: number) => {
+  const date = new Date();
+  date.setUTCDate(date.getUTCDate() + offsetDays);
+  return date.toISOString().split('T')[0];
+};
+
+const budget = (id: string, overrides: Partial<CategoryBudget> = {}): CategoryBudget => ({
+  id,
+  category: 'food',
+  monthlyLimit: 5000,
+  alertThreshold: 80,
+  isActive: true,
+  currency: 'TRY',
+  version: 1,
+  ...overrides,
+});
+
+const recurring = (id: string, overrides: Partial<RecurringTransaction> = {}): RecurringTransaction => ({
+  id,
+  title: `Recurring ${id}`,
+  amount: 250,
+  category: 'rent',
+  type: 'expense',
+  frequency: 'monthly',
+  startDate: '2026-01-01',
+  nextOccurrence: isoDate(-1),
+  isActive: true,
+  originalCurrency: 'TRY',
+  version: 1,
+  ...overrides,
+});
+
+// Cloud backends stamp sync metadata on write; the contract is about the data
+const strip = <T extends { id: string; updatedAt?: string }>(records: T[]) =>
+  records
+    .map(record => {
+      const copy = { ...record };
+      delete copy.updatedAt;
+      return copy;
+    })
+    .sort((a, b) => a.id.localeCompare(b.id));
+
+const ids = (records: Array<{ id: string }>) => records.map(r => r.id).sort();
+
+describe.each(backends)('%s', (_name, create) => {
+  let storage: StorageAdapter;
+
+  beforeEach(async () => {
+    storage = create();
+    await storage.clearAll();
+  });
+
+  describe('transactions', () => {
+    it('should add, read, update and delete a transaction', async () => {
+      await storage.addTransaction(tx('tx-1'));
+      expect(strip([(await storage.getTransaction('tx-1'))!])).toEqual(strip([tx('tx-1')]));
+
+      await storage.updateTransaction('tx-1', { amount: 42, description: 'Lunch' });
+      expect(await storage.getTransaction('tx-1')).toMatchObject({ amount: 42, description: 'Lunch' });
+
+      await storage.deleteTransaction('tx-1');
+      expect(await storage.getTransaction('tx-1')).toBeUndefined();
+    });
+
+    it('should bulk add transactions', async () => {
+      await storage.bulkAddTransactions([tx('tx-1'), tx('tx-2'), tx('tx-3')]);
+
+      expect(ids(await storage.getAllTransactions())).toEqual(['tx-1', 'tx-2', 'tx-3']);
+    });
+
+    it('should filter by inclusive date range, category and type', async () => {
+      await storage.bulkAddTransactions([
+        tx('tx-1', { date: '2026-01-01', category: 'food', type: 'expense' }),
+        tx('tx-2', { date: '2026-01-31', category: 'salary', type: 'income' }),
+        tx('tx-3', { date: '2026-02-01', category: 'food', type: 'income' }),
+      ]);
+
+      expect(ids(await storage.getTransactionsByDateRange('2026-01-01', '2026-01-31'))).toEqual(['tx-1', 'tx-2']);
+      expect(ids(await storage.getTransactionsByCategory('food'))).toEqual(['tx-1', 'tx-3']);
+      expect(ids(await storage.getTransactionsByType('income'))).toEqual(['tx-2', 'tx-3']);
+      expect(ids(await storage.getTransactionsByCategoryAndType('food', 'income'))).toEqual(['tx-3']);
+    });
+
+    it('should get transactions by zero-based month including both month edges', async () => {
+      await storage.bulkAddTransactions([
+        tx('dec-31', { date: '2025-12-31' }),
+        tx('jan-01', { date: '2026-01-01' }),
+        tx('jan-31', { date: '2026-01-31' }),
+        tx('feb-01', { date: '2026-02-01' }),
+        tx('feb-28', { date: '2026-02-28' }),
+      ]);
+
+      expect(ids(await storage.getTransactionsByMonth(0, 2026))).toEqual(['jan-01', 'jan-31']);
+      expect(ids(await storage.getTransactionsByMonth(1, 2026))).toEqual(['feb-01', 'feb-28']);
+      expect(ids(await storage.getTransactionsByMonth(11, 2025))).toEqual(['dec-31']);
+    });
+
+    it('should page newest first with a cursor, breaking date ties by id', async () => {
+      await storage.bulkAddTransactions([
+        tx('a', { date: '2026-01-10' }),
+        tx('b', { date: '2026-01-12' }),
+        tx('c', { date: '2026-01-12' }),
+        tx('d', { date: '2026-01-11' }),
+        tx('e', { date: '2026-01-09' }),
+      ]);
+
+      const seen: string[] = [];
+      let page = await storage.getTransactionsPage({}, 2);
+      seen.push(...page.items.map(t => t.id));
+      while (page.nextCursor) {
+        page = await storage.getTransactionsPage({}, 2, page.nextCursor);
+        seen.push(...page.items.map(t => t.id));
+      }
+
+      expect(seen).toEqual(['c', 'b', 'd', 'a', 'e']);
+    });
+
+    it('should apply filters and text search to pages', async () => {
+      await storage.bulkAddTransactions([
+        tx('tx-1', { date: '2026-01-05', title: 'Grocery run', category: 'food' }),
+        tx('tx-2', { date: '2026-01-06', title: 'Salary', category: 'salary', type: 'income' }),
+        tx('tx-3', { date: '2026-01-07', title: 'Dinner', description: 'grocery leftovers', category: 'food' }),
+        tx('tx-4', { date: '2026-02-01', title: 'Grocery', category: 'food' }),
+        tx('tx-5', { date: '2026-01-08', title: 'Bus', category: 'transport' }),
+      ]);
+
+      const january = { startDate: '2026-01-01', endDate: '2026-01-31' };
+      const search = await storage.getTransactionsPage({ ...january, search: 'GROCERY' }, 1);
+      expect(search.items.map(t => t.id)).toEqual(['tx-3']);
+      const next = await storage.getTransactionsPage({ ...january, search: 'GROCERY' }, 1, search.nextCursor);
+      expect(next.items.map(t => t.id)).toEqual(['tx-1']);
+      expect(next.nextCursor).toBeNull();
+
+      const food = await storage.getTransactionsPage({ category: 'food', type: 'expense' }, 10);
+      expect(food.items.map(t => t.id)).toEqual(['tx-4', 'tx-3', 'tx-1']);
+      expect(food.items[0].title).toBe('Grocery');
+    });
+
+    it('should filter pages by either side of an account', async () => {
+      await storage.bulkAddTransactions([
+        tx('tx-1', { date: '2026-01-05', accountId: 'bank' }),
+        tx('tx-2', { date: '2026-01-06', type: 'transfer', accountId: 'cash', toAccountId: 'bank' }),
+        tx('tx-3', { date: '2026-01-07', accountId: 'cash' }),
+        tx('tx-4', { date: '2026-01-08' }),
+      ]);
+
+      const bank = await storage.getTransactionsPage({ accountId: 'bank' }, 10);
+      expect(bank.items.map(t => t.id)).toEqual(['tx-2', 'tx-1']);
+      expect(bank.items[0]).toMatchObject({ accountId: 'cash', toAccountId: 'bank' });
+    });
+
+    it('should total matching transactions per type, booked currency and day', async () => {
+      await storage.bulkAddTransactions([
+        tx('tx-1', { date: '2026-01-05', amount: 0.1 }),
+        tx('tx-2', { date: '2026-01-05', amount: 0.2 }),
+        tx('tx-3', { date: '2026-01-05', amount: 10, originalCurrency: 'USD', settledAmount: 345.67, settledCurrency: 'TRY' }),
+        tx('tx-4', { date: '2026-01-05', amount: 50, type: 'income' }),
+        tx('tx-5', { date: '2026-01-06', amount: 20, originalCurrency: 'USD' }),
+        tx('tx-6', { date: '2026-01-07', amount: 70, category: 'transport' }),
+      ]);
+
+      const totals = await storage.getTransactionTotals({ category: 'food' });
+      const byKey = (a: { type: string; date: string; currency: string }, b: typeof a) =>
+        `${a.date}${a.type}${a.currency}`.localeCompare(`${b.date}${b.type}${b.currency}`);
+      expect(totals.sort(byKey)).toEqual([
+        { type: 'expense', currency: 'TRY', date: '2026-01-05', amount: 345.97, count: 3 },
+        { type: 'income', currency: 'TRY', date: '2026-01-05', amount: 50, count: 1 },
+        { type: 'expense', currency: 'USD', date: '2026-01-06', amount: 20, count: 1 },
+      ]);
+      expect(await storage.getTransactionTotals({ search: 'nothing like this' })).toEqual([]);
+    });
+  });
+
+  describe('budgets', () => {
+    it('should add, read, update and delete a budget', async () => {
+      await storage.addBudget(budget('budget-1'));
+      expect(strip([(await storage.getBudget('budget-1'))!])).toEqual(strip([budget('budget-1')]));
+
+      await storage.updateBudget('budget-1', { monthlyLimit: 750 });
+      expect(await storage.getBudget('budget-1')).toMatchObject({ monthlyLimit: 750 });
+
+      await storage.deleteBudget('budget-1');
+      expect(await storage.getBudget('budget-1')).toBeUndefined();
+    });
+
+    it('should return only active budgets and look them up by category', async () => {
+      await storage.addBudget(budget('budget-1', { category: 'food' }));
+      await storage.addBudget(budget('budget-2', { category: 'rent', isActive: false }));
+
+      expect(ids(await storage.getAllBudgets())).toEqual(['budget-1', 'budget-2']);
+      expect(ids(await storage.getActiveBudgets())).toEqual(['budget-1']);
+      expect((await storage.getBudgetByCategory('rent'))?.id).toBe('budget-2');
+      expect(await storage.getBudgetByCategory('travel')).toBeUndefined();
+    });
+  });
+
+  describe('recurring transactions', () => {
+    it('should add, read, update and delete a template', async () => {
+      await storage.addRecurring(recurring('rec-1'));
+      expect(strip([(await storage.getRecurring('rec-1'))!])).toEqual(strip([recurring('rec-1')]));
+
+      await storage.updateRecurring('rec-1', { lastGenerated: '2026-01-01', isActive: false });
+      expect(await storage.getRecurring('rec-1')).toMatchObject({ lastGenerated: '2026-01-01', isActive: false });
+
+      await storage.deleteRecurring('rec-1');
+      expect(await storage.getRecurring('rec-1')).toBeUndefined();
+    });
+
+    it('should return only active templates', async () => {
+      await storage.addRecurring(recurring('rec-1'));
+      await storage.addRecurring(recurring('rec-2', { isActive: false }));
+
+      expect(ids(await storage.getActiveRecurring())).toEqual(['rec-1']);
+    });
+
+    it('should return active templates due today or earlier as pending', async () => {
+      await storage.addRecurring(recurring('overdue', { nextOccurrence: isoDate(-30) }));
+      await storage.addRecurring(recurring('today', { nextOccurrence: isoDate(0) }));
+      await storage.addRecurring(recurring('future', { nextOccurrence: isoDate(1) }));
+      await storage.addRecurring(recurring('paused', { nextOccurrence: isoDate(-1), isActive: false }));
+
+      expect(ids(await storage.getPendingRecurring())).toEqual(['overdue', 'today']);
+    });
+  });
+
+  describe('settings', () => {
+    it('should return defaults until settings are written', async () => {
+      expect(await storage.getSettings()).toEqual(DEFAULT_SETTINGS);
+    });
+
+    it('should merge updates and reset to defaults', async () => {
+      await storage.updateSettings({ theme: 'dark' });
+      await storage.updateSettings({ language: 'en' });
+      expect(await storage.getSettings()).toMatchObject({ theme: 'dark', language: 'en', currency: 'TRY' });
+
+      await storage.resetSettings();
+      expect(await storage.getSettings()).toEqual(DEFAULT_SETTINGS);
+    });
+  });
+
+  describe('bulk operations', () => {
+    // Only cloud-synced settings; device-only fields keep their defaults
+    const settings: AppSettings = {
+      ...DEFAULT_SETTINGS,
+      currency: 'USD',
+      language: 'en',
+      theme: 'dark',
+      notificationSound: false,
+    };
+
+    const snapshot = {
+      transactions: [
+        tx('tx-1', { description: 'Groceries' }),
+        tx('tx-2', { type: 'income', category: 'salary', isRecurring: true, recurringId: 'rec-1' }),
+      ],
+      budgets: [budget('budget-1'), budget('budget-2', { category: 'rent', isActive: false })],
+      recurring: [recurring('rec-1', { endDate: '2026-12-31', lastGenerated: '2026-01-01' })],
+      settings,
+    };
+
+    it('should round-trip importAll and exportAll', async () => {
+      await storage.importAll(snapshot);
+      const exported = await storage.exportAll();
+
+      expect(strip(exported.transactions)).toEqual(strip(snapshot.transactions));
+      expect(strip(exported.budgets)).toEqual(strip(snapshot.budgets));
+      expect(strip(exported.recurring)).toEqual(strip(snapshot.recurring));
+      expect(exported.settings).toEqual(settings);
+    });
+
+    it('should replace existing data on import', async () => {
+      await storage.addTransaction(tx('stale'));
+      await storage.addBudget(budget('stale-budget', { category: 'travel' }));
+
+      await storage.importAll(snapshot);
+
+      expect(ids(await storage.getAllTransactions())).toEqual(['tx-1', 'tx-2']);
+      expect(ids(await storage.getAllBudgets())).toEqual(['budget-1', 'budget-2']);
+    });
+
+    it('should report stats and clear everything', async () => {
+      expect(await storage.getStats()).toEqual({ transactions: 0, budgets: 0, recurring: 0, hasSettings: false });
+
+      await storage.importAll(snapshot);
+      expect(await storage.getStats()).toEqual({ transactions: 2, budgets: 2, recurring: 1, hasSettings: true });
+
+      await storage.clearAll();
+      expect(await storage.getStats()).toEqual({ transactions: 0, budgets: 0, recurring: 0, hasSettings: false });
+      expect(await storage.getAllTransactions()).toEqual([]);
+    });
+  });
+});
@@ -1,10 +1,13 @@
 import type { Transaction, CategoryBudget, RecurringTransaction, AppSettings } from '../types';
+import type { TransactionCursor, TransactionPage, TransactionQuery, TransactionTotal } from './transactionQuery';
+
+export type { TransactionCursor, TransactionPage, TransactionQuery, TransactionTotal } from './transactionQuery';
 
 /**
  * Storage Adapter Interface
  * 
  * This interface defines a common contract for different storage backends.
- * Implementations: IndexedDBAdapter, LocalStorageAdapter
+ * Implementations: IndexedDBAdapter, LocalStorageAdapter, SupabaseAdapter
  * 
  * Benefits:
  * - Easy to switch between storage backends
@@ -21,6 +24,11 @@ export interface StorageAdapter {
    */
   addTransaction(transaction: Transaction): Promise<void>;
   
+  /**
+   * Add many transactions in one operation
+   */
+  bulkAddTransactions(transactions: Transaction[]): Promise<void>;
+  
   /**
    * Update an existing transaction
    */
@@ -65,10 +73,21 @@ export interface StorageAdapter {
   ): Promise<Transaction[]>;
   
   /**
-   * Get transactions for a specific month and year
+   * Get transactions for a specific month (0-11) and year
    */
   getTransactionsByMonth(month: number, year: number): Promise<Transaction[]>;
 
+  /**
+   * Get one page of matching transactions, newest first (date, then id).
+   * Pass the previous page's `nextCursor` to continue.
+   */
+  getTransactionsPage(query: TransactionQuery, limit: number, cursor?: TransactionCursor | null): Promise<TransactionPage>;
+
+  /**
+   * Booked amounts of every matching transaction, summed per type, currency and day
+   */
+  getTransactionTotals(query: TransactionQuery): Promise<TransactionTotal[]>;
+
   // ============================================
   // BUDGETS
   // ============================================
@@ -143,7 +162,7 @@ export interface StorageAdapter {
   getActiveRecurring(): Promise<RecurringTransaction[]>;
   
   /**
-   * Get recurring transactions that need generation (nextDate <= today)
+   * Get recurring transactions that need generation (active and nextOccurrence <= today)
    */
   getPendingRecurring(): Promise<RecurringTransaction[]>;
 
@@ -210,7 +229,7 @@ export interface StorageAdapter {
  * Storage Adapter Factory
  * Helper to create the appropriate storage adapter
  */
-export type StorageAdapterType = 'indexeddb' | 'localstorage';
+export type StorageAdapterType = 'indexeddb' | 'localstorage' | 'supabase';
 
 export interface StorageAdapterFactory {
   create(type: StorageAdapterType): StorageAdapter;
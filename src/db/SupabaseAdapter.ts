@@ -0,0 +1,487 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { StorageAdapter, TransactionCursor, TransactionPage, TransactionQuery, TransactionTotal } from './StorageAdapter';
+import { WALK_PAGE_SIZE, cursorOf, searchPages, totalPages } from './transactionQuery';
+import type { Transaction, CategoryBudget, RecurringTransaction, AppSettings } from '../types';
+import { DEFAULT_SETTINGS } from '../types';
+import { supabase } from '../lib/supabase';
+import { e2eService } from '../services/e2eService';
+import {
+  transactionMapper,
+  budgetMapper,
+  recurringMapper,
+  settingsMapper,
+  type TransactionRow,
+  type BudgetRow,
+  type RecurringRow,
+  type SettingsRow,
+  type RowCipher,
+  type CloudTable,
+} from './supabaseMappers';
+
+/**
+ * Supabase Storage Adapter
+ *
+ * Reads and writes the signed-in user's rows directly in Supabase.
+ * All snake_case ↔ camelCase conversion goes through the typed row mappers,
+ * and rows pass through the row cipher (end-to-end encryption) on the way.
+ * Benefits:
+ * - Same contract as the local adapters, so FinanceContext can switch backends
+ * - Data shared across devices
+ *
+ * Limitations:
+ * - Requires network and a signed-in user (operations throw otherwise)
+ * - Device-only settings (inflation rate, currency pair) fall back to defaults
+ */
+export class SupabaseAdapter implements StorageAdapter {
+  private client: SupabaseClient;
+  private userId: string | null;
+  private cipher: RowCipher;
+
+  /**
+   * @param client - Supabase client (defaults to the app client)
+   * @param userId - Owner of the rows; resolved from the current session if omitted
+   * @param cipher - Row transform for end-to-end encryption (defaults to the app's E2E service)
+   */
+  constructor(client: SupabaseClient = supabase, userId?: string, cipher: RowCipher = e2eService) {
+    this.client = client;
+    this.userId = userId ?? null;
+    this.cipher = cipher;
+  }
+
+  // ============================================
+  // HELPER METHODS
+  // ============================================
+
+  private async requireUserId(): Promise<string> {
+    if (this.userId) return this.userId;
+
+    const { data: { session } } = await this.client.auth.getSession();
+    if (!session?.user) {
+      throw new Error('[SupabaseAdapter] Not signed in');
+    }
+    return session.user.id;
+  }
+
+  private unwrap<T>(result: { data: T; error: { message: string } | null }): T {
+    if (result.error) {
+      throw new Error(`[SupabaseAdapter] ${result.error.message}`);
+    }
+    return result.data;
+  }
+
+  private now(): string {
+    return new Date().toISOString();
+  }
+
+  private sealRows<TRow extends object>(table: CloudTable, rows: TRow[]): Promise<TRow[]> {
+    return Promise.all(rows.map(row => this.cipher.sealRow(table, row)));
+  }
+
+  private openRows<TRow extends object>(table: CloudTable, rows: TRow[] | null): Promise<TRow[]> {
+    return Promise.all((rows ?? []).map(row => this.cipher.openRow(table, row)));
+  }
+
+  private async selectTransactions(filters: {
+    id?: string;
+    category?: string;
+    type?: Transaction['type'];
+    startDate?: string;
+    endDate?: string;
+  } = {}): Promise<Transaction[]> {
+    const userId = await this.requireUserId();
+    let query = this.client.from(transactionMapper.table).select('*').eq('user_id', userId);
+    if (filters.id) query = query.eq('id', filters.id);
+    if (filters.category) query = query.eq('category', filters.category);
+    if (filters.type) query = query.eq('type', filters.type);
+    if (filters.startDate) query = query.gte('date', filters.startDate);
+    if (filters.endDate) query = query.lte('date', filters.endDate);
+    const rows = this.unwrap(await query) as TransactionRow[] | null;
+    return (await this.openRows(transactionMapper.table, rows)).map(row => transactionMapper.fromRow(row));
+  }
+
+  // Keyset pagination: ordered by (date, id) descending, continuing below the cursor
+  private async selectTransactionsPage(
+    query: TransactionQuery,
+    limit: number,
+    cursor: TransactionCursor | null
+  ): Promise<TransactionPage> {
+    const userId = await this.requireUserId();
+    let request = this.client.from(transactionMapper.table).select('*').eq('user_id', userId);
+    if (query.type) request = request.eq('type', query.type);
+    if (query.category) request = request.eq('category', query.category);
+    if (query.startDate) request = request.gte('date', query.startDate);
+    if (query.endDate) request = request.lte('date', query.endDate);
+    if (query.accountId) {
+      request = request.or(`account_id.eq.${query.accountId},to_account_id.eq.${query.accountId}`);
+    }
+
+    // Sealed columns only hold placeholders (see getTransactionsPage)
+    const term = query.search?.trim().replace(/[,()"\\%*]/g, '');
+    if (term && !this.cipher.seals(transactionMapper.table)) {
+      // Characters PostgREST reads as filter syntax are dropped from the term
+      request = request.or(`title.ilike.%${term}%,description.ilike.%${term}%,category.ilike.%${term}%`);
+    }
+    if (cursor) {
+      request = request.or(`date.lt.${cursor.date},and(date.eq.${cursor.date},id.lt.${cursor.id})`);
+    }
+
+    const rows = this.unwrap(
+      await request.order('date', { ascending: false }).order('id', { ascending: false }).limit(limit + 1)
+    ) as TransactionRow[] | null;
+    const opened = (await this.openRows(transactionMapper.table, rows)).map(row => transactionMapper.fromRow(row));
+
+    const items = opened.slice(0, limit);
+    return { items, nextCursor: opened.length > limit ? cursorOf(items[items.length - 1]) : null };
+  }
+
+  // ============================================
+  // TRANSACTIONS
+  // ============================================
+
+  async addTransaction(transaction: Transaction): Promise<void> {
+    await this.bulkAddTransactions([transaction]);
+  }
+
+  async bulkAddTransactions(transactions: Transaction[]): Promise<void> {
+    if (transactions.length === 0) return;
+    const userId = await this.requireUserId();
+    const updatedAt = this.now();
+    this.unwrap(
+      await this.client
+        .from(transactionMapper.table)
+        .insert(
+          await this.sealRows(
+            transactionMapper.table,
+            transactions.map(tx => ({ ...transactionMapper.toRow(tx, userId), updated_at: updatedAt }))
+          )
+        )
+    );
+  }
+
+  async updateTransaction(id: string, updates: Partial<Transaction>): Promise<void> {
+    const userId = await this.requireUserId();
+    let patch: Partial<TransactionRow> = transactionMapper.toPatch(updates);
+
+    // Sealed columns are encrypted together, so the whole row is rewritten
+    if (this.cipher.seals(transactionMapper.table)) {
+      const current = await this.getTransaction(id);
+      if (!current) return;
+      patch = await this.cipher.sealRow(transactionMapper.table, transactionMapper.toRow({ ...current, ...updates }, userId));
+    }
+
+    this.unwrap(
+      await this.client
+        .from(transactionMapper.table)
+        .update({ ...patch, updated_at: this.now() })
+        .eq('id', id)
+        .eq('user_id', userId)
+    );
+  }
+
+  async deleteTransaction(id: string): Promise<void> {
+    const userId = await this.requireUserId();
+    this.unwrap(await this.client.from(transactionMapper.table).delete().eq('id', id).eq('user_id', userId));
+  }
+
+  async getTransaction(id: string): Promise<Transaction | undefined> {
+    const [transaction] = await this.selectTransactions({ id });
+    return transaction;
+  }
+
+  async getAllTransactions(): Promise<Transaction[]> {
+    return this.selectTransactions();
+  }
+
+  async getTransactionsByDateRange(startDate: string, endDate: string): Promise<Transaction[]> {
+    return this.selectTransactions({ startDate, endDate });
+  }
+
+  async getTransactionsByCategory(category: string): Promise<Transaction[]> {
+    return this.selectTransactions({ category });
+  }
+
+  async getTransactionsByType(type: 'income' | 'expense' | 'savings' | 'withdrawal'): Promise<Transaction[]> {
+    return this.selectTransactions({ type });
+  }
+
+  async getTransactionsByCategoryAndType(
+    category: string,
+    type: 'income' | 'expense' | 'savings' | 'withdrawal'
+  ): Promise<Transaction[]> {
+    return this.selectTransactions({ category, type });
+  }
+
+  async getTransactionsByMonth(month: number, year: number): Promise<Transaction[]> {
+    // Calculate date range for the month
+    const startDate = `${year}-${String(month + 1).padStart(2, '0')}-01`;
+    const endDay = new Date(year, month + 1, 0).getDate();
+    const endDate = `${year}-${String(month + 1).padStart(2, '0')}-${String(endDay).padStart(2, '0')}`;
+
+    return this.getTransactionsByDateRange(startDate, endDate);
+  }
+
+  async getTransactionsPage(
+    query: TransactionQuery,
+    limit: number,
+    cursor?: TransactionCursor | null
+  ): Promise<TransactionPage> {
+    const { search, ...indexed } = query;
+    const term = search?.trim();
+    // Sealed columns can't be matched in the database, so they are searched after opening
+    if (term && this.cipher.seals(transactionMapper.table)) {
+      return searchPages(from => this.selectTransactionsPage(indexed, limit, from), term, limit, cursor);
+    }
+    return this.selectTransactionsPage(query, limit, cursor ?? null);
+  }
+
+  async getTransactionTotals(query: TransactionQuery): Promise<TransactionTotal[]> {
+    // Sealed amounts can't be summed in the database, and aggregates aren't exposed over PostgREST
+    return totalPages(cursor => this.getTransactionsPage(query, WALK_PAGE_SIZE, cursor));
+  }
+
+  // ============================================
+  // BUDGETS
+  // ============================================
+
+  private async selectBudgets(onlyActive = false): Promise<CategoryBudget[]> {
+    const userId = await this.requireUserId();
+    let query = this.client.from(budgetMapper.table).select('*').eq('user_id', userId);
+    if (onlyActive) query = query.eq('is_active', true);
+    const rows = this.unwrap(await query) as BudgetRow[] | null;
+    return (rows ?? []).map(row => budgetMapper.fromRow(row));
+  }
+
+  async addBudget(budget: CategoryBudget): Promise<void> {
+    const userId = await this.requireUserId();
+    this.unwrap(
+      await this.client
+        .from(budgetMapper.table)
+        .insert({ ...budgetMapper.toRow(budget, userId), updated_at: this.now() })
+    );
+  }
+
+  async updateBudget(id: string, updates: Partial<CategoryBudget>): Promise<void> {
+    const userId = await this.requireUserId();
+    this.unwrap(
+      await this.client
+        .from(budgetMapper.table)
+        .update({ ...budgetMapper.toPatch(updates), updated_at: this.now() })
+        .eq('id', id)
+        .eq('user_id', userId)
+    );
+  }
+
+  async deleteBudget(id: string): Promise<void> {
+    const userId = await this.requireUserId();
+    this.unwrap(await this.client.from(budgetMapper.table).delete().eq('id', id).eq('user_id', userId));
+  }
+
+  async getBudget(id: string): Promise<CategoryBudget | undefined> {
+    return (await this.selectBudgets()).find(b => b.id === id);
+  }
+
+  async getAllBudgets(): Promise<CategoryBudget[]> {
+    return this.selectBudgets();
+  }
+
+  async getActiveBudgets(): Promise<CategoryBudget[]> {
+    return this.selectBudgets(true);
+  }
+
+  async getBudgetByCategory(category: string): Promise<CategoryBudget | undefined> {
+    return (await this.selectBudgets()).find(b => b.category === category);
+  }
+
+  // ============================================
+  // RECURRING TRANSACTIONS
+  // ============================================
+
+  private async selectRecurring(onlyActive = false, dueBy?: string): Promise<RecurringTransaction[]> {
+    const userId = await this.requireUserId();
+    let query = this.client.from(recurringMapper.table).select('*').eq('user_id', userId);
+    if (onlyActive) query = query.eq('is_active', true);
+    if (dueBy) query = query.lte('next_occurrence', dueBy);
+    const rows = this.unwrap(await query) as RecurringRow[] | null;
+    return (await this.openRows(recurringMapper.table, rows)).map(row => recurringMapper.fromRow(row));
+  }
+
+  async addRecurring(recurring: RecurringTransaction): Promise<void> {
+    const userId = await this.requireUserId();
+    this.unwrap(
+      await this.client
+        .from(recurringMapper.table)
+        .insert(
+          await this.cipher.sealRow(recurringMapper.table, {
+            ...recurringMapper.toRow(recurring, userId),
+            updated_at: this.now(),
+          })
+        )
+    );
+  }
+
+  async updateRecurring(id: string, updates: Partial<RecurringTransaction>): Promise<void> {
+    const userId = await this.requireUserId();
+    let patch: Partial<RecurringRow> = recurringMapper.toPatch(updates);
+
+    if (this.cipher.seals(recurringMapper.table)) {
+      const current = await this.getRecurring(id);
+      if (!current) return;
+      patch = await this.cipher.sealRow(recurringMapper.table, recurringMapper.toRow({ ...current, ...updates }, userId));
+    }
+
+    this.unwrap(
+      await this.client
+        .from(recurringMapper.table)
+        .update({ ...patch, updated_at: this.now() })
+        .eq('id', id)
+        .eq('user_id', userId)
+    );
+  }
+
+  async deleteRecurring(id: string): Promise<void> {
+    const userId = await this.requireUserId();
+    this.unwrap(await this.client.from(recurringMapper.table).delete().eq('id', id).eq('user_id', userId));
+  }
+
+  async getRecurring(id: string): Promise<RecurringTransaction | undefined> {
+    return (await this.selectRecurring()).find(r => r.id === id);
+  }
+
+  async getAllRecurring(): Promise<RecurringTransaction[]> {
+    return this.selectRecurring();
+  }
+
+  async getActiveRecurring(): Promise<RecurringTransaction[]> {
+    return this.selectRecurring(true);
+  }
+
+  async getPendingRecurring(): Promise<RecurringTransaction[]> {
+    const today = new Date().toISOString().split('T')[0];
+    return this.selectRecurring(true, today);
+  }
+
+  // ============================================
+  // SETTINGS
+  // ============================================
+
+  async getSettings(): Promise<AppSettings> {
+    const userId = await this.requireUserId();
+    const row = this.unwrap(
+      await this.client.from(settingsMapper.table).select('*').eq('user_id', userId).maybeSingle()
+    ) as SettingsRow | null;
+
+    return row ? { ...DEFAULT_SETTINGS, ...settingsMapper.fromRow(row) } : DEFAULT_SETTINGS;
+  }
+
+  async updateSettings(updates: Partial<AppSettings>): Promise<void> {
+    const current = await this.getSettings();
+    await this.putSettings({ ...current, ...updates });
+  }
+
+  async resetSettings(): Promise<void> {
+    await this.putSettings(DEFAULT_SETTINGS);
+  }
+
+  private async putSettings(settings: AppSettings): Promise<void> {
+    const userId = await this.requireUserId();
+    this.unwrap(
+      await this.client
+        .from(settingsMapper.table)
+        .upsert({ ...settingsMapper.toRow(settings, userId), updated_at: this.now() }, { onConflict: 'user_id' })
+    );
+  }
+
+  // ============================================
+  // BULK OPERATIONS
+  // ============================================
+
+  async exportAll(): Promise<{
+    transactions: Transaction[];
+    budgets: CategoryBudget[];
+    recurring: RecurringTransaction[];
+    settings: AppSettings;
+  }> {
+    const [transactions, budgets, recurring, settings] = await Promise.all([
+      this.getAllTransactions(),
+      this.getAllBudgets(),
+      this.getAllRecurring(),
+      this.getSettings()
+    ]);
+
+    return {
+      transactions,
+      budgets,
+      recurring,
+      settings
+    };
+  }
+
+  async importAll(data: {
+    transactions: Transaction[];
+    budgets: CategoryBudget[];
+    recurring: RecurringTransaction[];
+    settings: AppSettings;
+  }): Promise<void> {
+    // Clear existing data
+    await this.clearAll();
+
+    const userId = await this.requireUserId();
+    const updatedAt = this.now();
+    const stamp = <T extends object>(row: T) => ({ ...row, updated_at: updatedAt });
+
+    // Templates first so generated transactions can reference them
+    if (data.recurring.length > 0) {
+      this.unwrap(
+        await this.client
+          .from(recurringMapper.table)
+          .insert(await this.sealRows(recurringMapper.table, data.recurring.map(r => stamp(recurringMapper.toRow(r, userId)))))
+      );
+    }
+    await this.bulkAddTransactions(data.transactions);
+    if (data.budgets.length > 0) {
+      this.unwrap(
+        await this.client.from(budgetMapper.table).insert(data.budgets.map(b => stamp(budgetMapper.toRow(b, userId))))
+      );
+    }
+    await this.putSettings(data.settings);
+  }
+
+  async clearAll(): Promise<void> {
+    const userId = await this.requireUserId();
+    // Transactions first - they may reference recurring templates
+    for (const table of [transactionMapper.table, budgetMapper.table, recurringMapper.table, settingsMapper.table]) {
+      this.unwrap(await this.client.from(table).delete().eq('user_id', userId));
+    }
+  }
+
+  async getStats(): Promise<{
+    transactions: number;
+    budgets: number;
+    recurring: number;
+    hasSettings: boolean;
+  }> {
+    const userId = await this.requireUserId();
+    const count = async (table: string) => {
+      const { count: rows, error } = await this.client
+        .from(table)
+        .select('*', { count: 'exact', head: true })
+        .eq('user_id', userId);
+      if (error) throw new Error(`[SupabaseAdapter] ${error.message}`);
+      return rows ?? 0;
+    };
+
+    const [transactions, budgets, recurring, settings] = await Promise.all([
+      count(transactionMapper.table),
+      count(budgetMapper.table),
+      count(recurringMapper.table),
+      count(settingsMapper.table)
+    ]);
+
+    return {
+      transactions,
+      budgets,
+      recurring,
+      hasSettings: settings > 0
+    };
+  }
+}
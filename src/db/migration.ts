@@ -2,11 +2,14 @@ import type { StorageAdapter } from './StorageAdapter';
 import type { Transaction, CategoryBudget, RecurringTransaction, AppSettings } from '../types';
 import { IndexedDBAdapter } from './IndexedDBAdapter';
 import { LocalStorageAdapter } from './LocalStorageAdapter';
+import { db } from './schema';
+import { getSchemaInfo, type SchemaInfo } from './schemaMigrations';
 
 /**
  * Storage Migration Utility
  * 
  * Handles migration from localStorage to IndexedDB
+ * (IndexedDB schema upgrades are numbered steps in schemaMigrations.ts)
  * Features:
  * - Auto-detection of current storage state
  * - Safe migration with backup
@@ -225,13 +228,15 @@ export async function rollback(): Promise<MigrationResult> {
 export async function getCurrentAdapter(): Promise<StorageAdapter> {
   const status = await checkMigrationStatus();
 
-  if (status === 'indexedDB' || status === 'both') {
-    console.log('[Storage] Using IndexedDB adapter');
-    return new IndexedDBAdapter();
+  // IndexedDB is the default for fresh installs; localStorage is only kept
+  // while un-migrated data still lives there (or IndexedDB is unavailable)
+  if (status === 'localStorage' || status === 'migrating') {
+    console.log('[Storage] Using localStorage adapter');
+    return new LocalStorageAdapter();
   }
 
-  console.log('[Storage] Using localStorage adapter');
-  return new LocalStorageAdapter();
+  console.log('[Storage] Using IndexedDB adapter');
+  return new IndexedDBAdapter();
 }
 
 /**
@@ -276,19 +281,22 @@ export function cleanupBackup(): void {
 
 /**
  * Get migration info for debug/settings page
+ * Covers both the localStorage → IndexedDB move and the IndexedDB schema version
  */
-export function getMigrationInfo(): {
+export async function getMigrationInfo(): Promise<{
   status: string;
   migrationDate: string | null;
   hasBackup: boolean;
-} {
+} & SchemaInfo> {
   const status = localStorage.getItem(MIGRATION_FLAG_KEY) || 'not-started';
   const migrationDate = localStorage.getItem(MIGRATION_DATE_KEY);
   const hasBackup = localStorage.getItem(MIGRATION_BACKUP_KEY) !== null;
+  const schema = await getSchemaInfo(db);
 
   return {
     status,
     migrationDate,
-    hasBackup
+    hasBackup,
+    ...schema
   };
 }
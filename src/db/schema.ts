@@ -1,17 +1,154 @@
 import Dexie, { type Table } from 'dexie';
 import type { Transaction, CategoryBudget, RecurringTransaction, AppSettings } from '../types';
+import type { StorageAdapter } from './StorageAdapter';
+import { applySchemaMigrations, type SchemaHistoryEntry } from './schemaMigrations';
+
+/**
+ * Local tables mirrored to the cloud by the SyncService
+ */
+export type SyncTable = 'transactions' | 'budgets' | 'recurring' | 'settings';
+
+export type SyncOperation = 'upsert' | 'delete';
+
+/**
+ * Pending local mutation waiting to be pushed to the cloud.
+ * Only the record id is stored - the current local record is read at push time.
+ */
+export interface OutboxEntry {
+  seq?: number;           // Auto-increment, preserves mutation order
+  table: SyncTable;
+  op: SyncOperation;
+  recordId: string;
+  createdAt: string;      // ISO timestamp
+  attempts: number;
+  lastError?: string;
+  baseVersion?: number;   // Remote version the local edit was based on (upserts)
+}
+
+/**
+ * Marker for a deleted record so that sync never resurrects it
+ */
+export interface Tombstone {
+  id: string;             // `${table}:${recordId}`
+  table: SyncTable;
+  recordId: string;
+  deletedAt: string;      // ISO timestamp
+}
+
+export type VersionedRecord = Transaction | CategoryBudget | RecurringTransaction;
+
+/**
+ * Record edited on this device and on another one since the last sync.
+ * Kept until the user picks local, remote or a merge.
+ */
+export interface SyncConflict {
+  id: string;             // `${table}:${recordId}`
+  table: Exclude<SyncTable, 'settings'>;
+  recordId: string;
+  local: VersionedRecord;
+  remote: VersionedRecord | null;  // null = deleted on the other device
+  detectedAt: string;     // ISO timestamp
+}
+
+export type SnapshotReason =
+  | 'daily'
+  | 'manual'
+  | 'before-clear'
+  | 'before-replace'
+  | 'before-import'
+  | 'before-restore'
+  | 'before-delete-all'
+  | 'before-cleanup'
+  | 'before-repair';
+
+/**
+ * Full copy of the local store. Records are kept exactly as the base adapter
+ * stores them (ciphertext while local encryption is on).
+ */
+export interface Snapshot {
+  id?: number;            // Auto-increment
+  createdAt: string;      // ISO timestamp
+  reason: SnapshotReason;
+  stats: Awaited<ReturnType<StorageAdapter['getStats']>>;
+  data: Awaited<ReturnType<StorageAdapter['exportAll']>>;
+}
+
+/**
+ * Where a recorded change came from
+ */
+export type AuditSource =
+  | 'manual'      // Edited in the app
+  | 'import'      // CSV import or backup file
+  | 'recurring'   // Recurring transaction generator
+  | 'cleanup'     // Duplicate cleanup (dev utilities)
+  | 'sync'        // Pulled from the cloud (another device)
+  | 'undo'        // Undo / redo
+  | 'restore'     // Snapshot restore
+  | 'revert'      // Reverted to an earlier version from the history panel
+  | 'repair';     // Data integrity repair (Settings)
+
+/**
+ * One change to one record in the append-only audit log. Records are kept as
+ * the base adapter stores them (ciphertext while local encryption is on).
+ */
+export interface AuditEntry {
+  id?: number;            // Auto-increment
+  table: Exclude<SyncTable, 'settings'>;
+  recordId: string;
+  at: string;             // ISO timestamp
+  source: AuditSource;
+  deviceId: string;       // Device that wrote the change to this store
+  deviceName: string;     // e.g. "Chrome on Windows"
+  before: VersionedRecord | null;   // null = created
+  after: VersionedRecord | null;    // null = deleted
+}
+
+/**
+ * Monthly total of one (year, month, type, category, currency) group,
+ * maintained incrementally from every change. `amount` is in `currency` and
+ * stored like transaction amounts (ciphertext while local encryption is on).
+ */
+export interface MonthlyRollup {
+  year: number;
+  month: number;          // 1-12
+  type: Transaction['type'];
+  category: string;
+  currency: string;       // Original currency of the transactions
+  amount: number;
+  count: number;
+}
+
+export type RollupKey = [number, number, string, string, string];
+
+/**
+ * Exchange rates known for one day, per USD (USD = 1). Entries may list only
+ * some currencies; conversions look each currency up separately.
+ */
+export interface DatedRates {
+  date: string;           // YYYY-MM-DD
+  rates: Record<string, number>;
+  source: 'fetched' | 'imported' | 'manual';  // manual = unit prices entered in the app
+}
 
 /**
  * FinTrack IndexedDB Schema
  * 
  * Database: FinTrackDB
- * Version: 1
+ * Version: 8 (see SCHEMA_MIGRATIONS)
  * 
  * Tables:
  * - transactions: All financial transactions
  * - budgets: Category budget limits
  * - recurring: Recurring transaction templates
  * - settings: Application settings
+ * - outbox: Pending cloud sync mutations
+ * - tombstones: Deleted record markers for sync
+ * - conflicts: Unresolved cross-device edit conflicts
+ * - schemaHistory: Applied schema migration steps
+ * - snapshots: Point-in-time copies of the local data
+ * - auditLog: Per-record change history
+ * - rollups: Monthly totals per type, category and currency
+ * - rates: Exchange rates by date
  */
 export class MonEraDB extends Dexie {
   // Table declarations
@@ -19,42 +156,20 @@ export class MonEraDB extends Dexie {
   budgets!: Table<CategoryBudget, string>;
   recurring!: Table<RecurringTransaction, string>;
   settings!: Table<AppSettings & { id: string }, string>;
+  outbox!: Table<OutboxEntry, number>;
+  tombstones!: Table<Tombstone, string>;
+  conflicts!: Table<SyncConflict, string>;
+  schemaHistory!: Table<SchemaHistoryEntry, number>;
+  snapshots!: Table<Snapshot, number>;
+  auditLog!: Table<AuditEntry, number>;
+  rollups!: Table<MonthlyRollup, RollupKey>;
+  rates!: Table<DatedRates, string>;
+
+  constructor(name = 'MonEraDB') {
+    super(name);
 
-  constructor() {
-    super('MonEraDB');
-    
-    /**
-     * Version 1: Initial schema
-     * 
-     * Index Strategy:
-     * - Primary indexes: id (unique identifier for each table)
-     * - Compound indexes for common query patterns:
-     *   - [date+type]: Fast filtering by date range and transaction type
-     *   - [category+type]: Category-based reports grouped by type
-     *   - [date+category]: Date range reports per category
-     *   - [category+isActive]: Active budgets per category
-     *   - [isActive+nextDate]: Upcoming recurring transactions
-     */
-    this.version(1).stores({
-      // Transactions table
-      // Primary key: id
-      // Indexes: date, type, category, amount, and compound indexes
-      transactions: 'id, date, type, category, amount, [date+type], [category+type], [date+category]',
-      
-      // Budgets table
-      // Primary key: id
-      // Indexes: category, isActive, and compound index for active budgets per category
-      budgets: 'id, category, isActive, [category+isActive]',
-      
-      // Recurring transactions table
-      // Primary key: id
-      // Indexes: frequency, isActive, nextOccurrence, lastGenerated, and compound indexes for queries
-      recurring: 'id, frequency, isActive, nextOccurrence, lastGenerated, startDate, [isActive+nextOccurrence]',
-      
-      // Settings table
-      // Primary key: id (always 'default')
-      settings: 'id'
-    });
+    // Numbered steps live in schemaMigrations.ts
+    applySchemaMigrations(this);
   }
 }
 
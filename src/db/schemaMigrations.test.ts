@@ -0,0 +1,226 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, afterEach } from 'vitest';
+import Dexie from 'dexie';
+import {
+  SCHEMA_MIGRATIONS,
+  LATEST_SCHEMA_VERSION,
+  applySchemaMigrations,
+  getSchemaInfo,
+  type SchemaHistoryEntry,
+} from './schemaMigrations';
+
+let counter = 0;
+const opened: Dexie[] = [];
+
+/**
+ * Open a database declaring only the steps up to `version`
+ */
+async function openAt(name: string, version: number): Promise<Dexie> {
+  const db = new Dexie(name);
+  applySchemaMigrations(db, SCHEMA_MIGRATIONS.filter(step => step.version <= version));
+  await db.open();
+  opened.push(db);
+  return db;
+}
+
+const indexNames = (db: Dexie, table: string) => db.table(table).schema.indexes.map(index => index.name);
+
+describe('schemaMigrations', () => {
+  let name: string;
+
+  afterEach(async () => {
+    opened.splice(0).forEach(db => db.close());
+    await Dexie.delete(name);
+  });
+
+  const freshName = () => {
+    name = `MonEraDB-test-${++counter}`;
+    return name;
+  };
+
+  it('should number steps consecutively from 1', () => {
+    freshName();
+    expect(SCHEMA_MIGRATIONS.map(step => step.version)).toEqual(
+      SCHEMA_MIGRATIONS.map((_step, index) => index + 1)
+    );
+    expect(LATEST_SCHEMA_VERSION).toBe(SCHEMA_MIGRATIONS.length);
+  });
+
+  it('step 1 should create the core tables', async () => {
+    const db = await openAt(freshName(), 1);
+
+    expect(db.tables.map(table => table.name).sort()).toEqual(['budgets', 'recurring', 'settings', 'transactions']);
+    expect(indexNames(db, 'transactions')).toContain('[category+type]');
+  });
+
+  it('step 2 should add the outbox and tombstones and keep existing rows', async () => {
+    const v1 = await openAt(freshName(), 1);
+    await v1.table('transactions').add({ id: 'tx-1', date: '2026-01-01' });
+    v1.close();
+
+    const db = await openAt(name, 2);
+
+    expect(await db.table('transactions').count()).toBe(1);
+    expect(indexNames(db, 'outbox')).toContain('[table+recordId]');
+    expect(indexNames(db, 'tombstones')).toContain('deletedAt');
+  });
+
+  it('step 3 should add the conflicts table', async () => {
+    (await openAt(freshName(), 2)).close();
+
+    const db = await openAt(name, 3);
+
+    expect(indexNames(db, 'conflicts')).toEqual(expect.arrayContaining(['table', 'detectedAt']));
+  });
+
+  it('step 4 should backfill metadata, index the new fields and record history', async () => {
+    const v3 = await openAt(freshName(), 3);
+    await v3.table('transactions').bulkAdd([
+      { id: 'tx-legacy', date: '2026-01-01' },
+      { id: 'tx-edited', date: '2026-01-02', version: 5, updatedAt: '2026-01-02T00:00:00.000Z', tags: ['rent'] },
+    ]);
+    await v3.table('budgets').add({ id: 'budget-1', category: 'food' });
+    await v3.table('recurring').add({ id: 'rec-1', nextOccurrence: '2026-02-01' });
+    v3.close();
+
+    const db = await openAt(name, 4);
+
+    expect(await db.table('transactions').get('tx-legacy')).toMatchObject({ version: 1, tags: [] });
+    expect((await db.table('transactions').get('tx-legacy')).updatedAt).toEqual(expect.any(String));
+    expect(await db.table('transactions').get('tx-edited')).toMatchObject({
+      version: 5,
+      updatedAt: '2026-01-02T00:00:00.000Z',
+      tags: ['rent'],
+    });
+    expect(await db.table('budgets').get('budget-1')).toMatchObject({ version: 1 });
+    expect(await db.table('recurring').get('rec-1')).toMatchObject({ version: 1 });
+
+    expect(indexNames(db, 'transactions')).toEqual(
+      expect.arrayContaining(['updatedAt', 'deletedAt', 'accountId', 'tags'])
+    );
+    expect(await db.table('transactions').where('tags').equals('rent').primaryKeys()).toEqual(['tx-edited']);
+
+    const history = await db.table<SchemaHistoryEntry>('schemaHistory').toArray();
+    expect(history).toEqual([expect.objectContaining({ version: 4, fresh: false })]);
+  });
+
+  it('step 5 should add the snapshots table and keep existing rows and history', async () => {
+    const v4 = await openAt(freshName(), 4);
+    await v4.table('transactions').add({ id: 'tx-1', date: '2026-01-01', version: 1, tags: [] });
+    v4.close();
+
+    const db = await openAt(name, 5);
+
+    expect(await db.table('transactions').get('tx-1')).toMatchObject({ id: 'tx-1', version: 1 });
+    expect(indexNames(db, 'snapshots')).toEqual(expect.arrayContaining(['createdAt', 'reason']));
+    expect(db.table('snapshots').schema.primKey.auto).toBe(true);
+
+    const history = await db.table<SchemaHistoryEntry>('schemaHistory').orderBy('version').toArray();
+    expect(history.map(entry => [entry.version, entry.fresh])).toEqual([
+      [1, true], [2, true], [3, true], [4, true], [5, false],
+    ]);
+  });
+
+  it('step 6 should add the audit log, readable per record', async () => {
+    const v5 = await openAt(freshName(), 5);
+    await v5.table('transactions').add({ id: 'tx-1', date: '2026-01-01', version: 1, tags: [] });
+    await v5.table('snapshots').add({ createdAt: '2026-01-01T00:00:00.000Z', reason: 'daily' });
+    v5.close();
+
+    const db = await openAt(name, 6);
+
+    expect(await db.table('transactions').count()).toBe(1);
+    expect(await db.table('snapshots').count()).toBe(1);
+    expect(indexNames(db, 'auditLog')).toEqual(expect.arrayContaining(['[table+recordId]', 'at']));
+
+    await db.table('auditLog').add({ table: 'transactions', recordId: 'tx-1', at: '2026-01-02T00:00:00.000Z' });
+    expect(await db.table('auditLog').where('[table+recordId]').equals(['transactions', 'tx-1']).count()).toBe(1);
+
+    const history = await db.table<SchemaHistoryEntry>('schemaHistory').get(6);
+    expect(history).toMatchObject({ version: 6, fresh: false });
+  });
+
+  it('step 7 should add empty rollups, keyed per month, type, category and currency', async () => {
+    const v6 = await openAt(freshName(), 6);
+    await v6.table('transactions').add({
+      id: 'tx-1', date: '2026-01-01', type: 'expense', category: 'food', version: 1, tags: [],
+    });
+    v6.close();
+
+    const db = await openAt(name, 7);
+
+    // Built from the records on first load, not during the upgrade
+    expect(await db.table('transactions').count()).toBe(1);
+    expect(await db.table('rollups').count()).toBe(0);
+    expect(db.table('rollups').schema.primKey.name).toBe('[year+month+type+category+currency]');
+    expect(indexNames(db, 'rollups')).toContain('[year+month]');
+
+    await db.table('rollups').bulkAdd([
+      { year: 2026, month: 1, type: 'expense', category: 'food', currency: 'TRY' },
+      { year: 2026, month: 1, type: 'expense', category: 'food', currency: 'USD' },
+      { year: 2026, month: 2, type: 'expense', category: 'food', currency: 'TRY' },
+    ]);
+    expect(await db.table('rollups').where('[year+month]').equals([2026, 1]).count()).toBe(2);
+
+    const history = await db.table<SchemaHistoryEntry>('schemaHistory').get(7);
+    expect(history).toMatchObject({ version: 7, fresh: false });
+  });
+
+  it('step 8 should add dated exchange rates keyed by day', async () => {
+    const v7 = await openAt(freshName(), 7);
+    await v7.table('transactions').add({ id: 'tx-1', date: '2026-01-01', version: 1, tags: [] });
+    await v7.table('rollups').add({ year: 2026, month: 1, type: 'expense', category: 'food', currency: 'TRY' });
+    v7.close();
+
+    const db = await openAt(name, 8);
+
+    expect(await db.table('transactions').count()).toBe(1);
+    expect(await db.table('rollups').count()).toBe(1);
+    expect(await db.table('rates').count()).toBe(0);
+    expect(db.table('rates').schema.primKey.name).toBe('date');
+
+    await db.table('rates').bulkAdd([{ date: '2026-01-02' }, { date: '2026-01-01' }]);
+    expect(await db.table('rates').orderBy('date').primaryKeys()).toEqual(['2026-01-01', '2026-01-02']);
+
+    const history = await db.table<SchemaHistoryEntry>('schemaHistory').get(8);
+    expect(history).toMatchObject({ version: 8, fresh: false });
+  });
+
+  it('should record every step as fresh when the database is created at the latest version', async () => {
+    const db = await openAt(freshName(), LATEST_SCHEMA_VERSION);
+
+    const history = await db.table<SchemaHistoryEntry>('schemaHistory').orderBy('version').toArray();
+    expect(history.map(entry => entry.version)).toEqual(SCHEMA_MIGRATIONS.map(step => step.version));
+    expect(history.every(entry => entry.fresh)).toBe(true);
+  });
+
+  describe('getSchemaInfo', () => {
+    it('should report every step as pending before the database exists', async () => {
+      const info = await getSchemaInfo(new Dexie(freshName()));
+
+      expect(info.schemaVersion).toBe(0);
+      expect(info.pendingSteps.map(step => step.version)).toEqual(SCHEMA_MIGRATIONS.map(step => step.version));
+    });
+
+    it('should report pending steps of a closed database without upgrading it', async () => {
+      (await openAt(freshName(), 2)).close();
+
+      const info = await getSchemaInfo(new Dexie(name));
+
+      expect(info.schemaVersion).toBe(2);
+      expect(info.latestVersion).toBe(LATEST_SCHEMA_VERSION);
+      expect(info.pendingSteps.map(step => step.version)).toEqual([3, 4, 5, 6, 7, 8]);
+      expect((await getSchemaInfo(new Dexie(name))).schemaVersion).toBe(2);
+    });
+
+    it('should report no pending steps and the history once upgraded', async () => {
+      const db = await openAt(freshName(), LATEST_SCHEMA_VERSION);
+
+      const info = await getSchemaInfo(db);
+
+      expect(info.schemaVersion).toBe(LATEST_SCHEMA_VERSION);
+      expect(info.pendingSteps).toEqual([]);
+      expect(info.history).toHaveLength(SCHEMA_MIGRATIONS.length);
+    });
+  });
+});
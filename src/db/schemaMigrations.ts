@@ -0,0 +1,238 @@
+import Dexie, { type Transaction as DexieTransaction } from 'dexie';
+import type { Transaction } from '../types';
+
+/**
+ * IndexedDB Schema Migrations
+ *
+ * Every schema change is one numbered step. A step declares the table stores
+ * that change in its version and, optionally, a backfill that rewrites
+ * existing rows. Dexie runs the backfills of all versions between the
+ * installed one and the latest in order, inside the upgrade transaction.
+ *
+ * Rules:
+ * - Never edit or renumber a released step - add a new one
+ * - Backfills must be idempotent (only fill fields that are missing)
+ */
+
+export interface SchemaMigration {
+  version: number;
+  description: string;
+  stores: Record<string, string | null>;
+  backfill?: (tx: DexieTransaction) => Promise<void>;
+}
+
+/**
+ * One row per applied step (table added in version 4)
+ */
+export interface SchemaHistoryEntry {
+  version: number;
+  description: string;
+  appliedAt: string;      // ISO timestamp
+  fresh: boolean;         // true = created with this schema, no upgrade ran
+}
+
+export const SCHEMA_HISTORY_TABLE = 'schemaHistory';
+
+// ============================================
+// BACKFILLS
+// ============================================
+
+/**
+ * Version 4: stamp sync metadata on rows created before it was tracked
+ */
+async function backfillRecordMetadata(tx: DexieTransaction): Promise<void> {
+  const updatedAt = new Date().toISOString();
+
+  await tx.table<Transaction>('transactions').toCollection().modify(record => {
+    record.version ??= 1;
+    record.updatedAt ??= updatedAt;
+    record.tags ??= [];
+  });
+
+  for (const table of ['budgets', 'recurring']) {
+    await tx.table(table).toCollection().modify(record => {
+      record.version ??= 1;
+      record.updatedAt ??= updatedAt;
+    });
+  }
+}
+
+// ============================================
+// STEPS
+// ============================================
+
+export const SCHEMA_MIGRATIONS: SchemaMigration[] = [
+  {
+    /**
+     * Index Strategy:
+     * - Primary indexes: id (unique identifier for each table)
+     * - Compound indexes for common query patterns:
+     *   - [date+type]: Fast filtering by date range and transaction type
+     *   - [category+type]: Category-based reports grouped by type
+     *   - [date+category]: Date range reports per category
+     *   - [category+isActive]: Active budgets per category
+     *   - [isActive+nextDate]: Upcoming recurring transactions
+     */
+    version: 1,
+    description: 'Initial schema',
+    stores: {
+      transactions: 'id, date, type, category, amount, [date+type], [category+type], [date+category]',
+      budgets: 'id, category, isActive, [category+isActive]',
+      recurring: 'id, frequency, isActive, nextOccurrence, lastGenerated, startDate, [isActive+nextOccurrence]',
+      // Primary key: id (always 'default')
+      settings: 'id'
+    }
+  },
+  {
+    // outbox: ordered queue of pending mutations, one entry per record ([table+recordId])
+    // tombstones: deleted records, so pulls never bring them back
+    version: 2,
+    description: 'Cloud sync outbox and tombstones',
+    stores: {
+      outbox: '++seq, [table+recordId], createdAt',
+      tombstones: 'id, table, deletedAt'
+    }
+  },
+  {
+    // conflicts: records edited on two devices, waiting for the user
+    version: 3,
+    description: 'Sync conflict queue',
+    stores: {
+      conflicts: 'id, table, detectedAt'
+    }
+  },
+  {
+    // *tags is a multi-entry index: one index entry per tag
+    version: 4,
+    description: 'Index updatedAt, deletedAt, accountId and tags; record migration history',
+    stores: {
+      transactions: 'id, date, type, category, amount, updatedAt, deletedAt, accountId, *tags, [date+type], [category+type], [date+category]',
+      budgets: 'id, category, isActive, updatedAt, deletedAt, [category+isActive]',
+      recurring: 'id, frequency, isActive, nextOccurrence, lastGenerated, startDate, updatedAt, deletedAt, [isActive+nextOccurrence]',
+      [SCHEMA_HISTORY_TABLE]: 'version, appliedAt'
+    },
+    backfill: backfillRecordMetadata
+  },
+  {
+    // snapshots: full copies of the local store for point-in-time restore
+    version: 5,
+    description: 'Local snapshots',
+    stores: {
+      snapshots: '++id, createdAt, reason'
+    }
+  },
+  {
+    // auditLog: append-only per-record history, read per record ([table+recordId])
+    version: 6,
+    description: 'Per-record audit log',
+    stores: {
+      auditLog: '++id, [table+recordId], at'
+    }
+  },
+  {
+    // rollups: one row per (year, month, type, category, currency), read per month ([year+month]).
+    // Built from the records on first load, since amounts may be encrypted
+    version: 7,
+    description: 'Monthly rollups',
+    stores: {
+      rollups: '[year+month+type+category+currency], [year+month]'
+    }
+  },
+  {
+    // rates: exchange rates per day (fetched or imported), read in full and kept sorted in memory
+    version: 8,
+    description: 'Dated exchange rates',
+    stores: {
+      rates: 'date'
+    }
+  }
+];
+
+export const LATEST_SCHEMA_VERSION = SCHEMA_MIGRATIONS[SCHEMA_MIGRATIONS.length - 1].version;
+
+// ============================================
+// REGISTRATION
+// ============================================
+
+async function recordStep(tx: DexieTransaction, step: SchemaMigration, fresh: boolean): Promise<void> {
+  // Steps older than the history table can't be recorded during an upgrade
+  if (!tx.storeNames.includes(SCHEMA_HISTORY_TABLE)) return;
+
+  const entry: SchemaHistoryEntry = {
+    version: step.version,
+    description: step.description,
+    appliedAt: new Date().toISOString(),
+    fresh
+  };
+  await tx.table<SchemaHistoryEntry>(SCHEMA_HISTORY_TABLE).put(entry);
+}
+
+/**
+ * Declare the given steps on a Dexie instance (call from its constructor)
+ */
+export function applySchemaMigrations(db: Dexie, steps: SchemaMigration[] = SCHEMA_MIGRATIONS): void {
+  for (const step of steps) {
+    db.version(step.version)
+      .stores(step.stores)
+      .upgrade(async tx => {
+        await step.backfill?.(tx);
+        await recordStep(tx, step, false);
+      });
+  }
+
+  // Upgrades don't run for a brand-new database - record the whole chain once
+  db.on('populate', async tx => {
+    for (const step of steps) {
+      await recordStep(tx, step, true);
+    }
+  });
+}
+
+// ============================================
+// INSPECTION
+// ============================================
+
+export interface SchemaInfo {
+  schemaVersion: number;            // Installed version (0 = database not created yet)
+  latestVersion: number;
+  pendingSteps: Array<Pick<SchemaMigration, 'version' | 'description'>>;
+  history: SchemaHistoryEntry[];
+}
+
+/**
+ * Read the installed schema version and history without upgrading.
+ * An open database has already run its upgrades; a closed one is opened
+ * read-only in dynamic mode (no version declared) just to look.
+ */
+export async function getSchemaInfo(db: Dexie, steps: SchemaMigration[] = SCHEMA_MIGRATIONS): Promise<SchemaInfo> {
+  let schemaVersion = 0;
+  let history: SchemaHistoryEntry[] = [];
+
+  const readHistory = async (database: Dexie) =>
+    database.tables.some(table => table.name === SCHEMA_HISTORY_TABLE)
+      ? database.table<SchemaHistoryEntry>(SCHEMA_HISTORY_TABLE).orderBy('version').toArray()
+      : [];
+
+  if (db.isOpen()) {
+    schemaVersion = db.verno;
+    history = await readHistory(db);
+  } else if (await Dexie.exists(db.name)) {
+    const probe = new Dexie(db.name);
+    try {
+      await probe.open();
+      schemaVersion = probe.verno;
+      history = await readHistory(probe);
+    } finally {
+      probe.close();
+    }
+  }
+
+  return {
+    schemaVersion,
+    latestVersion: steps[steps.length - 1].version,
+    pendingSteps: steps
+      .filter(step => step.version > schemaVersion)
+      .map(({ version, description }) => ({ version, description })),
+    history
+  };
+}
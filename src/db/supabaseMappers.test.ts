@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import type { Transaction, RecurringTransaction } from '../types';
+import { transactionMapper, recurringMapper, settingsMapper } from './supabaseMappers';
+
+const transaction: Transaction = {
+  id: 'tx-1',
+  title: 'Coffee',
+  amount: 85,
+  category: 'food',
+  type: 'expense',
+  date: '2026-01-15',
+  originalCurrency: 'TRY',
+  version: 3,
+};
+
+describe('supabaseMappers', () => {
+  it('should round-trip a transaction through its row', () => {
+    const row = transactionMapper.toRow(transaction, 'user-1');
+
+    expect(row).toMatchObject({
+      user_id: 'user-1',
+      original_currency: 'TRY',
+      description: null,
+      is_recurring: false,
+      recurring_id: null,
+      settled_amount: null,
+      settled_currency: null,
+      account_id: null,
+      to_account_id: null,
+      version: 3,
+    });
+    expect(transactionMapper.fromRow(row)).toEqual({ ...transaction, isRecurring: false });
+  });
+
+  it('should carry the settled home-currency amount', () => {
+    const settled: Transaction = { ...transaction, originalCurrency: 'USD', settledAmount: 3450.5, settledCurrency: 'TRY' };
+    const row = transactionMapper.toRow(settled, 'user-1');
+
+    expect(row).toMatchObject({ settled_amount: 3450.5, settled_currency: 'TRY' });
+    expect(transactionMapper.fromRow(row)).toEqual({ ...settled, isRecurring: false });
+  });
+
+  it('should carry the accounts of a transaction', () => {
+    const transfer: Transaction = { ...transaction, type: 'transfer', accountId: 'bank', toAccountId: 'cash' };
+    const row = transactionMapper.toRow(transfer, 'user-1');
+
+    expect(row).toMatchObject({ account_id: 'bank', to_account_id: 'cash' });
+    expect(transactionMapper.fromRow(row)).toEqual({ ...transfer, isRecurring: false });
+  });
+
+  it('should expose updated_at as updatedAt on versioned records', () => {
+    const row = { ...transactionMapper.toRow(transaction, 'user-1'), updated_at: '2026-01-15T10:00:00.000Z' };
+
+    expect(transactionMapper.fromRow(row).updatedAt).toBe('2026-01-15T10:00:00.000Z');
+  });
+
+  it('should map only the fields present in a patch', () => {
+    const patch = recurringMapper.toPatch({ nextOccurrence: '2026-02-01', endDate: undefined } as Partial<RecurringTransaction>);
+
+    expect(patch).toEqual({ next_occurrence: '2026-02-01', end_date: null });
+  });
+
+  it('should keep device-only settings out of the settings row', () => {
+    const row = settingsMapper.toRow({ theme: 'dark', inflationRate: 50 }, 'user-1');
+
+    expect(row).not.toHaveProperty('inflation_rate');
+    expect(settingsMapper.fromRow(row)).toEqual({ theme: 'dark' });
+  });
+
+  it('should sync accounts with the settings', () => {
+    const accounts = [{ id: 'bank', name: 'Bank', type: 'bank' as const, currency: 'TRY', openingBalance: 1000, isActive: true }];
+    const row = settingsMapper.toRow({ accounts }, 'user-1');
+
+    expect(row.accounts).toEqual(accounts);
+    expect(settingsMapper.fromRow(row)).toEqual({ accounts });
+  });
+});
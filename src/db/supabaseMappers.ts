@@ -0,0 +1,222 @@
+import type {
+  Account,
+  Transaction,
+  CategoryBudget,
+  RecurringTransaction,
+  AppSettings,
+  TransactionType,
+  RecurringFrequency,
+} from '../types';
+
+/**
+ * Supabase Row Mappers
+ *
+ * One typed mapper per table converts between the camelCase app models and
+ * the snake_case Supabase rows. Optional fields are stored as NULL and read
+ * back as undefined. Every cloud read/write goes through these mappers, so a
+ * new field only needs to be added here.
+ */
+
+type Currency = Transaction['originalCurrency'];
+
+export type CloudTable = 'transactions' | 'budgets' | 'recurring_transactions' | 'app_settings';
+
+interface RowMeta {
+  user_id: string;
+  updated_at?: string | null;   // Set by the server; drives incremental pulls
+}
+
+export interface TransactionRow extends RowMeta {
+  id: string;
+  title: string;
+  amount: number;
+  category: string;
+  type: TransactionType;
+  date: string;
+  description: string | null;
+  is_recurring: boolean | null;
+  recurring_id: string | null;
+  original_currency: Currency;
+  settled_amount: number | null;
+  settled_currency: Currency | null;
+  account_id: string | null;
+  to_account_id: string | null;
+  version: number | null;
+  sealed?: string | null;        // End-to-end encrypted fields (see RowCipher)
+}
+
+export interface BudgetRow extends RowMeta {
+  id: string;
+  category: string;
+  monthly_limit: number;
+  alert_threshold: number;
+  is_active: boolean;
+  currency: Currency;
+  version: number | null;
+}
+
+export interface RecurringRow extends RowMeta {
+  id: string;
+  title: string;
+  amount: number;
+  category: string;
+  type: TransactionType;
+  frequency: RecurringFrequency;
+  start_date: string;
+  end_date: string | null;
+  last_generated: string | null;
+  next_occurrence: string;
+  is_active: boolean;
+  description: string | null;
+  original_currency: Currency;
+  version: number | null;
+  sealed?: string | null;
+}
+
+export interface SettingsRow extends RowMeta {
+  language: AppSettings['language'] | null;
+  currency: AppSettings['currency'] | null;
+  theme: AppSettings['theme'] | null;
+  notifications_enabled: boolean | null;
+  notification_sound: boolean | null;
+  accounts: Account[] | null;    // jsonb
+}
+
+export interface RowMapper<TRecord, TRow> {
+  table: CloudTable;
+  toRow(record: TRecord, userId: string): TRow;
+  fromRow(row: TRow): TRecord;
+  /** Map a partial update to the columns it touches */
+  toPatch(updates: Partial<TRecord>): Partial<TRow>;
+}
+
+/**
+ * Transform applied to rows on their way to and from the cloud, after
+ * toRow and before fromRow. Used for end-to-end encryption.
+ */
+export interface RowCipher {
+  /** Whether rows of this table are transformed (partial updates need the full row) */
+  seals(table: CloudTable): boolean;
+  sealRow<TRow extends object>(table: CloudTable, row: TRow): Promise<TRow>;
+  openRow<TRow extends object>(table: CloudTable, row: TRow): Promise<TRow>;
+}
+
+interface MapperOptions<TRecord> {
+  defaults?: Partial<TRecord>;   // Used for NULL / missing values in both directions
+  versioned?: boolean;           // Expose the row's updated_at as updatedAt
+}
+
+/**
+ * Build a mapper from a field → column map. Fields missing from the map are
+ * local-only and never leave the device.
+ */
+function createRowMapper<TRecord extends object, TRow extends RowMeta>(
+  table: CloudTable,
+  columns: { [K in keyof TRecord]?: keyof TRow },
+  { defaults = {}, versioned = false }: MapperOptions<TRecord> = {}
+): RowMapper<TRecord, TRow> {
+  const entries = Object.entries(columns) as Array<[keyof TRecord, keyof TRow]>;
+
+  return {
+    table,
+
+    toRow(record, userId) {
+      const row = { user_id: userId } as Record<keyof TRow, unknown>;
+      for (const [field, column] of entries) {
+        row[column] = record[field] ?? defaults[field] ?? null;
+      }
+      return row as TRow;
+    },
+
+    fromRow(row) {
+      const record = {} as Record<string, unknown>;
+      for (const [field, column] of entries) {
+        const value = row[column] ?? defaults[field];
+        if (value !== null && value !== undefined) {
+          record[field as string] = value;
+        }
+      }
+      if (versioned && row.updated_at) {
+        record.updatedAt = row.updated_at;
+      }
+      return record as TRecord;
+    },
+
+    toPatch(updates) {
+      const patch = {} as Record<keyof TRow, unknown>;
+      for (const [field, column] of entries) {
+        if (field in updates) {
+          patch[column] = updates[field] ?? null;
+        }
+      }
+      return patch as Partial<TRow>;
+    },
+  };
+}
+
+export const transactionMapper = createRowMapper<Transaction, TransactionRow>(
+  'transactions',
+  {
+    id: 'id',
+    title: 'title',
+    amount: 'amount',
+    category: 'category',
+    type: 'type',
+    date: 'date',
+    description: 'description',
+    isRecurring: 'is_recurring',
+    recurringId: 'recurring_id',
+    originalCurrency: 'original_currency',
+    settledAmount: 'settled_amount',
+    settledCurrency: 'settled_currency',
+    accountId: 'account_id',
+    toAccountId: 'to_account_id',
+    version: 'version',
+  },
+  { defaults: { isRecurring: false, version: 1 }, versioned: true }
+);
+
+export const budgetMapper = createRowMapper<CategoryBudget, BudgetRow>(
+  'budgets',
+  {
+    id: 'id',
+    category: 'category',
+    monthlyLimit: 'monthly_limit',
+    alertThreshold: 'alert_threshold',
+    isActive: 'is_active',
+    currency: 'currency',
+    version: 'version',
+  },
+  { defaults: { version: 1 }, versioned: true }
+);
+
+export const recurringMapper = createRowMapper<RecurringTransaction, RecurringRow>(
+  'recurring_transactions',
+  {
+    id: 'id',
+    title: 'title',
+    amount: 'amount',
+    category: 'category',
+    type: 'type',
+    frequency: 'frequency',
+    startDate: 'start_date',
+    endDate: 'end_date',
+    lastGenerated: 'last_generated',
+    nextOccurrence: 'next_occurrence',
+    isActive: 'is_active',
+    description: 'description',
+    originalCurrency: 'original_currency',
+    version: 'version',
+  },
+  { defaults: { version: 1 }, versioned: true }
+);
+
+// Inflation rate, currency pair, enabled currencies, valuation and rate provider are device preferences and stay local
+export const settingsMapper = createRowMapper<Partial<AppSettings>, SettingsRow>('app_settings', {
+  language: 'language',
+  currency: 'currency',
+  theme: 'theme',
+  notificationsEnabled: 'notifications_enabled',
+  notificationSound: 'notification_sound',
+  accounts: 'accounts',
+});
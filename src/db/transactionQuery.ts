@@ -0,0 +1,198 @@
+import type { Transaction } from '../types';
+import { bookedAmount } from '../utils/exchange';
+import { add, money, toAmount, zero, type Money } from '../utils/money';
+
+/**
+ * Filters for a paged transaction query (all optional, combined with AND)
+ */
+export interface TransactionQuery {
+  type?: Transaction['type'];
+  category?: string;
+  startDate?: string;     // Inclusive, YYYY-MM-DD
+  endDate?: string;       // Inclusive, YYYY-MM-DD
+  search?: string;        // Case-insensitive match on title, description or category
+  accountId?: string;     // Either side of it (account or transfer target)
+}
+
+/**
+ * Position after the last row of a page. Pages are ordered by date, newest
+ * first, with the id breaking ties so every row has exactly one place.
+ */
+export interface TransactionCursor {
+  date: string;
+  id: string;
+}
+
+export interface TransactionPage {
+  items: Transaction[];
+  nextCursor: TransactionCursor | null;   // null = no more rows
+}
+
+export const cursorOf = (transaction: Transaction): TransactionCursor => ({
+  date: transaction.date,
+  id: transaction.id,
+});
+
+/**
+ * Page order: date descending, then id descending
+ */
+export function compareNewestFirst(a: Transaction, b: Transaction): number {
+  if (a.date !== b.date) return a.date < b.date ? 1 : -1;
+  return a.id < b.id ? 1 : a.id > b.id ? -1 : 0;
+}
+
+/**
+ * Whether a row comes after the cursor in page order
+ */
+export function isAfterCursor(transaction: Transaction, cursor: TransactionCursor | null | undefined): boolean {
+  if (!cursor) return true;
+  return transaction.date < cursor.date || (transaction.date === cursor.date && transaction.id < cursor.id);
+}
+
+export function matchesSearch(transaction: Transaction, search: string | undefined): boolean {
+  const term = search?.trim().toLowerCase();
+  if (!term) return true;
+  return (
+    !!transaction.title?.toLowerCase().includes(term) ||
+    !!transaction.description?.toLowerCase().includes(term) ||
+    transaction.category.toLowerCase().includes(term)
+  );
+}
+
+export function matchesTransactionQuery(transaction: Transaction, query: TransactionQuery): boolean {
+  return (
+    (!query.type || transaction.type === query.type) &&
+    (!query.category || transaction.category === query.category) &&
+    (!query.startDate || transaction.date >= query.startDate) &&
+    (!query.endDate || transaction.date <= query.endDate) &&
+    (!query.accountId || transaction.accountId === query.accountId || transaction.toAccountId === query.accountId) &&
+    matchesSearch(transaction, query.search)
+  );
+}
+
+/**
+ * One page out of an in-memory list (adapters without an ordered index)
+ */
+export function pageTransactions(
+  transactions: Transaction[],
+  query: TransactionQuery,
+  limit: number,
+  cursor?: TransactionCursor | null
+): TransactionPage {
+  const rows = transactions
+    .filter(t => isAfterCursor(t, cursor) && matchesTransactionQuery(t, query))
+    .sort(compareNewestFirst);
+  const items = rows.slice(0, limit);
+  return { items, nextCursor: rows.length > limit ? cursorOf(items[items.length - 1]) : null };
+}
+
+/**
+ * Text search over a store that can only filter ciphertext: walks the
+ * unsearched pages in order and keeps the matching rows until `limit` is reached.
+ */
+export async function searchPages(
+  fetchPage: (cursor: TransactionCursor | null) => Promise<TransactionPage>,
+  search: string,
+  limit: number,
+  cursor?: TransactionCursor | null
+): Promise<TransactionPage> {
+  const items: Transaction[] = [];
+  let next = cursor ?? null;
+
+  do {
+    const page = await fetchPage(next);
+    for (const [index, transaction] of page.items.entries()) {
+      if (!matchesSearch(transaction, search)) continue;
+      items.push(transaction);
+      if (items.length === limit) {
+        const rowsLeft = index < page.items.length - 1 || page.nextCursor !== null;
+        return { items, nextCursor: rowsLeft ? cursorOf(transaction) : null };
+      }
+    }
+    next = page.nextCursor;
+  } while (next);
+
+  return { items, nextCursor: null };
+}
+
+/**
+ * Booked amounts of matching transactions added up per type, currency and
+ * day (rows of one day convert at the same rate, so totals convert exactly
+ * like the transactions would)
+ */
+export interface TransactionTotal {
+  type: Transaction['type'];
+  currency: string;       // Booked currency (settled, else original)
+  date: string;
+  amount: number;         // Summed as Money
+  count: number;
+}
+
+// Rows read per page when every page of a query is walked
+export const WALK_PAGE_SIZE = 500;
+
+type TotalSums = Map<string, { total: TransactionTotal; sum: Money }>;
+
+function addToTotals(sums: TotalSums, transaction: Transaction): void {
+  const { amount, currency } = bookedAmount(transaction);
+  const key = `${transaction.type}|${currency}|${transaction.date}`;
+  const entry = sums.get(key) ?? {
+    total: { type: transaction.type, currency, date: transaction.date, amount: 0, count: 0 },
+    sum: zero(currency),
+  };
+  entry.sum = add(entry.sum, money(amount, currency));
+  entry.total.count++;
+  sums.set(key, entry);
+}
+
+const toTotals = (sums: TotalSums): TransactionTotal[] =>
+  [...sums.values()].map(({ total, sum }) => ({ ...total, amount: toAmount(sum) }));
+
+/**
+ * Totals out of an in-memory list (adapters without an ordered index)
+ */
+export function totalTransactions(transactions: Transaction[], query: TransactionQuery): TransactionTotal[] {
+  const sums: TotalSums = new Map();
+  for (const transaction of transactions) {
+    if (matchesTransactionQuery(transaction, query)) addToTotals(sums, transaction);
+  }
+  return toTotals(sums);
+}
+
+/**
+ * Totals over a store that can't add up its rows itself (ciphertext, or no
+ * aggregate endpoint): walks every page once, holding one page at a time.
+ */
+export async function totalPages(
+  fetchPage: (cursor: TransactionCursor | null) => Promise<TransactionPage>
+): Promise<TransactionTotal[]> {
+  const sums: TotalSums = new Map();
+  let next: TransactionCursor | null = null;
+
+  do {
+    const page = await fetchPage(next);
+    page.items.forEach(transaction => addToTotals(sums, transaction));
+    next = page.nextCursor;
+  } while (next);
+
+  return toTotals(sums);
+}
+
+/**
+ * Every matching row, read one page at a time (for views over one account
+ * or type, without reading the whole store)
+ */
+export async function collectPages(
+  fetchPage: (cursor: TransactionCursor | null) => Promise<TransactionPage>
+): Promise<Transaction[]> {
+  const items: Transaction[] = [];
+  let next: TransactionCursor | null = null;
+
+  do {
+    const page = await fetchPage(next);
+    items.push(...page.items);
+    next = page.nextCursor;
+  } while (next);
+
+  return items;
+}
@@ -0,0 +1,38 @@
+import { useEffect, useState } from 'react';
+import type { Transaction } from '../types';
+import type { AggregationQuery, AggregationResult } from '../utils/aggregations';
+import { aggregationService } from '../services/aggregationService';
+import { useFinance } from './useFinance';
+
+/**
+ * Result of an aggregation query, computed off the main thread. Null until
+ * the first result for this query, currency and valuation mode arrives; when
+ * only the transactions or rates change the previous result stays up until
+ * the new one lands.
+ */
+export function useAggregation<Q extends AggregationQuery>(
+  transactions: Transaction[],
+  currency: string,
+  query: Q
+): AggregationResult<Q> | null {
+  const { valuation, settings } = useFinance();
+  const customUnits = settings.customUnits;
+  // Callers pass inline query objects; key on their content instead
+  const queryKey = JSON.stringify(query);
+  const key = `${currency}:${valuation.mode}:${queryKey}`;
+  const [state, setState] = useState<{ key: string; result: AggregationResult<Q> } | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    aggregationService.load(transactions, currency, valuation, customUnits);
+    aggregationService
+      .query(JSON.parse(queryKey) as Q)
+      .then((result) => {
+        if (!cancelled) setState({ key, result });
+      })
+      .catch((error) => console.error('[useAggregation] Query failed:', error));
+    return () => { cancelled = true; };
+  }, [transactions, currency, valuation, customUnits, queryKey, key]);
+
+  return state && state.key === key ? state.result : null;
+}
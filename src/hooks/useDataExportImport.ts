@@ -1,5 +1,7 @@
 import { useCallback } from 'react';
-import type { Transaction, AppSettings, ExportedData } from '../types';
+import type { Transaction, AppSettings, CurrencyCode, ExportedData } from '../types';
+import { isCurrencyCode } from '../utils/currencies';
+import { money, toAmount, toDecimalString } from '../utils/money';
 
 interface ImportResult {
   success: boolean;
@@ -77,9 +79,11 @@ export function useDataExportImport() {
   }, []);
 
   /**
-   * Import from CSV file
+   * Import from CSV file. Bank statements can carry what a foreign-currency
+   * payment actually settled for, as a settled amount or a rate; it's taken
+   * to be in the home currency unless a settled currency column says otherwise.
    */
-  const importFromCSV = useCallback((csvString: string): ImportResult => {
+  const importFromCSV = useCallback((csvString: string, homeCurrency: CurrencyCode = 'TRY'): ImportResult => {
     try {
       const lines = csvString.trim().split('\n');
       if (lines.length < 2) {
@@ -100,6 +104,10 @@ export function useDataExportImport() {
       const dateIdx = findHeaderIndex(headers, ['date', 'tarih']);
       const typeIdx = findHeaderIndex(headers, ['type', 'tür']);
       const descIdx = findHeaderIndex(headers, ['description', 'açıklama']);
+      const currencyIdx = findHeaderIndex(headers, ['originalcurrency', 'currency', 'para birimi']);
+      const settledIdx = findHeaderIndex(headers, ['settledamount', 'settled amount', 'ödenen tutar']);
+      const settledCurrencyIdx = findHeaderIndex(headers, ['settledcurrency', 'settled currency', 'ödenen para birimi']);
+      const rateIdx = findHeaderIndex(headers, ['rate', 'exchange rate', 'kur']);
 
       if (titleIdx === -1 || amountIdx === -1 || categoryIdx === -1 || dateIdx === -1 || typeIdx === -1) {
         return {
@@ -123,9 +131,26 @@ export function useDataExportImport() {
           date: cells[dateIdx] || new Date().toISOString().split('T')[0],
           type: (cells[typeIdx] || 'expense') as any,
           description: descIdx !== -1 ? cells[descIdx] : undefined,
-          originalCurrency: 'TRY',
+          originalCurrency: currencyIdx !== -1 && isCurrencyCode(cells[currencyIdx]?.trim().toUpperCase())
+            ? cells[currencyIdx].trim().toUpperCase()
+            : 'TRY',
         };
 
+        const settledCurrency = settledCurrencyIdx !== -1 && isCurrencyCode(cells[settledCurrencyIdx]?.trim().toUpperCase())
+          ? cells[settledCurrencyIdx].trim().toUpperCase()
+          : homeCurrency;
+        const settledAmount = settledIdx !== -1 ? parseFloat(cells[settledIdx] || '') : NaN;
+        const rate = rateIdx !== -1 ? parseFloat(cells[rateIdx] || '') : NaN;
+        if (settledCurrency !== transaction.originalCurrency) {
+          if (settledAmount > 0) {
+            transaction.settledAmount = toAmount(money(settledAmount, settledCurrency));
+            transaction.settledCurrency = settledCurrency;
+          } else if (rate > 0) {
+            transaction.settledAmount = toAmount(money(transaction.amount * rate, settledCurrency));
+            transaction.settledCurrency = settledCurrency;
+          }
+        }
+
         if (transaction.amount > 0) {
           transactions.push(transaction);
         }
@@ -162,19 +187,21 @@ export function useDataExportImport() {
     if (transactions.length === 0) return '';
     
     // Header row
-    const headers = ['title', 'amount', 'category', 'date', 'type', 'description', 'originalCurrency'];
+    const headers = ['title', 'amount', 'category', 'date', 'type', 'description', 'originalCurrency', 'settledAmount', 'settledCurrency'];
     const headerRow = headers.join(',');
     
     // Data rows
     const dataRows = transactions.map((t) => {
       return [
         `"${t.title.replace(/"/g, '""')}"`, // Escape quotes
-        t.amount,
+        toDecimalString(money(t.amount, t.originalCurrency || 'TRY')),
         t.category,
         t.date,
         t.type,
         t.description ? `"${t.description.replace(/"/g, '""')}"` : '',
         (t as any).originalCurrency || 'TRY',
+        t.settledAmount !== undefined && t.settledCurrency ? toDecimalString(money(t.settledAmount, t.settledCurrency)) : '',
+        t.settledCurrency ?? '',
       ].join(',');
     });
     
@@ -0,0 +1,18 @@
+import { useEffect } from 'react';
+import { useFinance } from './useFinance';
+
+/**
+ * Every stored transaction, for views over the whole history (balances,
+ * statements, analytics, exports). The app starts with only the recent
+ * months in memory; the first view to ask (`enabled`) reads the rest once.
+ * Until then `isLoaded` is false and `transactions` holds the recent months.
+ */
+export function useTransactionHistory(enabled = true) {
+  const { transactions, historyLoaded, loadHistory } = useFinance();
+
+  useEffect(() => {
+    if (enabled && !historyLoaded) void loadHistory();
+  }, [enabled, historyLoaded, loadHistory]);
+
+  return { transactions, isLoaded: historyLoaded };
+}
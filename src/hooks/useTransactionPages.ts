@@ -0,0 +1,60 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { Transaction } from '../types';
+import type { TransactionCursor, TransactionQuery } from '../db/StorageAdapter';
+import { useFinance } from './useFinance';
+
+const DEFAULT_PAGE_SIZE = 100;
+
+/**
+ * Transactions matching `query`, newest first, read from the store one page
+ * at a time. Pass a memoized query: a new object starts again from the first page.
+ *
+ * After a mutation the rows shown so far are re-read in one page, so the list
+ * keeps its length (and scroll position) while reflecting the change.
+ */
+export function useTransactionPages(query: TransactionQuery, pageSize = DEFAULT_PAGE_SIZE) {
+  const { transactionsVersion, getTransactionsPage } = useFinance();
+  const [items, setItems] = useState<Transaction[]>([]);
+  const [nextCursor, setNextCursor] = useState<TransactionCursor | null>(null);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  // Bumped on every reload so pages requested for older filters/data are dropped
+  const generation = useRef(0);
+  const shownCount = useRef(0);
+  const shownQuery = useRef(query);
+  const isLoadingMore = useRef(false);
+
+  // `transactionsVersion` is bumped by every mutation of the store
+  useEffect(() => {
+    const current = ++generation.current;
+    if (shownQuery.current !== query) {
+      shownQuery.current = query;
+      shownCount.current = 0;
+    }
+
+    getTransactionsPage(query, Math.max(pageSize, shownCount.current)).then((page) => {
+      if (!page || current !== generation.current) return;
+      shownCount.current = page.items.length;
+      setItems(page.items);
+      setNextCursor(page.nextCursor);
+      setIsLoaded(true);
+    });
+  }, [query, pageSize, transactionsVersion, getTransactionsPage]);
+
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || isLoadingMore.current) return;
+
+    isLoadingMore.current = true;
+    const current = generation.current;
+    const page = await getTransactionsPage(query, pageSize, nextCursor);
+    isLoadingMore.current = false;
+    if (!page || current !== generation.current) return;
+
+    const next = [...items, ...page.items];
+    shownCount.current = next.length;
+    setItems(next);
+    setNextCursor(page.nextCursor);
+  }, [items, nextCursor, query, pageSize, getTransactionsPage]);
+
+  return { items, hasMore: nextCursor !== null, isLoaded, loadMore };
+}
@@ -0,0 +1,77 @@
+import { useEffect, useRef, useState } from 'react';
+import type { TransactionQuery, TransactionTotal } from '../db/StorageAdapter';
+import { convertAt } from '../utils/exchange';
+import { add, money, negate, toAmount, zero, type Money } from '../utils/money';
+import { useFinance } from './useFinance';
+
+export interface TransactionStats {
+  totalIncome: number;
+  totalExpense: number;
+  totalSavings: number;     // Savings less withdrawals
+  count: number;
+}
+
+/**
+ * Totals of every transaction matching `query` in `currency`, added up by
+ * the store rather than from rows in memory. Each day's per-currency sum
+ * converts at that day's rate and the results add up as Money. Null until
+ * the first read. Reads are cached per query until the stored transactions
+ * change, so switching currency or going back to an earlier filter doesn't
+ * walk the store again.
+ */
+export function useTransactionTotals(query: TransactionQuery, currency: string): TransactionStats | null {
+  const { getTransactionTotals, transactionsVersion, valuation } = useFinance();
+  const [stats, setStats] = useState<TransactionStats | null>(null);
+  const cache = useRef({
+    version: transactionsVersion,
+    read: getTransactionTotals,
+    totals: new Map<string, Promise<TransactionTotal[] | null>>(),
+  });
+
+  useEffect(() => {
+    if (cache.current.version !== transactionsVersion || cache.current.read !== getTransactionTotals) {
+      cache.current = { version: transactionsVersion, read: getTransactionTotals, totals: new Map() };
+    }
+    const key = JSON.stringify(query);
+    let read = cache.current.totals.get(key);
+    if (!read) {
+      const totals = cache.current.totals;
+      read = getTransactionTotals(query);
+      // A failed read is tried again next time
+      read.then((result) => { if (!result) totals.delete(key); });
+      totals.set(key, read);
+    }
+
+    let cancelled = false;
+    read.then((totals) => {
+      if (cancelled || !totals) return;
+
+      const sums: Record<'income' | 'expense' | 'savings', Money> = {
+        income: zero(currency),
+        expense: zero(currency),
+        savings: zero(currency),
+      };
+      let count = 0;
+      for (const total of totals) {
+        count += total.count;
+        if (total.type === 'transfer') continue;
+        const amount = money(
+          total.currency === currency ? total.amount : convertAt(total.amount, total.currency, currency, total.date, valuation),
+          currency
+        );
+        if (total.type === 'withdrawal') sums.savings = add(sums.savings, negate(amount));
+        else sums[total.type] = add(sums[total.type], amount);
+      }
+
+      setStats({
+        totalIncome: toAmount(sums.income),
+        totalExpense: toAmount(sums.expense),
+        totalSavings: toAmount(sums.savings),
+        count,
+      });
+    });
+    return () => { cancelled = true; };
+  }, [query, currency, valuation, transactionsVersion, getTransactionTotals]);
+
+  return stats;
+}
@@ -1,14 +1,20 @@
 import { supabase, getCurrentUser } from './supabase';
 
+export interface CleanupResult {
+  deleted: number;
+  ids: string[];          // Ids of the deleted rows
+  error: string | null;
+}
+
 /**
  * Removes duplicate recurring transactions from the database.
  * Keeps only the first instance of each (recurring_id, date) pair.
  */
-export async function cleanupDuplicateTransactions(): Promise<{ deleted: number; error: string | null }> {
+export async function cleanupDuplicateTransactions(): Promise<CleanupResult> {
   try {
     const user = await getCurrentUser();
     if (!user) {
-      return { deleted: 0, error: 'User not authenticated' };
+      return { deleted: 0, ids: [], error: 'User not authenticated' };
     }
 
     // Get all recurring transactions for this user
@@ -21,11 +27,11 @@ export async function cleanupDuplicateTransactions(): Promise<{ deleted: number;
       .order('created_at', { ascending: true });
 
     if (fetchError) {
-      return { deleted: 0, error: fetchError.message };
+      return { deleted: 0, ids: [], error: fetchError.message };
     }
 
     if (!allTxs || allTxs.length === 0) {
-      return { deleted: 0, error: null };
+      return { deleted: 0, ids: [], error: null };
     }
 
     // Find duplicates: keep first, mark rest for deletion
@@ -45,7 +51,7 @@ export async function cleanupDuplicateTransactions(): Promise<{ deleted: number;
     }
 
     if (toDelete.length === 0) {
-      return { deleted: 0, error: null };
+      return { deleted: 0, ids: [], error: null };
     }
 
     // Delete duplicates
@@ -55,14 +61,15 @@ export async function cleanupDuplicateTransactions(): Promise<{ deleted: number;
       .in('id', toDelete);
 
     if (deleteError) {
-      return { deleted: 0, error: deleteError.message };
+      return { deleted: 0, ids: [], error: deleteError.message };
     }
 
     console.log(`✅ Cleaned up ${toDelete.length} duplicate transactions`);
-    return { deleted: toDelete.length, error: null };
+    return { deleted: toDelete.length, ids: toDelete, error: null };
   } catch (error) {
     return {
       deleted: 0,
+      ids: [],
       error: error instanceof Error ? error.message : 'Unknown error',
     };
   }
@@ -72,11 +79,11 @@ export async function cleanupDuplicateTransactions(): Promise<{ deleted: number;
  * Removes duplicate budget entries from the database.
  * Keeps only the first instance of each (user_id, category) pair.
  */
-export async function cleanupDuplicateBudgets(): Promise<{ deleted: number; error: string | null }> {
+export async function cleanupDuplicateBudgets(): Promise<CleanupResult> {
   try {
     const user = await getCurrentUser();
     if (!user) {
-      return { deleted: 0, error: 'User not authenticated' };
+      return { deleted: 0, ids: [], error: 'User not authenticated' };
     }
 
     // Get all budgets for this user
@@ -87,11 +94,11 @@ export async function cleanupDuplicateBudgets(): Promise<{ deleted: number; erro
       .order('created_at', { ascending: true });
 
     if (fetchError) {
-      return { deleted: 0, error: fetchError.message };
+      return { deleted: 0, ids: [], error: fetchError.message };
     }
 
     if (!allBudgets || allBudgets.length === 0) {
-      return { deleted: 0, error: null };
+      return { deleted: 0, ids: [], error: null };
     }
 
     // Find duplicates: keep first, mark rest for deletion
@@ -109,7 +116,7 @@ export async function cleanupDuplicateBudgets(): Promise<{ deleted: number; erro
     }
 
     if (toDelete.length === 0) {
-      return { deleted: 0, error: null };
+      return { deleted: 0, ids: [], error: null };
     }
 
     // Delete duplicates
@@ -119,14 +126,15 @@ export async function cleanupDuplicateBudgets(): Promise<{ deleted: number; erro
       .in('id', toDelete);
 
     if (deleteError) {
-      return { deleted: 0, error: deleteError.message };
+      return { deleted: 0, ids: [], error: deleteError.message };
     }
 
     console.log(`✅ Cleaned up ${toDelete.length} duplicate budgets`);
-    return { deleted: toDelete.length, error: null };
+    return { deleted: toDelete.length, ids: toDelete, error: null };
   } catch (error) {
     return {
       deleted: 0,
+      ids: [],
       error: error instanceof Error ? error.message : 'Unknown error',
     };
   }
@@ -138,6 +146,7 @@ export async function cleanupDuplicateBudgets(): Promise<{ deleted: number; erro
 export async function runCleanup(): Promise<{
   transactions: number;
   budgets: number;
+  deletedIds: { transactions: string[]; budgets: string[] };
   errors: string[];
 }> {
   const errors: string[] = [];
@@ -161,6 +170,7 @@ export async function runCleanup(): Promise<{
   return {
     transactions: txResult.deleted,
     budgets: budgetResult.deleted,
+    deletedIds: { transactions: txResult.ids, budgets: budgetResult.ids },
     errors,
   };
 }
@@ -7,9 +7,11 @@ if (!supabaseUrl || !supabaseAnonKey) {
   console.warn('[Supabase] URL or Anon Key not configured. Cloud features will be disabled.');
 }
 
+// createClient() throws on an empty URL, so fall back to an inert placeholder
+// when cloud is not configured. Callers gate cloud access on isSupabaseConfigured().
 export const supabase = createClient(
-  supabaseUrl || '',
-  supabaseAnonKey || '',
+  supabaseUrl || 'http://localhost:54321',
+  supabaseAnonKey || 'local-only',
   {
     auth: {
       autoRefreshToken: true,
@@ -26,6 +28,7 @@ export const isSupabaseConfigured = (): boolean => {
 
 // Auth helper functions
 export const getCurrentUser = async () => {
+  if (!isSupabaseConfigured()) return null;
   const { data: { user }, error } = await supabase.auth.getUser();
   if (error) throw error;
   return user;
@@ -1,19 +1,24 @@
 import { useMemo, useState } from 'react';
 import { TrendingUp, TrendingDown, DollarSign, PieChart, Calendar, Award, Download, FileText, BarChart2 } from 'lucide-react';
-import type { Transaction } from '../types';
-import { formatCurrency } from '../utils/formatters';
+import type { Transaction, CurrencyCode } from '../types';
+import { formatCurrency, dateToISOString } from '../utils/formatters';
 import { translateCategory } from '../utils/i18n';
 import { AreaChart, Area, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, Cell } from 'recharts';
 import { Card } from '../components/ui/Card';
 import { DateRangeSelector, type DateRange } from '../components/analytics/DateRangeSelector';
+import { FxGainPanel } from '../components/analytics/FxGainPanel';
 import { Button } from '../components/ui/Button';
 import { exportTransactionsCSV, exportMonthlyBreakdownCSV, exportCategoryBreakdownCSV, exportAnalyticsSummaryCSV } from '../utils/export';
 import { NoAnalyticsDataEmpty } from '../components/ui/EmptyState';
+import { SkeletonDashboard } from '../components/ui/Skeleton';
+import { useAggregation } from '../hooks/useAggregation';
+import { useFinance } from '../hooks/useFinance';
+import { rollupMonthlyTotals } from '../utils/rollups';
 
 interface AnalyticsPageProps {
   transactions: Transaction[];
   language: 'tr' | 'en';
-  currency: 'TRY' | 'USD' | 'EUR' | 'GBP';
+  currency: CurrencyCode;
   getDisplayAmount: (transaction: Transaction) => number;
 }
 
@@ -25,6 +30,8 @@ const COLORS = {
 };
 
 export function AnalyticsPage({ transactions, language, currency, getDisplayAmount }: AnalyticsPageProps) {
+  const { rollups, valuation } = useFinance();
+
   // Date range state (default: last 6 months)
   const [dateRange, setDateRange] = useState<DateRange>(() => {
     const end = new Date();
@@ -36,18 +43,33 @@ export function AnalyticsPage({ transactions, language, currency, getDisplayAmou
   // Export menu state
   const [showExportMenu, setShowExportMenu] = useState(false);
 
+  // Inclusive YYYY-MM-DD bounds of the selected range
+  const bounds = useMemo(
+    () => ({ from: dateToISOString(dateRange.start), to: dateToISOString(dateRange.end) }),
+    [dateRange]
+  );
+
   // Filter transactions by date range
   const filteredTransactions = useMemo(() => {
-    return transactions.filter(t => {
-      const tDate = new Date(t.date);
-      return tDate >= dateRange.start && tDate <= dateRange.end;
-    });
-  }, [transactions, dateRange]);
+    return transactions.filter(t => t.date >= bounds.from && t.date <= bounds.to);
+  }, [transactions, bounds]);
+
+  // Monthly trend bars cover whole months, so they come from the rollup store
+  const monthlyTotals = useMemo(
+    () => rollups && rollupMonthlyTotals(rollups, currency, { from: bounds.from.slice(0, 7), to: bounds.to.slice(0, 7) }, valuation),
+    [rollups, currency, bounds, valuation]
+  );
+
+  // Exact-range totals come from the aggregation worker; null until the first result arrives
+  const expenseTotals = useAggregation(transactions, currency, { kind: 'categoryBreakdown', type: 'expense', ...bounds });
+  const periodSummary = useAggregation(transactions, currency, { kind: 'periodSummary', ...bounds });
+  const isAggregating = !monthlyTotals || !expenseTotals || !periodSummary;
 
   // Calculate spending trends over the selected date range
   const spendingTrends = useMemo(() => {
     const end = new Date(dateRange.end);
     const months: { month: string; income: number; expense: number; savings: number; net: number }[] = [];
+    const byMonth = new Map((monthlyTotals ?? []).map(m => [m.month, m]));
     
     // Calculate number of months to display (max 12)
     const start = new Date(dateRange.start);
@@ -57,81 +79,45 @@ export function AnalyticsPage({ transactions, language, currency, getDisplayAmou
     for (let i = monthsToShow - 1; i >= 0; i--) {
       const date = new Date(end.getFullYear(), end.getMonth() - i, 1);
       const monthKey = date.toLocaleDateString(language === 'tr' ? 'tr-TR' : 'en-US', { month: 'short', year: '2-digit' });
+      const totals = byMonth.get(`${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`);
       
-      const monthTransactions = filteredTransactions.filter(t => {
-        const tDate = new Date(t.date);
-        return tDate.getMonth() === date.getMonth() && tDate.getFullYear() === date.getFullYear();
-      });
-      
-      const income = monthTransactions
-        .filter(t => t.type === 'income')
-        .reduce((sum, t) => sum + getDisplayAmount(t), 0);
-      
-      const expense = monthTransactions
-        .filter(t => t.type === 'expense')
-        .reduce((sum, t) => sum + getDisplayAmount(t), 0);
-      
-      const savings = monthTransactions
-        .filter(t => t.type === 'savings')
-        .reduce((sum, t) => sum + getDisplayAmount(t), 0);
+      const income = totals?.income ?? 0;
+      const expense = totals?.expense ?? 0;
       
       months.push({
         month: monthKey,
         income,
         expense,
-        savings,
+        savings: totals?.savings ?? 0,
         net: income - expense
       });
     }
     
     return months;
-  }, [filteredTransactions, language, getDisplayAmount, dateRange]);
+  }, [monthlyTotals, language, dateRange]);
 
   // Category breakdown for expenses
   const categoryBreakdown = useMemo(() => {
-    const categoryMap = new Map<string, number>();
-    
-    filteredTransactions
-      .filter(t => t.type === 'expense')
-      .forEach(t => {
-        const amount = getDisplayAmount(t);
-        categoryMap.set(t.category, (categoryMap.get(t.category) || 0) + amount);
-      });
-    
-    return Array.from(categoryMap.entries())
-      .map(([category, amount]) => ({
-        category: translateCategory(category, language),
-        amount,
-        percentage: 0
-      }))
-      .sort((a, b) => b.amount - a.amount)
+    return (expenseTotals ?? [])
       .slice(0, 8)
-      .map((item, _, arr) => {
+      .map(({ category, amount }, _, arr) => {
         const total = arr.reduce((sum, i) => sum + i.amount, 0);
         return {
-          ...item,
-          percentage: total > 0 ? (item.amount / total) * 100 : 0
+          category: translateCategory(category, language),
+          amount,
+          percentage: total > 0 ? (amount / total) * 100 : 0
         };
       });
-  }, [filteredTransactions, language, getDisplayAmount]);
+  }, [expenseTotals, language]);
 
   // Financial insights (based on filtered transactions)
   const insights = useMemo(() => {
-    const totalIncome = filteredTransactions
-      .filter(t => t.type === 'income')
-      .reduce((sum, t) => sum + getDisplayAmount(t), 0);
-
-    const totalExpense = filteredTransactions
-      .filter(t => t.type === 'expense')
-      .reduce((sum, t) => sum + getDisplayAmount(t), 0);
+    const totalIncome = periodSummary?.income ?? 0;
+    const totalExpense = periodSummary?.expense ?? 0;
+    const totalSavings = periodSummary?.savings ?? 0;
 
-    const totalSavings = filteredTransactions
-      .filter(t => t.type === 'savings')
-      .reduce((sum, t) => sum + getDisplayAmount(t), 0);
-
-    const biggestExpense = filteredTransactions
-      .filter(t => t.type === 'expense')
-      .sort((a, b) => getDisplayAmount(b) - getDisplayAmount(a))[0];
+    const biggestId = periodSummary?.largestExpense?.id;
+    const biggestExpense = biggestId ? filteredTransactions.find(t => t.id === biggestId) : undefined;
 
     // Calculate days in range
     const daysDiff = Math.ceil((dateRange.end.getTime() - dateRange.start.getTime()) / (1000 * 60 * 60 * 24));
@@ -152,7 +138,7 @@ export function AnalyticsPage({ transactions, language, currency, getDisplayAmou
       savingsRate,
       dayCount: daysDiff
     };
-  }, [filteredTransactions, categoryBreakdown, getDisplayAmount, dateRange]);
+  }, [periodSummary, filteredTransactions, categoryBreakdown, dateRange]);
 
   return (
     <div className="space-y-6">
@@ -172,6 +158,7 @@ export function AnalyticsPage({ transactions, language, currency, getDisplayAmou
           <Button
             variant="secondary"
             onClick={() => setShowExportMenu(!showExportMenu)}
+            disabled={isAggregating}
             className="flex items-center gap-2"
           >
             <Download className="w-4 h-4" />
@@ -296,6 +283,8 @@ export function AnalyticsPage({ transactions, language, currency, getDisplayAmou
       {/* Empty State */}
       {filteredTransactions.length === 0 ? (
         <NoAnalyticsDataEmpty language={language} />
+      ) : isAggregating ? (
+        <SkeletonDashboard />
       ) : (
         <>
       {/* Insight Cards */}
@@ -546,6 +535,9 @@ export function AnalyticsPage({ transactions, language, currency, getDisplayAmou
       </div>
       </>
       )}
+
+      {/* FX gain/loss covers all foreign savings, not just the selected range */}
+      <FxGainPanel transactions={transactions} language={language} currency={currency} />
     </div>
   );
 }
@@ -11,11 +11,12 @@ import { BudgetProgressBar } from '../components/budget/BudgetProgressBar';
 import { translateCategory } from '../utils/i18n';
 import { formatCurrency } from '../utils/formatters';
 import { EXPENSE_CATEGORIES } from '../types';
+import type { CurrencyCode } from '../types';
 import { NoBudgetsEmpty } from '../components/ui/EmptyState';
 
 interface BudgetPageProps {
   language: 'tr' | 'en';
-  currency: 'TRY' | 'USD' | 'EUR' | 'GBP';
+  currency: CurrencyCode;
   selectedMonth: number;
   selectedYear: number;
 }
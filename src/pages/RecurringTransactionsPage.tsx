@@ -8,7 +8,7 @@ import { Modal } from '../components/ui/Modal';
 import { Input } from '../components/ui/Input';
 import { Select } from '../components/ui/Select';
 import { t, translateCategory } from '../utils/i18n';
-import type { RecurringFrequency } from '../types';
+import type { RecurringFrequency, CurrencyCode } from '../types';
 import { formatCurrency, formatDate } from '../utils/formatters';
 import { INCOME_CATEGORIES, EXPENSE_CATEGORIES, SAVINGS_CATEGORIES } from '../types';
 import type { RecurringTransaction } from '../types';
@@ -16,7 +16,7 @@ import { NoRecurringEmpty } from '../components/ui/EmptyState';
 
 interface RecurringTransactionsPageProps {
   language: 'tr' | 'en';
-  currency: 'TRY' | 'USD' | 'EUR' | 'GBP';
+  currency: CurrencyCode;
 }
 
 export function RecurringTransactionsPage({ language, currency }: RecurringTransactionsPageProps) {
@@ -32,8 +32,8 @@ export function RecurringTransactionsPage({ language, currency }: RecurringTrans
     const confirmed = await showConfirm({
       title: language === 'tr' ? 'Tekrarlayan İşlemi Sil' : 'Delete Recurring Transaction',
       message: language === 'tr'
-        ? 'Bu tekrarlayan işlemi silmek istediğinizden emin misiniz? Bu işlem geri alınamaz.'
-        : 'Are you sure you want to delete this recurring transaction? This action cannot be undone.',
+        ? 'Bu tekrarlayan işlemi silmek istediğinizden emin misiniz? Ctrl+Z ile geri alabilirsiniz.'
+        : 'Are you sure you want to delete this recurring transaction? You can undo it with Ctrl+Z.',
       type: 'danger',
       confirmText: language === 'tr' ? 'Sil' : 'Delete',
       cancelText: language === 'tr' ? 'İptal' : 'Cancel',
@@ -221,7 +221,7 @@ export function RecurringTransactionsPage({ language, currency }: RecurringTrans
 interface EditRecurringModalProps {
   recurring: RecurringTransaction;
   language: 'tr' | 'en';
-  currency: 'TRY' | 'USD' | 'EUR' | 'GBP';
+  currency: CurrencyCode;
   onClose: () => void;
   onSave: (updates: Partial<Omit<RecurringTransaction, 'id' | 'isActive'>>, applyToExisting?: boolean) => void;
 }
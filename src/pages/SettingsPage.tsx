@@ -4,11 +4,23 @@ import { Select } from '../components/ui/Select';
 import { Modal } from '../components/ui/Modal';
 import { Card } from '../components/ui/Card';
 import { useFinance } from '../hooks/useFinance';
+import { useTransactionHistory } from '../hooks/useTransactionHistory';
 import { useAuth } from '../context/AuthContext';
 import { signOut } from '../lib/supabase';
 import { useDataExportImport } from '../hooks/useDataExportImport';
 import { SyncStatusIndicator } from '../components/sync/SyncStatusIndicator';
-import type { AppSettings } from '../types';
+import { EncryptionSettingsPanel } from '../components/security/EncryptionSettingsPanel';
+import { CloudEncryptionPanel } from '../components/security/CloudEncryptionPanel';
+import { SnapshotPanel } from '../components/snapshots/SnapshotPanel';
+import { IntegrityPanel } from '../components/integrity/IntegrityPanel';
+import { RollupPanel } from '../components/integrity/RollupPanel';
+import { RateHistoryPanel } from '../components/rates/RateHistoryPanel';
+import { UnitPricesPanel } from '../components/rates/UnitPricesPanel';
+import { AccountsPanel } from '../components/accounts/AccountsPanel';
+import { RateSourcesPanel } from '../components/rates/RateSourcesPanel';
+import { EnabledCurrenciesField } from '../components/rates/EnabledCurrenciesField';
+import { currencyOption, currencyPairs, enabledCurrencies } from '../utils/currencies';
+import type { AppSettings, CurrencyCode, CurrencyPair, CustomUnit } from '../types';
 
 interface SettingsPageProps {
   isOpen: boolean;
@@ -18,8 +30,10 @@ interface SettingsPageProps {
 }
 
 export function SettingsPage({ isOpen, onClose, onRefreshRates, isFetchingRates = false }: SettingsPageProps) {
-  const { settings, updateSettings, transactions, addBulkTransactions } = useFinance();
-  const { user, isAuthenticated, isCloudEnabled } = useAuth();
+  const { settings, updateSettings, addBulkTransactions } = useFinance();
+  // Exports and the import dialog's count cover the whole history
+  const { transactions } = useTransactionHistory(isOpen);
+  const { user, isAuthenticated, isCloudEnabled, disableLocalMode } = useAuth();
   const { downloadJSON, downloadCSV, importFromJSON, importFromCSV } = useDataExportImport();
   const [formData, setFormData] = useState<AppSettings>(settings);
   const [importMessage, setImportMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
@@ -85,6 +99,8 @@ export function SettingsPage({ isOpen, onClose, onRefreshRates, isFetchingRates
           type: t.type || 'expense',
           description: t.description,
           originalCurrency: (t as any).originalCurrency || 'TRY',
+          settledAmount: t.settledAmount,
+          settledCurrency: t.settledCurrency,
         }));
         
         // Show import mode dialog if there are existing transactions
@@ -145,7 +161,7 @@ export function SettingsPage({ isOpen, onClose, onRefreshRates, isFetchingRates
     
     try {
       const text = await file.text();
-      const result = importFromCSV(text);
+      const result = importFromCSV(text, settings.currency);
       
       if (result.success && result.data) {
         const transactionsToAdd = result.data.transactions.map((t) => ({
@@ -157,6 +173,8 @@ export function SettingsPage({ isOpen, onClose, onRefreshRates, isFetchingRates
           type: t.type || 'expense',
           description: t.description,
           originalCurrency: (t as any).originalCurrency || 'TRY',
+          settledAmount: t.settledAmount,
+          settledCurrency: t.settledCurrency,
         }));
         
         // Show import mode dialog if there are existing transactions
@@ -256,8 +274,8 @@ export function SettingsPage({ isOpen, onClose, onRefreshRates, isFetchingRates
       // Close dialog immediately for better UX
       onClose();
       
-      // Persist to database in background
-      updateSettings(formData).then((success) => {
+      // Persist to database in background (accounts are saved by their panel as they change)
+      updateSettings({ ...formData, accounts: settings.accounts }).then((success) => {
         if (success) {
           console.log('[SettingsPage] Settings saved successfully');
           setImportMessage({ 
@@ -284,6 +302,28 @@ export function SettingsPage({ isOpen, onClose, onRefreshRates, isFetchingRates
     }
   };
 
+  // Currencies enabled in the form being edited
+  const formCurrencies = enabledCurrencies(formData);
+
+  // A pair using a removed currency falls back to the first remaining pair
+  const handleEnabledCurrenciesChange = (codes: CurrencyCode[]) => {
+    const pair = formData.currencyPair || 'TRY-USD';
+    const pairs = currencyPairs(codes);
+    setFormData({
+      ...formData,
+      enabledCurrencies: codes,
+      currencyPair: pairs.includes(pair) ? pair : pairs[0] ?? formData.currencyPair,
+    });
+  };
+
+  // Units added or removed in the unit prices panel are saved right away; keep the form in step
+  const handleUnitsChange = (customUnits: CustomUnit[], code: CurrencyCode, enabled: boolean) => {
+    setFormData((prev) => {
+      const codes = enabledCurrencies(prev).filter((enabledCode) => enabledCode !== code);
+      return { ...prev, customUnits, enabledCurrencies: enabled ? [...codes, code] : codes };
+    });
+  };
+
   const handleCancel = () => {
     setFormData(settings);
     onClose();
@@ -336,6 +376,18 @@ export function SettingsPage({ isOpen, onClose, onRefreshRates, isFetchingRates
           </Card>
         </section>
 
+        {/* Accounts Section */}
+        <section className="space-y-3">
+          <h3 className="text-sm font-semibold text-slate-900 dark:text-white flex items-center gap-2">
+            <span>🏦</span>
+            {settings.language === 'tr' ? 'Hesaplar' : 'Accounts'}
+          </h3>
+
+          <Card className="p-4">
+            <AccountsPanel />
+          </Card>
+        </section>
+
         {/* Currency Section */}
         <section className="space-y-3">
           <h3 className="text-sm font-semibold text-slate-900 dark:text-white flex items-center gap-2">
@@ -353,13 +405,8 @@ export function SettingsPage({ isOpen, onClose, onRefreshRates, isFetchingRates
                 <div className="w-1/2">
                   <Select
                     value={formData.currency}
-                    onChange={(e) => setFormData({ ...formData, currency: e.target.value as any })}
-                    options={[
-                      { value: 'TRY', label: 'TRY (₺)' },
-                      { value: 'USD', label: 'USD ($)' },
-                      { value: 'EUR', label: 'EUR (€)' },
-                      { value: 'GBP', label: 'GBP (£)' },
-                    ]}
+                    onChange={(e) => setFormData({ ...formData, currency: e.target.value })}
+                    options={formCurrencies.map(currencyOption)}
                   />
                 </div>
                 <div className="flex flex-col gap-1 flex-1">
@@ -378,6 +425,14 @@ export function SettingsPage({ isOpen, onClose, onRefreshRates, isFetchingRates
               </div>
             </div>
 
+            {/* Kullanılan Para Birimleri */}
+            <EnabledCurrenciesField
+              value={formCurrencies}
+              onChange={handleEnabledCurrenciesChange}
+              language={settings.language}
+              locked={formData.currency}
+            />
+
             {/* Kur Çifti */}
             <div>
               <label htmlFor="pair-select" className="block text-xs font-medium text-slate-700 dark:text-slate-300 mb-2">
@@ -385,17 +440,8 @@ export function SettingsPage({ isOpen, onClose, onRefreshRates, isFetchingRates
               </label>
               <Select
                 value={formData.currencyPair || 'TRY-USD'}
-                onChange={(e) => setFormData({ ...formData, currencyPair: e.target.value as any })}
-                options={[
-                  { value: 'TRY-USD', label: 'TRY/USD (₺/$)' },
-                  { value: 'USD-TRY', label: 'USD/TRY ($/₺)' },
-                  { value: 'EUR-USD', label: 'EUR/USD (€/$)' },
-                  { value: 'USD-EUR', label: 'USD/EUR ($/€)' },
-                  { value: 'TRY-EUR', label: 'TRY/EUR (₺/€)' },
-                  { value: 'EUR-TRY', label: 'EUR/TRY (€/₺)' },
-                  { value: 'GBP-USD', label: 'GBP/USD (£/$)' },
-                  { value: 'USD-GBP', label: 'USD/GBP ($/£)' },
-                ]}
+                onChange={(e) => setFormData({ ...formData, currencyPair: e.target.value as CurrencyPair })}
+                options={currencyPairs(formCurrencies).map((pair) => ({ value: pair, label: pair.replace('-', '/') }))}
               />
               <p className="text-xs text-slate-500 dark:text-slate-400 mt-2">
                 {settings.language === 'tr' 
@@ -403,6 +449,54 @@ export function SettingsPage({ isOpen, onClose, onRefreshRates, isFetchingRates
                   : 'Choose the currency pair displayed in the header. Currency toggle will switch between them.'}
               </p>
             </div>
+
+            {/* Kur Kaynağı */}
+            <div>
+              <label htmlFor="rate-provider-select" className="block text-xs font-medium text-slate-700 dark:text-slate-300 mb-2">
+                {settings.language === 'tr' ? 'Kur Kaynağı' : 'Rate Source'}
+              </label>
+              <Select
+                value={formData.rateProvider || 'api'}
+                onChange={(e) => setFormData({ ...formData, rateProvider: e.target.value as AppSettings['rateProvider'] })}
+                options={[
+                  { value: 'api', label: settings.language === 'tr' ? 'İnternet (open.er-api.com)' : 'Online (open.er-api.com)' },
+                  { value: 'manual', label: settings.language === 'tr' ? 'Elle giriş' : 'Manual entry' },
+                  { value: 'file', label: settings.language === 'tr' ? 'Kur dosyası (çevrimdışı)' : 'Rate file (offline)' },
+                ]}
+              />
+            </div>
+
+            {/* Değerleme */}
+            <div>
+              <label htmlFor="valuation-select" className="block text-xs font-medium text-slate-700 dark:text-slate-300 mb-2">
+                {settings.language === 'tr' ? 'Geçmiş İşlemlerin Değerlemesi' : 'Valuation of Past Transactions'}
+              </label>
+              <Select
+                value={formData.valuation || 'historical'}
+                onChange={(e) => setFormData({ ...formData, valuation: e.target.value as AppSettings['valuation'] })}
+                options={[
+                  { value: 'historical', label: settings.language === 'tr' ? 'İşlem tarihindeki kur' : 'Rate on the transaction date' },
+                  { value: 'current', label: settings.language === 'tr' ? 'Bugünün kuru' : 'Today\'s rate' },
+                ]}
+              />
+              <p className="text-xs text-slate-500 dark:text-slate-400 mt-2">
+                {settings.language === 'tr'
+                  ? 'Yabancı para birimindeki işlemler, bilinen en yakın tarihli kurla ya da bugünün kuruyla çevrilir.'
+                  : 'Transactions in other currencies convert at the closest known rate to their date, or at today\'s rate.'}
+              </p>
+            </div>
+          </Card>
+
+          <Card className="p-4">
+            <RateSourcesPanel onRefreshRates={onRefreshRates} />
+          </Card>
+
+          <Card className="p-4">
+            <UnitPricesPanel onUnitsChange={handleUnitsChange} />
+          </Card>
+
+          <Card className="p-4">
+            <RateHistoryPanel />
           </Card>
         </section>
 
@@ -453,6 +547,12 @@ export function SettingsPage({ isOpen, onClose, onRefreshRates, isFetchingRates
                         ? 'Verileriniz sadece bu cihazda saklanır.' 
                         : 'Your data is stored locally only.'}
                     </p>
+                    <button
+                      onClick={disableLocalMode}
+                      className="mt-2 text-xs font-medium text-indigo-600 dark:text-indigo-400 hover:underline"
+                    >
+                      {settings.language === 'tr' ? 'Senkronizasyon için giriş yap' : 'Sign in to sync'}
+                    </button>
                   </div>
                 </div>
               )}
@@ -460,6 +560,47 @@ export function SettingsPage({ isOpen, onClose, onRefreshRates, isFetchingRates
           </section>
         )}
 
+        {/* Security Section */}
+        <section className="space-y-3">
+          <h3 className="text-sm font-semibold text-slate-900 dark:text-white flex items-center gap-2">
+            <span>🔒</span>
+            {settings.language === 'tr' ? 'Güvenlik' : 'Security'}
+          </h3>
+
+          <Card className="p-4 space-y-3">
+            <EncryptionSettingsPanel />
+            {isCloudEnabled && isAuthenticated && <CloudEncryptionPanel />}
+          </Card>
+        </section>
+
+        {/* Snapshots Section */}
+        <section className="space-y-3">
+          <h3 className="text-sm font-semibold text-slate-900 dark:text-white flex items-center gap-2">
+            <span>📸</span>
+            {settings.language === 'tr' ? 'Anlık Görüntüler' : 'Snapshots'}
+          </h3>
+
+          <Card className="p-4">
+            <SnapshotPanel />
+          </Card>
+        </section>
+
+        {/* Data Integrity Section */}
+        <section className="space-y-3">
+          <h3 className="text-sm font-semibold text-slate-900 dark:text-white flex items-center gap-2">
+            <span>🩺</span>
+            {settings.language === 'tr' ? 'Veri Bütünlüğü' : 'Data Integrity'}
+          </h3>
+
+          <Card className="p-4">
+            <IntegrityPanel />
+          </Card>
+
+          <Card className="p-4">
+            <RollupPanel />
+          </Card>
+        </section>
+
         {/* Data Management Section */}
         <section className="space-y-3">
           <h3 className="text-sm font-semibold text-slate-900 dark:text-white flex items-center gap-2">
@@ -1,104 +1,98 @@
-import { useState, useMemo } from 'react';
+import { useState, useMemo, useEffect } from 'react';
 import { Card } from '../components/ui/Card';
+import { VirtualList } from '../components/ui/VirtualList';
 import { useFinance } from '../hooks/useFinance';
+import { useTransactionPages } from '../hooks/useTransactionPages';
+import { useTransactionHistory } from '../hooks/useTransactionHistory';
+import { useTransactionTotals, type TransactionStats } from '../hooks/useTransactionTotals';
 import { useAlert } from '../hooks/useAlert';
 import { TransactionForm } from '../components/transactions/TransactionForm';
-import type { Transaction } from '../types';
+import type { Transaction, CurrencyCode } from '../types';
 import { formatCurrency } from '../utils/formatters';
 import { t, translateCategory } from '../utils/i18n';
 import { Pencil, Trash2, Search, Filter, X } from 'lucide-react';
-import { convertCurrency } from '../utils/exchange';
+import { convertTransaction } from '../utils/exchange';
+import { runningBalances } from '../utils/accounts';
 import { NoSearchResultsEmpty } from '../components/ui/EmptyState';
+import type { TransactionQuery } from '../db/transactionQuery';
+
+// Fixed row sizes (px) let the list mount only the visible rows
+const ROW_HEIGHT = 64;
+const CARD_HEIGHT = 200;
+const LIST_MAX_HEIGHT = 640;
+const TABLE_COLUMNS = 'grid-cols-[8rem_minmax(0,1fr)_9rem_8rem_9rem_7rem]';
+
+// Each search walks the store, so it waits until typing pauses
+const SEARCH_DEBOUNCE_MS = 300;
+
+const NO_STATS: TransactionStats = { totalIncome: 0, totalExpense: 0, totalSavings: 0, count: 0 };
 
 interface TransactionsPageProps {
   language: 'tr' | 'en';
-  currency: 'TRY' | 'USD' | 'EUR' | 'GBP';
+  currency: CurrencyCode;
   selectedMonth: number;
   selectedYear: number;
 }
 
 export function TransactionsPage({ language, currency }: TransactionsPageProps) {
-  const { transactions, deleteTransaction, updateTransaction } = useFinance();
+  const { rollups, settings, valuation, deleteTransaction, updateTransaction } = useFinance();
   const { showConfirm, AlertComponent } = useAlert();
   const [editingTransaction, setEditingTransaction] = useState<Transaction | undefined>(undefined);
   
   // Filter states
   const [searchQuery, setSearchQuery] = useState('');
+  const [debouncedSearch, setDebouncedSearch] = useState('');
   const [filterType, setFilterType] = useState<string>('all');
   const [filterCategory, setFilterCategory] = useState<string>('all');
+  const [filterAccount, setFilterAccount] = useState<string>('all');
   const [showFilters, setShowFilters] = useState(false);
   const [dateRangeStart, setDateRangeStart] = useState('');
   const [dateRangeEnd, setDateRangeEnd] = useState('');
 
-  // Get unique categories from transactions
+  // Categories in use, from the rollups (one row per month, type and category)
   const categories = useMemo(() => {
-    const cats = new Set(transactions.map(t => t.category));
+    const cats = new Set((rollups ?? []).map(r => r.category));
     return Array.from(cats).sort();
-  }, [transactions]);
-
-  // Filter and search transactions
-  const filteredTransactions = useMemo(() => {
-    let filtered = [...transactions];
-
-    // Search filter (title or description)
-    if (searchQuery.trim()) {
-      const query = searchQuery.toLowerCase();
-      filtered = filtered.filter(t => 
-        t.title?.toLowerCase().includes(query) ||
-        t.description?.toLowerCase().includes(query) ||
-        t.category.toLowerCase().includes(query)
-      );
-    }
-
-    // Type filter
-    if (filterType !== 'all') {
-      filtered = filtered.filter(t => t.type === filterType);
-    }
-
-    // Category filter
-    if (filterCategory !== 'all') {
-      filtered = filtered.filter(t => t.category === filterCategory);
-    }
-
-    // Date range filter
-    if (dateRangeStart) {
-      filtered = filtered.filter(t => new Date(t.date) >= new Date(dateRangeStart));
-    }
-    if (dateRangeEnd) {
-      filtered = filtered.filter(t => new Date(t.date) <= new Date(dateRangeEnd));
-    }
+  }, [rollups]);
+
+  const accounts = useMemo(() => settings.accounts ?? [], [settings.accounts]);
+  const selectedAccount = accounts.find(account => account.id === filterAccount);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(searchQuery.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchQuery]);
+
+  // Filters run in the store; pages are read as the list scrolls
+  const query = useMemo<TransactionQuery>(
+    () => ({
+      search: debouncedSearch || undefined,
+      type: filterType === 'all' ? undefined : (filterType as Transaction['type']),
+      category: filterCategory === 'all' ? undefined : filterCategory,
+      accountId: filterAccount === 'all' ? undefined : filterAccount,
+      startDate: dateRangeStart || undefined,
+      endDate: dateRangeEnd || undefined,
+    }),
+    [debouncedSearch, filterType, filterCategory, filterAccount, dateRangeStart, dateRangeEnd]
+  );
+  const { items: pagedTransactions, isLoaded, loadMore } = useTransactionPages(query);
 
-    // Sort by date (newest first)
-    filtered.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
-
-    return filtered;
-  }, [transactions, searchQuery, filterType, filterCategory, dateRangeStart, dateRangeEnd]);
-
-  // Calculate statistics
-  const stats = useMemo(() => {
-    let totalIncome = 0;
-    let totalExpense = 0;
-    let totalSavings = 0;
-
-    filteredTransactions.forEach(t => {
-      const from = (t as any).originalCurrency || 'TRY';
-      const amount = from === currency ? t.amount : convertCurrency(t.amount, from, currency);
-      
-      if (t.type === 'income') totalIncome += amount;
-      else if (t.type === 'expense') totalExpense += amount;
-      else if (t.type === 'savings') totalSavings += amount;
-      else if (t.type === 'withdrawal') totalSavings -= amount;
-    });
+  // With an account selected, each row shows the account's balance after it
+  const history = useTransactionHistory(!!selectedAccount);
+  const balances = useMemo(
+    () => (selectedAccount && history.isLoaded ? runningBalances(selectedAccount, history.transactions, valuation) : null),
+    [selectedAccount, history.isLoaded, history.transactions, valuation]
+  );
 
-    return { totalIncome, totalExpense, totalSavings, count: filteredTransactions.length };
-  }, [filteredTransactions, currency]);
+  // Statistics cover every matching transaction, not just the pages loaded so far
+  const stats = useTransactionTotals(query, currency) ?? NO_STATS;
 
   const handleDelete = async (id: string) => {
     const confirmed = await showConfirm({
       title: language === 'tr' ? 'İşlemi Sil' : 'Delete Transaction',
       message: language === 'tr' 
-        ? 'Bu işlemi silmek istediğinizden emin misiniz? Bu işlem geri alınamaz.'
-        : 'Are you sure you want to delete this transaction? This action cannot be undone.',
+        ? 'Bu işlemi silmek istediğinizden emin misiniz? Ctrl+Z ile geri alabilirsiniz.'
+        : 'Are you sure you want to delete this transaction? You can undo it with Ctrl+Z.',
       type: 'danger',
       confirmText: language === 'tr' ? 'Sil' : 'Delete',
       cancelText: language === 'tr' ? 'İptal' : 'Cancel',
@@ -128,11 +122,12 @@ export function TransactionsPage({ language, currency }: TransactionsPageProps)
     setSearchQuery('');
     setFilterType('all');
     setFilterCategory('all');
+    setFilterAccount('all');
     setDateRangeStart('');
     setDateRangeEnd('');
   };
 
-  const hasActiveFilters = searchQuery || filterType !== 'all' || filterCategory !== 'all' || dateRangeStart || dateRangeEnd;
+  const hasActiveFilters = searchQuery || filterType !== 'all' || filterCategory !== 'all' || filterAccount !== 'all' || dateRangeStart || dateRangeEnd;
 
   return (
     <div className="space-y-6">
@@ -202,7 +197,7 @@ export function TransactionsPage({ language, currency }: TransactionsPageProps)
 
           {/* Filter Options */}
           {showFilters && (
-            <div className="grid grid-cols-1 md:grid-cols-4 gap-4 pt-4 border-t border-slate-200 dark:border-slate-700">
+            <div className={`grid grid-cols-1 ${accounts.length > 0 ? 'md:grid-cols-5' : 'md:grid-cols-4'} gap-4 pt-4 border-t border-slate-200 dark:border-slate-700`}>
               {/* Type Filter */}
               <div>
                 <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
@@ -218,9 +213,29 @@ export function TransactionsPage({ language, currency }: TransactionsPageProps)
                   <option value="expense">{t('expense', language)}</option>
                   <option value="savings">{t('savings', language)}</option>
                   <option value="withdrawal">{t('withdrawal', language)}</option>
+                  <option value="transfer">{t('transfer', language)}</option>
                 </select>
               </div>
 
+              {/* Account Filter */}
+              {accounts.length > 0 && (
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                    {language === 'tr' ? 'Hesap' : 'Account'}
+                  </label>
+                  <select
+                    value={filterAccount}
+                    onChange={(e) => setFilterAccount(e.target.value)}
+                    className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="all">{language === 'tr' ? 'Tümü' : 'All'}</option>
+                    {accounts.map(account => (
+                      <option key={account.id} value={account.id}>{account.name}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
               {/* Category Filter */}
               <div>
                 <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
@@ -269,194 +284,196 @@ export function TransactionsPage({ language, currency }: TransactionsPageProps)
       </Card>
 
       {/* Transactions List */}
-      {filteredTransactions.length === 0 ? (
+      {stats.count === 0 ? (
         <NoSearchResultsEmpty
           onClear={hasActiveFilters ? clearFilters : undefined}
           language={language}
         />
-      ) : (
+      ) : !isLoaded ? null : (
         <>
           {/* Desktop/Tablet Table View */}
           <Card className="overflow-hidden hidden md:block">
-            <div className="overflow-x-auto">
-              <table className="w-full">
-                <thead className="bg-slate-50 dark:bg-slate-800/50 border-b border-slate-200 dark:border-slate-700">
-                  <tr>
-                    <th className="px-4 py-3 text-left text-xs font-semibold text-slate-700 dark:text-slate-300 uppercase tracking-wider">
-                      {t('date', language)}
-                    </th>
-                    <th className="px-4 py-3 text-left text-xs font-semibold text-slate-700 dark:text-slate-300 uppercase tracking-wider">
-                      {t('title', language)}
-                    </th>
-                    <th className="px-4 py-3 text-left text-xs font-semibold text-slate-700 dark:text-slate-300 uppercase tracking-wider">
-                      {t('category', language)}
-                    </th>
-                    <th className="px-4 py-3 text-left text-xs font-semibold text-slate-700 dark:text-slate-300 uppercase tracking-wider">
-                      {language === 'tr' ? 'Tip' : 'Type'}
-                    </th>
-                    <th className="px-4 py-3 text-right text-xs font-semibold text-slate-700 dark:text-slate-300 uppercase tracking-wider">
-                      {t('amount', language)}
-                    </th>
-                    <th className="px-4 py-3 text-right text-xs font-semibold text-slate-700 dark:text-slate-300 uppercase tracking-wider">
-                      {language === 'tr' ? 'İşlemler' : 'Actions'}
-                    </th>
-                  </tr>
-                </thead>
-                <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
-                  {filteredTransactions.map((transaction) => {
-                    const from = (transaction as any).originalCurrency || 'TRY';
-                    const displayAmount = from === currency 
-                      ? transaction.amount 
-                      : convertCurrency(transaction.amount, from, currency);
-
-                    const typeColors = {
-                      income: 'text-green-600 dark:text-green-400 bg-green-50 dark:bg-green-900/20',
-                      expense: 'text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/20',
-                      savings: 'text-purple-600 dark:text-purple-400 bg-purple-50 dark:bg-purple-900/20',
-                      withdrawal: 'text-orange-600 dark:text-orange-400 bg-orange-50 dark:bg-orange-900/20',
-                    };
-
-                    return (
-                      <tr key={transaction.id} className="hover:bg-slate-50 dark:hover:bg-slate-800/50 transition-colors">
-                        <td className="px-4 py-3 text-sm text-slate-700 dark:text-slate-300">
-                          {new Date(transaction.date).toLocaleDateString(language === 'tr' ? 'tr-TR' : 'en-US', {
-                            day: '2-digit',
-                            month: 'short',
-                            year: 'numeric',
-                          })}
-                        </td>
-                        <td className="px-4 py-3">
-                          <div>
-                            <p className="text-sm font-medium text-slate-900 dark:text-white">{transaction.title || '-'}</p>
-                            {transaction.description && (
-                              <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">{transaction.description}</p>
-                            )}
-                          </div>
-                        </td>
-                        <td className="px-4 py-3 text-sm text-slate-700 dark:text-slate-300">
-                          {translateCategory(transaction.category, language)}
-                        </td>
-                        <td className="px-4 py-3">
-                          <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${typeColors[transaction.type]}`}>
-                            {t(transaction.type === 'income' ? 'income' : 
-                               transaction.type === 'expense' ? 'expense' : 
-                               transaction.type === 'savings' ? 'savings' : 'withdrawal', language)}
-                          </span>
-                        </td>
-                        <td className="px-4 py-3 text-sm font-semibold text-right text-slate-900 dark:text-white">
-                          {formatCurrency(displayAmount, currency as any)}
-                        </td>
-                        <td className="px-4 py-3 text-right">
-                          <div className="flex items-center justify-end gap-2">
-                            <button
-                              onClick={() => handleEdit(transaction)}
-                              className="p-2 text-blue-600 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg transition-colors"
-                              title={t('edit', language)}
-                            >
-                              <Pencil className="w-4 h-4" />
-                            </button>
-                            <button
-                              onClick={() => handleDelete(transaction.id)}
-                              className="p-2 text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
-                              title={t('delete', language)}
-                            >
-                              <Trash2 className="w-4 h-4" />
-                            </button>
-                          </div>
-                        </td>
-                      </tr>
-                    );
-                  })}
-                </tbody>
-              </table>
+            <div className={`grid ${TABLE_COLUMNS} bg-slate-50 dark:bg-slate-800/50 border-b border-slate-200 dark:border-slate-700`}>
+              <div className="px-4 py-3 text-left text-xs font-semibold text-slate-700 dark:text-slate-300 uppercase tracking-wider">
+                {t('date', language)}
+              </div>
+              <div className="px-4 py-3 text-left text-xs font-semibold text-slate-700 dark:text-slate-300 uppercase tracking-wider">
+                {t('title', language)}
+              </div>
+              <div className="px-4 py-3 text-left text-xs font-semibold text-slate-700 dark:text-slate-300 uppercase tracking-wider">
+                {t('category', language)}
+              </div>
+              <div className="px-4 py-3 text-left text-xs font-semibold text-slate-700 dark:text-slate-300 uppercase tracking-wider">
+                {language === 'tr' ? 'Tip' : 'Type'}
+              </div>
+              <div className="px-4 py-3 text-right text-xs font-semibold text-slate-700 dark:text-slate-300 uppercase tracking-wider">
+                {t('amount', language)}
+              </div>
+              <div className="px-4 py-3 text-right text-xs font-semibold text-slate-700 dark:text-slate-300 uppercase tracking-wider">
+                {language === 'tr' ? 'İşlemler' : 'Actions'}
+              </div>
             </div>
+            <VirtualList
+              items={pagedTransactions}
+              itemHeight={ROW_HEIGHT}
+              maxHeight={LIST_MAX_HEIGHT}
+              getKey={(transaction) => transaction.id}
+              onEndReached={loadMore}
+              renderItem={(transaction) => {
+                const displayAmount = convertTransaction(transaction, currency, valuation);
+
+                const typeColors = {
+                  income: 'text-green-600 dark:text-green-400 bg-green-50 dark:bg-green-900/20',
+                  expense: 'text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/20',
+                  savings: 'text-purple-600 dark:text-purple-400 bg-purple-50 dark:bg-purple-900/20',
+                  withdrawal: 'text-orange-600 dark:text-orange-400 bg-orange-50 dark:bg-orange-900/20',
+                  transfer: 'text-sky-600 dark:text-sky-400 bg-sky-50 dark:bg-sky-900/20',
+                };
+
+                return (
+                  <div className={`grid ${TABLE_COLUMNS} items-center h-full border-b border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-800/50 transition-colors`}>
+                    <div className="px-4 text-sm text-slate-700 dark:text-slate-300">
+                      {new Date(transaction.date).toLocaleDateString(language === 'tr' ? 'tr-TR' : 'en-US', {
+                        day: '2-digit',
+                        month: 'short',
+                        year: 'numeric',
+                      })}
+                    </div>
+                    <div className="px-4 min-w-0">
+                      <p className="text-sm font-medium text-slate-900 dark:text-white truncate">{transaction.title || '-'}</p>
+                      {transaction.description && (
+                        <p className="text-xs text-slate-500 dark:text-slate-400 mt-1 truncate">{transaction.description}</p>
+                      )}
+                    </div>
+                    <div className="px-4 text-sm text-slate-700 dark:text-slate-300 truncate">
+                      {translateCategory(transaction.category, language)}
+                    </div>
+                    <div className="px-4">
+                      <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${typeColors[transaction.type]}`}>
+                        {t(transaction.type, language)}
+                      </span>
+                    </div>
+                    <div className="px-4 text-sm font-semibold text-right text-slate-900 dark:text-white">
+                      {formatCurrency(displayAmount, currency as any)}
+                      {selectedAccount && balances?.has(transaction.id) && (
+                        <p className="text-xs font-normal text-slate-500 dark:text-slate-400">
+                          {formatCurrency(balances.get(transaction.id)!, selectedAccount.currency, language)}
+                        </p>
+                      )}
+                    </div>
+                    <div className="px-4 flex items-center justify-end gap-2">
+                      <button
+                        onClick={() => handleEdit(transaction)}
+                        className="p-2 text-blue-600 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg transition-colors"
+                        title={t('edit', language)}
+                      >
+                        <Pencil className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(transaction.id)}
+                        className="p-2 text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
+                        title={t('delete', language)}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </div>
+                );
+              }}
+            />
           </Card>
 
           {/* Mobile Card View */}
-          <div className="md:hidden space-y-3">
-            {filteredTransactions.map((transaction) => {
-              const from = (transaction as any).originalCurrency || 'TRY';
-              const displayAmount = from === currency 
-                ? transaction.amount 
-                : convertCurrency(transaction.amount, from, currency);
+          <VirtualList
+            className="md:hidden"
+            items={pagedTransactions}
+            itemHeight={CARD_HEIGHT}
+            maxHeight={LIST_MAX_HEIGHT}
+            getKey={(transaction) => transaction.id}
+            onEndReached={loadMore}
+            renderItem={(transaction) => {
+              const displayAmount = convertTransaction(transaction, currency, valuation);
 
               const typeColors = {
                 income: 'text-green-600 dark:text-green-400 bg-green-50 dark:bg-green-900/20 border-green-200 dark:border-green-900/40',
                 expense: 'text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-900/40',
                 savings: 'text-purple-600 dark:text-purple-400 bg-purple-50 dark:bg-purple-900/20 border-purple-200 dark:border-purple-900/40',
                 withdrawal: 'text-orange-600 dark:text-orange-400 bg-orange-50 dark:bg-orange-900/20 border-orange-200 dark:border-orange-900/40',
+                transfer: 'text-sky-600 dark:text-sky-400 bg-sky-50 dark:bg-sky-900/20 border-sky-200 dark:border-sky-900/40',
               };
 
               return (
-                <Card key={transaction.id} className={`p-4 border-l-4 ${typeColors[transaction.type]}`}>
-                  {/* Header: Date & Amount */}
-                  <div className="flex items-start justify-between mb-3">
-                    <div>
-                      <p className="text-xs text-slate-500 dark:text-slate-400 mb-1">
-                        {new Date(transaction.date).toLocaleDateString(language === 'tr' ? 'tr-TR' : 'en-US', {
-                          day: '2-digit',
-                          month: 'short',
-                          year: 'numeric',
-                        })}
-                      </p>
-                      <h3 className="text-base font-semibold text-slate-900 dark:text-white">
-                        {transaction.title || '-'}
-                      </h3>
-                    </div>
-                    <div className="text-right">
-                      <p className={`text-lg font-bold ${
-                        transaction.type === 'income' ? 'text-green-600 dark:text-green-400' :
-                        transaction.type === 'expense' ? 'text-red-600 dark:text-red-400' :
-                        transaction.type === 'savings' ? 'text-purple-600 dark:text-purple-400' :
-                        'text-orange-600 dark:text-orange-400'
-                      }`}>
-                        {formatCurrency(displayAmount, currency as any)}
-                      </p>
+                <div className="h-full pb-3">
+                  <Card className={`h-full p-4 border-l-4 flex flex-col ${typeColors[transaction.type]}`}>
+                    {/* Header: Date & Amount */}
+                    <div className="flex items-start justify-between mb-2">
+                      <div className="min-w-0">
+                        <p className="text-xs text-slate-500 dark:text-slate-400 mb-1">
+                          {new Date(transaction.date).toLocaleDateString(language === 'tr' ? 'tr-TR' : 'en-US', {
+                            day: '2-digit',
+                            month: 'short',
+                            year: 'numeric',
+                          })}
+                        </p>
+                        <h3 className="text-base font-semibold text-slate-900 dark:text-white truncate">
+                          {transaction.title || '-'}
+                        </h3>
+                      </div>
+                      <div className="text-right">
+                        <p className={`text-lg font-bold ${
+                          transaction.type === 'income' ? 'text-green-600 dark:text-green-400' :
+                          transaction.type === 'expense' ? 'text-red-600 dark:text-red-400' :
+                          transaction.type === 'savings' ? 'text-purple-600 dark:text-purple-400' :
+                          transaction.type === 'transfer' ? 'text-sky-600 dark:text-sky-400' :
+                          'text-orange-600 dark:text-orange-400'
+                        }`}>
+                          {formatCurrency(displayAmount, currency as any)}
+                        </p>
+                        {selectedAccount && balances?.has(transaction.id) && (
+                          <p className="text-xs text-slate-500 dark:text-slate-400">
+                            {formatCurrency(balances.get(transaction.id)!, selectedAccount.currency, language)}
+                          </p>
+                        )}
+                      </div>
                     </div>
-                  </div>
 
-                  {/* Description */}
-                  {transaction.description && (
-                    <p className="text-sm text-slate-600 dark:text-slate-400 mb-3">
+                    {/* Description */}
+                    <p className="text-sm text-slate-600 dark:text-slate-400 mb-2 truncate">
                       {transaction.description}
                     </p>
-                  )}
 
-                  {/* Meta Info */}
-                  <div className="flex items-center justify-between mb-3">
-                    <div className="flex items-center gap-2">
+                    {/* Meta Info */}
+                    <div className="flex items-center gap-2 mb-2">
                       <span className={`inline-flex items-center px-2.5 py-1 rounded-full text-xs font-medium ${typeColors[transaction.type]}`}>
-                        {t(transaction.type === 'income' ? 'income' : 
-                           transaction.type === 'expense' ? 'expense' : 
-                           transaction.type === 'savings' ? 'savings' : 'withdrawal', language)}
+                        {t(transaction.type, language)}
                       </span>
                       <span className="text-xs text-slate-600 dark:text-slate-400">
                         {translateCategory(transaction.category, language)}
                       </span>
                     </div>
-                  </div>
 
-                  {/* Action Buttons */}
-                  <div className="flex items-center gap-2 pt-3 border-t border-slate-200 dark:border-slate-700">
-                    <button
-                      onClick={() => handleEdit(transaction)}
-                      className="flex-1 flex items-center justify-center gap-2 px-3 py-2 text-sm font-medium text-blue-600 dark:text-blue-400 bg-blue-50 dark:bg-blue-900/20 rounded-lg hover:bg-blue-100 dark:hover:bg-blue-900/30 transition-colors"
-                    >
-                      <Pencil className="w-4 h-4" />
-                      {t('edit', language)}
-                    </button>
-                    <button
-                      onClick={() => handleDelete(transaction.id)}
-                      className="flex-1 flex items-center justify-center gap-2 px-3 py-2 text-sm font-medium text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/20 rounded-lg hover:bg-red-100 dark:hover:bg-red-900/30 transition-colors"
-                    >
-                      <Trash2 className="w-4 h-4" />
-                      {t('delete', language)}
-                    </button>
-                  </div>
-                </Card>
+                    {/* Action Buttons */}
+                    <div className="flex items-center gap-2 pt-2 mt-auto border-t border-slate-200 dark:border-slate-700">
+                      <button
+                        onClick={() => handleEdit(transaction)}
+                        className="flex-1 flex items-center justify-center gap-2 px-3 py-1.5 text-sm font-medium text-blue-600 dark:text-blue-400 bg-blue-50 dark:bg-blue-900/20 rounded-lg hover:bg-blue-100 dark:hover:bg-blue-900/30 transition-colors"
+                      >
+                        <Pencil className="w-4 h-4" />
+                        {t('edit', language)}
+                      </button>
+                      <button
+                        onClick={() => handleDelete(transaction.id)}
+                        className="flex-1 flex items-center justify-center gap-2 px-3 py-1.5 text-sm font-medium text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/20 rounded-lg hover:bg-red-100 dark:hover:bg-red-900/30 transition-colors"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                        {t('delete', language)}
+                      </button>
+                    </div>
+                  </Card>
+                </div>
               );
-            })}
-          </div>
+            }}
+          />
         </>
       )}
 
@@ -0,0 +1,34 @@
+import type { RateProvider, RateQuote } from './RateProvider';
+
+const API_URL = 'https://open.er-api.com/v6/latest/USD';
+
+/**
+ * API Rate Provider
+ *
+ * Daily rates from open.er-api.com (free tier, no API key). Only the
+ * currencies the API returns are reported; nothing is filled in.
+ */
+export class ApiRateProvider implements RateProvider {
+  readonly kind = 'api' as const;
+
+  async getLatest(): Promise<RateQuote> {
+    const res = await fetch(API_URL);
+    if (!res.ok) throw new Error(`[ApiRateProvider] HTTP ${res.status}`);
+
+    const data = await res.json();
+    if (!data?.rates || typeof data.rates !== 'object') {
+      throw new Error('[ApiRateProvider] Invalid response');
+    }
+
+    const rates: Record<string, number> = {};
+    for (const [code, rate] of Object.entries(data.rates)) {
+      if (typeof rate === 'number' && rate > 0) rates[code] = rate;
+    }
+
+    // time_last_update_unix: when the API last refreshed its rates
+    const asOf = typeof data.time_last_update_unix === 'number'
+      ? new Date(data.time_last_update_unix * 1000).toISOString()
+      : new Date().toISOString();
+    return { rates: { ...rates, USD: 1 }, asOf };
+  }
+}
@@ -0,0 +1,32 @@
+import type { DatedRates } from '../db/schema';
+import { getRateHistory } from '../utils/exchange';
+import type { RateProvider, RateQuote } from './RateProvider';
+
+/**
+ * File Rate Provider
+ *
+ * Rates from imported rate files (CSV/JSON, e.g. central-bank exports).
+ * Files are imported into the dated rate store (services/rateService); the
+ * latest rates are, per currency, those of the most recent imported day
+ * that lists it. Works fully offline.
+ */
+export class FileRateProvider implements RateProvider {
+  readonly kind = 'file' as const;
+
+  private history: () => DatedRates[];
+
+  // The history source can be swapped for tests
+  constructor(history: () => DatedRates[] = getRateHistory) {
+    this.history = history;
+  }
+
+  async getLatest(): Promise<RateQuote> {
+    const imported = this.history().filter(entry => entry.source === 'imported');
+    if (imported.length === 0) throw new Error('[FileRateProvider] No rate file imported');
+
+    // Oldest first, so later days overwrite earlier ones
+    const rates: Record<string, number> = {};
+    for (const entry of imported) Object.assign(rates, entry.rates);
+    return { rates: { ...rates, USD: 1 }, asOf: imported[imported.length - 1].date };
+  }
+}
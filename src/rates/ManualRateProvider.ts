@@ -0,0 +1,42 @@
+import type { RateProvider, RateQuote } from './RateProvider';
+
+const STORAGE_KEY = 'monera_manual_rates';
+
+/**
+ * Manual Rate Provider
+ *
+ * Rates the user typed in Settings, kept in localStorage. Useful offline or
+ * when an official rate (e.g. the bank's) should be used instead of the API.
+ */
+export class ManualRateProvider implements RateProvider {
+  readonly kind = 'manual' as const;
+
+  /**
+   * Rates last entered (null = none yet)
+   */
+  static load(): RateQuote | null {
+    try {
+      const raw = window.localStorage.getItem(STORAGE_KEY);
+      if (!raw) return null;
+      const parsed = JSON.parse(raw) as RateQuote;
+      return parsed?.rates ? parsed : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Store entered rates (per USD), valid from now
+   */
+  static save(rates: Record<string, number>): RateQuote {
+    const quote: RateQuote = { rates: { ...rates, USD: 1 }, asOf: new Date().toISOString() };
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(quote));
+    return quote;
+  }
+
+  async getLatest(): Promise<RateQuote> {
+    const quote = ManualRateProvider.load();
+    if (!quote) throw new Error('[ManualRateProvider] No rates entered');
+    return quote;
+  }
+}
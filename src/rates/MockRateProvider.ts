@@ -0,0 +1,28 @@
+import type { RateProvider, RateQuote } from './RateProvider';
+
+/**
+ * Mock Rate Provider
+ *
+ * Answers with fixed rates, or fails, and counts calls. For tests.
+ */
+export class MockRateProvider implements RateProvider {
+  readonly kind = 'mock' as const;
+
+  calls = 0;
+  private quote: RateQuote | null;
+
+  // quote = null makes every call fail
+  constructor(quote: RateQuote | null) {
+    this.quote = quote;
+  }
+
+  setQuote(quote: RateQuote | null): void {
+    this.quote = quote;
+  }
+
+  async getLatest(): Promise<RateQuote> {
+    this.calls++;
+    if (!this.quote) throw new Error('[MockRateProvider] Unavailable');
+    return { rates: { ...this.quote.rates }, asOf: this.quote.asOf };
+  }
+}
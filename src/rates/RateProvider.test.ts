@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ApiRateProvider } from './ApiRateProvider';
+import { FileRateProvider } from './FileRateProvider';
+import { ManualRateProvider } from './ManualRateProvider';
+import { MockRateProvider } from './MockRateProvider';
+import {
+  fetchLatestRates,
+  getExchangeRates,
+  getRateProvider,
+  getRateStatus,
+  onRatesFetched,
+  setRateProvider,
+  RATE_STALE_AFTER_MS,
+  type DatedRates,
+} from '../utils/exchange';
+
+const NOW = new Date('2025-03-10T12:00:00Z');
+
+describe('Rate providers', () => {
+  const original = getRateProvider();
+
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    setRateProvider(original);
+    vi.unstubAllGlobals();
+  });
+
+  it('should take tracked rates and their source from the active provider', async () => {
+    setRateProvider(new MockRateProvider({ rates: { USD: 1, TRY: 36, EUR: 0.95, JPY: 150 }, asOf: NOW.toISOString() }));
+
+    const rates = await fetchLatestRates();
+
+    expect(rates.TRY).toBe(36);
+    expect(rates.JPY).toBeUndefined();
+    const tryStatus = getRateStatus(NOW).find(row => row.currency === 'TRY');
+    expect(tryStatus).toMatchObject({ rate: 36, source: 'mock', asOf: NOW.toISOString(), stale: false });
+  });
+
+  it('should flag rates older than the stale threshold', async () => {
+    setRateProvider(new MockRateProvider({ rates: { TRY: 36 }, asOf: NOW.toISOString() }));
+    await fetchLatestRates();
+
+    const later = new Date(NOW.getTime() + RATE_STALE_AFTER_MS + 1);
+    expect(getRateStatus(later).find(row => row.currency === 'TRY')?.stale).toBe(true);
+  });
+
+  it('should keep the current rates and skip listeners when the provider fails', async () => {
+    setRateProvider(new MockRateProvider({ rates: { TRY: 37 }, asOf: NOW.toISOString() }));
+    await fetchLatestRates();
+
+    const failing = new MockRateProvider(null);
+    setRateProvider(failing);
+    const listener = vi.fn();
+    const unsubscribe = onRatesFetched(listener);
+    const rates = await fetchLatestRates();
+    unsubscribe();
+
+    expect(failing.calls).toBe(1);
+    expect(rates.TRY).toBe(37);
+    expect(getExchangeRates().TRY).toBe(37);
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('should report API rates as returned, without filling gaps', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({ rates: { USD: 1, TRY: 38.2 }, time_last_update_unix: NOW.getTime() / 1000 }),
+    }));
+
+    const quote = await new ApiRateProvider().getLatest();
+    expect(quote).toEqual({ rates: { USD: 1, TRY: 38.2 }, asOf: NOW.toISOString() });
+  });
+
+  it('should fail on API errors instead of inventing rates', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: false, status: 503 }));
+    await expect(new ApiRateProvider().getLatest()).rejects.toThrow('HTTP 503');
+  });
+
+  it('should keep manually entered rates', async () => {
+    const provider = new ManualRateProvider();
+    await expect(provider.getLatest()).rejects.toThrow('No rates entered');
+
+    ManualRateProvider.save({ TRY: 35, EUR: 0.9 });
+    expect((await provider.getLatest()).rates).toEqual({ TRY: 35, EUR: 0.9, USD: 1 });
+  });
+
+  it('should take each currency from the latest imported day that lists it', async () => {
+    const history: DatedRates[] = [
+      { date: '2025-01-02', rates: { TRY: 35, EUR: 0.96 }, source: 'imported' },
+      { date: '2025-02-03', rates: { TRY: 36 }, source: 'imported' },
+      { date: '2025-03-01', rates: { TRY: 99 }, source: 'fetched' },
+    ];
+    const quote = await new FileRateProvider(() => history).getLatest();
+
+    expect(quote).toEqual({ rates: { TRY: 36, EUR: 0.96, USD: 1 }, asOf: '2025-02-03' });
+    await expect(new FileRateProvider(() => []).getLatest()).rejects.toThrow('No rate file imported');
+  });
+});
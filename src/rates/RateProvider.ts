@@ -0,0 +1,29 @@
+/**
+ * Rate Provider Interface
+ *
+ * Where today's exchange rates come from. utils/exchange asks the active
+ * provider whenever rates are refreshed and records which provider each
+ * rate came from and when, so Settings can show sources and flag stale
+ * rates. Implementations: ApiRateProvider, ManualRateProvider,
+ * FileRateProvider, MockRateProvider (tests).
+ */
+
+export type RateProviderKind = 'api' | 'manual' | 'file';
+
+/**
+ * Rates as a provider reports them
+ */
+export interface RateQuote {
+  rates: Record<string, number>;   // Per USD (USD = 1); only currencies the provider knows
+  asOf: string;                    // ISO timestamp (or date) the rates are valid for
+}
+
+export interface RateProvider {
+  readonly kind: RateProviderKind | 'mock';
+
+  /**
+   * Latest known rates. Throws when the provider has none to give
+   * (offline, nothing entered or imported yet).
+   */
+  getLatest(): Promise<RateQuote>;
+}
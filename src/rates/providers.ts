@@ -0,0 +1,21 @@
+import type { RateProvider, RateProviderKind } from './RateProvider';
+import { ApiRateProvider } from './ApiRateProvider';
+import { ManualRateProvider } from './ManualRateProvider';
+import { FileRateProvider } from './FileRateProvider';
+
+export type { RateProvider, RateProviderKind, RateQuote } from './RateProvider';
+export { ApiRateProvider, ManualRateProvider, FileRateProvider };
+
+/**
+ * The provider for a setting value (default: the API)
+ */
+export function createRateProvider(kind: RateProviderKind = 'api'): RateProvider {
+  switch (kind) {
+    case 'manual':
+      return new ManualRateProvider();
+    case 'file':
+      return new FileRateProvider();
+    default:
+      return new ApiRateProvider();
+  }
+}
@@ -0,0 +1,170 @@
+import type { CustomUnit, Transaction } from '../types';
+import { getExchangeRates, getLastRatesUpdate, type Valuation } from '../utils/exchange';
+import {
+  buildSnapshot,
+  runAggregation,
+  type AggregationQuery,
+  type AggregationResult,
+  type AggregationResults,
+  type AggregationSnapshot,
+} from '../utils/aggregations';
+
+export type AggregationRequest =
+  | {
+      type: 'load';
+      transactions: Transaction[];
+      currency: string;
+      rates: Record<string, number>;
+      valuation?: Valuation;
+      customUnits?: CustomUnit[];   // The worker has its own copy of the unit registry
+    }
+  | { type: 'query'; id: number; query: AggregationQuery };
+
+export type AggregationResponse =
+  | { id: number; result: AggregationResults[keyof AggregationResults] }
+  | { id: number; error: string };
+
+interface PendingQuery {
+  resolve: (result: AggregationResults[keyof AggregationResults]) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * AggregationService - runs transaction aggregations in a Web Worker
+ *
+ * `load` posts the transactions once per change of data, display currency,
+ * rates, valuation or custom units; `query` answers against the last load. Where workers aren't
+ * available (tests, or the worker failed to start) the same functions run
+ * in-process.
+ */
+export class AggregationService {
+  private static instance: AggregationService;
+
+  // undefined until first use, null when running in-process
+  private worker: Worker | null | undefined;
+  private pending = new Map<number, PendingQuery>();
+  private nextId = 1;
+
+  private loaded: {
+    transactions: Transaction[];
+    currency: string;
+    ratesUpdate: number;
+    valuation?: Valuation;
+    customUnits?: CustomUnit[];
+  } | null = null;
+  private lastLoad: Extract<AggregationRequest, { type: 'load' }> | null = null;
+  private snapshot: AggregationSnapshot | null = null;
+
+  private constructor() {}
+
+  static getInstance(): AggregationService {
+    if (!AggregationService.instance) {
+      AggregationService.instance = new AggregationService();
+    }
+    return AggregationService.instance;
+  }
+
+  private getWorker(): Worker | null {
+    if (this.worker !== undefined) return this.worker;
+
+    if (typeof Worker === 'undefined') {
+      this.worker = null;
+      return null;
+    }
+
+    try {
+      const worker = new Worker(new URL('../workers/aggregation.worker.ts', import.meta.url), { type: 'module' });
+      worker.onmessage = (event: MessageEvent<AggregationResponse>) => this.settle(event.data);
+      worker.onerror = (event) => this.fallBack(event.message);
+      this.worker = worker;
+    } catch (error) {
+      console.warn('[AggregationService] Worker unavailable, aggregating in-process', error);
+      this.worker = null;
+    }
+    return this.worker;
+  }
+
+  private settle(response: AggregationResponse): void {
+    const pending = this.pending.get(response.id);
+    if (!pending) return;
+    this.pending.delete(response.id);
+
+    if ('error' in response) {
+      pending.reject(new Error(`[AggregationService] ${response.error}`));
+    } else {
+      pending.resolve(response.result);
+    }
+  }
+
+  // The worker crashed: fail what's in flight and carry on in-process
+  private fallBack(message: string): void {
+    console.warn('[AggregationService] Worker failed, aggregating in-process:', message);
+    this.worker?.terminate();
+    this.worker = null;
+
+    for (const pending of this.pending.values()) {
+      pending.reject(new Error(`[AggregationService] Worker failed: ${message}`));
+    }
+    this.pending.clear();
+  }
+
+  private localSnapshot(): AggregationSnapshot {
+    if (!this.snapshot) {
+      const load = this.lastLoad;
+      this.snapshot = load
+        ? buildSnapshot(load.transactions, load.currency, load.rates, load.valuation)
+        : { currency: 'TRY', rows: [] };
+    }
+    return this.snapshot;
+  }
+
+  /**
+   * Hand the current transactions to the aggregator. Repeated calls with the
+   * same array, currency, rates, valuation and custom units are ignored.
+   */
+  load(transactions: Transaction[], currency: string, valuation?: Valuation, customUnits?: CustomUnit[]): void {
+    const ratesUpdate = getLastRatesUpdate()?.getTime() ?? 0;
+    const loaded = this.loaded;
+    if (
+      loaded &&
+      loaded.transactions === transactions &&
+      loaded.currency === currency &&
+      loaded.ratesUpdate === ratesUpdate &&
+      loaded.valuation?.mode === valuation?.mode &&
+      loaded.valuation?.history === valuation?.history &&
+      loaded.customUnits === customUnits
+    ) {
+      return;
+    }
+
+    this.loaded = { transactions, currency, ratesUpdate, valuation, customUnits };
+    this.lastLoad = { type: 'load', transactions, currency, rates: getExchangeRates(), valuation, customUnits };
+    this.snapshot = null;
+    this.getWorker()?.postMessage(this.lastLoad);
+  }
+
+  /**
+   * Answer a query against the last loaded transactions
+   */
+  query<Q extends AggregationQuery>(query: Q): Promise<AggregationResult<Q>> {
+    const worker = this.getWorker();
+    if (!worker) {
+      try {
+        return Promise.resolve(runAggregation(this.localSnapshot(), query));
+      } catch (error) {
+        return Promise.reject(error);
+      }
+    }
+
+    const id = this.nextId++;
+    return new Promise<AggregationResult<Q>>((resolve, reject) => {
+      this.pending.set(id, {
+        resolve: (result) => resolve(result as AggregationResult<Q>),
+        reject,
+      });
+      worker.postMessage({ type: 'query', id, query } satisfies AggregationRequest);
+    });
+  }
+}
+
+export const aggregationService = AggregationService.getInstance();
@@ -0,0 +1,82 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { Transaction } from '../types';
+import { db } from '../db/schema';
+import { InMemoryAdapter } from '../db/InMemoryAdapter';
+import { auditService } from './auditService';
+import { EncryptionService } from './encryptionService';
+import { isEncryptedValue } from '../utils/crypto';
+import { describeUserAgent, getDeviceInfo } from '../utils/device';
+import { applyRecordState } from '../utils/undoJournal';
+import { tx } from '../test/fixtures';
+
+describe('auditService', () => {
+  let storage: InMemoryAdapter;
+
+  beforeEach(async () => {
+    localStorage.clear();
+    await db.auditLog.clear();
+    storage = new InMemoryAdapter();
+  });
+
+  it('logs changes with device and source, newest first per record', async () => {
+    const edited = tx('t1', { amount: 250, version: 2 });
+    await auditService.record(storage, [{ table: 'transactions', recordId: 't1', before: null, after: tx('t1') }], 'import');
+    await auditService.record(storage, [{ table: 'transactions', recordId: 't1', before: tx('t1'), after: edited }], 'manual');
+    await auditService.record(storage, [{ table: 'transactions', recordId: 't2', before: null, after: tx('t2') }], 'manual');
+
+    const history = await auditService.history(storage, 'transactions', 't1');
+    expect(history.map(e => e.source)).toEqual(['manual', 'import']);
+    expect(history[0].after).toEqual(edited);
+    expect(history[0].deviceId).toBe(getDeviceInfo().id);
+  });
+
+  it('skips changes that left the record unchanged', async () => {
+    await auditService.record(storage, [{ table: 'transactions', recordId: 't1', before: tx('t1'), after: tx('t1') }], 'sync');
+    expect(await db.auditLog.count()).toBe(0);
+  });
+
+  it('stores encrypted values while local encryption is on and follows re-keys', async () => {
+    const encryption = new EncryptionService(1_000);
+    await auditService.record(storage, [{ table: 'transactions', recordId: 't1', before: null, after: tx('t1') }], 'manual');
+
+    const encrypted = await encryption.enable(storage, 'correct horse');
+    await auditService.record(
+      encrypted,
+      [{ table: 'transactions', recordId: 't1', before: tx('t1'), after: tx('t1', { title: 'Rent', version: 2 }) }],
+      'manual'
+    );
+    for (const entry of await db.auditLog.toArray()) {
+      expect(isEncryptedValue((entry.after as Transaction | null)?.title)).toBe(true);
+    }
+
+    const rekeyed = await encryption.changePassphrase(encrypted, 'correct horse', 'battery staple');
+    const history = await auditService.history(rekeyed, 'transactions', 't1');
+    expect(history.map(e => (e.after as Transaction | null)?.title)).toEqual(['Rent', 'Transaction t1']);
+
+    await encryption.reset(rekeyed);
+    expect(await db.auditLog.count()).toBe(0);
+  });
+
+  it('provides versions that can be written back', async () => {
+    await storage.addTransaction(tx('t1', { amount: 250, description: 'typo', version: 2 }));
+    await auditService.record(storage, [{ table: 'transactions', recordId: 't1', before: null, after: tx('t1') }], 'manual');
+    const [entry] = await auditService.history(storage, 'transactions', 't1');
+
+    const write = await applyRecordState(storage, 'transactions', 't1', entry.after);
+    const reverted = await storage.getTransaction('t1');
+    expect(reverted).toMatchObject({ amount: 100, version: 3 });
+    expect(reverted?.description).toBeUndefined();
+    expect((write?.before as Transaction | null)?.amount).toBe(250);
+  });
+});
+
+describe('describeUserAgent', () => {
+  it('names the browser and operating system', () => {
+    expect(
+      describeUserAgent('Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/130.0 Safari/537.36')
+    ).toBe('Chrome on Windows');
+    expect(describeUserAgent('Mozilla/5.0 (X11; Linux x86_64; rv:131.0) Gecko/20100101 Firefox/131.0')).toBe('Firefox on Linux');
+    expect(describeUserAgent('curl/8.0')).toBe('Browser');
+  });
+});
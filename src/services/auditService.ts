@@ -0,0 +1,114 @@
+import type { StorageAdapter } from '../db/StorageAdapter';
+import { EncryptedAdapter } from '../db/EncryptedAdapter';
+import { db, type AuditEntry, type AuditSource, type VersionedRecord } from '../db/schema';
+import type { RecordChange } from '../utils/undoJournal';
+import { getDeviceInfo } from '../utils/device';
+
+export type { AuditEntry, AuditSource } from '../db/schema';
+
+/**
+ * AuditService - append-only change history per record
+ *
+ * Every local write to a transaction, budget or recurring template is logged
+ * with its before/after values, time, device and source. Entries are never
+ * edited; they are only re-encoded when local encryption is turned on/off or
+ * re-keyed, and erased together with the rest of the data on a reset.
+ */
+export class AuditService {
+  private static instance: AuditService;
+
+  private constructor() {}
+
+  static getInstance(): AuditService {
+    if (!AuditService.instance) {
+      AuditService.instance = new AuditService();
+    }
+    return AuditService.instance;
+  }
+
+  // Logged records are stored like the base adapter stores them
+  private async seal(storage: StorageAdapter, record: VersionedRecord | null): Promise<VersionedRecord | null> {
+    return record && storage instanceof EncryptedAdapter ? storage.sealRecord(record) : record;
+  }
+
+  private async open(storage: StorageAdapter, entry: AuditEntry): Promise<AuditEntry> {
+    if (!(storage instanceof EncryptedAdapter)) return entry;
+    return {
+      ...entry,
+      before: entry.before && (await storage.openRecord(entry.before)),
+      after: entry.after && (await storage.openRecord(entry.after)),
+    };
+  }
+
+  // ============================================
+  // WRITE
+  // ============================================
+
+  /**
+   * Append one entry per change (changes that left the record as it was are skipped)
+   */
+  async record(storage: StorageAdapter, changes: RecordChange[], source: AuditSource): Promise<void> {
+    const effective = changes.filter(change => JSON.stringify(change.before) !== JSON.stringify(change.after));
+    if (effective.length === 0) return;
+
+    const device = getDeviceInfo();
+    const at = new Date().toISOString();
+    const entries: AuditEntry[] = await Promise.all(
+      effective.map(async change => ({
+        table: change.table,
+        recordId: change.recordId,
+        at,
+        source,
+        deviceId: device.id,
+        deviceName: device.name,
+        before: await this.seal(storage, change.before),
+        after: await this.seal(storage, change.after),
+      }))
+    );
+    await db.auditLog.bulkAdd(entries);
+  }
+
+  // ============================================
+  // READ
+  // ============================================
+
+  /**
+   * History of one record, newest first
+   */
+  async history(storage: StorageAdapter, table: AuditEntry['table'], recordId: string): Promise<AuditEntry[]> {
+    const entries = await db.auditLog.where('[table+recordId]').equals([table, recordId]).toArray();
+    const newestFirst = entries.sort((a, b) => b.id! - a.id!);
+    return Promise.all(newestFirst.map(entry => this.open(storage, entry)));
+  }
+
+  async get(storage: StorageAdapter, id: number): Promise<AuditEntry | undefined> {
+    const entry = await db.auditLog.get(id);
+    return entry && this.open(storage, entry);
+  }
+
+  // ============================================
+  // MAINTENANCE
+  // ============================================
+
+  /**
+   * Re-encode every logged record (local encryption turned on/off or re-keyed).
+   * All entries are transformed before any is written.
+   */
+  async rewriteAll(transform: (record: VersionedRecord) => Promise<VersionedRecord>): Promise<void> {
+    const entries = await db.auditLog.toArray();
+    const rewritten = await Promise.all(
+      entries.map(async entry => ({
+        ...entry,
+        before: entry.before && (await transform(entry.before)),
+        after: entry.after && (await transform(entry.after)),
+      }))
+    );
+    await db.auditLog.bulkPut(rewritten);
+  }
+
+  async clear(): Promise<void> {
+    await db.auditLog.clear();
+  }
+}
+
+export const auditService = AuditService.getInstance();
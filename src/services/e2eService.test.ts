@@ -0,0 +1,133 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { Transaction } from '../types';
+import { E2EService } from './e2eService';
+import { SupabaseAdapter } from '../db/SupabaseAdapter';
+import { transactionMapper, type TransactionRow } from '../db/supabaseMappers';
+import { createFakeSupabase } from '../test/fakeSupabase';
+import { isEncryptedValue } from '../utils/crypto';
+import { tx as transaction } from '../test/fixtures';
+
+const ITERATIONS = 1_000;
+
+const tx = (id: string, overrides: Partial<Transaction> = {}): Transaction =>
+  transaction(id, { title: `Kira ${id}`, description: 'Ocak', amount: 15000, category: 'rent', date: '2026-01-01', ...overrides });
+
+const row = (id: string) => transactionMapper.toRow(tx(id), 'user-1');
+
+describe('E2EService', () => {
+  let service: E2EService;
+
+  beforeEach(() => {
+    localStorage.clear();
+    service = new E2EService(ITERATIONS);
+  });
+
+  it('leaves rows untouched without a key', async () => {
+    expect(await service.sealRow('transactions', row('t1'))).toEqual(row('t1'));
+    expect(service.isEnabled()).toBe(false);
+  });
+
+  it('moves the chosen fields into the sealed column', async () => {
+    await service.setFields(['title', 'amount']);
+    const sealed = await service.sealRow('transactions', row('t1'));
+
+    expect(sealed.title).toBe('');
+    expect(sealed.amount).toBe(0);
+    expect(sealed.description).toBe('Ocak');
+    expect(isEncryptedValue(sealed.sealed)).toBe(true);
+    expect(sealed.sealed).not.toContain('Kira');
+
+    expect(await service.openRow('transactions', sealed)).toEqual(row('t1'));
+  });
+
+  it('seals the settled amount along with the amount', async () => {
+    await service.setFields(['amount']);
+    const settled = transactionMapper.toRow(tx('t1', { originalCurrency: 'USD', settledAmount: 15250, settledCurrency: 'TRY' }), 'user-1');
+    const sealed = await service.sealRow('transactions', settled);
+
+    expect(sealed.settled_amount).toBeNull();
+    expect(sealed.settled_currency).toBe('TRY');
+    expect(await service.openRow('transactions', sealed)).toEqual(settled);
+  });
+
+  it('only seals transaction and recurring rows', async () => {
+    await service.setFields(['amount']);
+    const budget = { id: 'b1', user_id: 'user-1', monthly_limit: 500 };
+    expect(await service.sealRow('budgets', budget)).toEqual(budget);
+  });
+
+  it('writes plaintext again when no field is chosen', async () => {
+    await service.setFields(['title']);
+    const sealed = await service.sealRow('transactions', row('t1'));
+
+    await service.setFields([]);
+    expect(service.hasKey()).toBe(true);
+    expect(await service.sealRow('transactions', row('t1'))).toEqual({ ...row('t1'), sealed: null });
+    // Rows uploaded earlier stay readable
+    expect(await service.openRow('transactions', sealed)).toEqual(row('t1'));
+  });
+
+  it('fails clearly on rows sealed with another key', async () => {
+    await service.setFields(['title']);
+    const sealed = await service.sealRow('transactions', row('t1'));
+
+    localStorage.clear();
+    const otherDevice = new E2EService(ITERATIONS);
+    await expect(otherDevice.openRow('transactions', sealed)).rejects.toThrow('No end-to-end key');
+
+    await otherDevice.setFields(['title']);
+    await expect(otherDevice.openRow('transactions', sealed)).rejects.toThrow('different key');
+  });
+
+  it('restores the key from an export file', async () => {
+    await service.setFields(['title', 'description', 'amount']);
+    const sealed = await service.sealRow('transactions', row('t1'));
+    const file = JSON.stringify(await service.exportRecoveryFile('file passphrase'));
+    expect(file).not.toContain(JSON.parse(localStorage.getItem('monera_e2e')!).key.k);
+    const keyId = service.getKeyId();
+
+    localStorage.clear();
+    const restored = new E2EService(ITERATIONS);
+    await expect(restored.importRecoveryFile(file, 'wrong passphrase')).rejects.toThrow('Wrong passphrase');
+    await expect(restored.importRecoveryFile('{"format":"other"}', 'file passphrase')).rejects.toThrow('Invalid');
+    expect(restored.hasKey()).toBe(false);
+
+    await restored.importRecoveryFile(file, 'file passphrase');
+    expect(restored.getKeyId()).toBe(keyId);
+    expect(restored.getFields()).toEqual(['title', 'description', 'amount']);
+    expect(await restored.openRow('transactions', sealed)).toEqual(row('t1'));
+  });
+
+  it('keeps the cloud copy sealed through SupabaseAdapter', async () => {
+    await service.setFields(['title', 'amount']);
+    const { client, tables } = createFakeSupabase('user-1');
+    const adapter = new SupabaseAdapter(client, 'user-1', service);
+
+    await adapter.addTransaction(tx('t1'));
+    await adapter.updateTransaction('t1', { amount: 16000 });
+
+    const [stored] = tables.get('transactions') as unknown as TransactionRow[];
+    expect(stored.title).toBe('');
+    expect(stored.amount).toBe(0);
+    expect(isEncryptedValue(stored.sealed)).toBe(true);
+
+    expect(await adapter.getTransaction('t1')).toMatchObject({ title: 'Kira t1', amount: 16000, description: 'Ocak' });
+  });
+
+  it('searches sealed titles and descriptions after opening the rows', async () => {
+    await service.setFields(['title', 'description']);
+    const adapter = new SupabaseAdapter(createFakeSupabase('user-1').client, 'user-1', service);
+    await adapter.bulkAddTransactions([
+      tx('t1', { date: '2026-01-03' }),
+      tx('t2', { date: '2026-01-02', title: 'Market', description: 'Kira artışı' }),
+      tx('t3', { date: '2026-01-01', title: 'Fatura', description: 'Elektrik' }),
+    ]);
+
+    const first = await adapter.getTransactionsPage({ search: 'kira' }, 1);
+    expect(first.items.map(t => t.id)).toEqual(['t1']);
+    const next = await adapter.getTransactionsPage({ search: 'kira' }, 1, first.nextCursor);
+    expect(next.items.map(t => t.id)).toEqual(['t2']);
+    expect((await adapter.getTransactionsPage({ search: 'kira' }, 1, next.nextCursor)).items).toEqual([]);
+    expect((await adapter.getTransactionsPage({ search: 'elektrik' }, 10)).items.map(t => t.id)).toEqual(['t3']);
+  });
+});
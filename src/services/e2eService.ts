@@ -0,0 +1,269 @@
+import type { CloudTable, RowCipher } from '../db/supabaseMappers';
+import {
+  PBKDF2_ITERATIONS,
+  generateSalt,
+  deriveKey,
+  generateKey,
+  exportKey,
+  importKey,
+  keyFingerprint,
+  encryptString,
+  decryptString,
+  isEncryptedValue,
+} from '../utils/crypto';
+
+const E2E_CONFIG_KEY = 'monera_e2e';
+const RECOVERY_FORMAT = 'monera-e2e-key';
+
+export type E2EField = 'title' | 'description' | 'amount';
+
+export const E2E_FIELDS: E2EField[] = ['title', 'description', 'amount'];
+
+// The columns each field covers (a transaction's settled amount is an amount too)
+const FIELD_COLUMNS: Record<E2EField, string[]> = {
+  title: ['title'],
+  description: ['description'],
+  amount: ['amount', 'settled_amount'],
+};
+
+// What the cloud column holds instead of an encrypted value (columns keep their types)
+const PLACEHOLDERS: Record<string, string | number | null> = {
+  title: '',
+  description: null,
+  amount: 0,
+  settled_amount: null,
+};
+
+const SEALED_TABLES: CloudTable[] = ['transactions', 'recurring_transactions'];
+
+interface E2EConfig {
+  keyId: string;
+  key: JsonWebKey;
+  fields: E2EField[];
+  createdAt: string;
+}
+
+/**
+ * Contents of the key export file. The key itself is wrapped with a key
+ * derived from the passphrase chosen at export time.
+ */
+export interface E2ERecoveryFile {
+  format: typeof RECOVERY_FORMAT;
+  version: 1;
+  keyId: string;
+  fields: E2EField[];
+  createdAt: string;
+  salt: string;
+  iterations: number;
+  wrappedKey: string;
+}
+
+type Row = Record<string, unknown>;
+
+/**
+ * E2EService - end-to-end encryption of synced columns
+ *
+ * The chosen fields of transactions and recurring templates are encrypted into
+ * the row's `sealed` column with a key that is generated on the device and
+ * never uploaded. The plaintext columns get placeholders, so the database
+ * only ever sees ciphertext for them. Other devices need the key export file
+ * to read the rows.
+ *
+ * Requires a nullable `sealed text` column on `transactions` and
+ * `recurring_transactions`.
+ */
+export class E2EService implements RowCipher {
+  private key: CryptoKey | null = null;
+  private iterations: number;
+
+  constructor(iterations: number = PBKDF2_ITERATIONS) {
+    this.iterations = iterations;
+  }
+
+  // ============================================
+  // STATE
+  // ============================================
+
+  private loadConfig(): E2EConfig | null {
+    try {
+      const stored = localStorage.getItem(E2E_CONFIG_KEY);
+      return stored ? JSON.parse(stored) : null;
+    } catch (error) {
+      console.error('[E2EService] Error reading config:', error);
+      return null;
+    }
+  }
+
+  private saveConfig(config: E2EConfig): void {
+    localStorage.setItem(E2E_CONFIG_KEY, JSON.stringify(config));
+    this.key = null;
+  }
+
+  /**
+   * A key is set up on this device
+   */
+  hasKey(): boolean {
+    return this.loadConfig() !== null;
+  }
+
+  /**
+   * A key is set up and at least one field is encrypted
+   */
+  isEnabled(): boolean {
+    return this.getFields().length > 0;
+  }
+
+  getFields(): E2EField[] {
+    return this.loadConfig()?.fields ?? [];
+  }
+
+  getKeyId(): string | null {
+    return this.loadConfig()?.keyId ?? null;
+  }
+
+  private async requireKey(): Promise<CryptoKey> {
+    if (this.key) return this.key;
+
+    const config = this.loadConfig();
+    if (!config) {
+      throw new Error('[E2EService] No end-to-end key on this device - import the key file first');
+    }
+    this.key = await importKey(config.key);
+    return this.key;
+  }
+
+  // ============================================
+  // SETUP
+  // ============================================
+
+  /**
+   * Encrypt the given fields from now on. Creates the key on first use.
+   * Passing no fields turns encryption off but keeps the key, so rows
+   * uploaded earlier stay readable.
+   */
+  async setFields(fields: E2EField[]): Promise<void> {
+    const config = this.loadConfig();
+    const chosen = E2E_FIELDS.filter(field => fields.includes(field));
+
+    if (config) {
+      this.saveConfig({ ...config, fields: chosen });
+      return;
+    }
+
+    const jwk = await exportKey(await generateKey());
+    this.saveConfig({
+      keyId: await keyFingerprint(jwk),
+      key: jwk,
+      fields: chosen,
+      createdAt: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Build the key export file, protected with a passphrase
+   */
+  async exportRecoveryFile(passphrase: string): Promise<E2ERecoveryFile> {
+    const config = this.loadConfig();
+    if (!config) {
+      throw new Error('[E2EService] No end-to-end key to export');
+    }
+    if (!passphrase) {
+      throw new Error('[E2EService] A passphrase is required to export the key');
+    }
+
+    const salt = generateSalt();
+    const wrappingKey = await deriveKey(passphrase, salt, this.iterations);
+
+    return {
+      format: RECOVERY_FORMAT,
+      version: 1,
+      keyId: config.keyId,
+      fields: config.fields,
+      createdAt: config.createdAt,
+      salt,
+      iterations: this.iterations,
+      wrappedKey: await encryptString(wrappingKey, JSON.stringify(config.key)),
+    };
+  }
+
+  /**
+   * Restore the key from an export file (new device or lost local data)
+   */
+  async importRecoveryFile(content: string, passphrase: string): Promise<void> {
+    let file: E2ERecoveryFile;
+    try {
+      file = JSON.parse(content);
+    } catch {
+      throw new Error('[E2EService] Invalid key file');
+    }
+    if (file?.format !== RECOVERY_FORMAT || !isEncryptedValue(file.wrappedKey) || !file.salt) {
+      throw new Error('[E2EService] Invalid key file');
+    }
+
+    const wrappingKey = await deriveKey(passphrase, file.salt, file.iterations);
+    let jwk: JsonWebKey;
+    try {
+      jwk = JSON.parse(await decryptString(wrappingKey, file.wrappedKey));
+    } catch {
+      throw new Error('[E2EService] Wrong passphrase for key file');
+    }
+
+    // Make sure the key is usable before replacing the current one
+    await importKey(jwk);
+    this.saveConfig({
+      keyId: await keyFingerprint(jwk),
+      key: jwk,
+      fields: E2E_FIELDS.filter(field => file.fields?.includes(field)),
+      createdAt: file.createdAt,
+    });
+  }
+
+  // ============================================
+  // ROWS
+  // ============================================
+
+  seals(table: CloudTable): boolean {
+    return this.hasKey() && SEALED_TABLES.includes(table);
+  }
+
+  /**
+   * Move the chosen fields into the `sealed` column
+   */
+  async sealRow<TRow extends object>(table: CloudTable, row: TRow): Promise<TRow> {
+    if (!this.seals(table)) return row;
+
+    const fields = this.getFields();
+    const sealed: Row = { ...row, sealed: null };
+    if (fields.length === 0) return sealed as TRow;
+
+    const values: Row = {};
+    for (const column of fields.flatMap(field => FIELD_COLUMNS[field])) {
+      if (!(column in row)) continue;
+      values[column] = (row as Row)[column] ?? null;
+      sealed[column] = PLACEHOLDERS[column];
+    }
+    sealed.sealed = await encryptString(await this.requireKey(), JSON.stringify(values));
+    return sealed as TRow;
+  }
+
+  /**
+   * Put the decrypted fields back into their columns
+   */
+  async openRow<TRow extends object>(table: CloudTable, row: TRow): Promise<TRow> {
+    const { sealed, ...rest } = row as Row;
+    if (!SEALED_TABLES.includes(table) || !isEncryptedValue(sealed)) {
+      return rest as TRow;
+    }
+
+    let values: Row;
+    try {
+      values = JSON.parse(await decryptString(await this.requireKey(), sealed));
+    } catch (error) {
+      if (error instanceof Error && error.message.startsWith('[E2EService]')) throw error;
+      throw new Error('[E2EService] Could not decrypt a synced row - this device has a different key');
+    }
+    return { ...rest, ...values } as TRow;
+  }
+}
+
+export const e2eService = new E2EService();
@@ -0,0 +1,120 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { Transaction } from '../types';
+import { EncryptionService } from './encryptionService';
+import { syncService } from './syncService';
+import { db } from '../db/schema';
+import { EncryptedAdapter } from '../db/EncryptedAdapter';
+import { InMemoryAdapter } from '../db/InMemoryAdapter';
+import { isEncryptedValue } from '../utils/crypto';
+import { tx as transaction } from '../test/fixtures';
+
+const ITERATIONS = 1_000;
+
+const tx = (id: string, overrides: Partial<Transaction> = {}): Transaction =>
+  transaction(id, { title: `Market ${id}`, description: 'Haftalık alışveriş', amount: 123.45, ...overrides });
+
+describe('EncryptionService', () => {
+  let service: EncryptionService;
+  let base: InMemoryAdapter;
+
+  beforeEach(async () => {
+    localStorage.clear();
+    service = new EncryptionService(ITERATIONS);
+    base = new InMemoryAdapter();
+    await base.bulkAddTransactions([tx('t1'), tx('t2', { description: undefined })]);
+  });
+
+  it('encrypts existing records when enabled', async () => {
+    const storage = await service.enable(base, 'correct horse');
+
+    const raw = await base.getTransaction('t1');
+    expect(isEncryptedValue(raw?.title)).toBe(true);
+    expect(isEncryptedValue(raw?.description)).toBe(true);
+    expect(isEncryptedValue(raw?.amount)).toBe(true);
+    expect(raw?.category).toBe('food');
+    expect(raw?.date).toBe('2026-01-15');
+
+    expect(await storage.getTransaction('t1')).toEqual(tx('t1'));
+    expect((await storage.getTransaction('t2'))?.description).toBeUndefined();
+    expect(service.isEnabled()).toBe(true);
+  });
+
+  it('encrypts new writes and reads them back', async () => {
+    const storage = await service.enable(base, 'correct horse');
+    await storage.addTransaction(tx('t3', { amount: 9.99 }));
+
+    expect(isEncryptedValue((await base.getTransaction('t3'))?.amount)).toBe(true);
+    expect((await storage.getTransaction('t3'))?.amount).toBe(9.99);
+  });
+
+  it('refuses a wrong passphrase on unlock', async () => {
+    await service.enable(base, 'correct horse');
+
+    const restarted = new EncryptionService(ITERATIONS);
+    expect(() => restarted.wrap(base)).toThrow('locked');
+    expect(await restarted.unlock('wrong horse')).toBe(false);
+    expect(restarted.isUnlocked()).toBe(false);
+
+    expect(await restarted.unlock('correct horse')).toBe(true);
+    expect(await restarted.wrap(base).getTransaction('t1')).toEqual(tx('t1'));
+  });
+
+  it('re-encrypts everything when the passphrase changes', async () => {
+    const storage = await service.enable(base, 'correct horse');
+    const before = (await base.getTransaction('t1'))?.title;
+
+    await expect(service.changePassphrase(storage, 'wrong horse', 'battery staple')).rejects.toThrow(
+      'Wrong passphrase'
+    );
+
+    const changed = await service.changePassphrase(storage, 'correct horse', 'battery staple');
+    expect((await base.getTransaction('t1'))?.title).not.toBe(before);
+    expect(await changed.getTransaction('t1')).toEqual(tx('t1'));
+
+    const restarted = new EncryptionService(ITERATIONS);
+    expect(await restarted.unlock('correct horse')).toBe(false);
+    expect(await restarted.unlock('battery staple')).toBe(true);
+  });
+
+  it('restores plaintext when disabled', async () => {
+    const storage = await service.enable(base, 'correct horse');
+
+    await expect(service.disable(storage, 'wrong horse')).rejects.toThrow('Wrong passphrase');
+
+    const plain = await service.disable(storage, 'correct horse');
+    expect(plain).not.toBeInstanceOf(EncryptedAdapter);
+    expect(await base.getTransaction('t1')).toEqual(tx('t1'));
+    expect(service.isEnabled()).toBe(false);
+  });
+
+  it('keeps sync conflicts under the key and clears them on reset', async () => {
+    await db.conflicts.clear();
+    await db.conflicts.put({
+      id: 'transactions:t1',
+      table: 'transactions',
+      recordId: 't1',
+      local: tx('t1'),
+      remote: tx('t1', { title: 'Market remote' }),
+      detectedAt: '2026-01-16T10:00:00.000Z',
+    });
+
+    const storage = await service.enable(base, 'correct horse');
+    const stored = JSON.stringify(await db.conflicts.get('transactions:t1'));
+    expect(stored).not.toContain('Market');
+    expect(stored).not.toContain('123.45');
+
+    const [conflict] = await syncService.getConflicts(storage);
+    expect(conflict.local).toEqual(tx('t1'));
+    expect(conflict.remote).toEqual(tx('t1', { title: 'Market remote' }));
+
+    await service.reset(storage);
+    expect(await db.conflicts.count()).toBe(0);
+  });
+
+  it('rejects short passphrases', async () => {
+    await expect(service.enable(base, 'short')).rejects.toThrow('at least');
+    expect(service.isEnabled()).toBe(false);
+    expect(await base.getTransaction('t1')).toEqual(tx('t1'));
+  });
+});
@@ -0,0 +1,280 @@
+import type { StorageAdapter } from '../db/StorageAdapter';
+import { EncryptedAdapter } from '../db/EncryptedAdapter';
+import { snapshotService } from './snapshotService';
+import { auditService } from './auditService';
+import { rollupService } from './rollupService';
+import { syncService } from './syncService';
+import {
+  PBKDF2_ITERATIONS,
+  generateSalt,
+  deriveKey,
+  encryptString,
+  decryptString,
+} from '../utils/crypto';
+
+const ENCRYPTION_CONFIG_KEY = 'monera_encryption';
+
+// Known plaintext encrypted with the key, used to tell a wrong passphrase apart
+const VERIFIER_PLAINTEXT = 'monera-key-check';
+
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+/**
+ * Stored next to the data; contains nothing that reveals the passphrase
+ */
+interface EncryptionConfig {
+  salt: string;
+  iterations: number;
+  verifier: string;
+}
+
+type StoredData = Awaited<ReturnType<StorageAdapter['exportAll']>>;
+
+/**
+ * EncryptionService - passphrase-based encryption of local data at rest
+ *
+ * Holds the derived key in memory while the app is unlocked. Enabling,
+ * changing the passphrase and disabling rewrite every stored record, so the
+ * data is never left half under one key and half under another. If a rewrite
+ * fails, the previous contents are written back.
+ */
+export class EncryptionService {
+  private key: CryptoKey | null = null;
+  private iterations: number;
+
+  constructor(iterations: number = PBKDF2_ITERATIONS) {
+    this.iterations = iterations;
+  }
+
+  // ============================================
+  // STATE
+  // ============================================
+
+  private loadConfig(): EncryptionConfig | null {
+    try {
+      const stored = localStorage.getItem(ENCRYPTION_CONFIG_KEY);
+      return stored ? JSON.parse(stored) : null;
+    } catch (error) {
+      console.error('[EncryptionService] Error reading config:', error);
+      return null;
+    }
+  }
+
+  isEnabled(): boolean {
+    return this.loadConfig() !== null;
+  }
+
+  isUnlocked(): boolean {
+    return this.key !== null;
+  }
+
+  // ============================================
+  // KEYS
+  // ============================================
+
+  private async createConfig(passphrase: string): Promise<{ config: EncryptionConfig; key: CryptoKey }> {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      throw new Error(`[EncryptionService] Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+    }
+
+    const salt = generateSalt();
+    const key = await deriveKey(passphrase, salt, this.iterations);
+    const verifier = await encryptString(key, VERIFIER_PLAINTEXT);
+    return { config: { salt, iterations: this.iterations, verifier }, key };
+  }
+
+  /**
+   * Derive the key for a passphrase, or null if it's not the right one
+   */
+  private async verify(passphrase: string): Promise<CryptoKey | null> {
+    const config = this.loadConfig();
+    if (!config) return null;
+
+    const key = await deriveKey(passphrase, config.salt, config.iterations);
+    try {
+      return (await decryptString(key, config.verifier)) === VERIFIER_PLAINTEXT ? key : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Unlock with the passphrase. Returns false if it's wrong.
+   */
+  async unlock(passphrase: string): Promise<boolean> {
+    const key = await this.verify(passphrase);
+    if (!key) return false;
+
+    this.key = key;
+    return true;
+  }
+
+  /**
+   * Forget the key (data stays encrypted)
+   */
+  lock(): void {
+    this.key = null;
+  }
+
+  // ============================================
+  // STORAGE
+  // ============================================
+
+  private base(storage: StorageAdapter): StorageAdapter {
+    return storage instanceof EncryptedAdapter ? storage.getInner() : storage;
+  }
+
+  /**
+   * Wrap an adapter so reads and writes go through the current key.
+   * Returns the adapter unchanged when encryption is off.
+   */
+  wrap(storage: StorageAdapter): StorageAdapter {
+    if (!this.isEnabled()) return this.base(storage);
+    if (!this.key) {
+      throw new Error('[EncryptionService] Storage is locked');
+    }
+    return new EncryptedAdapter(this.base(storage), this.key);
+  }
+
+  /**
+   * Snapshots, the audit log, the rollups and sync conflicts hold stored values, so they
+   * follow the key too. If that fails they could never be read again, so they are dropped.
+   * @param previous - Adapter for the old key (null = was plaintext)
+   * @param next - Adapter for the new key (null = becomes plaintext)
+   */
+  private async rewriteHistory(previous: EncryptedAdapter | null, next: EncryptedAdapter | null): Promise<void> {
+    const reencode = async <T extends object>(
+      value: T,
+      open: (adapter: EncryptedAdapter, value: T) => Promise<T>,
+      seal: (adapter: EncryptedAdapter, value: T) => Promise<T>
+    ): Promise<T> => {
+      const plain = previous ? await open(previous, value) : value;
+      return next ? seal(next, plain) : plain;
+    };
+
+    try {
+      await snapshotService.rewriteAll(data =>
+        reencode<StoredData>(data, (a, d) => a.openData(d), (a, d) => a.sealData(d))
+      );
+    } catch (error) {
+      console.error('[EncryptionService] Could not re-encrypt snapshots, removing them:', error);
+      await snapshotService.clear();
+    }
+
+    try {
+      await auditService.rewriteAll(record =>
+        reencode(record, (a, r) => a.openRecord(r), (a, r) => a.sealRecord(r))
+      );
+    } catch (error) {
+      console.error('[EncryptionService] Could not re-encrypt the audit log, removing it:', error);
+      await auditService.clear();
+    }
+
+    try {
+      await rollupService.rewriteAll(row =>
+        reencode(row, (a, r) => a.openRecord(r), (a, r) => a.sealRecord(r))
+      );
+    } catch (error) {
+      // Rebuilt from the records on the next load
+      console.error('[EncryptionService] Could not re-encrypt the rollups, removing them:', error);
+      await rollupService.clear();
+    }
+
+    try {
+      await syncService.rewriteConflicts(record =>
+        reencode(record, (a, r) => a.openRecord(r), (a, r) => a.sealRecord(r))
+      );
+    } catch (error) {
+      console.error('[EncryptionService] Could not re-encrypt sync conflicts, removing them:', error);
+      await syncService.clearConflicts();
+    }
+  }
+
+  private async rewrite(target: StorageAdapter, data: StoredData, previous: StorageAdapter): Promise<void> {
+    try {
+      await target.importAll(data);
+    } catch (error) {
+      console.error('[EncryptionService] Rewrite failed, restoring previous data:', error);
+      await previous.importAll(data);
+      throw error;
+    }
+  }
+
+  /**
+   * Turn encryption on and encrypt everything already stored
+   */
+  async enable(storage: StorageAdapter, passphrase: string): Promise<StorageAdapter> {
+    if (this.isEnabled()) {
+      throw new Error('[EncryptionService] Encryption is already enabled');
+    }
+
+    const base = this.base(storage);
+    const { config, key } = await this.createConfig(passphrase);
+    const encrypted = new EncryptedAdapter(base, key);
+
+    await this.rewrite(encrypted, await base.exportAll(), base);
+
+    localStorage.setItem(ENCRYPTION_CONFIG_KEY, JSON.stringify(config));
+    this.key = key;
+    await this.rewriteHistory(null, encrypted);
+    return encrypted;
+  }
+
+  /**
+   * Re-encrypt everything under a new passphrase
+   */
+  async changePassphrase(storage: StorageAdapter, current: string, next: string): Promise<StorageAdapter> {
+    const oldKey = await this.verify(current);
+    if (!oldKey) {
+      throw new Error('[EncryptionService] Wrong passphrase');
+    }
+
+    const base = this.base(storage);
+    const previous = new EncryptedAdapter(base, oldKey);
+    const { config, key } = await this.createConfig(next);
+    const encrypted = new EncryptedAdapter(base, key);
+
+    await this.rewrite(encrypted, await previous.exportAll(), previous);
+
+    localStorage.setItem(ENCRYPTION_CONFIG_KEY, JSON.stringify(config));
+    this.key = key;
+    await this.rewriteHistory(previous, encrypted);
+    return encrypted;
+  }
+
+  /**
+   * Decrypt everything and turn encryption off
+   */
+  async disable(storage: StorageAdapter, passphrase: string): Promise<StorageAdapter> {
+    const key = await this.verify(passphrase);
+    if (!key) {
+      throw new Error('[EncryptionService] Wrong passphrase');
+    }
+
+    const base = this.base(storage);
+    const previous = new EncryptedAdapter(base, key);
+
+    await this.rewrite(base, await previous.exportAll(), previous);
+
+    localStorage.removeItem(ENCRYPTION_CONFIG_KEY);
+    this.key = null;
+    await this.rewriteHistory(previous, null);
+    return base;
+  }
+
+  /**
+   * Forgotten passphrase: erase the local data and turn encryption off.
+   * Without the passphrase the records can't be decrypted, so nothing is kept.
+   */
+  async reset(storage: StorageAdapter): Promise<void> {
+    await this.base(storage).clearAll();
+    await snapshotService.clear();
+    await auditService.clear();
+    await rollupService.clear();
+    await syncService.clearConflicts();
+    localStorage.removeItem(ENCRYPTION_CONFIG_KEY);
+    this.key = null;
+  }
+}
+
+export const encryptionService = new EncryptionService();
@@ -0,0 +1,102 @@
+import { db, type DatedRates } from '../db/schema';
+import { getExchangeRates, getRateHistory, historicalRate, normalizeRates, setRateHistory, updateExchangeRates } from '../utils/exchange';
+import { unitFamilyRates } from '../utils/currencies';
+import { parseRateFile } from '../utils/rateFile';
+
+/**
+ * RateService - the dated exchange rate store
+ *
+ * Rates are kept per day in the `rates` table: today's rates whenever they
+ * are fetched, plus whatever the user imports from a rate file. The whole
+ * table is small enough to hold in memory, so every change reloads it into
+ * utils/exchange, where conversions look up the closest day. Commodity unit
+ * prices entered by the user are stored as rates too. Rates aren't personal
+ * data and are stored in the clear.
+ */
+export class RateService {
+  private static instance: RateService;
+
+  private constructor() {}
+
+  static getInstance(): RateService {
+    if (!RateService.instance) {
+      RateService.instance = new RateService();
+    }
+    return RateService.instance;
+  }
+
+  /**
+   * Read the table into the in-memory history. Returns the number of days.
+   */
+  async load(): Promise<number> {
+    const entries = await db.rates.toArray();
+    setRateHistory(entries);
+    return entries.length;
+  }
+
+  /**
+   * Merge rates into their days (a currency already known for a day is
+   * overwritten) and reload the history
+   */
+  private async merge(entries: Array<Pick<DatedRates, 'date' | 'rates'>>, source: DatedRates['source']): Promise<void> {
+    await db.transaction('rw', db.rates, async () => {
+      const existing = await db.rates.bulkGet(entries.map(entry => entry.date));
+      await db.rates.bulkPut(
+        entries.map((entry, i) => ({
+          date: entry.date,
+          rates: { ...existing[i]?.rates, ...normalizeRates(entry.rates) },
+          // A price entered by hand doesn't relabel a day that already had rates
+          source: source === 'manual' && existing[i] ? existing[i].source : source,
+        }))
+      );
+    });
+    await this.load();
+  }
+
+  /**
+   * Store one day's rates (any base; re-based on USD)
+   */
+  record(date: string, rates: Record<string, number>, source: DatedRates['source'] = 'fetched'): Promise<void> {
+    return this.merge([{ date, rates }], source);
+  }
+
+  /**
+   * Store a commodity unit's price on a day (e.g. gram gold in TRY) as rates
+   * for it and every unit priced through the same root. The most recent
+   * price also becomes today's rate. Returns the stored rates (per USD).
+   */
+  async recordPrice(code: string, date: string, price: number, priceCurrency: string): Promise<Record<string, number>> {
+    if (!(price > 0)) throw new Error('[RateService] Price must be positive');
+
+    const currencyRate = priceCurrency === 'USD'
+      ? 1
+      : historicalRate(priceCurrency, date, getRateHistory()) ?? getExchangeRates()[priceCurrency];
+    if (!currencyRate) throw new Error(`[RateService] No rate known for ${priceCurrency}`);
+
+    const rates = unitFamilyRates(code, currencyRate / price);
+    await this.merge([{ date, rates: { ...rates, USD: 1 } }], 'manual');
+
+    const latest = getRateHistory().filter(entry => entry.rates[code]).pop();
+    if (latest?.date === date) {
+      updateExchangeRates(rates, { source: 'manual', asOf: date });
+    }
+    return rates;
+  }
+
+  /**
+   * Import a JSON or CSV rate file (see utils/rateFile). Returns the number
+   * of days it held; throws if it held none.
+   */
+  async importFile(content: string): Promise<number> {
+    const entries = parseRateFile(content);
+    await this.merge(entries, 'imported');
+    return entries.length;
+  }
+
+  async clear(): Promise<void> {
+    await db.rates.clear();
+    setRateHistory([]);
+  }
+}
+
+export const rateService = RateService.getInstance();
@@ -0,0 +1,129 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { RealtimeService, type RealtimeChannelLike, type RealtimeClientLike, type RealtimeEvent } from './realtimeService';
+
+type Payload = RealtimePostgresChangesPayload<Record<string, unknown>>;
+
+/**
+ * In-memory stand-in for a Supabase realtime channel
+ */
+function createMockClient() {
+  const handlers = new Map<string, (payload: Payload) => void>();
+  const filters: Array<{ table: string; filter?: string }> = [];
+
+  const channel: RealtimeChannelLike = {
+    on: vi.fn((_type, filter, callback) => {
+      filters.push({ table: filter.table, filter: filter.filter });
+      handlers.set(filter.table, callback);
+      return channel;
+    }),
+    subscribe: vi.fn(() => channel),
+  };
+
+  const client: RealtimeClientLike = {
+    channel: vi.fn(() => channel),
+    removeChannel: vi.fn(async () => 'ok'),
+  };
+
+  const emit = (table: string, payload: Partial<Payload>) => {
+    handlers.get(table)?.({
+      schema: 'public',
+      table,
+      commit_timestamp: new Date().toISOString(),
+      errors: [],
+      new: {},
+      old: {},
+      ...payload,
+    } as Payload);
+  };
+
+  return { client, channel, filters, emit };
+}
+
+describe('RealtimeService', () => {
+  let mock: ReturnType<typeof createMockClient>;
+  let service: RealtimeService;
+  let events: RealtimeEvent[];
+
+  beforeEach(() => {
+    mock = createMockClient();
+    service = new RealtimeService(mock.client);
+    events = [];
+  });
+
+  it('should subscribe to every synced table for the user', () => {
+    service.subscribe('user-1', (event) => events.push(event));
+
+    expect(mock.filters.map((f) => f.table)).toEqual([
+      'transactions',
+      'budgets',
+      'recurring_transactions',
+      'app_settings',
+    ]);
+    expect(mock.filters.every((f) => f.filter === 'user_id=eq.user-1')).toBe(true);
+    expect(mock.channel.subscribe).toHaveBeenCalledTimes(1);
+  });
+
+  it('should normalize inserts, updates and deletes', () => {
+    service.subscribe('user-1', (event) => events.push(event));
+
+    mock.emit('transactions', { eventType: 'INSERT', new: { id: 'tx-1', title: 'Coffee' } });
+    mock.emit('recurring_transactions', { eventType: 'UPDATE', new: { id: 'rec-1' } });
+    mock.emit('budgets', { eventType: 'DELETE', old: { id: 'budget-1' } });
+
+    expect(events).toEqual([
+      { table: 'transactions', type: 'upsert', recordId: 'tx-1', row: { id: 'tx-1', title: 'Coffee' } },
+      { table: 'recurring', type: 'upsert', recordId: 'rec-1', row: { id: 'rec-1' } },
+      { table: 'budgets', type: 'delete', recordId: 'budget-1', row: null },
+    ]);
+  });
+
+  it('should key settings rows by the single settings record', () => {
+    service.subscribe('user-1', (event) => events.push(event));
+
+    mock.emit('app_settings', { eventType: 'UPDATE', new: { user_id: 'user-1', theme: 'dark' } });
+
+    expect(events[0]).toMatchObject({ table: 'settings', type: 'upsert', recordId: 'default' });
+  });
+
+  it('should ignore echoes of its own upserts', () => {
+    service.subscribe('user-1', (event) => events.push(event));
+    service.rememberUpserts('transactions', [{ id: 'tx-1', version: 2 }]);
+
+    mock.emit('transactions', {
+      eventType: 'UPDATE',
+      new: { id: 'tx-1', version: 2, updated_at: '2026-01-01T10:00:00+00:00' },
+    });
+
+    expect(events).toHaveLength(0);
+  });
+
+  it('should forward later writes to a record it pushed', () => {
+    service.subscribe('user-1', (event) => events.push(event));
+    service.rememberUpserts('transactions', [{ id: 'tx-1', version: 2 }]);
+
+    mock.emit('transactions', {
+      eventType: 'UPDATE',
+      new: { id: 'tx-1', version: 3, updated_at: '2026-01-01T10:05:00.000Z' },
+    });
+
+    expect(events).toHaveLength(1);
+  });
+
+  it('should ignore echoes of its own deletes only once', () => {
+    service.subscribe('user-1', (event) => events.push(event));
+    service.rememberDeletes('budgets', ['budget-1']);
+
+    mock.emit('budgets', { eventType: 'DELETE', old: { id: 'budget-1' } });
+    mock.emit('budgets', { eventType: 'DELETE', old: { id: 'budget-1' } });
+
+    expect(events).toHaveLength(1);
+  });
+
+  it('should remove the channel on unsubscribe', () => {
+    const unsubscribe = service.subscribe('user-1', (event) => events.push(event));
+    unsubscribe();
+
+    expect(mock.client.removeChannel).toHaveBeenCalledWith(mock.channel);
+  });
+});
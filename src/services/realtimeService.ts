@@ -0,0 +1,145 @@
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase';
+import type { SyncTable } from '../db/schema';
+import type { BudgetRow, RecurringRow, SettingsRow, TransactionRow } from '../db/supabaseMappers';
+
+type Row = Record<string, unknown>;
+type CloudRow = TransactionRow | BudgetRow | RecurringRow | SettingsRow;
+
+/**
+ * A remote change to one record, normalized from a postgres_changes payload
+ */
+export interface RealtimeEvent {
+  table: SyncTable;
+  type: 'upsert' | 'delete';
+  recordId: string;
+  row: CloudRow | null;   // null for deletes
+}
+
+/**
+ * The parts of the Supabase client the service uses (mockable in tests)
+ */
+export interface RealtimeChannelLike {
+  on(
+    type: 'postgres_changes',
+    filter: { event: '*'; schema: string; table: string; filter?: string },
+    callback: (payload: RealtimePostgresChangesPayload<Row>) => void
+  ): RealtimeChannelLike;
+  subscribe(callback?: (status: string, err?: Error) => void): RealtimeChannelLike;
+}
+
+export interface RealtimeClientLike {
+  channel(name: string): RealtimeChannelLike;
+  removeChannel(channel: RealtimeChannelLike): Promise<unknown>;
+}
+
+const REALTIME_TABLES: Array<[SyncTable, string]> = [
+  ['transactions', 'transactions'],
+  ['budgets', 'budgets'],
+  ['recurring', 'recurring_transactions'],
+  ['settings', 'app_settings'],
+];
+
+// Own writes usually echo back within a second or two
+const OWN_WRITE_TTL_MS = 60_000;
+
+/**
+ * RealtimeService - live change feed from Supabase
+ *
+ * Subscribes to the synced tables for the signed-in user and hands every
+ * remote insert, update and delete to a callback. The SyncService records
+ * what it pushes, so the echoes of this client's own writes are dropped here.
+ */
+export class RealtimeService {
+  private client: RealtimeClientLike;
+  private ownWrites = new Map<string, { version: number | null; at: number }>();
+
+  constructor(client: RealtimeClientLike = supabase) {
+    this.client = client;
+  }
+
+  /**
+   * Start listening. Returns an unsubscribe function.
+   */
+  subscribe(userId: string, onEvent: (event: RealtimeEvent) => void): () => void {
+    let channel = this.client.channel(`monera-sync-${userId}`);
+
+    for (const [table, cloudTable] of REALTIME_TABLES) {
+      channel = channel.on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: cloudTable, filter: `user_id=eq.${userId}` },
+        (payload) => {
+          const event = this.toEvent(table, payload);
+          if (event && !this.isOwnWrite(event)) {
+            onEvent(event);
+          }
+        }
+      );
+    }
+
+    channel.subscribe((status, err) => {
+      if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+        console.error(`[RealtimeService] Channel ${status}:`, err);
+      }
+    });
+
+    return () => {
+      void this.client.removeChannel(channel);
+    };
+  }
+
+  /**
+   * Remember records this client is about to push (matched by their version,
+   * since the server assigns updated_at)
+   */
+  rememberUpserts(table: SyncTable, records: Array<{ id: string; version?: number }>): void {
+    this.prune();
+    const now = Date.now();
+    records.forEach(record =>
+      this.ownWrites.set(`${table}:upsert:${record.id}`, { version: record.version ?? 1, at: now })
+    );
+  }
+
+  /**
+   * Remember records this client is about to delete
+   */
+  rememberDeletes(table: SyncTable, recordIds: string[]): void {
+    this.prune();
+    const now = Date.now();
+    recordIds.forEach(id => this.ownWrites.set(`${table}:delete:${id}`, { version: null, at: now }));
+  }
+
+  private toEvent(table: SyncTable, payload: RealtimePostgresChangesPayload<Row>): RealtimeEvent | null {
+    if (payload.eventType === 'DELETE') {
+      const recordId = table === 'settings' ? 'default' : payload.old?.id;
+      return typeof recordId === 'string' && recordId ? { table, type: 'delete', recordId, row: null } : null;
+    }
+
+    const row = payload.new;
+    const recordId = table === 'settings' ? 'default' : row?.id;
+    // The row of a subscribed table has that table's columns
+    return typeof recordId === 'string' && recordId ? { table, type: 'upsert', recordId, row: row as unknown as CloudRow } : null;
+  }
+
+  private isOwnWrite(event: RealtimeEvent): boolean {
+    const key = `${event.table}:${event.type}:${event.recordId}`;
+    const own = this.ownWrites.get(key);
+    if (!own || Date.now() - own.at > OWN_WRITE_TTL_MS) return false;
+
+    // An upsert only matches the exact write we pushed, not a later one
+    const version = event.row && 'version' in event.row ? event.row.version ?? 1 : null;
+    if (event.type === 'upsert' && own.version !== version) return false;
+
+    this.ownWrites.delete(key);
+    return true;
+  }
+
+  private prune(): void {
+    const cutoff = Date.now() - OWN_WRITE_TTL_MS;
+    for (const [key, own] of this.ownWrites) {
+      if (own.at < cutoff) this.ownWrites.delete(key);
+    }
+  }
+}
+
+export const realtimeService = new RealtimeService();
@@ -0,0 +1,75 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { db } from '../db/schema';
+import { InMemoryAdapter } from '../db/InMemoryAdapter';
+import { rollupService } from './rollupService';
+import { EncryptionService } from './encryptionService';
+import { isEncryptedValue } from '../utils/crypto';
+import { tx } from '../test/fixtures';
+
+describe('rollupService', () => {
+  let storage: InMemoryAdapter;
+
+  beforeEach(async () => {
+    localStorage.clear();
+    await db.rollups.clear();
+    storage = new InMemoryAdapter();
+  });
+
+  it('follows adds, updates and deletes and stays equal to a full recompute', async () => {
+    const moved = tx('t1', { date: '2026-02-01', amount: 40, version: 2 });
+    for (const t of [tx('t1'), tx('t2')]) await storage.addTransaction(t);
+    await rollupService.apply(storage, [
+      { table: 'transactions', recordId: 't1', before: null, after: tx('t1') },
+      { table: 'transactions', recordId: 't2', before: null, after: tx('t2') },
+    ]);
+
+    await storage.updateTransaction('t1', moved);
+    await rollupService.apply(storage, [{ table: 'transactions', recordId: 't1', before: tx('t1'), after: moved }]);
+    await storage.deleteTransaction('t2');
+    await rollupService.apply(storage, [{ table: 'transactions', recordId: 't2', before: tx('t2'), after: null }]);
+
+    const rows = await rollupService.getAll(storage);
+    expect(rows).toEqual([
+      { year: 2026, month: 2, type: 'expense', category: 'food', currency: 'TRY', amount: 40, count: 1 },
+    ]);
+    expect(await rollupService.verify(storage)).toEqual([]);
+  });
+
+  it('reports drift from the transactions and rebuilds on demand', async () => {
+    await storage.addTransaction(tx('t1'));
+
+    const drift = await rollupService.verify(storage);
+    expect(drift).toEqual([
+      { key: [2026, 1, 'expense', 'food', 'TRY'], expected: { amount: 100, count: 1 }, actual: null },
+    ]);
+
+    expect(await rollupService.rebuild(storage)).toBe(1);
+    expect(await rollupService.verify(storage)).toEqual([]);
+  });
+
+  it('builds an empty table once there are transactions', async () => {
+    await rollupService.ensureBuilt(storage);
+    expect(await db.rollups.count()).toBe(0);
+
+    await storage.addTransaction(tx('t1'));
+    await rollupService.ensureBuilt(storage);
+    expect(await db.rollups.count()).toBe(1);
+  });
+
+  it('stores encrypted amounts while local encryption is on', async () => {
+    const encryption = new EncryptionService(1_000);
+    await storage.addTransaction(tx('t1'));
+    await rollupService.rebuild(storage);
+
+    const encrypted = await encryption.enable(storage, 'correct horse');
+    const [stored] = await db.rollups.toArray();
+    expect(isEncryptedValue(stored.amount)).toBe(true);
+
+    await rollupService.apply(encrypted, [{ table: 'transactions', recordId: 't2', before: null, after: tx('t2') }]);
+    expect((await rollupService.getAll(encrypted))[0]).toMatchObject({ amount: 200, count: 2 });
+
+    await encryption.disable(encrypted, 'correct horse');
+    expect((await db.rollups.toArray())[0].amount).toBe(200);
+  });
+});
@@ -0,0 +1,146 @@
+import type { StorageAdapter } from '../db/StorageAdapter';
+import { EncryptedAdapter } from '../db/EncryptedAdapter';
+import { db, type MonthlyRollup } from '../db/schema';
+import type { RecordChange } from '../utils/undoJournal';
+import { applyRollupDeltas, compareRollups, computeRollups, rollupDeltas, rollupKeyOf, type RollupMismatch } from '../utils/rollups';
+
+export type { MonthlyRollup, RollupKey } from '../db/schema';
+export type { RollupMismatch } from '../utils/rollups';
+
+/**
+ * RollupService - monthly totals kept in step with every change
+ *
+ * Each change a write journals or audits is folded into the `rollups` table,
+ * so reading a month costs a handful of rows instead of a pass over the
+ * history. Updates run one at a time (read, add, write back), and reads wait
+ * for the updates queued before them. `rebuild` recomputes everything from
+ * the records; `verify` reports where the table and a recompute disagree.
+ */
+export class RollupService {
+  private static instance: RollupService;
+
+  private queue: Promise<unknown> = Promise.resolve();
+
+  private constructor() {}
+
+  static getInstance(): RollupService {
+    if (!RollupService.instance) {
+      RollupService.instance = new RollupService();
+    }
+    return RollupService.instance;
+  }
+
+  // Amounts are stored like the base adapter stores transaction amounts
+  private async seal(storage: StorageAdapter, row: MonthlyRollup): Promise<MonthlyRollup> {
+    return storage instanceof EncryptedAdapter ? storage.sealRecord(row) : row;
+  }
+
+  private async open(storage: StorageAdapter, row: MonthlyRollup): Promise<MonthlyRollup> {
+    return storage instanceof EncryptedAdapter ? storage.openRecord(row) : row;
+  }
+
+  private serialize<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(task);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async readAll(storage: StorageAdapter): Promise<MonthlyRollup[]> {
+    const rows = await db.rollups.toArray();
+    return Promise.all(rows.map(row => this.open(storage, row)));
+  }
+
+  // ============================================
+  // WRITE
+  // ============================================
+
+  /**
+   * Fold changes into the affected months (non-transaction changes are
+   * ignored). Resolves to whether any row changed.
+   */
+  apply(storage: StorageAdapter, changes: RecordChange[]): Promise<boolean> {
+    const deltas = rollupDeltas(changes);
+    if (deltas.length === 0) return Promise.resolve(false);
+
+    return this.serialize(async () => {
+      const stored = await db.rollups.bulkGet(deltas.map(rollupKeyOf));
+      const current = await Promise.all(stored.map(row => row && this.open(storage, row)));
+      const { put, remove } = applyRollupDeltas(current, deltas);
+
+      const sealed = await Promise.all(put.map(row => this.seal(storage, row)));
+      await db.transaction('rw', db.rollups, async () => {
+        await db.rollups.bulkPut(sealed);
+        await db.rollups.bulkDelete(remove);
+      });
+      return true;
+    });
+  }
+
+  /**
+   * Recompute every row from the stored transactions. Returns the row count.
+   */
+  rebuild(storage: StorageAdapter): Promise<number> {
+    return this.serialize(async () => {
+      const rows = computeRollups(await storage.getAllTransactions());
+      const sealed = await Promise.all(rows.map(row => this.seal(storage, row)));
+      await db.transaction('rw', db.rollups, async () => {
+        await db.rollups.clear();
+        await db.rollups.bulkPut(sealed);
+      });
+      return rows.length;
+    });
+  }
+
+  /**
+   * Build the table if it's empty while there are transactions
+   * (first run after upgrading, or after the table was cleared)
+   */
+  async ensureBuilt(storage: StorageAdapter): Promise<void> {
+    const [rows, stats] = await Promise.all([db.rollups.count(), storage.getStats()]);
+    if (rows === 0 && stats.transactions > 0) {
+      await this.rebuild(storage);
+    }
+  }
+
+  // ============================================
+  // READ
+  // ============================================
+
+  /**
+   * Every row, decrypted (small: one per month, type, category and currency)
+   */
+  getAll(storage: StorageAdapter): Promise<MonthlyRollup[]> {
+    return this.serialize(() => this.readAll(storage));
+  }
+
+  /**
+   * Compare the table against a full recompute (empty = consistent)
+   */
+  verify(storage: StorageAdapter): Promise<RollupMismatch[]> {
+    return this.serialize(async () => {
+      const [transactions, actual] = await Promise.all([storage.getAllTransactions(), this.readAll(storage)]);
+      return compareRollups(computeRollups(transactions), actual);
+    });
+  }
+
+  // ============================================
+  // MAINTENANCE
+  // ============================================
+
+  /**
+   * Re-encode every row (local encryption turned on/off or re-keyed).
+   * All rows are transformed before any is written.
+   */
+  rewriteAll(transform: (row: MonthlyRollup) => Promise<MonthlyRollup>): Promise<void> {
+    return this.serialize(async () => {
+      const rows = await db.rollups.toArray();
+      await db.rollups.bulkPut(await Promise.all(rows.map(transform)));
+    });
+  }
+
+  clear(): Promise<void> {
+    return this.serialize(() => db.rollups.clear());
+  }
+}
+
+export const rollupService = RollupService.getInstance();
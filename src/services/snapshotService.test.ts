@@ -0,0 +1,104 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import { db } from '../db/schema';
+import { InMemoryAdapter } from '../db/InMemoryAdapter';
+import { snapshotService, SNAPSHOT_RETENTION } from './snapshotService';
+import { EncryptionService } from './encryptionService';
+import { isEncryptedValue } from '../utils/crypto';
+import { tx } from '../test/fixtures';
+
+describe('snapshotService', () => {
+  let storage: InMemoryAdapter;
+
+  beforeEach(async () => {
+    localStorage.clear();
+    await db.snapshots.clear();
+    storage = new InMemoryAdapter();
+    await storage.bulkAddTransactions([tx('t1'), tx('t2')]);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('records the store and its stats, listed newest first without data', async () => {
+    await snapshotService.create(storage, 'manual');
+    await storage.addTransaction(tx('t3'));
+    await snapshotService.create(storage, 'before-clear');
+
+    const list = await snapshotService.list();
+    expect(list.map(s => s.reason)).toEqual(['before-clear', 'manual']);
+    expect(list.map(s => s.stats.transactions)).toEqual([3, 2]);
+    expect(list[0]).not.toHaveProperty('data');
+  });
+
+  it('takes one daily snapshot per day', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-03-01T09:00:00Z'));
+
+    expect(await snapshotService.ensureDaily(storage)).toBe(true);
+    expect(await snapshotService.ensureDaily(storage)).toBe(false);
+
+    vi.setSystemTime(new Date('2026-03-02T09:00:00Z'));
+    expect(await snapshotService.ensureDaily(storage)).toBe(true);
+    expect(await db.snapshots.count()).toBe(2);
+  });
+
+  it('prunes each kind to its retention limit', async () => {
+    for (let i = 0; i < SNAPSHOT_RETENTION.operation + 2; i++) {
+      await snapshotService.create(storage, 'before-import');
+    }
+    await snapshotService.create(storage, 'manual');
+
+    const list = await snapshotService.list();
+    expect(list.filter(s => s.reason === 'before-import')).toHaveLength(SNAPSHOT_RETENTION.operation);
+    expect(list.filter(s => s.reason === 'manual')).toHaveLength(1);
+  });
+
+  it('previews what a restore would change', async () => {
+    const id = await snapshotService.create(storage, 'manual');
+    await storage.deleteTransaction('t1');
+    await storage.updateTransaction('t2', { amount: 250 });
+    await storage.addTransaction(tx('t3'));
+
+    const preview = await snapshotService.preview(storage, id);
+    expect(preview.transactions.restored.map(t => t.id)).toEqual(['t1']);
+    expect(preview.transactions.changed).toEqual([tx('t2')]);
+    expect(preview.transactions.removed.map(t => t.id)).toEqual(['t3']);
+    expect(preview.settingsChanged).toBe(false);
+  });
+
+  it('restores the whole store and snapshots the state it replaces', async () => {
+    const id = await snapshotService.create(storage, 'manual');
+    await storage.clearAll();
+
+    await snapshotService.restore(storage, id);
+    expect((await storage.getAllTransactions()).map(t => t.id).sort()).toEqual(['t1', 't2']);
+
+    const [latest] = await snapshotService.list();
+    expect(latest.reason).toBe('before-restore');
+    expect(latest.stats.transactions).toBe(0);
+
+    await expect(snapshotService.restore(storage, 9999)).rejects.toThrow('not found');
+  });
+
+  it('keeps snapshots encrypted and restorable across passphrase changes', async () => {
+    const encryption = new EncryptionService(1_000);
+    const before = await snapshotService.create(storage, 'manual');
+
+    const encrypted = await encryption.enable(storage, 'correct horse');
+    const [stored] = (await db.snapshots.get(before))!.data.transactions;
+    expect(isEncryptedValue(stored.title)).toBe(true);
+
+    const rekeyed = await encryption.changePassphrase(encrypted, 'correct horse', 'battery staple');
+    await rekeyed.deleteTransaction('t1');
+
+    const preview = await snapshotService.preview(rekeyed, before);
+    expect(preview.transactions.restored).toEqual([tx('t1')]);
+    // t2 was sealed again under the new key but reads the same
+    expect(preview.transactions.changed).toEqual([]);
+
+    await snapshotService.restore(rekeyed, before);
+    expect(await rekeyed.getTransaction('t1')).toEqual(tx('t1'));
+  });
+});
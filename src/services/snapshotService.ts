@@ -0,0 +1,213 @@
+import type { Transaction, CategoryBudget, RecurringTransaction } from '../types';
+import type { StorageAdapter } from '../db/StorageAdapter';
+import { EncryptedAdapter } from '../db/EncryptedAdapter';
+import { db, type Snapshot, type SnapshotReason } from '../db/schema';
+
+export type { Snapshot, SnapshotReason } from '../db/schema';
+
+type StoredData = Snapshot['data'];
+
+/**
+ * How many snapshots of each kind are kept (newest first)
+ */
+export const SNAPSHOT_RETENTION = {
+  daily: 7,
+  manual: 10,
+  operation: 10,    // Taken automatically before a destructive bulk operation
+};
+
+type RetentionGroup = keyof typeof SNAPSHOT_RETENTION;
+
+/**
+ * Snapshot without its data, for listing
+ */
+export type SnapshotSummary = Omit<Snapshot, 'data'> & { id: number };
+
+/**
+ * What restoring one table would do to the current data
+ */
+export interface TableDiff<T> {
+  restored: T[];    // In the snapshot, missing now
+  removed: T[];     // Exists now, not in the snapshot
+  changed: T[];     // In both but different (snapshot version shown)
+}
+
+export interface RestorePreview {
+  transactions: TableDiff<Transaction>;
+  budgets: TableDiff<CategoryBudget>;
+  recurring: TableDiff<RecurringTransaction>;
+  settingsChanged: boolean;
+}
+
+const groupOf = (reason: SnapshotReason): RetentionGroup =>
+  reason === 'daily' || reason === 'manual' ? reason : 'operation';
+
+const today = () => new Date().toISOString().split('T')[0];
+
+function diffTable<T extends { id: string }>(current: T[], snapshot: T[]): TableDiff<T> {
+  const currentById = new Map(current.map(record => [record.id, record]));
+  const snapshotIds = new Set(snapshot.map(record => record.id));
+  const diff: TableDiff<T> = { restored: [], removed: [], changed: [] };
+
+  for (const record of snapshot) {
+    const now = currentById.get(record.id);
+    if (!now) {
+      diff.restored.push(record);
+    } else if (JSON.stringify(now) !== JSON.stringify(record)) {
+      diff.changed.push(record);
+    }
+  }
+  for (const record of current) {
+    if (!snapshotIds.has(record.id)) {
+      diff.removed.push(record);
+    }
+  }
+  return diff;
+}
+
+/**
+ * SnapshotService - automatic local snapshots and point-in-time restore
+ *
+ * Snapshots copy the base store (below any encryption layer) into the
+ * `snapshots` table, so a restore puts back exactly what was stored. One is
+ * taken per day and before every destructive bulk operation; older ones are
+ * pruned per kind according to SNAPSHOT_RETENTION.
+ */
+export class SnapshotService {
+  private static instance: SnapshotService;
+
+  private constructor() {}
+
+  static getInstance(): SnapshotService {
+    if (!SnapshotService.instance) {
+      SnapshotService.instance = new SnapshotService();
+    }
+    return SnapshotService.instance;
+  }
+
+  private base(storage: StorageAdapter): StorageAdapter {
+    return storage instanceof EncryptedAdapter ? storage.getInner() : storage;
+  }
+
+  // Records readable by the user (decrypted when the store is encrypted)
+  private async readable(storage: StorageAdapter, data: StoredData): Promise<StoredData> {
+    return storage instanceof EncryptedAdapter ? storage.openData(data) : data;
+  }
+
+  // ============================================
+  // CREATE / LIST
+  // ============================================
+
+  /**
+   * Copy the current store. Returns the snapshot id.
+   */
+  async create(storage: StorageAdapter, reason: SnapshotReason): Promise<number> {
+    const base = this.base(storage);
+    const [data, stats] = await Promise.all([base.exportAll(), base.getStats()]);
+
+    const id = await db.snapshots.add({ createdAt: new Date().toISOString(), reason, stats, data });
+    await this.prune();
+    return id;
+  }
+
+  /**
+   * Take today's daily snapshot unless there already is one
+   */
+  async ensureDaily(storage: StorageAdapter): Promise<boolean> {
+    const latest = await db.snapshots.where('reason').equals('daily').reverse().sortBy('createdAt');
+    if (latest[0]?.createdAt.startsWith(today())) return false;
+
+    await this.create(storage, 'daily');
+    return true;
+  }
+
+  /**
+   * All snapshots, newest first, without their data
+   */
+  async list(): Promise<SnapshotSummary[]> {
+    const snapshots = await db.snapshots.orderBy('createdAt').reverse().toArray();
+    return snapshots.map(snapshot => {
+      const summary: Partial<Snapshot> = { ...snapshot };
+      delete summary.data;
+      return summary as SnapshotSummary;
+    });
+  }
+
+  async delete(id: number): Promise<void> {
+    await db.snapshots.delete(id);
+  }
+
+  async clear(): Promise<void> {
+    await db.snapshots.clear();
+  }
+
+  private async prune(): Promise<void> {
+    const snapshots = await db.snapshots.orderBy('createdAt').reverse().toArray();
+    const kept: Record<RetentionGroup, number> = { daily: 0, manual: 0, operation: 0 };
+    const expired: number[] = [];
+
+    for (const snapshot of snapshots) {
+      const group = groupOf(snapshot.reason);
+      kept[group]++;
+      if (kept[group] > SNAPSHOT_RETENTION[group]) expired.push(snapshot.id!);
+    }
+    if (expired.length > 0) await db.snapshots.bulkDelete(expired);
+  }
+
+  // ============================================
+  // RESTORE
+  // ============================================
+
+  private async require(id: number): Promise<Snapshot> {
+    const snapshot = await db.snapshots.get(id);
+    if (!snapshot) {
+      throw new Error(`[SnapshotService] Snapshot ${id} not found`);
+    }
+    return snapshot;
+  }
+
+  /**
+   * What restoring the snapshot would change, without touching anything
+   */
+  async preview(storage: StorageAdapter, id: number): Promise<RestorePreview> {
+    const snapshot = await this.require(id);
+    const current = await this.base(storage).exportAll();
+
+    // Ciphertext differs on every write (fresh IV), so both sides are compared opened
+    const [readableSnapshot, readableCurrent] = await Promise.all([
+      this.readable(storage, snapshot.data),
+      this.readable(storage, current),
+    ]);
+
+    return {
+      transactions: diffTable(readableCurrent.transactions, readableSnapshot.transactions),
+      budgets: diffTable(current.budgets, snapshot.data.budgets),
+      recurring: diffTable(readableCurrent.recurring, readableSnapshot.recurring),
+      settingsChanged: JSON.stringify(current.settings) !== JSON.stringify(snapshot.data.settings),
+    };
+  }
+
+  /**
+   * Replace the whole store with the snapshot. The current state is
+   * snapshotted first, so a restore can itself be rolled back.
+   */
+  async restore(storage: StorageAdapter, id: number): Promise<void> {
+    const snapshot = await this.require(id);
+    await this.create(storage, 'before-restore');
+    await this.base(storage).importAll(snapshot.data);
+  }
+
+  /**
+   * Re-encode every snapshot (local encryption turned on/off or re-keyed).
+   * All snapshots are transformed before any is written.
+   */
+  async rewriteAll(transform: (data: StoredData) => Promise<StoredData>): Promise<void> {
+    const snapshots = await db.snapshots.toArray();
+    const rewritten = await Promise.all(
+      snapshots.map(async snapshot => ({ ...snapshot, data: await transform(snapshot.data) }))
+    );
+    await db.snapshots.bulkPut(rewritten);
+  }
+}
+
+export const snapshotService = SnapshotService.getInstance();
@@ -0,0 +1,268 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { Transaction } from '../types';
+import { db } from '../db/schema';
+import { InMemoryAdapter } from '../db/InMemoryAdapter';
+import { transactionMapper } from '../db/supabaseMappers';
+import { createFakeSupabase } from '../test/fakeSupabase';
+import { tx } from '../test/fixtures';
+import { syncService } from './syncService';
+
+// The service talks to the module-level client; tests swap in a fresh fake cloud
+const cloud = vi.hoisted(() => ({ fake: null as ReturnType<typeof createFakeSupabase> | null }));
+
+vi.mock('../lib/supabase', () => ({
+  get supabase() {
+    return cloud.fake?.client;
+  },
+  isSupabaseConfigured: () => true,
+}));
+
+const PULL_CURSOR_KEY = 'monera-pull-cursor:user-1';
+const LAST_SYNC_KEY = 'monera-last-sync:user-1';
+
+const remoteRows = () => cloud.fake!.tables.get('transactions') ?? [];
+
+const setOnline = (online: boolean) => vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(online);
+
+// Another device shares the cloud but has its own store and sync state
+const clearSyncState = async () => {
+  await Promise.all([db.outbox.clear(), db.tombstones.clear(), db.conflicts.clear()]);
+};
+
+describe('SyncService', () => {
+  let storage: InMemoryAdapter;
+  let detach: (() => void) | null;
+
+  beforeEach(async () => {
+    localStorage.clear();
+    await clearSyncState();
+    cloud.fake = createFakeSupabase();
+    storage = new InMemoryAdapter();
+    detach = null;
+    setOnline(true);
+  });
+
+  afterEach(async () => {
+    detach?.();
+    vi.restoreAllMocks();
+    // Let flushes started by the test settle before the next one clears the tables
+    await syncService.flush();
+  });
+
+  it('keeps the outbox across a restart and flushes it when back online', async () => {
+    setOnline(false);
+    detach = syncService.attach(storage);
+    await storage.addTransaction(tx('t1'));
+    await syncService.enqueue('transactions', 'upsert', ['t1']);
+    await syncService.flush();
+
+    expect(await db.outbox.count()).toBe(1);
+    expect(remoteRows()).toHaveLength(0);
+    detach();
+
+    // A fresh module instance reads the outbox from IndexedDB again
+    vi.resetModules();
+    const { syncService: restarted } = await import('./syncService');
+    detach = restarted.attach(storage);
+    await vi.waitFor(() => expect(restarted.getSyncStatus().pendingCount).toBe(1));
+
+    setOnline(true);
+    window.dispatchEvent(new Event('online'));
+    await vi.waitFor(async () => expect(await db.outbox.count()).toBe(0));
+
+    expect(remoteRows().map(row => row.id)).toEqual(['t1']);
+    expect(remoteRows()[0]).toMatchObject({ user_id: 'user-1', title: 'Transaction t1' });
+  });
+
+  it('removes a deleted record on a second device through its tombstone', async () => {
+    const other = new InMemoryAdapter();
+    await other.addTransaction(tx('t1'));
+    cloud.fake!.tables.set('transactions', [
+      { ...transactionMapper.toRow(tx('t1'), 'user-1'), updated_at: '2026-01-15T10:00:00.000Z' },
+    ]);
+
+    await storage.addTransaction(tx('t1'));
+    detach = syncService.attach(storage);
+    await storage.deleteTransaction('t1');
+    await syncService.enqueue('transactions', 'delete', ['t1']);
+    await syncService.flush();
+
+    expect(remoteRows()).toHaveLength(0);
+    const [remoteTombstone] = cloud.fake!.tables.get('tombstones')!;
+    expect(remoteTombstone).toMatchObject({ user_id: 'user-1', table_name: 'transactions', record_id: 't1' });
+    // Stamped by the server, and the local tombstone takes that time
+    expect(await db.tombstones.get('transactions:t1')).toMatchObject({ deletedAt: remoteTombstone.deleted_at });
+
+    detach();
+    detach = null;
+    await clearSyncState();
+    localStorage.setItem(PULL_CURSOR_KEY, remoteTombstone.deleted_at as string);
+
+    const result = await syncService.syncAll(other);
+    expect(result.success).toBe(true);
+    expect(await other.getTransaction('t1')).toBeUndefined();
+    expect(await db.tombstones.get('transactions:t1')).toMatchObject({ recordId: 't1' });
+  });
+
+  it('only pulls rows changed after the last sync', async () => {
+    cloud.fake!.tables.set('transactions', [
+      { ...transactionMapper.toRow(tx('old'), 'user-1'), updated_at: '2026-01-09T00:00:00.000Z' },
+      { ...transactionMapper.toRow(tx('new'), 'user-1'), updated_at: '2026-01-11T00:00:00.000Z' },
+      { ...transactionMapper.toRow(tx('theirs'), 'user-2'), updated_at: '2026-01-11T00:00:00.000Z' },
+    ]);
+    localStorage.setItem(PULL_CURSOR_KEY, '2026-01-10T00:00:00.000Z');
+
+    const result = await syncService.syncAll(storage);
+
+    expect(result).toMatchObject({ success: true, synced: 1 });
+    expect((await storage.getAllTransactions()).map(t => t.id)).toEqual(['new']);
+    // The next pull resumes from the server's stamp, not this device's clock
+    expect(localStorage.getItem(PULL_CURSOR_KEY)).toBe('2026-01-11T00:00:00.000Z');
+  });
+
+  it('picks up rows committed late within the overlap window without re-applying seen ones', async () => {
+    await storage.addTransaction(tx('seen'));
+    cloud.fake!.tables.set('transactions', [
+      { ...transactionMapper.toRow(tx('seen'), 'user-1'), updated_at: '2026-01-10T00:00:00.000Z' },
+      { ...transactionMapper.toRow(tx('late'), 'user-1'), updated_at: '2026-01-09T23:58:00.000Z' },
+    ]);
+    localStorage.setItem(PULL_CURSOR_KEY, '2026-01-10T00:00:00.000Z');
+
+    const result = await syncService.syncAll(storage);
+
+    expect(result).toMatchObject({ success: true, synced: 1 });
+    expect((await storage.getAllTransactions()).map(t => t.id).sort()).toEqual(['late', 'seen']);
+  });
+
+  it('uploads records the cloud lacks on every sync, not only the first', async () => {
+    await storage.addTransaction(tx('t1'));
+    localStorage.setItem(PULL_CURSOR_KEY, '2026-01-10T00:00:00.000Z');
+
+    const result = await syncService.syncAll(storage);
+
+    expect(result.success).toBe(true);
+    expect(remoteRows().map(row => row.id)).toEqual(['t1']);
+    expect(cloud.fake!.tables.get('app_settings')).toEqual([expect.objectContaining({ user_id: 'user-1' })]);
+  });
+
+  it('keeps the sync position per user and forgets it on sign-out', async () => {
+    cloud.fake!.tables.set('transactions', [
+      { ...transactionMapper.toRow(tx('t1'), 'user-1'), updated_at: '2026-01-09T00:00:00.000Z' },
+    ]);
+    // Another account synced on this device after the row was written
+    localStorage.setItem('monera-pull-cursor:user-2', '2026-01-10T00:00:00.000Z');
+
+    await syncService.syncAll(storage);
+    expect((await storage.getAllTransactions()).map(t => t.id)).toEqual(['t1']);
+    expect(localStorage.getItem(PULL_CURSOR_KEY)).toBe('2026-01-09T00:00:00.000Z');
+    expect(localStorage.getItem(LAST_SYNC_KEY)).not.toBeNull();
+
+    syncService.resetSyncState('user-1');
+
+    expect(localStorage.getItem(PULL_CURSOR_KEY)).toBeNull();
+    expect(localStorage.getItem(LAST_SYNC_KEY)).toBeNull();
+    expect(localStorage.getItem('monera-pull-cursor:user-2')).toBe('2026-01-10T00:00:00.000Z');
+    expect(syncService.getSyncStatus().lastSyncTime).toBeNull();
+  });
+
+  it('keeps a failed push in the outbox and reports its error', async () => {
+    const client = cloud.fake!.client;
+    const from = client.from.bind(client);
+    vi.spyOn(client, 'from').mockImplementation(((table: string) => ({
+      ...from(table),
+      upsert: async () => ({ data: null, error: { message: 'permission denied' } }),
+    })) as unknown as typeof client.from);
+
+    setOnline(false);
+    detach = syncService.attach(storage);
+    await storage.addTransaction(tx('t1'));
+    await syncService.enqueue('transactions', 'upsert', ['t1']);
+    setOnline(true);
+    await syncService.flush();
+
+    const [entry] = await db.outbox.toArray();
+    expect(entry).toMatchObject({ recordId: 't1', attempts: 1, lastError: 'permission denied' });
+    expect(syncService.getSyncStatus()).toMatchObject({ pendingCount: 1, error: 'permission denied' });
+    expect(remoteRows()).toHaveLength(0);
+  });
+
+  describe('conflicts', () => {
+    const row = (transaction: Transaction, updatedAt: string) => ({
+      ...transactionMapper.toRow(transaction, 'user-1'),
+      updated_at: updatedAt,
+    });
+
+    // Edited here from version 1 while another device pushed version 2
+    const syncConflict = async () => {
+      await storage.addTransaction(tx('t1'));
+      cloud.fake!.tables.set('transactions', [row(tx('t1'), '2026-01-09T00:00:00.000Z')]);
+      localStorage.setItem(PULL_CURSOR_KEY, '2026-01-10T00:00:00.000Z');
+
+      setOnline(false);
+      detach = syncService.attach(storage);
+      await storage.updateTransaction('t1', { title: 'Local title', version: 2 });
+      await syncService.enqueue('transactions', 'upsert', ['t1']);
+      setOnline(true);
+
+      cloud.fake!.tables.set('transactions', [
+        row(tx('t1', { amount: 250, version: 2 }), '2026-01-11T00:00:00.000Z'),
+      ]);
+      return syncService.syncAll(storage);
+    };
+
+    it('parks a local edit based on an older remote version as a conflict', async () => {
+      const result = await syncConflict();
+
+      expect(result.conflicts).toBe(1);
+      expect(syncService.getSyncStatus().conflicts).toBe(1);
+      expect(await db.outbox.count()).toBe(0);
+
+      const [conflict] = await syncService.getConflicts(storage);
+      expect(conflict).toMatchObject({ id: 'transactions:t1', table: 'transactions', recordId: 't1' });
+      expect(conflict.local).toMatchObject({ title: 'Local title', amount: 100, version: 2 });
+      expect(conflict.remote).toMatchObject({ title: 'Transaction t1', amount: 250, version: 2 });
+
+      // Nothing was overwritten on either side
+      expect(await storage.getTransaction('t1')).toMatchObject({ title: 'Local title', amount: 100 });
+      expect(remoteRows()[0]).toMatchObject({ title: 'Transaction t1', amount: 250 });
+    });
+
+    it('keeps the local version above both sides and uploads it', async () => {
+      await syncConflict();
+
+      expect(await syncService.resolveConflict(storage, 'transactions:t1', 'local')).toBe(true);
+      await syncService.flush();
+
+      expect(await storage.getTransaction('t1')).toMatchObject({ title: 'Local title', amount: 100, version: 3 });
+      expect(remoteRows()[0]).toMatchObject({ title: 'Local title', amount: 100, version: 3 });
+      expect(await syncService.getConflicts(storage)).toEqual([]);
+      expect(syncService.getSyncStatus()).toMatchObject({ conflicts: 0, pendingCount: 0 });
+    });
+
+    it('takes the remote version without uploading anything', async () => {
+      await syncConflict();
+
+      expect(await syncService.resolveConflict(storage, 'transactions:t1', 'remote')).toBe(true);
+
+      expect(await storage.getTransaction('t1')).toMatchObject({ title: 'Transaction t1', amount: 250, version: 2 });
+      expect(await db.outbox.count()).toBe(0);
+      expect(await syncService.getConflicts(storage)).toEqual([]);
+      expect(syncService.getSyncStatus().conflicts).toBe(0);
+    });
+
+    it('writes and uploads the merged record', async () => {
+      await syncConflict();
+      const [conflict] = await syncService.getConflicts(storage);
+      const merged = { ...conflict.remote!, title: 'Local title', version: 3 };
+
+      expect(await syncService.resolveConflict(storage, 'transactions:t1', 'merge')).toBe(false);
+      expect(await syncService.resolveConflict(storage, 'transactions:t1', 'merge', merged)).toBe(true);
+      await syncService.flush();
+
+      expect(await storage.getTransaction('t1')).toMatchObject({ title: 'Local title', amount: 250, version: 3 });
+      expect(remoteRows()[0]).toMatchObject({ title: 'Local title', amount: 250, version: 3 });
+      expect(await syncService.getConflicts(storage)).toEqual([]);
+    });
+  });
+});
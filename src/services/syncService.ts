@@ -1,9 +1,38 @@
-import type { Transaction, RecurringTransaction } from '../types';
+import type { Transaction, RecurringTransaction, CategoryBudget, AppSettings } from '../types';
+import type { StorageAdapter } from '../db/StorageAdapter';
+import { EncryptedAdapter } from '../db/EncryptedAdapter';
+import {
+  db,
+  type OutboxEntry,
+  type SyncConflict,
+  type SyncOperation,
+  type SyncTable,
+  type VersionedRecord,
+} from '../db/schema';
+import { supabase, isSupabaseConfigured } from '../lib/supabase';
+import {
+  transactionMapper,
+  budgetMapper,
+  recurringMapper,
+  settingsMapper,
+  type CloudTable,
+  type TransactionRow,
+  type BudgetRow,
+  type RecurringRow,
+  type SettingsRow,
+} from '../db/supabaseMappers';
+import { bumpVersion } from '../utils/versioning';
+import { realtimeService, type RealtimeEvent } from './realtimeService';
+import { e2eService } from './e2eService';
+import { auditService, type AuditSource } from './auditService';
+import { rollupService } from './rollupService';
+
+export type { SyncConflict, SyncOperation, SyncTable, VersionedRecord } from '../db/schema';
 
 export interface SyncResult {
   success: boolean;
   synced: number;
-  conflicts: number;
+  conflicts: number;    // Conflicts detected during this run
   errors: string[];
 }
 
@@ -11,11 +40,72 @@ export interface SyncStatus {
   isSyncing: boolean;
   lastSyncTime: Date | null;
   error: string | null;
+  pendingCount: number;
+  conflicts: number;    // Unresolved conflicts waiting for the user
 }
 
+export type ConflictResolution = 'local' | 'remote' | 'merge';
+
 /**
- * SyncService - DEPRECATED: Supabase-only mode
- * All data operations now go directly to Supabase. No local caching.
+ * What a realtime change did to the local store
+ */
+export type RemoteChange =
+  | { table: Exclude<SyncTable, 'settings'>; recordId: string; record: VersionedRecord | null }
+  | { table: 'settings'; settings: Partial<AppSettings> };
+
+interface FlushResult {
+  pushed: number;
+  conflicts: number;
+}
+
+// Tables holding versioned records (settings are last-write-wins)
+type RecordTable = Exclude<SyncTable, 'settings'>;
+type RecordRow = TransactionRow | BudgetRow | RecurringRow;
+
+const CLOUD_TABLES: Record<SyncTable, CloudTable> = {
+  transactions: transactionMapper.table,
+  budgets: budgetMapper.table,
+  recurring: recurringMapper.table,
+  settings: settingsMapper.table,
+};
+
+// Settings are a single record per user
+const SETTINGS_RECORD_ID = 'default';
+
+const LAST_SYNC_KEY = 'monera-last-sync';
+const PULL_CURSOR_KEY = 'monera-pull-cursor';
+// Rows stamped before the cursor but committed after the last pull are still picked up
+const PULL_OVERLAP_MS = 5 * 60_000;
+const PUSH_BATCH_SIZE = 500;
+const PULL_PAGE_SIZE = 1000;   // PostgREST's default max rows per response
+const TOMBSTONE_RETENTION_DAYS = 30;
+
+const tombstoneId = (table: SyncTable, recordId: string) => `${table}:${recordId}`;
+
+// Sync positions are kept per account, so another account on this device starts from scratch
+const userKey = (key: string, userId: string) => `${key}:${userId}`;
+
+/**
+ * SyncService - bidirectional sync between the local store and Supabase
+ *
+ * The local store is the source of truth for the UI. Every local mutation is
+ * recorded in a persistent outbox (Dexie) and pushed in order whenever the user
+ * is signed in and online - including when the browser comes back online.
+ * syncAll() flushes the outbox and then pulls remote changes made since the
+ * last sync. Deletes are recorded as tombstones on both sides so that a pull
+ * never resurrects a deleted record.
+ *
+ * Transactions, budgets and recurring templates carry a version. A record that
+ * was edited on this device and changed remotely since the version the edit
+ * was based on is parked as a conflict for the user instead of being overwritten.
+ *
+ * Expected remote schema: every synced table has an `updated_at` column, record
+ * tables also an integer `version`, and a `tombstones` table
+ * (user_id, table_name, record_id, deleted_at) is unique on
+ * (user_id, table_name, record_id). `updated_at` and `deleted_at` are assigned
+ * by the server (a BEFORE INSERT OR UPDATE trigger setting them to now()), so
+ * pulls and tombstones never compare clocks of different devices. Pulls resume
+ * from the latest server stamp seen, minus PULL_OVERLAP_MS.
  */
 export class SyncService {
   private static instance: SyncService;
@@ -23,14 +113,15 @@ export class SyncService {
     isSyncing: false,
     lastSyncTime: null,
     error: null,
+    pendingCount: 0,
+    conflicts: 0,
   };
   private syncListeners: Array<(status: SyncStatus) => void> = [];
+  private storage: StorageAdapter | null = null;
+  private flushChain: Promise<unknown> = Promise.resolve();
 
   private constructor() {
-    const lastSync = localStorage.getItem('monera-last-sync');
-    if (lastSync) {
-      this.syncStatus.lastSyncTime = new Date(lastSync);
-    }
+    void this.refreshCounts();
   }
 
   static getInstance(): SyncService {
@@ -51,29 +142,906 @@ export class SyncService {
     return { ...this.syncStatus };
   }
 
-  async syncAll(): Promise<SyncResult> {
-    console.log('ℹ️ [SyncService] Sync disabled - using Supabase-only mode');
-    return { success: true, synced: 0, conflicts: 0, errors: [] };
+  private setSyncStatus(updates: Partial<SyncStatus>): void {
+    this.syncStatus = { ...this.syncStatus, ...updates };
+    const snapshot = this.getSyncStatus();
+    this.syncListeners.forEach(cb => cb(snapshot));
+  }
+
+  private async refreshCounts(): Promise<void> {
+    try {
+      this.setSyncStatus({
+        pendingCount: await db.outbox.count(),
+        conflicts: await db.conflicts.count(),
+      });
+    } catch (error) {
+      console.error('[SyncService] Error counting outbox:', error);
+    }
+  }
+
+  private async loadLastSyncTime(): Promise<void> {
+    try {
+      const userId = await this.getUserId();
+      const lastSync = userId && localStorage.getItem(userKey(LAST_SYNC_KEY, userId));
+      this.setSyncStatus({ lastSyncTime: lastSync ? new Date(lastSync) : null });
+    } catch (error) {
+      console.error('[SyncService] Error reading last sync time:', error);
+    }
+  }
+
+  /**
+   * Forget where a user's syncs left off (on sign-out), so their next sign-in
+   * pulls everything again
+   */
+  resetSyncState(userId: string): void {
+    localStorage.removeItem(userKey(LAST_SYNC_KEY, userId));
+    localStorage.removeItem(userKey(PULL_CURSOR_KEY, userId));
+    this.setSyncStatus({ lastSyncTime: null });
+  }
+
+  /**
+   * Resolve the signed-in user from the cached session (no network round-trip)
+   */
+  private async getUserId(): Promise<string | null> {
+    if (!isSupabaseConfigured()) return null;
+    const { data: { session } } = await supabase.auth.getSession();
+    return session?.user?.id ?? null;
+  }
+
+  /**
+   * Bind the service to the active local store and push the outbox whenever
+   * the browser comes back online. Returns a detach function.
+   */
+  attach(storage: StorageAdapter): () => void {
+    this.storage = storage;
+
+    const handleOnline = () => {
+      void this.flush();
+    };
+    window.addEventListener('online', handleOnline);
+
+    // Anything queued while the app was closed
+    void this.loadLastSyncTime();
+    void this.flush();
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      if (this.storage === storage) {
+        this.storage = null;
+      }
+    };
+  }
+
+  // ============================================
+  // LOCAL RECORDS
+  // ============================================
+
+  private async readLocal(
+    storage: StorageAdapter,
+    table: RecordTable,
+    recordId: string
+  ): Promise<VersionedRecord | undefined> {
+    switch (table) {
+      case 'transactions':
+        return storage.getTransaction(recordId);
+      case 'budgets':
+        return storage.getBudget(recordId);
+      case 'recurring':
+        return storage.getRecurring(recordId);
+    }
+  }
+
+  // Log the change and fold it into the rollups; a failure here must never fail the sync itself
+  private async audit(
+    storage: StorageAdapter,
+    table: RecordTable,
+    recordId: string,
+    before: VersionedRecord | undefined,
+    after: VersionedRecord | null,
+    source: AuditSource
+  ): Promise<void> {
+    try {
+      await auditService.record(storage, [{ table, recordId, before: before ?? null, after }], source);
+    } catch (error) {
+      console.error('[SyncService] Could not write audit entry:', error);
+    }
+    try {
+      await rollupService.apply(storage, [{ table, recordId, before: before ?? null, after }]);
+    } catch (error) {
+      console.error('[SyncService] Could not update rollups:', error);
+    }
+  }
+
+  private async writeLocal(
+    storage: StorageAdapter,
+    table: RecordTable,
+    record: VersionedRecord,
+    source: AuditSource = 'sync'
+  ): Promise<void> {
+    const existing = await this.readLocal(storage, table, record.id);
+
+    switch (table) {
+      case 'transactions': {
+        const tx = record as Transaction;
+        if (existing) {
+          await storage.updateTransaction(tx.id, tx);
+        } else {
+          await storage.addTransaction(tx);
+        }
+        break;
+      }
+      case 'budgets': {
+        const budget = record as CategoryBudget;
+        if (existing) {
+          await storage.updateBudget(budget.id, budget);
+        } else {
+          await storage.addBudget(budget);
+        }
+        break;
+      }
+      case 'recurring': {
+        const recurring = record as RecurringTransaction;
+        if (existing) {
+          await storage.updateRecurring(recurring.id, recurring);
+        } else {
+          await storage.addRecurring(recurring);
+        }
+        break;
+      }
+    }
+
+    await this.audit(storage, table, record.id, existing, record, source);
+  }
+
+  private async deleteLocal(storage: StorageAdapter, table: RecordTable, recordId: string): Promise<void> {
+    const existing = await this.readLocal(storage, table, recordId);
+    if (!existing) return;
+
+    switch (table) {
+      case 'transactions':
+        await storage.deleteTransaction(recordId);
+        break;
+      case 'budgets':
+        await storage.deleteBudget(recordId);
+        break;
+      case 'recurring':
+        await storage.deleteRecurring(recordId);
+        break;
+    }
+
+    await this.audit(storage, table, recordId, existing, null, 'sync');
+  }
+
+  // Rows are end-to-end encrypted after mapping and decrypted before it
+  private toRow(table: RecordTable, record: VersionedRecord, userId: string): Promise<object> {
+    switch (table) {
+      case 'transactions':
+        return e2eService.sealRow(CLOUD_TABLES[table], transactionMapper.toRow(record as Transaction, userId));
+      case 'budgets':
+        return e2eService.sealRow(CLOUD_TABLES[table], budgetMapper.toRow(record as CategoryBudget, userId));
+      case 'recurring':
+        return e2eService.sealRow(CLOUD_TABLES[table], recurringMapper.toRow(record as RecurringTransaction, userId));
+    }
+  }
+
+  private async fromRow(table: RecordTable, row: RecordRow): Promise<VersionedRecord> {
+    const opened = await e2eService.openRow(CLOUD_TABLES[table], row);
+    switch (table) {
+      case 'transactions':
+        return transactionMapper.fromRow(opened as TransactionRow);
+      case 'budgets':
+        return budgetMapper.fromRow(opened as BudgetRow);
+      case 'recurring':
+        return recurringMapper.fromRow(opened as RecurringRow);
+    }
+  }
+
+  // ============================================
+  // OUTBOX
+  // ============================================
+
+  /**
+   * Record local mutations for the cloud. Only the latest operation per record
+   * is kept; the outbox is flushed right away when possible.
+   */
+  async enqueue(table: SyncTable, op: SyncOperation, recordIds: string[]): Promise<void> {
+    if (recordIds.length === 0) return;
+
+    const baseVersions = op === 'upsert' ? await this.readBaseVersions(table, recordIds) : new Map<string, number>();
+    const now = new Date().toISOString();
+
+    await db.transaction('rw', db.outbox, db.tombstones, async () => {
+      const previous = await db.outbox
+        .where('[table+recordId]')
+        .anyOf(recordIds.map(id => [table, id]))
+        .toArray();
+      // Further edits on top of unpushed ones are still based on the same remote version
+      const previousBase = new Map(previous.map(entry => [entry.recordId, entry.baseVersion]));
+
+      await db.outbox.bulkDelete(previous.map(entry => entry.seq!));
+      await db.outbox.bulkAdd(
+        recordIds.map(recordId => ({
+          table,
+          op,
+          recordId,
+          createdAt: now,
+          attempts: 0,
+          baseVersion: previousBase.get(recordId) ?? baseVersions.get(recordId),
+        }))
+      );
+
+      const tombstoneIds = recordIds.map(id => tombstoneId(table, id));
+      if (op === 'delete') {
+        await db.tombstones.bulkPut(
+          recordIds.map((recordId, i) => ({ id: tombstoneIds[i], table, recordId, deletedAt: now }))
+        );
+      } else {
+        // Re-created record (e.g. replace import) is alive again
+        await db.tombstones.bulkDelete(tombstoneIds);
+      }
+    });
+
+    await this.refreshCounts();
+    void this.flush();
+  }
+
+  /**
+   * Version each record had before its latest local edit
+   */
+  private async readBaseVersions(table: SyncTable, recordIds: string[]): Promise<Map<string, number>> {
+    const storage = this.storage;
+    const versions = new Map<string, number>();
+    if (!storage || table === 'settings') return versions;
+
+    for (const recordId of recordIds) {
+      const record = await this.readLocal(storage, table, recordId);
+      if (record) versions.set(recordId, Math.max((record.version ?? 1) - 1, 0));
+    }
+    return versions;
+  }
+
+  // ============================================
+  // PUSH (local → cloud)
+  // ============================================
+
+  /**
+   * Push pending outbox entries in order. Stops at the first failing batch so
+   * later mutations never overtake earlier ones.
+   */
+  flush(): Promise<FlushResult> {
+    // Runs are chained so a flush always sees entries queued before it was requested
+    const run = this.flushChain.then(() => this.flushOutbox());
+    this.flushChain = run.catch(() => undefined);
+    return run;
+  }
+
+  private async flushOutbox(): Promise<FlushResult> {
+    const result: FlushResult = { pushed: 0, conflicts: 0 };
+    const storage = this.storage;
+    if (!storage || !this.isOnline()) return result;
+
+    const userId = await this.getUserId();
+    if (!userId) return result;
+
+    const entries = await db.outbox.orderBy('seq').toArray();
+
+    for (const batch of this.toBatches(entries)) {
+      const seqs = batch.map(entry => entry.seq!);
+      try {
+        if (batch[0].op === 'delete') {
+          await this.pushDeletes(batch[0].table, batch.map(entry => entry.recordId), userId);
+        } else {
+          result.conflicts += await this.pushUpserts(storage, batch[0].table, batch, userId);
+        }
+        // Entries re-queued meanwhile got a new seq and stay in the outbox
+        await db.outbox.bulkDelete(seqs);
+        result.pushed += batch.length;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown sync error';
+        console.error('[SyncService] Error pushing outbox:', error);
+        await db.outbox.where('seq').anyOf(seqs).modify(entry => {
+          entry.attempts += 1;
+          entry.lastError = message;
+        });
+        this.setSyncStatus({ error: message });
+        break;
+      }
+    }
+
+    await this.refreshCounts();
+    if (result.pushed > 0 && result.pushed === entries.length) {
+      this.setSyncStatus({ error: null });
+    }
+    return result;
   }
 
-  async pushTransaction(_transaction: Transaction): Promise<boolean> {
-    console.log('ℹ️ [SyncService] pushTransaction deprecated');
-    return true;
+  /**
+   * Group consecutive entries with the same table and operation
+   */
+  private toBatches(entries: OutboxEntry[]): OutboxEntry[][] {
+    const batches: OutboxEntry[][] = [];
+    for (const entry of entries) {
+      const current = batches[batches.length - 1];
+      if (
+        current &&
+        current.length < PUSH_BATCH_SIZE &&
+        current[0].table === entry.table &&
+        current[0].op === entry.op
+      ) {
+        current.push(entry);
+      } else {
+        batches.push([entry]);
+      }
+    }
+    return batches;
   }
 
-  async pushRecurringTransaction(_recurring: RecurringTransaction): Promise<boolean> {
-    console.log('ℹ️ [SyncService] pushRecurringTransaction deprecated');
-    return true;
+  /**
+   * Upload the current local version of each record. Records that changed
+   * remotely since the local edit was based on them become conflicts instead
+   * of overwriting the other device's edit. Returns the number of conflicts.
+   */
+  private async pushUpserts(
+    storage: StorageAdapter,
+    table: SyncTable,
+    entries: OutboxEntry[],
+    userId: string
+  ): Promise<number> {
+    if (table === 'settings') {
+      const { error } = await supabase
+        .from(CLOUD_TABLES.settings)
+        .upsert(settingsMapper.toRow(await storage.getSettings(), userId), { onConflict: 'user_id' });
+      if (error) throw new Error(error.message);
+      return 0;
+    }
+
+    // Records deleted since they were queued are skipped
+    const local: Array<{ entry: OutboxEntry; record: VersionedRecord }> = [];
+    for (const entry of entries) {
+      const record = await this.readLocal(storage, table, entry.recordId);
+      if (record) local.push({ entry, record });
+    }
+    if (local.length === 0) return 0;
+
+    const { data: remoteRows, error: fetchError } = await supabase
+      .from(CLOUD_TABLES[table])
+      .select('*')
+      .eq('user_id', userId)
+      .in('id', local.map(({ record }) => record.id));
+    if (fetchError) throw new Error(fetchError.message);
+
+    const remoteById = new Map(
+      await Promise.all((remoteRows || []).map(async row => [row.id as string, await this.fromRow(table, row)] as const))
+    );
+    const upload: VersionedRecord[] = [];
+    let conflicts = 0;
+
+    for (const { entry, record } of local) {
+      const remote = remoteById.get(record.id);
+      const baseVersion = entry.baseVersion ?? Math.max((record.version ?? 1) - 1, 0);
+      if (remote && (remote.version ?? 1) > baseVersion) {
+        await this.saveConflict(storage, table, record, remote);
+        conflicts++;
+      } else {
+        upload.push(record);
+      }
+    }
+
+    if (upload.length > 0) {
+      const rows = await Promise.all(upload.map(record => this.toRow(table, record, userId)));
+      realtimeService.rememberUpserts(table, upload);
+      const { error } = await supabase.from(CLOUD_TABLES[table]).upsert(rows);
+      if (error) throw new Error(error.message);
+    }
+    return conflicts;
+  }
+
+  /**
+   * Deletes win over concurrent remote edits; the remote tombstone tells other
+   * devices to drop the record too.
+   */
+  private async pushDeletes(table: SyncTable, recordIds: string[], userId: string): Promise<void> {
+    if (table === 'settings') return;
+
+    realtimeService.rememberDeletes(table, recordIds);
+    const { error } = await supabase
+      .from(CLOUD_TABLES[table])
+      .delete()
+      .in('id', recordIds)
+      .eq('user_id', userId);
+    if (error) throw new Error(error.message);
+
+    const { data: tombstones, error: tombstoneError } = await supabase
+      .from('tombstones')
+      .upsert(
+        recordIds.map(recordId => ({ user_id: userId, table_name: table, record_id: recordId })),
+        { onConflict: 'user_id,table_name,record_id' }
+      )
+      .select('record_id, deleted_at');
+    if (tombstoneError) throw new Error(tombstoneError.message);
+
+    // Local tombstones take the server's time so they compare with remote updated_at
+    for (const tombstone of tombstones || []) {
+      await db.tombstones.update(tombstoneId(table, tombstone.record_id), { deletedAt: tombstone.deleted_at });
+    }
+  }
+
+  // ============================================
+  // CONFLICTS
+  // ============================================
+
+  // Both sides are stored the way the local store holds records (encrypted when it is)
+  private async sealSide(storage: StorageAdapter, record: VersionedRecord | null): Promise<VersionedRecord | null> {
+    return record && storage instanceof EncryptedAdapter ? storage.sealRecord(record) : record;
   }
 
-  async deleteRecurringTransaction(_recurringId: string): Promise<boolean> {
-    console.log('ℹ️ [SyncService] deleteRecurringTransaction deprecated');
-    return true;
+  private async openConflict(storage: StorageAdapter, conflict: SyncConflict): Promise<SyncConflict> {
+    if (!(storage instanceof EncryptedAdapter)) return conflict;
+    return {
+      ...conflict,
+      local: await storage.openRecord(conflict.local),
+      remote: conflict.remote && (await storage.openRecord(conflict.remote)),
+    };
+  }
+
+  private async saveConflict(
+    storage: StorageAdapter,
+    table: RecordTable,
+    local: VersionedRecord,
+    remote: VersionedRecord | null
+  ): Promise<void> {
+    await db.conflicts.put({
+      id: tombstoneId(table, local.id),
+      table,
+      recordId: local.id,
+      local: (await this.sealSide(storage, local))!,
+      remote: await this.sealSide(storage, remote),
+      detectedAt: new Date().toISOString(),
+    });
+  }
+
+  async getConflicts(storage: StorageAdapter): Promise<SyncConflict[]> {
+    const conflicts = await db.conflicts.orderBy('detectedAt').toArray();
+    return Promise.all(conflicts.map(conflict => this.openConflict(storage, conflict)));
+  }
+
+  /**
+   * Re-encode the stored sides when local encryption is turned on/off or rekeyed
+   */
+  async rewriteConflicts(transform: (record: VersionedRecord) => Promise<VersionedRecord>): Promise<void> {
+    const conflicts = await db.conflicts.toArray();
+    const rewritten = await Promise.all(
+      conflicts.map(async conflict => ({
+        ...conflict,
+        local: await transform(conflict.local),
+        remote: conflict.remote && (await transform(conflict.remote)),
+      }))
+    );
+    await db.conflicts.bulkPut(rewritten);
+  }
+
+  async clearConflicts(): Promise<void> {
+    await db.conflicts.clear();
+    await this.refreshCounts();
+  }
+
+  /**
+   * Settle a conflict in the local store and queue the winner for upload.
+   * 'merge' expects the merged record (see mergeRecords in utils/versioning).
+   */
+  async resolveConflict(
+    storage: StorageAdapter,
+    conflictId: string,
+    resolution: ConflictResolution,
+    merged?: VersionedRecord
+  ): Promise<boolean> {
+    try {
+      const stored = await db.conflicts.get(conflictId);
+      if (!stored) return false;
+      const conflict = await this.openConflict(storage, stored);
+
+      if (resolution === 'remote') {
+        if (conflict.remote) {
+          await this.writeLocal(storage, conflict.table, conflict.remote);
+        } else {
+          await this.deleteLocal(storage, conflict.table, conflict.recordId);
+        }
+        await db.conflicts.delete(conflictId);
+      } else {
+        if (resolution === 'merge' && !merged) return false;
+
+        // Stamped on top of both versions so the upload supersedes the remote edit
+        const winner = resolution === 'merge' && merged
+          ? merged
+          : {
+              ...conflict.local,
+              ...bumpVersion({ version: Math.max(conflict.local.version ?? 0, conflict.remote?.version ?? 0) }),
+            };
+        await this.writeLocal(storage, conflict.table, winner, 'manual');
+        await db.conflicts.delete(conflictId);
+
+        this.storage = this.storage ?? storage;
+        await this.enqueue(conflict.table, 'upsert', [conflict.recordId]);
+      }
+
+      await this.refreshCounts();
+      return true;
+    } catch (error) {
+      console.error('[SyncService] Error resolving conflict:', error);
+      return false;
+    }
+  }
+
+  // ============================================
+  // PULL (cloud → local)
+  // ============================================
+
+  private async pendingEntries(): Promise<Map<string, OutboxEntry>> {
+    return new Map(
+      (await db.outbox.toArray()).map(entry => [tombstoneId(entry.table, entry.recordId), entry])
+    );
+  }
+
+  /**
+   * A remote change to a record with an unpushed local edit. Returns 'conflict'
+   * when the remote side moved past the version the edit was based on, 'kept'
+   * when the local edit simply wins (it is uploaded next), or null when there
+   * is no pending edit.
+   */
+  private async checkPending(
+    storage: StorageAdapter,
+    table: RecordTable,
+    recordId: string,
+    remote: VersionedRecord | null,
+    pending: Map<string, OutboxEntry>
+  ): Promise<'conflict' | 'kept' | null> {
+    const entry = pending.get(tombstoneId(table, recordId));
+    if (!entry) return null;
+    if (entry.op === 'delete') return 'kept';
+
+    const local = await this.readLocal(storage, table, recordId);
+    if (!local) return 'kept';
+
+    const baseVersion = entry.baseVersion ?? Math.max((local.version ?? 1) - 1, 0);
+    if (remote && (remote.version ?? 1) <= baseVersion) return 'kept';
+
+    await this.saveConflict(storage, table, local, remote);
+    await db.outbox.delete(entry.seq!);
+    pending.delete(tombstoneId(table, recordId));
+    return 'conflict';
+  }
+
+  /**
+   * Apply one remote row to the local store
+   */
+  private async applyRemoteRow(
+    storage: StorageAdapter,
+    table: RecordTable,
+    row: RecordRow,
+    pending: Map<string, OutboxEntry>
+  ): Promise<'applied' | 'conflict' | 'skipped'> {
+    const key = tombstoneId(table, row.id);
+    const remote = await this.fromRow(table, row);
+
+    const pendingResult = await this.checkPending(storage, table, row.id, remote, pending);
+    if (pendingResult) return pendingResult === 'conflict' ? 'conflict' : 'skipped';
+
+    // Still waiting for the user - just refresh what the other side looks like
+    if (await db.conflicts.get(key)) {
+      await db.conflicts.update(key, { remote: await this.sealSide(storage, remote) });
+      return 'skipped';
+    }
+
+    // Deleted here after the remote edit - don't bring it back
+    const tombstone = await db.tombstones.get(key);
+    if (tombstone && (!row.updated_at || tombstone.deletedAt >= row.updated_at)) {
+      return 'skipped';
+    }
+
+    // Already pulled (the overlap window returns rows a second time)
+    const local = await this.readLocal(storage, table, row.id);
+    if (local && (local.version ?? 1) === (remote.version ?? 1)) return 'skipped';
+
+    await this.writeLocal(storage, table, remote);
+    if (tombstone) await db.tombstones.delete(key);
+    return 'applied';
+  }
+
+  /**
+   * Apply one remote delete to the local store. Realtime deletes carry no
+   * server time; their tombstone arrives with the next pull.
+   */
+  private async applyRemoteDelete(
+    storage: StorageAdapter,
+    table: RecordTable,
+    recordId: string,
+    deletedAt: string | null,
+    pending: Map<string, OutboxEntry>
+  ): Promise<'applied' | 'conflict' | 'skipped'> {
+    const key = tombstoneId(table, recordId);
+
+    const pendingResult = await this.checkPending(storage, table, recordId, null, pending);
+    if (pendingResult) return pendingResult === 'conflict' ? 'conflict' : 'skipped';
+
+    if (await db.conflicts.get(key)) {
+      await db.conflicts.update(key, { remote: null });
+      return 'skipped';
+    }
+
+    await this.deleteLocal(storage, table, recordId);
+    if (deletedAt) await db.tombstones.put({ id: key, table, recordId, deletedAt });
+    return 'applied';
+  }
+
+  /**
+   * Apply a single realtime change. Returns what changed locally so the caller
+   * can merge it into its state, or null when nothing did.
+   */
+  async applyRemoteChange(storage: StorageAdapter, event: RealtimeEvent): Promise<RemoteChange | null> {
+    try {
+      const pending = await this.pendingEntries();
+
+      if (event.table === 'settings') {
+        // Settings are last-write-wins: an unpushed local change is uploaded next
+        if (!event.row || pending.has(tombstoneId('settings', SETTINGS_RECORD_ID))) return null;
+        const settings = settingsMapper.fromRow(event.row as SettingsRow);
+        await storage.updateSettings(settings);
+        return { table: 'settings', settings };
+      }
+
+      const table = event.table;
+      const result = event.row
+        ? await this.applyRemoteRow(storage, table, event.row as RecordRow, pending)
+        : await this.applyRemoteDelete(storage, table, event.recordId, null, pending);
+
+      await this.refreshCounts();
+      if (result !== 'applied') return null;
+
+      // The stored record keeps the local-only fields the row doesn't carry
+      return {
+        table,
+        recordId: event.recordId,
+        record: event.row ? (await this.readLocal(storage, table, event.recordId)) ?? null : null,
+      };
+    } catch (error) {
+      console.error('[SyncService] Error applying realtime change:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Read every row of a query in PULL_PAGE_SIZE ranges (a first sync of a
+   * long history would otherwise stop at the server's row limit)
+   */
+  private async selectInRanges<TRow>(
+    fetchRange: (from: number, to: number) => PromiseLike<{ data: TRow[] | null; error: { message: string } | null }>
+  ): Promise<{ data: TRow[] | null; error: { message: string } | null }> {
+    const rows: TRow[] = [];
+    for (let from = 0; ; from += PULL_PAGE_SIZE) {
+      const { data, error } = await fetchRange(from, from + PULL_PAGE_SIZE - 1);
+      if (error) return { data: null, error };
+      rows.push(...(data ?? []));
+      if (!data || data.length < PULL_PAGE_SIZE) return { data: rows, error: null };
+    }
+  }
+
+  /**
+   * Pull remote changes (rows and tombstones) stamped after `cursor` minus
+   * PULL_OVERLAP_MS, or everything on the first sync, and return the latest
+   * server stamp seen as the next cursor. A remote change to a record with an
+   * unpushed local edit based on an older version becomes a conflict; the
+   * local record is kept until the user resolves it.
+   */
+  private async pull(
+    storage: StorageAdapter,
+    userId: string,
+    cursor: string | null
+  ): Promise<{ pulled: number; conflicts: number; cursor: string | null }> {
+    const since = cursor && new Date(Date.parse(cursor) - PULL_OVERLAP_MS).toISOString();
+    const changedSince = (table: CloudTable) => {
+      const query = supabase.from(table).select('*').eq('user_id', userId);
+      return since ? query.gt('updated_at', since) : query;
+    };
+    // Stable order so consecutive ranges neither skip nor repeat rows
+    const changedRowsIn = (table: CloudTable) => (from: number, to: number) =>
+      changedSince(table).order('updated_at').order('id').range(from, to);
+    const changedTombstonesIn = (from: number, to: number) => {
+      const query = supabase.from('tombstones').select('*').eq('user_id', userId);
+      return (since ? query.gt('deleted_at', since) : query).order('deleted_at').order('id').range(from, to);
+    };
+
+    const [txsResult, budgetsResult, recurringResult, settingsResult, tombstonesResult] = await Promise.all([
+      this.selectInRanges(changedRowsIn('transactions')),
+      this.selectInRanges(changedRowsIn('budgets')),
+      this.selectInRanges(changedRowsIn('recurring_transactions')),
+      changedSince('app_settings').maybeSingle(),
+      this.selectInRanges(changedTombstonesIn),
+    ]);
+
+    const fetchError =
+      txsResult.error || budgetsResult.error || recurringResult.error ||
+      settingsResult.error || tombstonesResult.error;
+    if (fetchError) {
+      throw new Error(fetchError.message);
+    }
+
+    const pending = await this.pendingEntries();
+    let pulled = 0;
+    let conflicts = 0;
+    let nextCursor = cursor;
+    const see = (stamp: string | null | undefined) => {
+      if (stamp && (!nextCursor || Date.parse(stamp) > Date.parse(nextCursor))) nextCursor = stamp;
+    };
+    const count = (result: 'applied' | 'conflict' | 'skipped') => {
+      if (result === 'applied') pulled++;
+      if (result === 'conflict') conflicts++;
+    };
+
+    // Templates first so generated transactions can reference them
+    const rowsByTable: Array<[RecordTable, RecordRow[]]> = [
+      ['recurring', recurringResult.data || []],
+      ['transactions', txsResult.data || []],
+      ['budgets', budgetsResult.data || []],
+    ];
+
+    // A record re-created after its remote delete outlives the tombstone
+    const rowUpdatedAt = new Map<string, string>();
+    for (const [table, rows] of rowsByTable) {
+      for (const row of rows) {
+        see(row.updated_at);
+        if (row.updated_at) rowUpdatedAt.set(tombstoneId(table, row.id), row.updated_at);
+        count(await this.applyRemoteRow(storage, table, row, pending));
+      }
+    }
+
+    if (settingsResult.data) {
+      see(settingsResult.data.updated_at);
+      // Settings are last-write-wins: an unpushed local change is uploaded next
+      if (!pending.has(tombstoneId('settings', SETTINGS_RECORD_ID))) {
+        await storage.updateSettings(settingsMapper.fromRow(settingsResult.data));
+        pulled++;
+      }
+    }
+
+    for (const remoteTombstone of tombstonesResult.data || []) {
+      const table = remoteTombstone.table_name as RecordTable;
+      if (!(table in CLOUD_TABLES) || (table as SyncTable) === 'settings') continue;
+
+      const recordId: string = remoteTombstone.record_id;
+      see(remoteTombstone.deleted_at);
+      const revivedAt = rowUpdatedAt.get(tombstoneId(table, recordId));
+      if (revivedAt && revivedAt > remoteTombstone.deleted_at) continue;
+
+      count(await this.applyRemoteDelete(storage, table, recordId, remoteTombstone.deleted_at, pending));
+    }
+
+    return { pulled, conflicts, cursor: nextCursor };
+  }
+
+  /**
+   * Ids of every record the cloud holds for the user
+   */
+  private async fetchRemoteIds(userId: string): Promise<Record<SyncTable, Set<string>>> {
+    const idsIn = (table: CloudTable) => (from: number, to: number) =>
+      supabase.from(table).select('id').eq('user_id', userId).order('id').range(from, to);
+
+    const [txsResult, budgetsResult, recurringResult, settingsResult] = await Promise.all([
+      this.selectInRanges<{ id: string }>(idsIn('transactions')),
+      this.selectInRanges<{ id: string }>(idsIn('budgets')),
+      this.selectInRanges<{ id: string }>(idsIn('recurring_transactions')),
+      supabase.from(CLOUD_TABLES.settings).select('user_id').eq('user_id', userId).maybeSingle(),
+    ]);
+
+    const fetchError = txsResult.error || budgetsResult.error || recurringResult.error || settingsResult.error;
+    if (fetchError) {
+      throw new Error(fetchError.message);
+    }
+
+    const ids = (rows: Array<{ id: string }> | null) => new Set((rows || []).map(row => row.id));
+    return {
+      transactions: ids(txsResult.data),
+      budgets: ids(budgetsResult.data),
+      recurring: ids(recurringResult.data),
+      settings: new Set(settingsResult.data ? [SETTINGS_RECORD_ID] : []),
+    };
+  }
+
+  /**
+   * Queue every local record the cloud doesn't hold (never pushed from this
+   * device, or pushed under another sync position)
+   */
+  private async enqueueLocalOnly(
+    storage: StorageAdapter,
+    remoteIds: Record<SyncTable, Set<string>>
+  ): Promise<number> {
+    const local = await storage.exportAll();
+    const localOnly = <T extends { id: string }>(records: T[], table: SyncTable) =>
+      records.filter(record => !remoteIds[table].has(record.id)).map(record => record.id);
+
+    const recurringIds = localOnly(local.recurring, 'recurring');
+    const transactionIds = localOnly(local.transactions, 'transactions');
+    const budgetIds = localOnly(local.budgets, 'budgets');
+
+    await this.enqueue('recurring', 'upsert', recurringIds);
+    await this.enqueue('transactions', 'upsert', transactionIds);
+    await this.enqueue('budgets', 'upsert', budgetIds);
+    if (remoteIds.settings.size === 0) {
+      await this.enqueue('settings', 'upsert', [SETTINGS_RECORD_ID]);
+    }
+
+    return recurringIds.length + transactionIds.length + budgetIds.length;
+  }
+
+  // ============================================
+  // FULL SYNC (cloud ⇄ local)
+  // ============================================
+
+  /**
+   * Push the outbox, pull remote changes since the last sync and upload
+   * records that only exist locally.
+   */
+  async syncAll(storage: StorageAdapter): Promise<SyncResult> {
+    const userId = await this.getUserId();
+    if (!userId) {
+      return { success: false, synced: 0, conflicts: 0, errors: ['User not authenticated'] };
+    }
+
+    if (!this.isOnline()) {
+      return { success: false, synced: 0, conflicts: 0, errors: ['Offline'] };
+    }
+
+    if (this.syncStatus.isSyncing) {
+      return { success: false, synced: 0, conflicts: 0, errors: ['Sync already in progress'] };
+    }
+
+    this.storage = storage;
+    this.setSyncStatus({ isSyncing: true, error: null });
+
+    try {
+      const startedAt = new Date();
+      const since = localStorage.getItem(userKey(PULL_CURSOR_KEY, userId));
+
+      const pushed = await this.flush();
+      const { pulled, conflicts: pullConflicts, cursor } = await this.pull(storage, userId, since);
+      let synced = pushed.pushed + pulled;
+      let conflicts = pushed.conflicts + pullConflicts;
+
+      await this.enqueueLocalOnly(storage, await this.fetchRemoteIds(userId));
+      const localOnly = await this.flush();
+      synced += localOnly.pushed;
+      conflicts += localOnly.conflicts;
+
+      await this.pruneTombstones();
+
+      const pending = await db.outbox.toArray();
+      const errors = [...new Set(pending.map(entry => entry.lastError).filter((e): e is string => !!e))];
+
+      if (cursor) localStorage.setItem(userKey(PULL_CURSOR_KEY, userId), cursor);
+      localStorage.setItem(userKey(LAST_SYNC_KEY, userId), startedAt.toISOString());
+      this.setSyncStatus({
+        isSyncing: false,
+        lastSyncTime: startedAt,
+        error: errors.length > 0 ? errors.join(', ') : null,
+        pendingCount: pending.length,
+        conflicts: await db.conflicts.count(),
+      });
+
+      return { success: errors.length === 0, synced, conflicts, errors };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown sync error';
+      console.error('[SyncService] Sync failed:', error);
+      this.setSyncStatus({ isSyncing: false, error: message });
+      return { success: false, synced: 0, conflicts: 0, errors: [message] };
+    }
   }
 
-  async deleteTransaction(_transactionId: string): Promise<boolean> {
-    console.log('ℹ️ [SyncService] deleteTransaction deprecated');
-    return true;
+  /**
+   * Drop tombstones that every device has had time to pull
+   */
+  private async pruneTombstones(): Promise<void> {
+    const cutoff = new Date();
+    cutoff.setDate(cutoff.getDate() - TOMBSTONE_RETENTION_DAYS);
+    await db.tombstones.where('deletedAt').below(cutoff.toISOString()).delete();
   }
 
   isOnline(): boolean {
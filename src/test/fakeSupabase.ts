@@ -0,0 +1,271 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+type Row = Record<string, unknown>;
+
+interface QueryResult {
+  data: Row[] | Row | null;
+  error: { message: string } | null;
+  count: number | null;
+}
+
+// Columns the real schema's triggers set to now() on every insert and update
+const SERVER_STAMPS: Record<string, string> = {
+  transactions: 'updated_at',
+  budgets: 'updated_at',
+  recurring_transactions: 'updated_at',
+  app_settings: 'updated_at',
+  tombstones: 'deleted_at',
+};
+
+type Action =
+  | { kind: 'select'; head: boolean; single: boolean }
+  | { kind: 'insert'; rows: Row[] }
+  | { kind: 'update'; patch: Row }
+  | { kind: 'upsert'; rows: Row[]; onConflict: string }
+  | { kind: 'delete' };
+
+/**
+ * Compares two column values like Postgres does for the numbers and strings
+ * the fake holds. NULL compares as NaN, so no range filter matches it.
+ */
+function compare(a: unknown, b: unknown): number {
+  if (a === null || a === undefined || b === null || b === undefined) return NaN;
+  if (typeof a === 'number' || typeof b === 'number') return Number(a) - Number(b);
+  const [left, right] = [String(a), String(b)];
+  return left < right ? -1 : left > right ? 1 : 0;
+}
+
+// Splits a PostgREST logic expression at its top-level commas
+function splitTopLevel(expression: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < expression.length; i++) {
+    if (expression[i] === '(') depth++;
+    else if (expression[i] === ')') depth--;
+    else if (expression[i] === ',' && depth === 0) {
+      parts.push(expression.slice(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(expression.slice(start));
+  return parts;
+}
+
+/**
+ * Parses the filters used with `.or()` (eq, lt, lte, gt, gte, ilike and nested and(...))
+ */
+function parseFilter(expression: string): (row: Row) => boolean {
+  if (expression.startsWith('and(') && expression.endsWith(')')) {
+    const all = splitTopLevel(expression.slice(4, -1)).map(parseFilter);
+    return row => all.every(filter => filter(row));
+  }
+
+  const [column, op, ...rest] = expression.split('.');
+  const value = rest.join('.');
+  switch (op) {
+    case 'eq': return row => String(row[column]) === value;
+    case 'lt': return row => compare(row[column], value) < 0;
+    case 'lte': return row => compare(row[column], value) <= 0;
+    case 'gt': return row => compare(row[column], value) > 0;
+    case 'gte': return row => compare(row[column], value) >= 0;
+    case 'ilike': {
+      const pattern = new RegExp(`^${value.split('%').map(part => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`, 'i');
+      return row => {
+        const cell = row[column];
+        return typeof cell === 'string' && pattern.test(cell);
+      };
+    }
+    default: throw new Error(`[FakeSupabase] Unsupported filter: ${expression}`);
+  }
+}
+
+/**
+ * Minimal chainable PostgREST query over an in-memory table
+ */
+class FakeQuery implements PromiseLike<QueryResult> {
+  private filters: Array<(row: Row) => boolean> = [];
+  private ordering: Array<{ column: string; ascending: boolean }> = [];
+  private window: { from: number; to: number } | null = null;
+  private returning = false;
+  private rows: Row[];
+  private action: Action;
+  private stamp: (row: Row) => Row;
+
+  constructor(rows: Row[], action: Action, stamp: (row: Row) => Row = row => row) {
+    this.rows = rows;
+    this.action = action;
+    this.stamp = stamp;
+  }
+
+  // Return the written rows, as `.insert(...).select()` does
+  select() {
+    this.returning = true;
+    return this;
+  }
+
+  eq(column: string, value: unknown) {
+    this.filters.push(row => row[column] === value);
+    return this;
+  }
+
+  in(column: string, values: unknown[]) {
+    this.filters.push(row => values.includes(row[column]));
+    return this;
+  }
+
+  gt(column: string, value: string) {
+    this.filters.push(row => compare(row[column], value) > 0);
+    return this;
+  }
+
+  gte(column: string, value: string) {
+    this.filters.push(row => compare(row[column], value) >= 0);
+    return this;
+  }
+
+  lte(column: string, value: string) {
+    this.filters.push(row => compare(row[column], value) <= 0);
+    return this;
+  }
+
+  lt(column: string, value: string) {
+    this.filters.push(row => compare(row[column], value) < 0);
+    return this;
+  }
+
+  or(expression: string) {
+    const any = splitTopLevel(expression).map(parseFilter);
+    this.filters.push(row => any.some(filter => filter(row)));
+    return this;
+  }
+
+  order(column: string, options?: { ascending?: boolean }) {
+    this.ordering.push({ column, ascending: options?.ascending ?? true });
+    return this;
+  }
+
+  limit(count: number) {
+    this.window = { from: 0, to: count - 1 };
+    return this;
+  }
+
+  range(from: number, to: number) {
+    this.window = { from, to };
+    return this;
+  }
+
+  maybeSingle() {
+    if (this.action.kind === 'select') this.action.single = true;
+    return this;
+  }
+
+  then<TResult1 = QueryResult, TResult2 = never>(
+    onfulfilled?: ((value: QueryResult) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    return Promise.resolve().then(() => this.execute()).then(onfulfilled, onrejected);
+  }
+
+  private matches(row: Row): boolean {
+    return this.filters.every(filter => filter(row));
+  }
+
+  private execute(): QueryResult {
+    const ok = (data: QueryResult['data'], count: number | null = null): QueryResult => ({ data, error: null, count });
+    const action = this.action;
+
+    switch (action.kind) {
+      case 'select': {
+        let found = this.rows.filter(row => this.matches(row)).map(row => ({ ...row }));
+        found.sort((a, b) => {
+          for (const { column, ascending } of this.ordering) {
+            if (a[column] === b[column]) continue;
+            // NULLs sort as the largest value, as in Postgres
+            const order = compare(a[column], b[column]);
+            const nullOrder = a[column] === null || a[column] === undefined ? 1 : -1;
+            return (Number.isNaN(order) ? nullOrder : Math.sign(order)) * (ascending ? 1 : -1);
+          }
+          return 0;
+        });
+        if (this.window) found = found.slice(this.window.from, this.window.to + 1);
+        if (action.head) return ok(null, found.length);
+        return ok(action.single ? found[0] ?? null : found);
+      }
+      case 'insert': {
+        for (const row of action.rows) {
+          if (row.id !== undefined && this.rows.some(existing => existing.id === row.id)) {
+            return { data: null, error: { message: 'duplicate key value violates unique constraint' }, count: null };
+          }
+        }
+        const inserted = action.rows.map(row => this.stamp({ ...row }));
+        this.rows.push(...inserted);
+        return ok(this.returning ? inserted.map(row => ({ ...row })) : null);
+      }
+      case 'update': {
+        const updated = this.rows.filter(row => this.matches(row));
+        updated.forEach(row => this.stamp(Object.assign(row, action.patch)));
+        return ok(this.returning ? updated.map(row => ({ ...row })) : null);
+      }
+      case 'upsert': {
+        const keys = action.onConflict.split(',');
+        const written = action.rows.map(row => {
+          const existing = this.rows.find(r => keys.every(key => r[key] === row[key]));
+          if (existing) return this.stamp(Object.assign(existing, row));
+          const inserted = this.stamp({ ...row });
+          this.rows.push(inserted);
+          return inserted;
+        });
+        return ok(this.returning ? written.map(row => ({ ...row })) : null);
+      }
+      case 'delete': {
+        const kept = this.rows.filter(row => !this.matches(row));
+        this.rows.splice(0, this.rows.length, ...kept);
+        return ok(null);
+      }
+    }
+  }
+}
+
+/**
+ * In-memory stand-in for the parts of the Supabase client the adapters use
+ */
+export function createFakeSupabase(userId = 'user-1') {
+  const tables = new Map<string, Row[]>();
+  const table = (name: string) => {
+    if (!tables.has(name)) tables.set(name, []);
+    return tables.get(name)!;
+  };
+
+  // Strictly increasing server clock, so consecutive writes never share a stamp
+  let lastStamp = 0;
+  const stamper = (name: string) => (row: Row) => {
+    const column = SERVER_STAMPS[name];
+    if (!column) return row;
+    lastStamp = Math.max(Date.now(), lastStamp + 1);
+    row[column] = new Date(lastStamp).toISOString();
+    return row;
+  };
+
+  const client = {
+    auth: {
+      getSession: async () => ({ data: { session: { user: { id: userId } } }, error: null }),
+    },
+    from: (name: string) => ({
+      select: (_columns?: string, options?: { count?: string; head?: boolean }) =>
+        new FakeQuery(table(name), { kind: 'select', head: options?.head ?? false, single: false }),
+      insert: (rows: Row | Row[]) =>
+        new FakeQuery(table(name), { kind: 'insert', rows: Array.isArray(rows) ? rows : [rows] }, stamper(name)),
+      update: (patch: Row) => new FakeQuery(table(name), { kind: 'update', patch }, stamper(name)),
+      upsert: (rows: Row | Row[], options?: { onConflict?: string }) =>
+        new FakeQuery(table(name), {
+          kind: 'upsert',
+          rows: Array.isArray(rows) ? rows : [rows],
+          onConflict: options?.onConflict ?? 'id',
+        }, stamper(name)),
+      delete: () => new FakeQuery(table(name), { kind: 'delete' }),
+    }),
+  };
+
+  return { client: client as unknown as SupabaseClient, tables };
+}
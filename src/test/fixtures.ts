@@ -0,0 +1,35 @@
+import type { Transaction } from '../types';
+
+/**
+ * Transaction fixtures shared by the test suites
+ */
+
+/**
+ * A stored transaction as the adapters and services see it (expense of 100 TRY, version 1)
+ */
+export const tx = (id: string, overrides: Partial<Transaction> = {}): Transaction => ({
+  id,
+  title: `Transaction ${id}`,
+  amount: 100,
+  category: 'food',
+  date: '2026-01-15',
+  type: 'expense',
+  isRecurring: false,
+  originalCurrency: 'TRY',
+  version: 1,
+  ...overrides,
+});
+
+/**
+ * A bare transaction for calculations: only what the overrides set stands out
+ */
+export const createTransaction = (overrides: Partial<Transaction>): Transaction => ({
+  id: '1',
+  title: 'Test',
+  amount: 0,
+  category: 'Test',
+  date: '2025-01-01',
+  type: 'expense',
+  originalCurrency: 'TRY',
+  ...overrides,
+});
@@ -1,11 +1,21 @@
 // Transaction Types
-export type TransactionType = 'income' | 'expense' | 'savings' | 'withdrawal';
+export type TransactionType = 'income' | 'expense' | 'savings' | 'withdrawal' | 'transfer';
 
 // Recurring Frequency Types (P2)
 export type RecurringFrequency = 'daily' | 'weekly' | 'biweekly' | 'monthly' | 'quarterly' | 'yearly';
 
+// ISO 4217 currency code or commodity unit, e.g. 'TRY', 'CHF' or 'GAU' (see utils/currencies)
+export type CurrencyCode = string;
+
+// Per-record versioning for cross-device sync
+export interface Versioned {
+  version?: number;     // Incremented on every local edit
+  updatedAt?: string;   // ISO timestamp of the last edit
+  deletedAt?: string;   // ISO timestamp, set when soft-deleted
+}
+
 // Transaction Model
-export interface Transaction {
+export interface Transaction extends Versioned {
   id: string;           // UUID v4
   title: string;
   amount: number;       // Always positive number, calculated by type
@@ -15,11 +25,16 @@ export interface Transaction {
   description?: string; // Optional description
   isRecurring?: boolean; // Prepared for P2
   recurringId?: string; // Links to RecurringTransaction if auto-generated
-  originalCurrency: 'TRY' | 'USD' | 'EUR' | 'GBP'; // Currency when transaction was created
+  accountId?: string;   // Account the money left or arrived in (unset = no account)
+  toAccountId?: string; // Transfers: account the money went to
+  tags?: string[];      // Free-form labels (multi-entry index)
+  originalCurrency: CurrencyCode; // Currency when transaction was created
+  settledAmount?: number;         // What it actually cost in settledCurrency (the bank's rate), if recorded
+  settledCurrency?: CurrencyCode; // Home currency the settled amount is in
 }
 
 // Recurring Transaction Model (P2)
-export interface RecurringTransaction {
+export interface RecurringTransaction extends Versioned {
   id: string;               // UUID v4
   title: string;
   amount: number;
@@ -32,33 +47,66 @@ export interface RecurringTransaction {
   nextOccurrence: string;   // ISO String (YYYY-MM-DD) - Next scheduled occurrence date
   isActive: boolean;        // Can be paused/resumed
   description?: string;
-  originalCurrency: 'TRY' | 'USD' | 'EUR' | 'GBP';
+  originalCurrency: CurrencyCode;
 }
 
 // Budget Model (P2 Sprint 2)
-export interface CategoryBudget {
+export interface CategoryBudget extends Versioned {
   id: string;               // UUID v4
   category: string;         // Category name (must match EXPENSE_CATEGORIES)
   monthlyLimit: number;     // Monthly spending limit for this category
   alertThreshold: number;   // Percentage (0-100) when to show alert (e.g., 80)
   isActive: boolean;        // Enable/disable budget tracking
-  currency: 'TRY' | 'USD' | 'EUR' | 'GBP'; // Currency for the limit
+  currency: CurrencyCode; // Currency for the limit
 }
 
-// Currency Pair Type
-export type CurrencyPair = 'TRY-USD' | 'USD-TRY' | 'EUR-USD' | 'USD-EUR' | 'TRY-EUR' | 'EUR-TRY' | 'GBP-USD' | 'USD-GBP';
+// Account Types
+export type AccountType = 'bank' | 'credit' | 'cash' | 'brokerage';
+
+// Account / Wallet Model (kept with the settings, see utils/accounts)
+export interface Account {
+  id: string;               // UUID v4
+  name: string;             // e.g. "Salary account"
+  type: AccountType;
+  currency: CurrencyCode;   // Currency the balance is kept in
+  openingBalance: number;   // Balance before its first transaction (negative = owed)
+  isActive: boolean;        // Closed accounts keep their history but leave the forms
+  statementDay?: number;    // Credit cards: day of the month the statement closes (see utils/statements)
+  dueDay?: number;          // Credit cards: day of the month the statement is due
+  creditLimit?: number;     // Credit cards: limit in the account's currency
+}
+
+// Currency Pair Type, e.g. 'TRY-USD'
+export type CurrencyPair = `${CurrencyCode}-${CurrencyCode}`;
 
 // Global Application Settings
 export interface AppSettings {
-  currency: 'TRY' | 'USD' | 'EUR' | 'GBP';
+  currency: CurrencyCode;
   currencyPair?: CurrencyPair; // Display currency pair for rates
+  enabledCurrencies?: CurrencyCode[]; // Offered in forms and tracked for rates (default: TRY, USD, EUR, GBP)
   language: 'tr' | 'en';
   theme: 'light' | 'dark';
   inflationRate: number; // Annual % estimate for real return calculation
+  valuation?: 'historical' | 'current'; // Rate used for past transactions (default: historical)
+  rateProvider?: 'api' | 'manual' | 'file'; // Where today's rates come from (default: api)
+  customUnits?: CustomUnit[]; // User-defined commodity units (e.g. çeyrek altın)
+  accounts?: Account[];       // Accounts and wallets transactions can belong to
   notificationsEnabled?: boolean;
   notificationSound?: boolean;
 }
 
+/**
+ * A commodity unit the user defines. With a base it is a fixed quantity of
+ * another unit and priced through it; otherwise it has prices of its own.
+ */
+export interface CustomUnit {
+  code: CurrencyCode;     // e.g. "CEYREK"
+  name: string;           // e.g. "Çeyrek altın"
+  minorUnits: number;     // Decimals in quantities (0 = whole pieces)
+  base?: CurrencyCode;    // e.g. "GAU"
+  quantity?: number;      // How many base units one unit is (e.g. 1.6)
+}
+
 // Dashboard Summary (Calculated Data)
 export interface FinancialSummary {
   totalIncome: number;
@@ -66,6 +114,7 @@ export interface FinancialSummary {
   totalSavings: number;
   cashBalance: number;
   netWorth: number;
+  netWorthCost?: number;  // What the savings held cost, when it differs from their market value
   savingsRate: number; // Percentage (e.g., 25.5)
 }
 
@@ -96,6 +145,7 @@ export const DEFAULT_SETTINGS: AppSettings = {
   language: 'tr',
   theme: 'light',
   inflationRate: 30.0,
+  valuation: 'historical',
   notificationsEnabled: true,
   notificationSound: true,
 };
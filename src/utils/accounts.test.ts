@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { accountBalances, runningBalances, touchesAccount } from './accounts';
+import type { DatedRates, Valuation } from './exchange';
+import type { Account } from '../types';
+import { createTransaction } from '../test/fixtures';
+
+const createAccount = (overrides: Partial<Account>): Account => ({
+  id: 'bank',
+  name: 'Bank',
+  type: 'bank',
+  currency: 'TRY',
+  openingBalance: 0,
+  isActive: true,
+  ...overrides,
+});
+
+const history: DatedRates[] = [
+  { date: '2025-01-01', rates: { USD: 1, TRY: 35 }, source: 'imported' },
+];
+const valuation: Valuation = { mode: 'historical', history };
+
+const bank = createAccount({ openingBalance: 1000 });
+const cash = createAccount({ id: 'cash', name: 'Cash', type: 'cash' });
+const usd = createAccount({ id: 'usd', name: 'USD', currency: 'USD' });
+
+describe('Accounts', () => {
+  it('should add income and take expenses from the opening balance', () => {
+    const balances = accountBalances([bank], [
+      createTransaction({ id: 'a', amount: 500, type: 'income', accountId: 'bank' }),
+      createTransaction({ id: 'b', amount: 120.1, accountId: 'bank' }),
+      createTransaction({ id: 'c', amount: 80.2, accountId: 'bank' }),
+      createTransaction({ id: 'd', amount: 999 }), // No account
+    ], valuation);
+
+    expect(balances.map(b => b.balance)).toEqual([1299.7]);
+  });
+
+  it('should move transfers between accounts without counting them anywhere else', () => {
+    const balances = accountBalances([bank, cash], [
+      createTransaction({ id: 'a', amount: 300, type: 'transfer', accountId: 'bank', toAccountId: 'cash' }),
+    ], valuation);
+
+    expect(balances.map(b => b.balance)).toEqual([700, 300]);
+  });
+
+  it('should convert transactions in other currencies to the account currency', () => {
+    const balances = accountBalances([bank, usd], [
+      createTransaction({ id: 'a', amount: 10, originalCurrency: 'USD', accountId: 'bank' }),
+      createTransaction({ id: 'b', amount: 3500, type: 'transfer', accountId: 'bank', toAccountId: 'usd' }),
+      createTransaction({ id: 'c', amount: 10, originalCurrency: 'USD', accountId: 'bank', settledAmount: 360, settledCurrency: 'TRY' }),
+    ], valuation);
+
+    expect(balances.map(b => b.balance)).toEqual([1000 - 350 - 3500 - 360, 100]);
+  });
+
+  it('should leave out deleted transactions and those after the day asked for', () => {
+    const balances = accountBalances([bank], [
+      createTransaction({ id: 'a', amount: 100, accountId: 'bank', deletedAt: '2025-01-02T00:00:00Z' }),
+      createTransaction({ id: 'b', amount: 100, accountId: 'bank', date: '2025-02-01' }),
+    ], valuation, '2025-01-31');
+
+    expect(balances.map(b => b.balance)).toEqual([1000]);
+  });
+
+  it('should track the running balance oldest first', () => {
+    const balances = runningBalances(bank, [
+      createTransaction({ id: 'b', amount: 200, accountId: 'bank', date: '2025-01-05' }),
+      createTransaction({ id: 'a', amount: 500, type: 'income', accountId: 'bank', date: '2025-01-01' }),
+      createTransaction({ id: 'c', amount: 100, type: 'transfer', accountId: 'cash', toAccountId: 'bank', date: '2025-01-09' }),
+      createTransaction({ id: 'd', amount: 50, accountId: 'cash', date: '2025-01-09' }),
+    ], valuation);
+
+    expect([...balances]).toEqual([['a', 1500], ['b', 1300], ['c', 1400]]);
+  });
+
+  it('should see both sides of a transfer', () => {
+    const transfer = createTransaction({ type: 'transfer', accountId: 'bank', toAccountId: 'cash' });
+    expect(touchesAccount(transfer, 'bank')).toBe(true);
+    expect(touchesAccount(transfer, 'cash')).toBe(true);
+    expect(touchesAccount(transfer, 'usd')).toBe(false);
+  });
+});
@@ -0,0 +1,104 @@
+import type { Account, AccountType, Transaction, TransactionType } from '../types';
+import { convertTransaction, type Valuation } from './exchange';
+import { money, negate, sum, toAmount, zero, type Money } from './money';
+
+/**
+ * Accounts and wallets
+ *
+ * A household's money sits in a few places: a salary account, a credit
+ * card, cash, a brokerage account. Accounts are a handful of records kept
+ * with the settings. A transaction belongs to the account in its
+ * `accountId`: income and withdrawals from savings add to it, expenses and
+ * savings take from it. A transfer takes from `accountId` and adds to
+ * `toAccountId`, and counts as neither income nor expense anywhere else.
+ * Transactions without an account only count towards the overall totals.
+ */
+
+export const ACCOUNT_TYPES: AccountType[] = ['bank', 'credit', 'cash', 'brokerage'];
+
+// Category transfers are filed under (they have no category of their own)
+export const TRANSFER_CATEGORY = 'Transfer';
+
+// How each type moves the balance of the account it belongs to
+const SIGNS: Record<TransactionType, 1 | -1> = {
+  income: 1,
+  expense: -1,
+  savings: -1,
+  withdrawal: 1,
+  transfer: -1,
+};
+
+export interface AccountBalance {
+  account: Account;
+  balance: number;        // In the account's currency
+}
+
+/**
+ * What a transaction moved in an account's currency: its own amount when
+ * it is in that currency, otherwise its booked amount converted
+ */
+export function amountInAccount(transaction: Transaction, account: Account, valuation: Valuation): Money {
+  if ((transaction.originalCurrency || 'TRY') === account.currency) {
+    return money(transaction.amount, account.currency);
+  }
+  return money(convertTransaction(transaction, account.currency, valuation), account.currency);
+}
+
+/**
+ * Signed change a transaction makes to an account's balance (zero when it
+ * doesn't touch the account)
+ */
+export function accountDelta(transaction: Transaction, account: Account, valuation: Valuation): Money {
+  const sign =
+    (transaction.accountId === account.id ? SIGNS[transaction.type] : 0) +
+    (transaction.type === 'transfer' && transaction.toAccountId === account.id ? 1 : 0);
+  if (transaction.deletedAt || sign === 0) return zero(account.currency);
+
+  const amount = amountInAccount(transaction, account, valuation);
+  return sign > 0 ? amount : negate(amount);
+}
+
+/**
+ * Balance of every account: its opening balance plus everything that moved
+ * in it, up to a day (inclusive) when given
+ */
+export function accountBalances(
+  accounts: Account[],
+  transactions: Transaction[],
+  valuation: Valuation,
+  upTo?: string
+): AccountBalance[] {
+  const counted = upTo ? transactions.filter(t => t.date <= upTo) : transactions;
+  return accounts.map(account => ({
+    account,
+    balance: toAmount(sum(
+      [money(account.openingBalance, account.currency), ...counted.map(t => accountDelta(t, account, valuation))],
+      account.currency
+    )),
+  }));
+}
+
+/**
+ * Balance of an account after each of its transactions, by transaction id
+ * (oldest first; same-day transactions in id order)
+ */
+export function runningBalances(account: Account, transactions: Transaction[], valuation: Valuation): Map<string, number> {
+  const balances = new Map<string, number>();
+  let balance = money(account.openingBalance, account.currency);
+
+  const touching = transactions
+    .filter(t => !t.deletedAt && touchesAccount(t, account.id))
+    .sort((a, b) => a.date.localeCompare(b.date) || a.id.localeCompare(b.id));
+  for (const transaction of touching) {
+    balance = sum([balance, accountDelta(transaction, account, valuation)], account.currency);
+    balances.set(transaction.id, toAmount(balance));
+  }
+  return balances;
+}
+
+/**
+ * Whether a transaction moved money in an account (either side of a transfer)
+ */
+export function touchesAccount(transaction: Pick<Transaction, 'accountId' | 'toAccountId'>, accountId: string): boolean {
+  return transaction.accountId === accountId || transaction.toAccountId === accountId;
+}
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { buildSnapshot, monthBounds, runAggregation } from './aggregations';
+import { createTransaction } from '../test/fixtures';
+
+const RATES = { USD: 1, TRY: 40, EUR: 0.5 };
+
+const transactions = [
+  createTransaction({ id: 'a', amount: 4000, type: 'income', date: '2025-01-05' }),
+  createTransaction({ id: 'b', amount: 1000, type: 'expense', category: 'Food', date: '2025-01-10' }),
+  createTransaction({ id: 'c', amount: 500, type: 'savings', date: '2025-01-20' }),
+  createTransaction({ id: 'd', amount: 50, type: 'expense', category: 'Rent', date: '2025-02-01', originalCurrency: 'USD' }),
+  createTransaction({ id: 'e', amount: 200, type: 'withdrawal', date: '2025-02-15' }),
+  createTransaction({ id: 'f', amount: 300, type: 'expense', category: 'Food', date: '2025-02-28' }),
+];
+
+const snapshot = buildSnapshot(transactions, 'TRY', RATES);
+
+describe('Aggregations', () => {
+  it('should convert amounts to the display currency when building the snapshot', () => {
+    expect(snapshot.rows.find(r => r.id === 'd')?.amount).toBe(2000);
+    expect(buildSnapshot(transactions, 'EUR', RATES).rows[0].amount).toBe(50);
+  });
+
+  it('should leave amounts in unknown currencies unconverted', () => {
+    const rows = buildSnapshot([createTransaction({ amount: 7, originalCurrency: 'GBP' })], 'TRY', RATES).rows;
+    expect(rows[0].amount).toBe(7);
+  });
+
+  it('should convert at each transaction\'s date under historical valuation', () => {
+    const history = [{ date: '2025-02-01', rates: { TRY: 36 }, source: 'imported' as const }];
+    const at = (mode: 'historical' | 'current') =>
+      buildSnapshot(transactions, 'TRY', RATES, { mode, history }).rows.find(r => r.id === 'd')?.amount;
+    expect(at('historical')).toBe(1800);
+    expect(at('current')).toBe(2000);
+  });
+
+  it('should total each month in order', () => {
+    expect(runAggregation(snapshot, { kind: 'monthlyTotals' })).toEqual([
+      { month: '2025-01', income: 4000, expense: 1000, savings: 500, withdrawal: 0 },
+      { month: '2025-02', income: 0, expense: 2300, savings: 0, withdrawal: 200 },
+    ]);
+  });
+
+  it('should break down one type by category, largest first', () => {
+    expect(runAggregation(snapshot, { kind: 'categoryBreakdown', type: 'expense' })).toEqual([
+      { category: 'Rent', amount: 2000, count: 1 },
+      { category: 'Food', amount: 1300, count: 2 },
+    ]);
+  });
+
+  it('should accumulate balances month by month', () => {
+    expect(runAggregation(snapshot, { kind: 'cumulativeBalances' })).toEqual([
+      { month: '2025-01', net: 3000, cash: 2500, savings: 500 },
+      { month: '2025-02', net: 700, cash: 400, savings: 300 },
+    ]);
+  });
+
+  it('should summarize a month within its bounds', () => {
+    const summary = runAggregation(snapshot, { kind: 'periodSummary', ...monthBounds(1, 2025) });
+    expect(summary).toEqual({
+      income: 0,
+      expense: 2300,
+      savings: 0,
+      withdrawal: 200,
+      count: 3,
+      largestExpense: { id: 'd', amount: 2000 },
+    });
+  });
+
+  it('should stop cumulative balances at the upper bound', () => {
+    const balances = runAggregation(snapshot, { kind: 'cumulativeBalances', to: monthBounds(0, 2025).to });
+    expect(balances).toHaveLength(1);
+    expect(balances[0].savings).toBe(500);
+  });
+});
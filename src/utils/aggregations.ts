@@ -0,0 +1,197 @@
+import type { Transaction } from '../types';
+import { bookedAmount, convertWithRates, valuationDate, type Valuation } from './exchange';
+
+/**
+ * Aggregations over a transaction snapshot
+ *
+ * Pure functions shared by the aggregation worker and its in-process
+ * fallback. Amounts are converted to the display currency once, when the
+ * snapshot is built, and months are read from the date string (no Date parsing).
+ * Rates and the valuation are passed in (USD = 1, as in utils/exchange)
+ * because the worker doesn't share the main thread's rate cache.
+ */
+
+// Only what the aggregations need, so the snapshot is cheap to post to the worker
+export interface SnapshotRow {
+  id: string;
+  month: string;        // YYYY-MM
+  date: string;         // YYYY-MM-DD
+  type: Exclude<Transaction['type'], 'transfer'>;
+  category: string;
+  amount: number;       // In the display currency
+}
+
+export interface AggregationSnapshot {
+  currency: string;
+  rows: SnapshotRow[];
+}
+
+/**
+ * Inclusive YYYY-MM-DD bounds; either side may be open
+ */
+export interface DateBounds {
+  from?: string;
+  to?: string;
+}
+
+export type AggregationQuery =
+  | ({ kind: 'monthlyTotals' } & DateBounds)
+  | ({ kind: 'categoryBreakdown'; type: Transaction['type'] } & DateBounds)
+  | ({ kind: 'cumulativeBalances' } & DateBounds)
+  | ({ kind: 'periodSummary' } & DateBounds);
+
+export interface MonthlyTotals {
+  month: string;        // YYYY-MM
+  income: number;
+  expense: number;
+  savings: number;
+  withdrawal: number;
+}
+
+export interface CategoryTotal {
+  category: string;
+  amount: number;
+  count: number;
+}
+
+/**
+ * Running totals at the end of each month with transactions
+ */
+export interface CumulativeBalance {
+  month: string;        // YYYY-MM
+  net: number;          // Income - expense
+  cash: number;         // Income - expense - savings + withdrawals
+  savings: number;      // Savings - withdrawals
+}
+
+export interface PeriodSummary {
+  income: number;
+  expense: number;
+  savings: number;
+  withdrawal: number;
+  count: number;
+  largestExpense: { id: string; amount: number } | null;
+}
+
+export interface AggregationResults {
+  monthlyTotals: MonthlyTotals[];
+  categoryBreakdown: CategoryTotal[];
+  cumulativeBalances: CumulativeBalance[];
+  periodSummary: PeriodSummary;
+}
+
+export type AggregationResult<Q extends AggregationQuery> = AggregationResults[Q['kind']];
+
+/**
+ * Convert transactions to snapshot rows in the display currency, at today's
+ * rates or (with a valuation) at each transaction's date. Transfers between
+ * accounts are left out.
+ */
+export function buildSnapshot(
+  transactions: Transaction[],
+  currency: string,
+  rates: Record<string, number>,
+  valuation?: Valuation
+): AggregationSnapshot {
+  // Same conversion as convertTransaction: the booked amount, unknown currencies left as they are
+  const convertBooked = (t: Transaction) => {
+    const booked = bookedAmount(t);
+    return convertWithRates(booked.amount, booked.currency, currency, rates, valuation?.history, valuation && valuationDate(t.date, valuation.mode));
+  };
+
+  return {
+    currency,
+    rows: transactions.flatMap(t => t.type === 'transfer' ? [] : [{
+      id: t.id,
+      month: t.date.slice(0, 7),
+      date: t.date,
+      type: t.type,
+      category: t.category,
+      amount: convertBooked(t),
+    }]),
+  };
+}
+
+/**
+ * First and last day of a zero-based month as DateBounds
+ */
+export function monthBounds(month: number, year: number): Required<DateBounds> {
+  const prefix = `${year}-${String(month + 1).padStart(2, '0')}`;
+  return { from: `${prefix}-01`, to: `${prefix}-31` };
+}
+
+const inBounds = (row: SnapshotRow, { from, to }: DateBounds) =>
+  (!from || row.date >= from) && (!to || row.date <= to);
+
+function monthlyTotals(rows: SnapshotRow[]): MonthlyTotals[] {
+  const byMonth = new Map<string, MonthlyTotals>();
+  for (const row of rows) {
+    let totals = byMonth.get(row.month);
+    if (!totals) {
+      totals = { month: row.month, income: 0, expense: 0, savings: 0, withdrawal: 0 };
+      byMonth.set(row.month, totals);
+    }
+    totals[row.type] += row.amount;
+  }
+  return [...byMonth.values()].sort((a, b) => a.month.localeCompare(b.month));
+}
+
+function categoryBreakdown(rows: SnapshotRow[], type: Transaction['type']): CategoryTotal[] {
+  const byCategory = new Map<string, CategoryTotal>();
+  for (const row of rows) {
+    if (row.type !== type) continue;
+    const total = byCategory.get(row.category) ?? { category: row.category, amount: 0, count: 0 };
+    total.amount += row.amount;
+    total.count++;
+    byCategory.set(row.category, total);
+  }
+  return [...byCategory.values()].sort((a, b) => b.amount - a.amount);
+}
+
+/**
+ * Running balances over monthly totals (oldest first)
+ */
+export function accumulateBalances(months: MonthlyTotals[]): CumulativeBalance[] {
+  let net = 0;
+  let cash = 0;
+  let savings = 0;
+  return months.map(m => {
+    net += m.income - m.expense;
+    cash += m.income - m.expense - m.savings + m.withdrawal;
+    savings += m.savings - m.withdrawal;
+    return { month: m.month, net, cash, savings };
+  });
+}
+
+function periodSummary(rows: SnapshotRow[]): PeriodSummary {
+  const summary: PeriodSummary = { income: 0, expense: 0, savings: 0, withdrawal: 0, count: rows.length, largestExpense: null };
+  for (const row of rows) {
+    summary[row.type] += row.amount;
+    if (row.type === 'expense' && (!summary.largestExpense || row.amount > summary.largestExpense.amount)) {
+      summary.largestExpense = { id: row.id, amount: row.amount };
+    }
+  }
+  return summary;
+}
+
+/**
+ * Answer one query against a snapshot
+ */
+export function runAggregation<Q extends AggregationQuery>(
+  snapshot: AggregationSnapshot,
+  query: Q
+): AggregationResult<Q> {
+  const q: AggregationQuery = query;
+  const rows = q.from || q.to ? snapshot.rows.filter(row => inBounds(row, q)) : snapshot.rows;
+
+  switch (q.kind) {
+    case 'monthlyTotals':
+      return monthlyTotals(rows) as AggregationResult<Q>;
+    case 'categoryBreakdown':
+      return categoryBreakdown(rows, q.type) as AggregationResult<Q>;
+    case 'cumulativeBalances':
+      return accumulateBalances(monthlyTotals(rows)) as AggregationResult<Q>;
+    case 'periodSummary':
+      return periodSummary(rows) as AggregationResult<Q>;
+  }
+}
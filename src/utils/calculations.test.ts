@@ -7,18 +7,7 @@ import {
   calculateSavingsRate,
   generateFinancialSummary,
 } from './calculations';
-import type { Transaction } from '../types';
-
-const createTransaction = (overrides: Partial<Transaction>): Transaction => ({
-  id: '1',
-  title: 'Test',
-  amount: 0,
-  category: 'Test',
-  date: '2025-01-01',
-  type: 'income',
-  originalCurrency: 'TRY',
-  ...overrides,
-});
+import { createTransaction } from '../test/fixtures';
 
 describe('Financial Calculations', () => {
   describe('calculateTotalIncome', () => {
@@ -94,6 +83,16 @@ describe('Financial Calculations', () => {
       expect(calculateCashBalance(transactions)).toBe(2000);
     });
 
+    it('should not drift by float noise', () => {
+      const transactions = [
+        createTransaction({ amount: 0.1, type: 'income' }),
+        createTransaction({ id: '2', amount: 0.2, type: 'income' }),
+        createTransaction({ id: '3', amount: 0.1, type: 'expense' }),
+      ];
+      // 0.1 + 0.2 - 0.1 in floats is 0.20000000000000004
+      expect(calculateCashBalance(transactions)).toBe(0.2);
+    });
+
     it('should add withdrawals back to cash balance', () => {
       const transactions = [
         createTransaction({ amount: 5000, type: 'income' }),
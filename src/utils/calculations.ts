@@ -1,46 +1,56 @@
 import type { Transaction, FinancialSummary } from '../types';
+import { bookedAmount } from './exchange';
+import { money, toDecimalString, totalAmount } from './money';
+
+/**
+ * Sum of booked transaction amounts (settled amounts where recorded), exact
+ * to the minor unit of each currency.
+ * With signs, only the signed types count, added or subtracted.
+ */
+function sumAmounts(transactions: Transaction[], signs?: Partial<Record<Transaction['type'], 1 | -1>>): number {
+  return totalAmount(
+    transactions
+      .filter((t) => !signs || signs[t.type] !== undefined)
+      .map((t) => {
+        const { amount, currency } = bookedAmount(t);
+        return { amount: (signs?.[t.type] ?? 1) * amount, currency };
+      })
+  );
+}
 
 /**
  * Calculate total income from transactions
  */
 export function calculateTotalIncome(transactions: Transaction[]): number {
-  return transactions
-    .filter((t) => t.type === 'income')
-    .reduce((sum, t) => sum + t.amount, 0);
+  return sumAmounts(transactions, { income: 1 });
 }
 
 /**
  * Calculate total expenses from transactions
  */
 export function calculateTotalExpense(transactions: Transaction[]): number {
-  return transactions
-    .filter((t) => t.type === 'expense')
-    .reduce((sum, t) => sum + t.amount, 0);
+  return sumAmounts(transactions, { expense: 1 });
 }
 
 /**
  * Calculate total savings (only savings transactions)
  */
 export function calculateTotalSavings(transactions: Transaction[]): number {
-  return transactions
-    .filter((t) => t.type === 'savings')
-    .reduce((sum, t) => sum + t.amount, 0);
+  return sumAmounts(transactions, { savings: 1 });
 }
 
 /**
  * Calculate total withdrawals (only withdrawal transactions)
  */
 export function calculateTotalWithdrawals(transactions: Transaction[]): number {
-  return transactions
-    .filter((t) => t.type === 'withdrawal')
-    .reduce((sum, t) => sum + t.amount, 0);
+  return sumAmounts(transactions, { withdrawal: 1 });
 }
 
 /**
  * Calculate net savings (savings - withdrawals)
  */
 export function calculateNetSavings(transactions: Transaction[]): number {
-  return calculateTotalSavings(transactions) - calculateTotalWithdrawals(transactions);
+  return sumAmounts(transactions, { savings: 1, withdrawal: -1 });
 }
 
 /**
@@ -69,12 +79,7 @@ export function calculateCashBalance(transactions: Transaction[]): number {
   // Cash balance = income - expense - savings + withdrawals
   // When you save money, it leaves your cash balance
   // When you withdraw from savings, it returns to cash balance
-  const income = calculateTotalIncome(transactions);
-  const expense = calculateTotalExpense(transactions);
-  const savings = calculateTotalSavings(transactions);
-  const withdrawals = calculateTotalWithdrawals(transactions);
-  
-  return income - expense - savings + withdrawals;
+  return sumAmounts(transactions, { income: 1, expense: -1, savings: -1, withdrawal: 1 });
 }
 
 /**
@@ -110,10 +115,9 @@ export function calculateNetWorth(transactions: Transaction[], upToMonth: number
  */
 export function calculateSavingsRate(transactions: Transaction[]): number {
   const totalIncome = calculateTotalIncome(transactions);
-  const totalExpense = calculateTotalExpense(transactions);
   if (totalIncome === 0) return 0;
   // Savings rate defined as (Income - Expense) / Income * 100
-  const savingsPortion = totalIncome - totalExpense;
+  const savingsPortion = sumAmounts(transactions, { income: 1, expense: -1 });
   return (savingsPortion / totalIncome) * 100;
 }
 
@@ -205,13 +209,13 @@ export function calculateRealWealthByMonth(
 export interface CategoryExpenseData { category: string; amount: number; percentage: number; }
 export function calculateExpensesByCategory(transactions: Transaction[]): CategoryExpenseData[] {
   const expenses = transactions.filter((t) => t.type === 'expense');
-  const totalExpenses = expenses.reduce((sum, t) => sum + t.amount, 0);
+  const totalExpenses = sumAmounts(expenses);
   if (totalExpenses === 0) return [];
 
   const grouped = groupTransactionsByCategory(expenses);
   return Object.entries(grouped)
     .map(([category, items]) => {
-      const amount = items.reduce((sum, t) => sum + t.amount, 0);
+      const amount = sumAmounts(items);
       return { category, amount, percentage: (amount / totalExpenses) * 100 };
     })
     .sort((a, b) => b.amount - a.amount);
@@ -246,7 +250,7 @@ export function transactionsToCSV(transactions: Transaction[], language: 'tr' |
 
   const rows = transactions.map((t) => [
     `"${t.title.replace(/"/g, '""')}"`,
-    t.amount,
+    toDecimalString(money(t.amount, t.originalCurrency || 'TRY')),
     t.category,
     t.date,
     t.type,
@@ -16,6 +16,7 @@ export const DEFAULT_APP_SETTINGS: AppSettings = {
   theme: getSystemTheme(),
   inflationRate: 30.0, // Annual inflation rate estimate for Turkey
   currencyPair: 'TRY-USD',
+  valuation: 'historical',
 };
 
 // LocalStorage keys
@@ -64,9 +65,6 @@ export const MONTHS_TR = [
   'Temmuz', 'Ağustos', 'Eylül', 'Ekim', 'Kasım', 'Aralık',
 ];
 
-// Supported currencies
-export const CURRENCIES = ['TRY', 'USD', 'EUR', 'GBP'] as const;
-
 // Supported languages
 export const LANGUAGES = ['tr', 'en'] as const;
 
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { deriveKey, generateSalt, encryptString, decryptString, isEncryptedValue, toBase64, fromBase64 } from './crypto';
+
+const ITERATIONS = 1_000;
+
+describe('crypto', () => {
+  it('round-trips base64', () => {
+    const bytes = new Uint8Array([0, 1, 127, 128, 255]);
+    expect(Array.from(fromBase64(toBase64(bytes)))).toEqual(Array.from(bytes));
+  });
+
+  it('encrypts to a tagged value and decrypts it back', async () => {
+    const key = await deriveKey('correct horse', generateSalt(), ITERATIONS);
+    const payload = await encryptString(key, 'Kira ödemesi');
+
+    expect(isEncryptedValue(payload)).toBe(true);
+    expect(payload).not.toContain('Kira');
+    expect(await decryptString(key, payload)).toBe('Kira ödemesi');
+  });
+
+  it('uses a fresh IV for every value', async () => {
+    const key = await deriveKey('correct horse', generateSalt(), ITERATIONS);
+    expect(await encryptString(key, 'same')).not.toBe(await encryptString(key, 'same'));
+  });
+
+  it('derives the same key from the same passphrase and salt', async () => {
+    const salt = generateSalt();
+    const payload = await encryptString(await deriveKey('correct horse', salt, ITERATIONS), 'secret');
+    expect(await decryptString(await deriveKey('correct horse', salt, ITERATIONS), payload)).toBe('secret');
+  });
+
+  it('rejects a wrong key and tampered data', async () => {
+    const salt = generateSalt();
+    const key = await deriveKey('correct horse', salt, ITERATIONS);
+    const payload = await encryptString(key, 'secret');
+
+    await expect(decryptString(await deriveKey('wrong horse', salt, ITERATIONS), payload)).rejects.toThrow(
+      'Decryption failed'
+    );
+
+    const tampered = payload.slice(0, -4) + (payload.endsWith('AAAA') ? 'BBBB' : 'AAAA');
+    await expect(decryptString(key, tampered)).rejects.toThrow('Decryption failed');
+    await expect(decryptString(key, 'plain text')).rejects.toThrow('not encrypted');
+  });
+});
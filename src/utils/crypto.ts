@@ -0,0 +1,123 @@
+/**
+ * WebCrypto helpers for encrypting data at rest
+ *
+ * Keys are derived from a passphrase with PBKDF2 (SHA-256) and used with
+ * AES-GCM. Every value gets a fresh 96-bit IV. Encrypted values are strings
+ * of the form `enc:v1:<iv>:<ciphertext>` (base64), so they can be stored in
+ * any field and recognized later.
+ */
+
+export const PBKDF2_ITERATIONS = 310_000;  // OWASP recommendation for PBKDF2-HMAC-SHA256
+
+const ENCRYPTED_PREFIX = 'enc:v1:';
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+// ============================================
+// ENCODING
+// ============================================
+
+export function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+export function fromBase64(value: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+// ============================================
+// KEYS
+// ============================================
+
+/**
+ * Random salt for a new passphrase (base64)
+ */
+export function generateSalt(): string {
+  return toBase64(crypto.getRandomValues(new Uint8Array(SALT_BYTES)));
+}
+
+/**
+ * Derive an AES-GCM key from a passphrase
+ */
+export async function deriveKey(
+  passphrase: string,
+  salt: string,
+  iterations: number = PBKDF2_ITERATIONS
+): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', encoder.encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt: fromBase64(salt), iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+/**
+ * Random AES-GCM key that can be exported (end-to-end sync key)
+ */
+export function generateKey(): Promise<CryptoKey> {
+  return crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+}
+
+export function exportKey(key: CryptoKey): Promise<JsonWebKey> {
+  return crypto.subtle.exportKey('jwk', key);
+}
+
+export function importKey(jwk: JsonWebKey): Promise<CryptoKey> {
+  return crypto.subtle.importKey('jwk', jwk, { name: 'AES-GCM' }, true, ['encrypt', 'decrypt']);
+}
+
+/**
+ * Short fingerprint of a key, for comparing keys across devices
+ */
+export async function keyFingerprint(jwk: JsonWebKey): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', encoder.encode(jwk.k ?? ''));
+  return Array.from(new Uint8Array(digest).slice(0, 6), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// ============================================
+// VALUES
+// ============================================
+
+export function isEncryptedValue(value: unknown): value is string {
+  return typeof value === 'string' && value.startsWith(ENCRYPTED_PREFIX);
+}
+
+export async function encryptString(key: CryptoKey, plaintext: string): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, encoder.encode(plaintext));
+  return `${ENCRYPTED_PREFIX}${toBase64(iv)}:${toBase64(new Uint8Array(ciphertext))}`;
+}
+
+/**
+ * Decrypt a value produced by encryptString.
+ * Throws if the key is wrong or the value was tampered with (GCM tag mismatch).
+ */
+export async function decryptString(key: CryptoKey, payload: string): Promise<string> {
+  if (!isEncryptedValue(payload)) {
+    throw new Error('[Crypto] Value is not encrypted');
+  }
+
+  const [iv, ciphertext] = payload.slice(ENCRYPTED_PREFIX.length).split(':');
+  try {
+    const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(iv) }, key, fromBase64(ciphertext));
+    return decoder.decode(plaintext);
+  } catch {
+    throw new Error('[Crypto] Decryption failed - wrong key or corrupted data');
+  }
+}
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { currencyPairs, enabledCurrencies, getCurrency, isCurrencyCode, registerCustomUnits, unitFamilyRates, GRAMS_PER_TROY_OUNCE } from './currencies';
+import { formatCurrency } from './formatters';
+
+describe('Currency registry', () => {
+  it('should accept ISO 4217 codes beyond the registry', () => {
+    expect(isCurrencyCode('CHF')).toBe(true);
+    expect(isCurrencyCode('ISK')).toBe(true);
+    expect(isCurrencyCode('chf')).toBe(false);
+    expect(isCurrencyCode('XYZ')).toBe(false);
+    expect(isCurrencyCode(undefined)).toBe(false);
+  });
+
+  it('should know symbols and minor units', () => {
+    expect(getCurrency('JPY')).toEqual({ code: 'JPY', symbol: '¥', minorUnits: 0 });
+    expect(getCurrency('KWD').minorUnits).toBe(3);
+    // Unregistered: code as symbol, ISO digits from Intl
+    expect(getCurrency('ISK')).toEqual({ code: 'ISK', symbol: 'ISK', minorUnits: 0 });
+  });
+
+  it('should format with the currency\'s digits and symbol', () => {
+    expect(formatCurrency(1234.5, 'TRY', 'tr')).toBe('₺1.234,50');
+    expect(formatCurrency(1234.5, 'JPY', 'en')).toBe('¥1,235');
+    expect(formatCurrency(-12.5, 'CHF', 'en')).toBe('-CHF 12.50');
+  });
+
+  it('should always offer the display currency', () => {
+    expect(enabledCurrencies({ currency: 'TRY' })).toEqual(['TRY', 'USD', 'EUR', 'GBP']);
+    expect(enabledCurrencies({ currency: 'JPY', enabledCurrencies: ['USD', 'CHF'] })).toEqual(['JPY', 'USD', 'CHF']);
+  });
+
+  it('should treat gold and custom units as quantities', () => {
+    expect(isCurrencyCode('GAU')).toBe(true);
+    expect(formatCurrency(12.5, 'GAU', 'tr')).toBe('12,50 gr');
+
+    expect(isCurrencyCode('CEYREK')).toBe(false);
+    registerCustomUnits([{ code: 'CEYREK', name: 'Çeyrek altın', minorUnits: 0, base: 'GAU', quantity: 1.6 }]);
+    expect(isCurrencyCode('CEYREK')).toBe(true);
+    expect(formatCurrency(3, 'CEYREK', 'tr')).toBe('3 CEYREK');
+    registerCustomUnits([]);
+    expect(isCurrencyCode('CEYREK')).toBe(false);
+  });
+
+  it('should price a unit family from one price', () => {
+    registerCustomUnits([{ code: 'CEYREK', name: 'Çeyrek altın', minorUnits: 0, base: 'GAU', quantity: 1.6 }]);
+    // A gram at 2500 when 1 USD = 32.5: 0.013 grams per USD
+    const rates = unitFamilyRates('GAU', 32.5 / 2500);
+    registerCustomUnits([]);
+
+    expect(Object.keys(rates).sort()).toEqual(['CEYREK', 'GAU', 'XAU']);
+    expect(rates.GAU).toBeCloseTo(0.013, 12);
+    expect(rates.XAU).toBeCloseTo(0.013 / GRAMS_PER_TROY_OUNCE, 12);
+    expect(rates.CEYREK).toBeCloseTo(0.013 / 1.6, 12);
+    expect(unitFamilyRates('EUR', 0.9)).toEqual({ EUR: 0.9 });
+  });
+
+  it('should list every ordered pair', () => {
+    expect(currencyPairs(['TRY', 'USD', 'CHF'])).toEqual(['TRY-USD', 'TRY-CHF', 'USD-TRY', 'USD-CHF', 'CHF-TRY', 'CHF-USD']);
+  });
+});
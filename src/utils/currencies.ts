@@ -0,0 +1,243 @@
+import type { AppSettings, CurrencyCode, CurrencyPair, CustomUnit } from '../types';
+
+/**
+ * Currency registry
+ *
+ * Currencies are data: any ISO 4217 code can be recorded and displayed.
+ * Common currencies carry their symbol and minor-unit digits here; any other
+ * valid code falls back to what Intl knows about it (its code as symbol and
+ * the ISO digits). Settings decide which currencies are enabled in the forms
+ * and tracked for exchange rates.
+ *
+ * Commodities (gold, silver and units the user defines, e.g. çeyrek altın)
+ * are units like any currency: amounts in them are quantities, and their
+ * rates per USD come from the same rate system. A unit can be a fixed
+ * quantity of another (a gram is 1/31.1034768 troy ounce), in which case a
+ * price for one prices the whole family.
+ */
+
+export interface CommodityInfo {
+  names: Record<AppSettings['language'], string>;
+  base?: CurrencyCode;    // Commodity unit this one is a fixed quantity of
+  quantity?: number;      // How many `base` units one unit is
+}
+
+export interface CurrencyInfo {
+  code: CurrencyCode;
+  symbol: string;
+  minorUnits: number;     // Digits after the decimal point (JPY 0, KWD 3)
+  commodity?: CommodityInfo;  // Set for non-currency units
+}
+
+const entry = (code: CurrencyCode, symbol: string, minorUnits = 2, commodity?: CommodityInfo): [CurrencyCode, CurrencyInfo] =>
+  [code, commodity ? { code, symbol, minorUnits, commodity } : { code, symbol, minorUnits }];
+
+export const GRAMS_PER_TROY_OUNCE = 31.1034768;
+
+export const CURRENCY_REGISTRY: Record<CurrencyCode, CurrencyInfo> = Object.fromEntries([
+  entry('TRY', '₺'),
+  entry('USD', '$'),
+  entry('EUR', '€'),
+  entry('GBP', '£'),
+  entry('CHF', 'CHF'),
+  entry('JPY', '¥', 0),
+  entry('CAD', 'CA$'),
+  entry('AUD', 'A$'),
+  entry('NZD', 'NZ$'),
+  entry('SEK', 'kr'),
+  entry('NOK', 'kr'),
+  entry('DKK', 'kr'),
+  entry('PLN', 'zł'),
+  entry('CZK', 'Kč'),
+  entry('HUF', 'Ft'),
+  entry('RON', 'lei'),
+  entry('BGN', 'лв'),
+  entry('RUB', '₽'),
+  entry('UAH', '₴'),
+  entry('AZN', '₼'),
+  entry('GEL', '₾'),
+  entry('ILS', '₪'),
+  entry('AED', 'AED'),
+  entry('SAR', 'SAR'),
+  entry('QAR', 'QAR'),
+  entry('KWD', 'KWD', 3),
+  entry('BHD', 'BHD', 3),
+  entry('CNY', 'CN¥'),
+  entry('HKD', 'HK$'),
+  entry('SGD', 'S$'),
+  entry('KRW', '₩', 0),
+  entry('INR', '₹'),
+  entry('MXN', 'MX$'),
+  entry('BRL', 'R$'),
+  entry('ZAR', 'R'),
+  entry('XAU', 'oz', 3, { names: { tr: 'Altın (ons)', en: 'Gold (troy ounce)' } }),
+  entry('GAU', 'gr', 2, { names: { tr: 'Gram altın', en: 'Gold (gram)' }, base: 'XAU', quantity: 1 / GRAMS_PER_TROY_OUNCE }),
+  entry('XAG', 'oz', 3, { names: { tr: 'Gümüş (ons)', en: 'Silver (troy ounce)' } }),
+]);
+
+// Units defined in settings (see registerCustomUnits)
+let customUnits: Record<CurrencyCode, CurrencyInfo> = {};
+
+// What the app offered before currencies became configurable
+export const DEFAULT_ENABLED_CURRENCIES: CurrencyCode[] = ['TRY', 'USD', 'EUR', 'GBP'];
+
+const CODE_PATTERN = /^[A-Z]{3}$/;
+
+// Custom unit codes: upper case letters and digits, 3 to 8 long
+export const UNIT_CODE_PATTERN = /^[A-Z][A-Z0-9]{2,7}$/;
+
+let intlCodes: Set<string> | null = null;
+
+// Codes the runtime's Intl knows (empty where supportedValuesOf is missing)
+function intlCurrencyCodes(): Set<string> {
+  if (!intlCodes) {
+    try {
+      intlCodes = new Set(Intl.supportedValuesOf('currency'));
+    } catch {
+      intlCodes = new Set();
+    }
+  }
+  return intlCodes;
+}
+
+/**
+ * Make the user's own units known (replaces the previous ones). Codes that
+ * are already currencies or built-in units are skipped.
+ */
+export function registerCustomUnits(units: CustomUnit[] = []): void {
+  customUnits = {};
+  for (const unit of units) {
+    if (!UNIT_CODE_PATTERN.test(unit.code) || unit.code in CURRENCY_REGISTRY || intlCurrencyCodes().has(unit.code)) continue;
+    const priced = unit.base && unit.quantity && unit.quantity > 0;
+    customUnits[unit.code] = {
+      code: unit.code,
+      symbol: unit.code,
+      minorUnits: unit.minorUnits,
+      commodity: {
+        names: { tr: unit.name, en: unit.name },
+        ...(priced ? { base: unit.base, quantity: unit.quantity } : {}),
+      },
+    };
+  }
+}
+
+/**
+ * Whether a value is a known ISO 4217 currency code (upper case), built-in
+ * commodity unit or registered custom unit
+ */
+export function isCurrencyCode(value: unknown): value is CurrencyCode {
+  return typeof value === 'string' && (
+    (CODE_PATTERN.test(value) && (value in CURRENCY_REGISTRY || intlCurrencyCodes().has(value))) ||
+    value in customUnits
+  );
+}
+
+/**
+ * Every code that can be enabled, registry first
+ */
+export function listCurrencyCodes(): CurrencyCode[] {
+  const known = { ...CURRENCY_REGISTRY, ...customUnits };
+  return [...Object.keys(known), ...[...intlCurrencyCodes()].filter(code => !(code in known))];
+}
+
+/**
+ * Built-in and custom commodity units
+ */
+export function listUnitCodes(): CurrencyCode[] {
+  return Object.values({ ...CURRENCY_REGISTRY, ...customUnits })
+    .filter(info => info.commodity)
+    .map(info => info.code);
+}
+
+/**
+ * Whether amounts in a code are commodity quantities rather than money
+ */
+export function isCommodity(code: CurrencyCode): boolean {
+  return Boolean(getCurrency(code).commodity);
+}
+
+// The unit a commodity is ultimately priced through, and how many of it one unit is
+function commodityRoot(code: CurrencyCode): { root: CurrencyCode; quantity: number } {
+  let root = code;
+  let quantity = 1;
+  const seen = new Set<CurrencyCode>([code]);
+  for (let info = getCurrency(code).commodity; info?.base && info.quantity; info = getCurrency(root).commodity) {
+    if (seen.has(info.base) || !isCommodity(info.base)) break;
+    quantity *= info.quantity;
+    root = info.base;
+    seen.add(root);
+  }
+  return { root, quantity };
+}
+
+/**
+ * Rates per USD for a unit and every unit priced through the same root,
+ * given the unit's own rate (just the unit itself for a currency)
+ */
+export function unitFamilyRates(code: CurrencyCode, rate: number): Record<CurrencyCode, number> {
+  if (!isCommodity(code)) return { [code]: rate };
+
+  const { root, quantity } = commodityRoot(code);
+  const rootRate = rate * quantity;
+  return Object.fromEntries(
+    listUnitCodes()
+      .map(unit => [unit, commodityRoot(unit)] as const)
+      .filter(([, family]) => family.root === root)
+      .map(([unit, family]) => [unit, rootRate / family.quantity])
+  );
+}
+
+/**
+ * Registry entry for a code; unregistered codes get their code as symbol
+ * and their ISO minor units (2 if Intl doesn't know them)
+ */
+export function getCurrency(code: CurrencyCode): CurrencyInfo {
+  const registered = CURRENCY_REGISTRY[code] ?? customUnits[code];
+  if (registered) return registered;
+
+  let minorUnits = 2;
+  try {
+    minorUnits = new Intl.NumberFormat('en', { style: 'currency', currency: code }).resolvedOptions().maximumFractionDigits ?? 2;
+  } catch {
+    // Not a code Intl accepts - keep the default
+  }
+  return { code, symbol: code, minorUnits };
+}
+
+/**
+ * Localized currency name ("Swiss Franc" / "İsviçre Frangı"), or the code
+ */
+export function currencyName(code: CurrencyCode, language: AppSettings['language']): string {
+  const commodity = getCurrency(code).commodity;
+  if (commodity) return commodity.names[language];
+  try {
+    return new Intl.DisplayNames([language === 'tr' ? 'tr-TR' : 'en-US'], { type: 'currency' }).of(code) ?? code;
+  } catch {
+    return code;
+  }
+}
+
+/**
+ * Currencies offered in the forms: the enabled ones (defaults if unset),
+ * always including the display currency
+ */
+export function enabledCurrencies(settings: Pick<AppSettings, 'currency' | 'enabledCurrencies'>): CurrencyCode[] {
+  const codes = settings.enabledCurrencies?.length ? settings.enabledCurrencies : DEFAULT_ENABLED_CURRENCIES;
+  return codes.includes(settings.currency) ? [...codes] : [settings.currency, ...codes];
+}
+
+/**
+ * Every ordered pair of the given currencies ("TRY-USD", "USD-TRY", ...)
+ */
+export function currencyPairs(codes: CurrencyCode[]): CurrencyPair[] {
+  return codes.flatMap(from => codes.filter(to => to !== from).map((to): CurrencyPair => `${from}-${to}`));
+}
+
+/**
+ * Select option for a currency, e.g. "₺ TRY"
+ */
+export function currencyOption(code: CurrencyCode): { value: CurrencyCode; label: string } {
+  const { symbol, commodity } = getCurrency(code);
+  if (commodity) return { value: code, label: symbol === code ? code : `${code} (${symbol})` };
+  return { value: code, label: symbol === code ? code : `${symbol} ${code}` };
+}
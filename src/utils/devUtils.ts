@@ -5,10 +5,43 @@
 
 import { deleteAllUserTransactions, deleteAllUserRecurringTransactions } from '../lib/deleteAllTransactions';
 import { runCleanup } from '../lib/cleanupDuplicates';
+import { getCurrentAdapter } from '../db/migration';
+import { snapshotService, type SnapshotReason } from '../services/snapshotService';
+import { auditService } from '../services/auditService';
+import type { RecordChange } from './undoJournal';
+
+// Local copy first, so the data can be restored from Settings
+async function snapshotBefore(reason: SnapshotReason): Promise<void> {
+  const id = await snapshotService.create(await getCurrentAdapter(), reason);
+  console.log(`📸 Snapshot #${id} saved`);
+}
+
+// Drop rows removed from the cloud from the local copy too, and log them.
+// Works on the stored records, so no passphrase is needed.
+async function removeLocally(ids: { transactions: string[]; budgets: string[] }): Promise<void> {
+  const storage = await getCurrentAdapter();
+  const changes: RecordChange[] = [];
+
+  for (const id of ids.transactions) {
+    const before = await storage.getTransaction(id);
+    if (!before) continue;
+    await storage.deleteTransaction(id);
+    changes.push({ table: 'transactions', recordId: id, before, after: null });
+  }
+  for (const id of ids.budgets) {
+    const before = await storage.getBudget(id);
+    if (!before) continue;
+    await storage.deleteBudget(id);
+    changes.push({ table: 'budgets', recordId: id, before, after: null });
+  }
+
+  await auditService.record(storage, changes, 'cleanup');
+}
 
 const devUtils = {
   async deleteAllTransactions() {
     console.warn('⚠️ Deleting all user transactions...');
+    await snapshotBefore('before-delete-all');
     const result = await deleteAllUserTransactions();
     console.log('Result:', result);
     if (result.error) {
@@ -23,6 +56,7 @@ const devUtils = {
 
   async deleteAllRecurring() {
     console.warn('⚠️ Deleting all recurring transactions...');
+    await snapshotBefore('before-delete-all');
     const result = await deleteAllUserRecurringTransactions();
     console.log('Result:', result);
     if (result.error) {
@@ -37,7 +71,9 @@ const devUtils = {
 
   async cleanup() {
     console.log('🧹 Running cleanup...');
+    await snapshotBefore('before-cleanup');
     const result = await runCleanup();
+    await removeLocally(result.deletedIds);
     console.log('Result:', result);
     if (result.errors.length > 0) {
       console.error('Errors:', result.errors);
@@ -0,0 +1,45 @@
+import { v4 as uuidv4 } from 'uuid';
+
+const DEVICE_KEY = 'monera_device';
+
+export interface DeviceInfo {
+  id: string;       // Random, generated once per browser profile
+  name: string;     // Human-readable, e.g. "Firefox on Linux"
+}
+
+/**
+ * Describe the browser from its user agent (best effort)
+ */
+export function describeUserAgent(userAgent: string): string {
+  const browser =
+    /Edg\//.test(userAgent) ? 'Edge'
+    : /OPR\//.test(userAgent) ? 'Opera'
+    : /Firefox\//.test(userAgent) ? 'Firefox'
+    : /Chrome\//.test(userAgent) ? 'Chrome'
+    : /Safari\//.test(userAgent) ? 'Safari'
+    : 'Browser';
+  const os =
+    /Android/.test(userAgent) ? 'Android'
+    : /iPhone|iPad/.test(userAgent) ? 'iOS'
+    : /Windows/.test(userAgent) ? 'Windows'
+    : /Mac OS X/.test(userAgent) ? 'macOS'
+    : /Linux/.test(userAgent) ? 'Linux'
+    : null;
+  return os ? `${browser} on ${os}` : browser;
+}
+
+/**
+ * This device's identity (created and stored on first use)
+ */
+export function getDeviceInfo(): DeviceInfo {
+  try {
+    const stored = localStorage.getItem(DEVICE_KEY);
+    if (stored) return JSON.parse(stored) as DeviceInfo;
+  } catch {
+    // Unreadable entry - replace it below
+  }
+
+  const device: DeviceInfo = { id: uuidv4(), name: describeUserAgent(navigator.userAgent) };
+  localStorage.setItem(DEVICE_KEY, JSON.stringify(device));
+  return device;
+}
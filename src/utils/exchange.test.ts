@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import {
+  bookedAmount,
+  convertCurrency,
+  convertTransaction,
+  convertWithRates,
+  historicalRate,
+  normalizeRates,
+  valuationDate,
+  type DatedRates,
+} from './exchange';
+
+const history: DatedRates[] = [
+  { date: '2022-01-03', rates: { USD: 1, TRY: 13 }, source: 'imported' },
+  { date: '2022-06-01', rates: { USD: 1, TRY: 16, EUR: 0.9 }, source: 'imported' },
+  { date: '2023-01-02', rates: { USD: 1, TRY: 19 }, source: 'imported' },
+];
+
+const TODAY = { USD: 1, TRY: 40, EUR: 0.5 };
+
+describe('Exchange rates', () => {
+  it('should re-base rates on USD', () => {
+    expect(normalizeRates({ TRY: 1, USD: 0.025 })).toEqual({ TRY: 40, USD: 1 });
+    expect(normalizeRates({ TRY: 40 })).toEqual({ TRY: 40 });
+  });
+
+  it('should use the rate of the closest known day', () => {
+    expect(historicalRate('TRY', '2022-01-03', history)).toBe(13);
+    expect(historicalRate('TRY', '2022-05-20', history)).toBe(16);
+    expect(historicalRate('TRY', '2021-01-01', history)).toBe(13);
+    expect(historicalRate('TRY', '2030-01-01', history)).toBe(19);
+  });
+
+  it('should prefer the earlier day on a tie', () => {
+    const tie: DatedRates[] = [
+      { date: '2024-01-01', rates: { TRY: 30 }, source: 'fetched' },
+      { date: '2024-01-03', rates: { TRY: 31 }, source: 'fetched' },
+    ];
+    expect(historicalRate('TRY', '2024-01-02', tie)).toBe(30);
+  });
+
+  it('should skip days that do not list the currency', () => {
+    expect(historicalRate('EUR', '2023-01-02', history)).toBe(0.9);
+    expect(historicalRate('GBP', '2022-06-01', history)).toBeUndefined();
+  });
+
+  it('should convert at the date when given one, at today\'s rate otherwise', () => {
+    expect(convertWithRates(100, 'USD', 'TRY', TODAY, history, '2022-01-10')).toBe(1300);
+    expect(convertWithRates(100, 'USD', 'TRY', TODAY, history)).toBe(4000);
+    // EUR on 2022-06-01 (0.9), TRY on 2023-01-02 (19): each currency's closest day
+    expect(convertWithRates(90, 'EUR', 'TRY', TODAY, history, '2022-12-20')).toBeCloseTo(1900);
+  });
+
+  it('should fall back to today\'s rate for currencies without history', () => {
+    expect(convertWithRates(10, 'USD', 'EUR', TODAY, [], '2022-01-10')).toBe(5);
+  });
+
+  it('should only date conversions under historical valuation', () => {
+    expect(valuationDate('2022-01-10', 'historical')).toBe('2022-01-10');
+    expect(valuationDate('2022-01-10', undefined)).toBe('2022-01-10');
+    expect(valuationDate('2022-01-10', 'current')).toBeUndefined();
+  });
+
+  it('should leave unknown currencies unconverted', () => {
+    expect(convertCurrency(7, 'XAU', 'TRY', '2022-01-10', history)).toBe(7);
+  });
+
+  it('should prefer a settled amount over the computed conversion', () => {
+    const paid = { amount: 100, originalCurrency: 'USD', date: '2022-01-10', settledAmount: 1350, settledCurrency: 'TRY' };
+    expect(bookedAmount(paid)).toEqual({ amount: 1350, currency: 'TRY' });
+    expect(convertTransaction(paid, 'TRY', { history })).toBe(1350);
+    // Other currencies start from the settled amount: 1350 TRY at 13 per USD
+    expect(convertTransaction(paid, 'USD', { history })).toBeCloseTo(103.85);
+    expect(convertTransaction({ ...paid, settledAmount: undefined }, 'TRY', { history })).toBe(1300);
+  });
+});
@@ -1,45 +1,257 @@
+import type { DatedRates } from '../db/schema';
+import type { Transaction } from '../types';
+import type { RateProvider, RateProviderKind } from '../rates/RateProvider';
+import { ApiRateProvider } from '../rates/ApiRateProvider';
+import { DEFAULT_ENABLED_CURRENCIES, unitFamilyRates } from './currencies';
+
+export type { DatedRates } from '../db/schema';
+
 /**
  * Simple exchange rate converter
- * Uses fixed rates (can be extended to use real API)
+ * Today's rates come from the active RateProvider (src/rates); until one
+ * answers, built-in estimates are used and reported as such.
  * Base: USD = 1.0
+ *
+ * Alongside today's rates a dated history (see services/rateService) lets a
+ * conversion use the rate closest to a given day.
+ */
+
+/**
+ * 'historical' converts at the rate closest to the transaction's date,
+ * 'current' at today's rate
  */
+export type ValuationMode = 'historical' | 'current';
+
+/**
+ * How past amounts are converted: the mode and the dated rates to use
+ */
+export interface Valuation {
+  mode?: ValuationMode;          // Default: historical
+  history: DatedRates[];
+}
 
 const EXCHANGE_RATES: Record<string, number> = {
   USD: 1.0,
   EUR: 0.92,
   GBP: 0.79,
-  TRY: 32.5, // Approximate; should be updated via API
+  TRY: 32.5, // Built-in estimate; replaced by the first provider answer
 };
 
+// Currencies whose rates are kept (providers may report many more); USD always
+let trackedCurrencies: string[] = ['USD', ...DEFAULT_ENABLED_CURRENCIES.filter(code => code !== 'USD')];
+
+// Rates older than this are flagged in Settings (daily sources skip weekends)
+export const RATE_STALE_AFTER_MS = 3 * 24 * 60 * 60 * 1000;
+
+const STORAGE_KEY = 'monera_exchange_rates';
+
+/**
+ * Where a rate came from ('default' = built-in estimate) and when it was valid
+ */
+export type RateSource = RateProviderKind | 'mock' | 'default';
+
+export interface RateInfo {
+  source: RateSource;
+  asOf: string | null;           // ISO timestamp or date; null for built-in estimates
+}
+
+export interface RateStatus extends RateInfo {
+  currency: string;
+  rate: number | null;           // Per USD; null = no rate yet
+  stale: boolean;
+}
+
+const rateInfo: Record<string, RateInfo> = Object.fromEntries(
+  Object.keys(EXCHANGE_RATES).map(code => [code, { source: 'default', asOf: null }])
+);
+
+let rateProvider: RateProvider = new ApiRateProvider();
+
 let lastRatesUpdate: Date | null = null;
 
+// Dated rates, oldest first
+let rateHistory: DatedRates[] = [];
+const historyListeners = new Set<(history: DatedRates[]) => void>();
+const fetchListeners = new Set<(rates: Record<string, number>) => void>();
+
+/**
+ * Express rates per USD. Maps without USD are taken as already per USD.
+ */
+export function normalizeRates(rates: Record<string, number>): Record<string, number> {
+  const usd = rates.USD;
+  if (!usd || usd === 1) return { ...rates };
+  return Object.fromEntries(Object.entries(rates).map(([code, rate]) => [code, rate / usd]));
+}
+
+const dayDistance = (a: string, b: string) => Math.abs(Date.parse(a) - Date.parse(b));
+
+/**
+ * Rate of one currency on the known day closest to `date` (the earlier day
+ * on a tie), or undefined if no entry lists the currency
+ * @param history - Dated rates, oldest first
+ */
+export function historicalRate(currency: string, date: string, history: DatedRates[]): number | undefined {
+  // First entry on or after the date
+  let low = 0;
+  let high = history.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (history[mid].date < date) low = mid + 1;
+    else high = mid;
+  }
+
+  // Walk outwards, nearest day first, until an entry has the currency
+  let before = low - 1;
+  let after = low;
+  while (before >= 0 || after < history.length) {
+    const useBefore =
+      after >= history.length ||
+      (before >= 0 && dayDistance(history[before].date, date) <= dayDistance(history[after].date, date));
+    const entry = useBefore ? history[before--] : history[after++];
+    const rate = entry.rates[currency];
+    if (rate) return rate;
+  }
+  return undefined;
+}
+
+/**
+ * Convert with explicit rate tables and no warnings (used off the main
+ * thread, where the module's rates aren't shared). Unknown currencies are
+ * left unconverted.
+ * @param rates - Today's rates (USD = 1)
+ * @param history - Dated rates, oldest first
+ * @param date - Day to convert at (YYYY-MM-DD); today's rates when omitted
+ */
+export function convertWithRates(
+  amount: number,
+  fromCurrency: string,
+  toCurrency: string,
+  rates: Record<string, number>,
+  history: DatedRates[] = [],
+  date?: string
+): number {
+  if (fromCurrency === toCurrency || amount === 0) {
+    return amount;
+  }
+
+  const rateOf = (currency: string) =>
+    (date !== undefined ? historicalRate(currency, date, history) : undefined) ?? rates[currency];
+  const fromRate = rateOf(fromCurrency);
+  const toRate = rateOf(toCurrency);
+  if (!fromRate || !toRate) return amount;
+
+  return (amount / fromRate) * toRate;
+}
+
 /**
  * Convert amount from one currency to another
  * @param amount - Amount to convert
  * @param fromCurrency - Source currency code (USD, TRY, EUR, GBP)
  * @param toCurrency - Target currency code
+ * @param date - Day to convert at (YYYY-MM-DD), using the closest known rate;
+ *   today's rate when omitted or when no dated rate lists the currency
+ * @param history - Dated rates to use (defaults to the loaded history)
  * @returns Converted amount
  */
 export function convertCurrency(
   amount: number,
   fromCurrency: string,
-  toCurrency: string
+  toCurrency: string,
+  date?: string,
+  history: DatedRates[] = rateHistory
 ): number {
   if (fromCurrency === toCurrency || amount === 0) {
     return amount;
   }
 
-  const fromRate = EXCHANGE_RATES[fromCurrency];
-  const toRate = EXCHANGE_RATES[toCurrency];
-
-  if (!fromRate || !toRate) {
-    console.warn(`Unknown currency: ${!fromRate ? fromCurrency : toCurrency}`);
+  // Known today, or on some day when converting at a date (e.g. a unit priced only in the past)
+  const isKnown = (currency: string) =>
+    Boolean(EXCHANGE_RATES[currency]) || (date !== undefined && historicalRate(currency, date, history) !== undefined);
+  if (!isKnown(fromCurrency) || !isKnown(toCurrency)) {
+    console.warn(`Unknown currency: ${!isKnown(fromCurrency) ? fromCurrency : toCurrency}`);
     return amount;
   }
 
   // Convert to USD first, then to target currency
-  const amountInUSD = amount / fromRate;
-  return amountInUSD * toRate;
+  return convertWithRates(amount, fromCurrency, toCurrency, EXCHANGE_RATES, history, date);
+}
+
+/**
+ * The date to convert a transaction at under a valuation mode
+ * (undefined = today's rate)
+ */
+export function valuationDate(date: string, mode: ValuationMode | undefined): string | undefined {
+  return mode === 'current' ? undefined : date;
+}
+
+/**
+ * Convert an amount dated `date` under a valuation
+ */
+export function convertAt(amount: number, fromCurrency: string, toCurrency: string, date: string, valuation: Valuation): number {
+  return convertCurrency(amount, fromCurrency, toCurrency, valuationDate(date, valuation.mode), valuation.history);
+}
+
+// ============================================
+// SETTLED AMOUNTS
+// ============================================
+
+type Booked = Pick<Transaction, 'amount' | 'originalCurrency' | 'settledAmount' | 'settledCurrency'>;
+
+/**
+ * What a transaction counts as: the amount it actually settled for (the
+ * bank's rate) when one is recorded, otherwise its own amount
+ */
+export function bookedAmount(transaction: Booked): { amount: number; currency: string } {
+  if (transaction.settledAmount !== undefined && transaction.settledCurrency) {
+    return { amount: transaction.settledAmount, currency: transaction.settledCurrency };
+  }
+  return { amount: transaction.amount, currency: transaction.originalCurrency || 'TRY' };
+}
+
+/**
+ * A transaction's booked amount in a currency under a valuation (as it is
+ * when already in that currency). Rollups group by the booked currency too,
+ * so every total agrees.
+ */
+export function convertTransaction(transaction: Booked & Pick<Transaction, 'date'>, toCurrency: string, valuation: Valuation): number {
+  const { amount, currency } = bookedAmount(transaction);
+  return currency === toCurrency ? amount : convertAt(amount, currency, toCurrency, transaction.date, valuation);
+}
+
+// ============================================
+// RATE HISTORY
+// ============================================
+
+/**
+ * Replace the in-memory rate history (sorted here) and notify listeners
+ */
+export function setRateHistory(entries: DatedRates[]): void {
+  rateHistory = [...entries].sort((a, b) => a.date.localeCompare(b.date));
+  historyListeners.forEach(listener => listener(rateHistory));
+}
+
+/**
+ * Dated rates, oldest first (a new array after every change)
+ */
+export function getRateHistory(): DatedRates[] {
+  return rateHistory;
+}
+
+/**
+ * Subscribe to rate history changes. Returns an unsubscribe function.
+ */
+export function onRateHistoryChange(listener: (history: DatedRates[]) => void): () => void {
+  historyListeners.add(listener);
+  return () => historyListeners.delete(listener);
+}
+
+/**
+ * Subscribe to successful rate fetches (rates per USD). Returns an
+ * unsubscribe function.
+ */
+export function onRatesFetched(listener: (rates: Record<string, number>) => void): () => void {
+  fetchListeners.add(listener);
+  return () => fetchListeners.delete(listener);
 }
 
 /**
@@ -59,21 +271,33 @@ export function getExchangeRate(fromCurrency: string, toCurrency: string): numbe
   return toRate / fromRate;
 }
 
-/**
- * Update exchange rates (for future API integration)
- * @param rates - New exchange rates object
- */
-export function updateExchangeRates(rates: Record<string, number>): void {
-  Object.assign(EXCHANGE_RATES, rates);
-  lastRatesUpdate = new Date();
+function persistRates(): void {
   try {
-    const payload = { rates: EXCHANGE_RATES, updatedAt: new Date().toISOString() };
-    window.localStorage.setItem('monera_exchange_rates', JSON.stringify(payload));
+    const payload = { rates: EXCHANGE_RATES, updatedAt: new Date().toISOString(), sources: rateInfo };
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(payload));
   } catch (e) {
     console.warn('[exchange] Failed to persist rates', e);
   }
 }
 
+/**
+ * Update exchange rates
+ * @param rates - New exchange rates object (any base; re-based on USD)
+ * @param info - Source and validity of the rates (default: the active provider, now)
+ */
+export function updateExchangeRates(
+  rates: Record<string, number>,
+  info: RateInfo = { source: rateProvider.kind, asOf: new Date().toISOString() }
+): void {
+  const normalized = normalizeRates(rates);
+  Object.assign(EXCHANGE_RATES, normalized);
+  for (const code of Object.keys(normalized)) {
+    rateInfo[code] = { ...info };
+  }
+  lastRatesUpdate = new Date();
+  persistRates();
+}
+
 /**
  * Get current rates
  */
@@ -89,33 +313,68 @@ export function getLastRatesUpdate(): Date | null {
 }
 
 /**
- * Fetch latest exchange rates from exchangerate-api.com (free tier, no API key for basic usage)
- * @param base - Base currency for rates (default: USD)
+ * Source, validity and staleness of each tracked rate (USD, the base, is left out)
+ */
+export function getRateStatus(now: Date = new Date()): RateStatus[] {
+  return trackedCurrencies.filter(code => code !== 'USD').map(code => {
+    const info = rateInfo[code] ?? { source: 'default', asOf: null };
+    const age = info.asOf ? now.getTime() - Date.parse(info.asOf) : Infinity;
+    return { currency: code, rate: EXCHANGE_RATES[code] ?? null, ...info, stale: !(age <= RATE_STALE_AFTER_MS) };
+  });
+}
+
+/**
+ * Choose which currencies' rates are kept (the enabled currencies)
+ */
+export function setTrackedCurrencies(codes: string[]): void {
+  trackedCurrencies = ['USD', ...codes.filter(code => code !== 'USD')];
+}
+
+export function getTrackedCurrencies(): string[] {
+  return [...trackedCurrencies];
+}
+
+// ============================================
+// PROVIDERS
+// ============================================
+
+/**
+ * Switch where fetchLatestRates gets today's rates from
+ */
+export function setRateProvider(provider: RateProvider): void {
+  rateProvider = provider;
+}
+
+export function getRateProvider(): RateProvider {
+  return rateProvider;
+}
+
+/**
+ * Ask the active provider for today's rates and keep the tracked ones.
+ * When it has none (offline, nothing entered or imported) the rates in use
+ * are kept, and their age shows up in getRateStatus.
+ * @returns Rates in use afterwards (per USD)
  */
-export async function fetchLatestRates(base: string = 'USD'): Promise<Record<string, number>> {
+export async function fetchLatestRates(): Promise<Record<string, number>> {
+  const provider = rateProvider;
   try {
-    // Using exchangerate-api.com which is more reliable and doesn't require API key for basic usage
-    const res = await fetch(`https://open.er-api.com/v6/latest/${encodeURIComponent(base)}`);
-    if (!res.ok) throw new Error(`HTTP ${res.status}`);
-    const data = await res.json();
-    if (!data || !data.rates) throw new Error('Invalid response');
-    
-    // Extract rates for currencies we support
-    const rates: Record<string, number> = {
-      USD: data.rates.USD || 1,
-      EUR: data.rates.EUR || 0.92,
-      GBP: data.rates.GBP || 0.79,
-      TRY: data.rates.TRY || 32.5,
-    };
-    rates[base] = 1.0; // ensure base is normalized
-    // Update local cache
-    updateExchangeRates(rates);
-    return rates;
+    const quote = await provider.getLatest();
+    const normalized = normalizeRates(quote.rates);
+    // Units priced through a quoted commodity (gram gold through XAU) follow it
+    const priced: Record<string, number> = Object.assign({}, ...Object.entries(normalized).map(([code, rate]) => unitFamilyRates(code, rate)), normalized);
+    const rates = Object.fromEntries(
+      trackedCurrencies.filter(code => priced[code] > 0).map(code => [code, priced[code]])
+    );
+    updateExchangeRates(rates, { source: provider.kind, asOf: quote.asOf });
+
+    // File rates already live in the dated store
+    if (provider.kind !== 'file') {
+      fetchListeners.forEach(listener => listener(rates));
+    }
   } catch (error) {
-    console.error('[exchange] Failed to fetch latest rates:', error);
-    // Return current cached/static rates
-    return getExchangeRates();
+    console.warn(`[exchange] No rates from the ${provider.kind} provider, keeping the current ones:`, error);
   }
+  return getExchangeRates();
 }
 
 /**
@@ -123,11 +382,19 @@ export async function fetchLatestRates(base: string = 'USD'): Promise<Record<str
  */
 export function loadPersistedRates(): { rates: Record<string, number>; updatedAt?: string } | null {
   try {
-    const raw = window.localStorage.getItem('monera_exchange_rates');
+    const raw = window.localStorage.getItem(STORAGE_KEY);
     if (!raw) return null;
     const parsed = JSON.parse(raw);
     if (!parsed || !parsed.rates) return null;
-    updateExchangeRates(parsed.rates);
+
+    const rates = normalizeRates(parsed.rates);
+    Object.assign(EXCHANGE_RATES, rates);
+    // Caches from before sources were tracked came from the API
+    const sources: Record<string, RateInfo> = parsed.sources ?? {};
+    for (const code of Object.keys(rates)) {
+      rateInfo[code] = sources[code] ?? { source: 'api', asOf: parsed.updatedAt ?? null };
+    }
+    lastRatesUpdate = new Date();
     return parsed;
   } catch {
     return null;
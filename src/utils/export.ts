@@ -1,11 +1,12 @@
 import Papa from 'papaparse';
-import type { Transaction } from '../types';
+import type { Transaction, CurrencyCode } from '../types';
 import { translateCategory } from './i18n';
+import { money, toDecimalString } from './money';
 
 interface ExportOptions {
   transactions: Transaction[];
   language: 'tr' | 'en';
-  currency: 'TRY' | 'USD' | 'EUR' | 'GBP';
+  currency: CurrencyCode;
   getDisplayAmount: (transaction: Transaction) => number;
   dateRange?: {
     start: Date;
@@ -28,6 +29,9 @@ interface CategoryData {
   count: number;
 }
 
+// Amounts are written exactly, with the currency's own digits (no float drift)
+const decimal = (amount: number, currency: CurrencyCode) => toDecimalString(money(amount, currency));
+
 export function exportTransactionsCSV(options: ExportOptions): void {
   const { transactions, language, currency, getDisplayAmount } = options;
   
@@ -36,9 +40,9 @@ export function exportTransactionsCSV(options: ExportOptions): void {
     [language === 'tr' ? 'Başlık' : 'Title']: t.title,
     [language === 'tr' ? 'Kategori' : 'Category']: translateCategory(t.category, language),
     [language === 'tr' ? 'Tip' : 'Type']: language === 'tr' 
-      ? (t.type === 'income' ? 'Gelir' : t.type === 'expense' ? 'Gider' : 'Tasarruf')
-      : (t.type === 'income' ? 'Income' : t.type === 'expense' ? 'Expense' : 'Savings'),
-    [language === 'tr' ? 'Tutar' : 'Amount']: getDisplayAmount(t).toFixed(2),
+      ? (t.type === 'income' ? 'Gelir' : t.type === 'expense' ? 'Gider' : t.type === 'transfer' ? 'Transfer' : 'Tasarruf')
+      : (t.type === 'income' ? 'Income' : t.type === 'expense' ? 'Expense' : t.type === 'transfer' ? 'Transfer' : 'Savings'),
+    [language === 'tr' ? 'Tutar' : 'Amount']: decimal(getDisplayAmount(t), currency),
     [language === 'tr' ? 'Para Birimi' : 'Currency']: currency,
     [language === 'tr' ? 'Açıklama' : 'Description']: t.description || ''
   }));
@@ -47,13 +51,13 @@ export function exportTransactionsCSV(options: ExportOptions): void {
   downloadFile(csv, `monera-transactions-${new Date().toISOString().split('T')[0]}.csv`, 'text/csv');
 }
 
-export function exportMonthlyBreakdownCSV(monthlyData: MonthlyData[], language: 'tr' | 'en', currency: string): void {
+export function exportMonthlyBreakdownCSV(monthlyData: MonthlyData[], language: 'tr' | 'en', currency: CurrencyCode): void {
   const csvData = monthlyData.map(m => ({
     [language === 'tr' ? 'Ay' : 'Month']: m.month,
-    [language === 'tr' ? 'Gelir' : 'Income']: m.income.toFixed(2),
-    [language === 'tr' ? 'Gider' : 'Expense']: m.expense.toFixed(2),
-    [language === 'tr' ? 'Tasarruf' : 'Savings']: m.savings.toFixed(2),
-    [language === 'tr' ? 'Net' : 'Net']: m.net.toFixed(2),
+    [language === 'tr' ? 'Gelir' : 'Income']: decimal(m.income, currency),
+    [language === 'tr' ? 'Gider' : 'Expense']: decimal(m.expense, currency),
+    [language === 'tr' ? 'Tasarruf' : 'Savings']: decimal(m.savings, currency),
+    [language === 'tr' ? 'Net' : 'Net']: decimal(m.net, currency),
     [language === 'tr' ? 'Para Birimi' : 'Currency']: currency
   }));
 
@@ -61,10 +65,10 @@ export function exportMonthlyBreakdownCSV(monthlyData: MonthlyData[], language:
   downloadFile(csv, `monera-monthly-${new Date().toISOString().split('T')[0]}.csv`, 'text/csv');
 }
 
-export function exportCategoryBreakdownCSV(categoryData: CategoryData[], language: 'tr' | 'en', currency: string): void {
+export function exportCategoryBreakdownCSV(categoryData: CategoryData[], language: 'tr' | 'en', currency: CurrencyCode): void {
   const csvData = categoryData.map(c => ({
     [language === 'tr' ? 'Kategori' : 'Category']: c.category,
-    [language === 'tr' ? 'Tutar' : 'Amount']: c.amount.toFixed(2),
+    [language === 'tr' ? 'Tutar' : 'Amount']: decimal(c.amount, currency),
     [language === 'tr' ? 'Yüzde' : 'Percentage']: c.percentage.toFixed(2) + '%',
     [language === 'tr' ? 'İşlem Sayısı' : 'Transaction Count']: c.count,
     [language === 'tr' ? 'Para Birimi' : 'Currency']: currency
@@ -80,27 +84,27 @@ export function exportAnalyticsSummaryCSV(options: ExportOptions, insights: any)
   const summaryData = [
     {
       [language === 'tr' ? 'Metrik' : 'Metric']: language === 'tr' ? 'Toplam Gelir' : 'Total Income',
-      [language === 'tr' ? 'Değer' : 'Value']: insights.totalIncome.toFixed(2),
+      [language === 'tr' ? 'Değer' : 'Value']: decimal(insights.totalIncome, currency),
       [language === 'tr' ? 'Para Birimi' : 'Currency']: currency
     },
     {
       [language === 'tr' ? 'Metrik' : 'Metric']: language === 'tr' ? 'Toplam Gider' : 'Total Expense',
-      [language === 'tr' ? 'Değer' : 'Value']: insights.totalExpense.toFixed(2),
+      [language === 'tr' ? 'Değer' : 'Value']: decimal(insights.totalExpense, currency),
       [language === 'tr' ? 'Para Birimi' : 'Currency']: currency
     },
     {
       [language === 'tr' ? 'Metrik' : 'Metric']: language === 'tr' ? 'Toplam Tasarruf' : 'Total Savings',
-      [language === 'tr' ? 'Değer' : 'Value']: insights.totalSavings.toFixed(2),
+      [language === 'tr' ? 'Değer' : 'Value']: decimal(insights.totalSavings, currency),
       [language === 'tr' ? 'Para Birimi' : 'Currency']: currency
     },
     {
       [language === 'tr' ? 'Metrik' : 'Metric']: language === 'tr' ? 'Net Gelir' : 'Net Income',
-      [language === 'tr' ? 'Değer' : 'Value']: insights.netIncome.toFixed(2),
+      [language === 'tr' ? 'Değer' : 'Value']: decimal(insights.netIncome, currency),
       [language === 'tr' ? 'Para Birimi' : 'Currency']: currency
     },
     {
       [language === 'tr' ? 'Metrik' : 'Metric']: language === 'tr' ? 'Günlük Ortalama Harcama' : 'Average Daily Spending',
-      [language === 'tr' ? 'Değer' : 'Value']: insights.avgDailySpending.toFixed(2),
+      [language === 'tr' ? 'Değer' : 'Value']: decimal(insights.avgDailySpending, currency),
       [language === 'tr' ? 'Para Birimi' : 'Currency']: currency
     },
     {
@@ -122,7 +126,7 @@ export function exportAnalyticsSummaryCSV(options: ExportOptions, insights: any)
   downloadFile(csv, `monera-summary-${new Date().toISOString().split('T')[0]}.csv`, 'text/csv');
 }
 
-function downloadFile(content: string, filename: string, mimeType: string): void {
+export function downloadFile(content: string, filename: string, mimeType: string): void {
   const blob = new Blob([content], { type: mimeType });
   const url = URL.createObjectURL(blob);
   const link = document.createElement('a');
@@ -1,34 +1,33 @@
 import { format, parse } from 'date-fns';
 import { tr } from 'date-fns/locale';
+import type { CurrencyCode } from '../types';
+import { getCurrency } from './currencies';
 
-type Currency = 'TRY' | 'USD' | 'EUR' | 'GBP';
 type Language = 'tr' | 'en';
 
-const CURRENCY_SYMBOLS: Record<Currency, string> = {
-  TRY: '₺',
-  USD: '$',
-  EUR: '€',
-  GBP: '£',
-};
-
 /**
  * Format currency amount
  * @param amount - Amount to format
- * @param currency - Currency code
+ * @param currency - ISO 4217 code; symbol and decimals come from the currency registry
  * @param language - Language for formatting
  */
 export function formatCurrency(
   amount: number,
-  currency: Currency = 'TRY',
+  currency: CurrencyCode = 'TRY',
   language: Language = 'tr'
 ): string {
-  const symbol = CURRENCY_SYMBOLS[currency];
+  const { symbol, minorUnits, commodity } = getCurrency(currency);
   const formatted = new Intl.NumberFormat(language === 'tr' ? 'tr-TR' : 'en-US', {
-    minimumFractionDigits: 2,
-    maximumFractionDigits: 2,
+    minimumFractionDigits: minorUnits,
+    maximumFractionDigits: minorUnits,
   }).format(Math.abs(amount));
 
-  return amount < 0 ? `-${symbol}${formatted}` : `${symbol}${formatted}`;
+  // Quantities read "12,50 gr"
+  if (commodity) return `${amount < 0 ? '-' : ''}${formatted} ${symbol}`;
+
+  // Letter symbols ("CHF") get a space before the number
+  const prefix = /[A-Za-z]$/.test(symbol) ? `${symbol} ` : symbol;
+  return amount < 0 ? `-${prefix}${formatted}` : `${prefix}${formatted}`;
 }
 
 /**
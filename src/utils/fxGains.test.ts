@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { buildFxGainReport } from './fxGains';
+import type { DatedRates } from './exchange';
+import { createTransaction } from '../test/fixtures';
+
+const history: DatedRates[] = [
+  { date: '2024-01-01', rates: { USD: 1, TRY: 30, EUR: 0.9 }, source: 'imported' },
+  { date: '2024-06-01', rates: { USD: 1, TRY: 33, EUR: 0.9 }, source: 'imported' },
+  { date: '2024-12-31', rates: { USD: 1, TRY: 35, EUR: 0.9 }, source: 'imported' },
+];
+
+const now = new Date(2025, 0, 15);
+
+describe('FX gain/loss', () => {
+  it('should realize gains on withdrawals at average cost and value the rest', () => {
+    const report = buildFxGainReport([
+      createTransaction({ id: 'a', amount: 100, originalCurrency: 'USD', date: '2024-01-10', type: 'savings' }),
+      createTransaction({ id: 'b', amount: 50, originalCurrency: 'USD', date: '2024-06-15', type: 'withdrawal' }),
+      createTransaction({ id: 'c', amount: 1000, date: '2024-02-01', type: 'savings' }), // Home currency: no FX
+    ], 'TRY', { history, inflationRate: 30, now });
+
+    expect(report.positions).toEqual([
+      { currency: 'USD', units: 50, costBasis: 1500, marketValue: 1750, realized: 150, unrealized: 250 },
+    ]);
+  });
+
+  it('should track the history month by month with an inflation-adjusted value', () => {
+    const { series } = buildFxGainReport([
+      createTransaction({ id: 'a', amount: 100, originalCurrency: 'USD', date: '2024-01-10', type: 'savings' }),
+      createTransaction({ id: 'b', amount: 50, originalCurrency: 'USD', date: '2024-06-15', type: 'withdrawal' }),
+    ], 'TRY', { history, inflationRate: 30, now });
+
+    expect(series.map(point => point.month)).toHaveLength(13);
+    expect(series[0]).toEqual({
+      month: '2024-01',
+      costBasis: 3000,
+      marketValue: 3000,
+      realized: 0,
+      unrealized: 0,
+      realValue: 3000 / 1.3,
+    });
+    expect(series[5]).toMatchObject({ month: '2024-06', costBasis: 1500, marketValue: 1650, realized: 150 });
+    expect(series[12]).toMatchObject({ month: '2025-01', marketValue: 1750, unrealized: 250, realValue: 1750 });
+  });
+
+  it('should take the cost from a recorded settled amount', () => {
+    const report = buildFxGainReport([
+      createTransaction({ amount: 100, originalCurrency: 'EUR', date: '2024-01-10', settledAmount: 3400, settledCurrency: 'TRY', type: 'savings' }),
+    ], 'TRY', { history, inflationRate: 30, now });
+
+    // 100 EUR at 0.9 per USD and 35 TRY per USD
+    expect(report.positions[0]).toMatchObject({ costBasis: 3400, marketValue: 3888.89, unrealized: 488.89 });
+  });
+
+  it('should value gold held in grams at the unit price history', () => {
+    // A gram at 2000 TRY, then 3000 TRY
+    const gold: DatedRates[] = [
+      history[0],
+      { date: '2024-01-02', rates: { USD: 1, GAU: 30 / 2000 }, source: 'manual' },
+      history[1],
+      { date: '2024-12-30', rates: { USD: 1, GAU: 35 / 3000 }, source: 'manual' },
+      history[2],
+    ];
+
+    const report = buildFxGainReport([
+      createTransaction({ amount: 10, originalCurrency: 'GAU', date: '2024-01-10', settledAmount: 20500, settledCurrency: 'TRY', type: 'savings' }),
+    ], 'TRY', { history: gold, inflationRate: 30, now });
+
+    expect(report.positions).toEqual([
+      { currency: 'GAU', units: 10, costBasis: 20500, marketValue: 30000, realized: 0, unrealized: 9500 },
+    ]);
+  });
+
+  it('should only count withdrawals up to the units held', () => {
+    const report = buildFxGainReport([
+      createTransaction({ id: 'a', amount: 10, originalCurrency: 'USD', date: '2024-01-10', type: 'savings' }),
+      createTransaction({ id: 'b', amount: 20, originalCurrency: 'USD', date: '2024-06-15', type: 'withdrawal' }),
+    ], 'TRY', { history, inflationRate: 30, now });
+
+    // 10 of the 20 USD fetched 330 and cost 300
+    expect(report.positions[0]).toMatchObject({ units: 0, costBasis: 0, realized: 30, unrealized: 0 });
+  });
+});
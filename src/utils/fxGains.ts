@@ -0,0 +1,148 @@
+import type { Transaction, CurrencyCode } from '../types';
+import { convertCurrency, convertTransaction, type DatedRates } from './exchange';
+import { calculateRealWealth } from './calculations';
+import { dateToISOString } from './formatters';
+import { add, fromMinor, money, multiply, subtract, sum, toAmount, zero, type Money } from './money';
+
+/**
+ * Foreign-exchange gain/loss on savings held in other currencies
+ *
+ * Savings transactions in a foreign currency buy units of it, withdrawals
+ * sell them. Each currency keeps an average cost basis in the home currency:
+ * a purchase costs its settled amount when one is recorded, otherwise its
+ * amount at the rate closest to its date. A withdrawal realizes the
+ * difference between what the units fetched and their share of the cost;
+ * what's still held is valued at month end for the unrealized part.
+ * Withdrawals beyond the units held only count for the units there were.
+ */
+
+export interface FxPosition {
+  currency: CurrencyCode;
+  units: number;          // Held, in the foreign currency
+  costBasis: number;      // What the held units cost, in the home currency
+  marketValue: number;    // What they're worth now
+  realized: number;       // Gain (or loss, negative) from withdrawals so far
+  unrealized: number;     // marketValue - costBasis
+}
+
+export interface FxGainPoint {
+  month: string;          // YYYY-MM
+  costBasis: number;
+  marketValue: number;
+  realized: number;       // Cumulative
+  unrealized: number;
+  realValue: number;      // marketValue adjusted for inflation, as calculateRealWealthByMonth does
+}
+
+export interface FxGainReport {
+  currency: CurrencyCode; // Home currency every figure is in
+  positions: FxPosition[];
+  series: FxGainPoint[];  // One point per month, first foreign saving to now
+}
+
+export interface FxGainOptions {
+  history: DatedRates[];  // Dated rates, oldest first
+  inflationRate: number;  // Annual %
+  now?: Date;
+}
+
+interface Holding {
+  units: Money;
+  cost: Money;
+  realized: Money;
+}
+
+const nextMonth = (month: string) => {
+  const [year, m] = month.split('-').map(Number);
+  return m === 12 ? `${year + 1}-01` : `${year}-${String(m + 1).padStart(2, '0')}`;
+};
+
+const monthEnd = (month: string) => {
+  const [year, m] = month.split('-').map(Number);
+  return `${month}-${String(new Date(year, m, 0).getDate()).padStart(2, '0')}`;
+};
+
+/**
+ * Cost basis, realized and unrealized FX gain/loss per foreign currency,
+ * and their history month by month
+ */
+export function buildFxGainReport(
+  transactions: Transaction[],
+  currency: CurrencyCode,
+  { history, inflationRate, now = new Date() }: FxGainOptions
+): FxGainReport {
+  const today = dateToISOString(now);
+  const thisMonth = today.slice(0, 7);
+  const holdings = new Map<CurrencyCode, Holding>();
+
+  const moves = transactions
+    .filter(t =>
+      !t.deletedAt &&
+      (t.type === 'savings' || t.type === 'withdrawal') &&
+      (t.originalCurrency || 'TRY') !== currency &&
+      t.date <= today
+    )
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  // What a transaction cost or fetched in the home currency
+  const homeValue = (t: Transaction) => money(convertTransaction(t, currency, { mode: 'historical', history }), currency);
+
+  const apply = (t: Transaction) => {
+    const code = t.originalCurrency || 'TRY';
+    const holding = holdings.get(code) ?? { units: zero(code), cost: zero(currency), realized: zero(currency) };
+    const units = money(t.amount, code);
+
+    if (t.type === 'savings') {
+      holding.units = add(holding.units, units);
+      holding.cost = add(holding.cost, homeValue(t));
+    } else if (holding.units.minor > 0 && units.minor > 0) {
+      const sold = Math.min(units.minor, holding.units.minor);
+      const costOut = sold === holding.units.minor ? holding.cost : multiply(holding.cost, sold / holding.units.minor);
+      const proceeds = multiply(homeValue(t), sold / units.minor);
+      holding.realized = add(holding.realized, subtract(proceeds, costOut));
+      holding.units = subtract(holding.units, fromMinor(sold, code));
+      holding.cost = subtract(holding.cost, costOut);
+    }
+    holdings.set(code, holding);
+  };
+
+  const valueAt = (holding: Holding, date: string) =>
+    money(convertCurrency(toAmount(holding.units), holding.units.currency, currency, date, history), currency);
+
+  // Replay month by month, valuing what's held at each month's end
+  const series: FxGainPoint[] = [];
+  let next = 0;
+  for (let month = moves[0]?.date.slice(0, 7); month && month <= thisMonth; month = nextMonth(month)) {
+    while (next < moves.length && moves[next].date.slice(0, 7) === month) apply(moves[next++]);
+
+    const date = month === thisMonth ? today : monthEnd(month);
+    const all = [...holdings.values()];
+    const costBasis = sum(all.map(h => h.cost), currency);
+    const marketValue = sum(all.map(h => valueAt(h, date)), currency);
+    const [year, m] = month.split('-').map(Number);
+    const yearsPassed = now.getFullYear() - year + (now.getMonth() + 1 - m) / 12;
+
+    series.push({
+      month,
+      costBasis: toAmount(costBasis),
+      marketValue: toAmount(marketValue),
+      realized: toAmount(sum(all.map(h => h.realized), currency)),
+      unrealized: toAmount(subtract(marketValue, costBasis)),
+      realValue: yearsPassed > 0 ? calculateRealWealth(toAmount(marketValue), inflationRate, yearsPassed) : toAmount(marketValue),
+    });
+  }
+
+  const positions = [...holdings.entries()].map(([code, holding]): FxPosition => {
+    const marketValue = valueAt(holding, today);
+    return {
+      currency: code,
+      units: toAmount(holding.units),
+      costBasis: toAmount(holding.cost),
+      marketValue: toAmount(marketValue),
+      realized: toAmount(holding.realized),
+      unrealized: toAmount(subtract(marketValue, holding.cost)),
+    };
+  });
+
+  return { currency, positions, series };
+}
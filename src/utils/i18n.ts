@@ -36,6 +36,7 @@ export const translations = {
     incomeType: 'Gelir',
     expenseType: 'Gider',
     savingsType: 'Tasarruf',
+    transfer: 'Hesaplar Arası Transfer',
     
     // Summary Cards
     savings: 'Tasarruf',
@@ -174,6 +175,7 @@ export const translations = {
     budgetWarnings: 'Bütçe Uyarıları',
     budgetExceededNotif: 'Bütçe Aşımları',
     recurringReminders: 'Tekrarlayan Hatırlatıcılar',
+    statementReminders: 'Kredi Kartı Ekstreleri',
     savingsMilestones: 'Tasarruf Hedefleri',
     expenseSpikes: 'Harcama Artışları',
     desktopNotifications: 'Masaüstü Bildirimleri',
@@ -181,6 +183,7 @@ export const translations = {
     budgetWarningsDesc: 'Bütçenizin %80\'ine ulaştığınızda uyarı',
     budgetExceededDesc: 'Bütçenizi aştığınızda bildirim',
     recurringRemindersDesc: 'Tekrarlayan işlem hatırlatıcıları',
+    statementRemindersDesc: 'Ekstre son ödeme tarihi yaklaşınca ve geçince',
     savingsMilestonesDesc: 'Tasarruf hedeflerinize ulaştığınızda',
     expenseSpikesDesc: 'Olağandışı yüksek harcamalar için',
     desktopNotificationsDesc: 'Tarayıcı masaüstü bildirimleri',
@@ -230,6 +233,7 @@ export const translations = {
     incomeType: 'Income',
     expenseType: 'Expense',
     savingsType: 'Savings',
+    transfer: 'Transfer Between Accounts',
     
     // Summary Cards
     savings: 'Savings',
@@ -368,6 +372,7 @@ export const translations = {
     budgetWarnings: 'Budget Warnings',
     budgetExceededNotif: 'Budget Exceeded',
     recurringReminders: 'Recurring Reminders',
+    statementReminders: 'Credit Card Statements',
     savingsMilestones: 'Savings Milestones',
     expenseSpikes: 'Expense Spikes',
     desktopNotifications: 'Desktop Notifications',
@@ -375,6 +380,7 @@ export const translations = {
     budgetWarningsDesc: 'Alert when reaching 80% of budget',
     budgetExceededDesc: 'Notify when budget is exceeded',
     recurringRemindersDesc: 'Reminders for recurring transactions',
+    statementRemindersDesc: 'When a statement is about to be due and when it is overdue',
     savingsMilestonesDesc: 'When you reach savings goals',
     expenseSpikesDesc: 'For unusually high expenses',
     desktopNotificationsDesc: 'Browser desktop notifications',
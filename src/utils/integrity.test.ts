@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest';
+import type { Transaction, CategoryBudget, RecurringTransaction } from '../types';
+import { findIntegrityIssues, countIssues, planRepairs, isValidDate } from './integrity';
+import { tx } from '../test/fixtures';
+
+const budget = (id: string, overrides: Partial<CategoryBudget> = {}): CategoryBudget => ({
+  id,
+  category: 'food',
+  monthlyLimit: 1000,
+  alertThreshold: 80,
+  isActive: true,
+  currency: 'TRY',
+  version: 1,
+  ...overrides,
+});
+
+const template = (overrides: Partial<RecurringTransaction> = {}): RecurringTransaction => ({
+  id: 'r1',
+  title: 'Rent',
+  amount: 5000,
+  category: 'housing',
+  type: 'expense',
+  originalCurrency: 'TRY',
+  frequency: 'monthly',
+  startDate: '2026-01-01',
+  lastGenerated: '2026-01-01',
+  nextOccurrence: '2026-02-01',
+  isActive: true,
+  version: 1,
+  ...overrides,
+});
+
+describe('findIntegrityIssues', () => {
+  it('reports nothing for consistent data', () => {
+    const issues = findIntegrityIssues({
+      transactions: [tx('t1', { recurringId: 'r1', isRecurring: true })],
+      budgets: [budget('b1')],
+      recurring: [template()],
+    });
+    expect(issues).toEqual([]);
+  });
+
+  it('counts every issue type', () => {
+    const issues = findIntegrityIssues({
+      transactions: [
+        tx('t1', { recurringId: 'gone', isRecurring: true }),
+        tx('t2', { amount: -50, originalCurrency: 'usd' as Transaction['originalCurrency'] }),
+        tx('t3', { date: '2026-02-30' }),
+        tx('t4', { recurringId: 'r1', date: '2026-01-01' }),
+        tx('t5', { recurringId: 'r1', date: '2026-01-01' }),
+      ],
+      budgets: [budget('b1', { category: 'hobbies' })],
+      recurring: [template({ nextOccurrence: '2026-03-01' })],
+    });
+
+    expect(countIssues(issues)).toEqual({
+      orphanedRecurringId: 1,
+      duplicateOccurrence: 1,
+      unknownBudgetCategory: 1,
+      unknownCurrency: 1,
+      malformedDate: 1,
+      invalidAmount: 1,
+      scheduleMismatch: 1,
+    });
+  });
+
+  it('keeps budgets for categories still used by expenses', () => {
+    const issues = findIntegrityIssues({
+      transactions: [tx('t1', { category: 'hobbies' })],
+      budgets: [budget('b1', { category: 'hobbies' })],
+      recurring: [],
+    });
+    expect(issues).toEqual([]);
+  });
+
+  it('leaves unrecoverable values for manual review', () => {
+    const [amount, date] = findIntegrityIssues({
+      transactions: [tx('t1', { amount: Number.NaN, date: 'yesterday' })],
+      budgets: [],
+      recurring: [],
+    }).sort((a, b) => a.type.localeCompare(b.type));
+
+    expect(amount).toMatchObject({ type: 'invalidAmount', fix: undefined });
+    expect(date).toMatchObject({ type: 'malformedDate', fix: undefined });
+  });
+});
+
+describe('planRepairs', () => {
+  it('combines fixes to one record and only repairs the chosen types', () => {
+    const broken = tx('t1', {
+      amount: -20,
+      date: '2026-01-15T10:00:00.000Z',
+      originalCurrency: 'XYZ' as Transaction['originalCurrency'],
+    });
+    const issues = findIntegrityIssues({ transactions: [broken], budgets: [], recurring: [] });
+
+    const [change] = planRepairs(issues, ['invalidAmount', 'malformedDate', 'unknownCurrency']);
+    expect(change.before).toBe(broken);
+    expect(change.after).toMatchObject({ amount: 20, date: '2026-01-15', originalCurrency: 'TRY' });
+
+    const [amountOnly] = planRepairs(issues, ['invalidAmount']);
+    expect(amountOnly.after).toMatchObject({ amount: 20, date: broken.date });
+  });
+
+  it('detaches orphans, deletes duplicates and realigns schedules', () => {
+    const issues = findIntegrityIssues({
+      transactions: [
+        tx('t1', { recurringId: 'gone', isRecurring: true }),
+        tx('t2', { recurringId: 'r1', date: '2026-01-01' }),
+        tx('t3', { recurringId: 'r1', date: '2026-01-01', amount: -1 }),
+      ],
+      budgets: [],
+      recurring: [template({ nextOccurrence: '2026-03-01' })],
+    });
+
+    const changes = planRepairs(issues, ['orphanedRecurringId', 'duplicateOccurrence', 'invalidAmount', 'scheduleMismatch']);
+    const byId = Object.fromEntries(changes.map(c => [c.recordId, c.after]));
+
+    expect(byId.t1).toMatchObject({ isRecurring: false });
+    expect(byId.t1).not.toHaveProperty('recurringId');
+    expect(byId.t3).toBeNull();
+    expect(byId.r1).toMatchObject({ nextOccurrence: '2026-02-01' });
+    expect(byId).not.toHaveProperty('t2');
+  });
+});
+
+describe('isValidDate', () => {
+  it('accepts only real calendar dates', () => {
+    expect(isValidDate('2024-02-29')).toBe(true);
+    expect(isValidDate('2026-02-29')).toBe(false);
+    expect(isValidDate('2026-1-5')).toBe(false);
+    expect(isValidDate(undefined)).toBe(false);
+  });
+});
@@ -0,0 +1,242 @@
+import type { Transaction, CategoryBudget, RecurringTransaction } from '../types';
+import { EXPENSE_CATEGORIES } from '../types';
+import type { VersionedRecord } from '../db/schema';
+import { isCurrencyCode } from './currencies';
+import { calculateNextOccurrence } from './recurringUtils';
+import type { JournalTable, RecordChange } from './undoJournal';
+
+/**
+ * Kinds of inconsistency the checker looks for
+ */
+export type IntegrityIssueType =
+  | 'orphanedRecurringId'     // Transaction points to a recurring template that no longer exists
+  | 'duplicateOccurrence'     // Same template generated twice for one date
+  | 'unknownBudgetCategory'   // Budget for a category that no longer exists
+  | 'unknownCurrency'         // Not an ISO 4217 code
+  | 'malformedDate'           // Not a valid YYYY-MM-DD date
+  | 'invalidAmount'           // Negative or not a number
+  | 'scheduleMismatch';       // nextOccurrence doesn't follow lastGenerated
+
+export const INTEGRITY_ISSUE_TYPES: IntegrityIssueType[] = [
+  'orphanedRecurringId',
+  'duplicateOccurrence',
+  'unknownBudgetCategory',
+  'unknownCurrency',
+  'malformedDate',
+  'invalidAmount',
+  'scheduleMismatch',
+];
+
+export interface IntegrityIssue {
+  type: IntegrityIssueType;
+  table: JournalTable;
+  recordId: string;
+  field?: string;
+  value?: unknown;                     // The offending value
+  record: VersionedRecord;
+  fix: VersionedRecord | null | undefined;   // Repaired record, null = delete, undefined = needs manual review
+}
+
+interface CheckedData {
+  transactions: Transaction[];
+  budgets: CategoryBudget[];
+  recurring: RecurringTransaction[];
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * A real calendar date in YYYY-MM-DD form
+ */
+export function isValidDate(value: unknown): value is string {
+  if (typeof value !== 'string' || !DATE_PATTERN.test(value)) return false;
+  const parsed = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(parsed.getTime()) && parsed.toISOString().startsWith(value);
+}
+
+// Full ISO timestamps keep their date part; anything else is left for the user
+function repairDate(value: unknown): string | undefined {
+  if (typeof value !== 'string') return undefined;
+  const datePart = value.trim().slice(0, 10);
+  return value.trim().length > 10 && value.trim()[10] === 'T' && isValidDate(datePart) ? datePart : undefined;
+}
+
+function repairCurrency(value: unknown): string {
+  const normalized = typeof value === 'string' ? value.trim().toUpperCase() : '';
+  // Missing currencies already count as TRY everywhere amounts are converted
+  return isCurrencyCode(normalized) ? normalized : 'TRY';
+}
+
+/**
+ * Scan all stores and list every inconsistency with its proposed repair
+ */
+export function findIntegrityIssues({ transactions, budgets, recurring }: CheckedData): IntegrityIssue[] {
+  const issues: IntegrityIssue[] = [];
+  const templateIds = new Set(recurring.map(r => r.id));
+
+  const checkFields = <T extends VersionedRecord>(
+    table: JournalTable,
+    record: T,
+    { dates = [], optionalDates = [], amounts = [], currency }: {
+      dates?: (keyof T & string)[];
+      optionalDates?: (keyof T & string)[];
+      amounts?: (keyof T & string)[];
+      currency?: keyof T & string;
+    }
+  ) => {
+    const fields = record as unknown as Record<string, unknown>;
+    const issue = (type: IntegrityIssueType, field: string, fix: unknown) =>
+      issues.push({
+        type,
+        table,
+        recordId: record.id,
+        field,
+        value: fields[field],
+        record,
+        fix: fix === undefined ? undefined : ({ ...record, [field]: fix } as VersionedRecord),
+      });
+
+    for (const field of [...dates, ...optionalDates]) {
+      const value = fields[field];
+      if (value === undefined && optionalDates.includes(field)) continue;
+      if (!isValidDate(value)) issue('malformedDate', field, repairDate(value));
+    }
+    for (const field of amounts) {
+      const value = fields[field];
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        issue('invalidAmount', field, undefined);
+      } else if (value < 0) {
+        issue('invalidAmount', field, Math.abs(value));
+      }
+    }
+    if (currency && !isCurrencyCode(fields[currency])) {
+      issue('unknownCurrency', currency, repairCurrency(fields[currency]));
+    }
+  };
+
+  // Transactions
+  const seenOccurrences = new Map<string, Transaction>();
+  for (const tx of transactions) {
+    checkFields('transactions', tx, { dates: ['date'], amounts: ['amount'], currency: 'originalCurrency' });
+
+    if (!tx.recurringId) continue;
+    if (!templateIds.has(tx.recurringId)) {
+      const detached: Transaction = { ...tx, isRecurring: false };
+      delete detached.recurringId;
+      issues.push({
+        type: 'orphanedRecurringId',
+        table: 'transactions',
+        recordId: tx.id,
+        field: 'recurringId',
+        value: tx.recurringId,
+        record: tx,
+        fix: detached,
+      });
+      continue;
+    }
+
+    const key = `${tx.recurringId}|${tx.date}`;
+    const first = seenOccurrences.get(key);
+    if (first) {
+      issues.push({ type: 'duplicateOccurrence', table: 'transactions', recordId: tx.id, value: tx.date, record: tx, fix: null });
+    } else {
+      seenOccurrences.set(key, tx);
+    }
+  }
+
+  // Budgets - a category still counts as existing while expenses use it
+  const usedCategories = new Set(transactions.filter(t => t.type === 'expense').map(t => t.category));
+  for (const budget of budgets) {
+    checkFields('budgets', budget, { amounts: ['monthlyLimit'], currency: 'currency' });
+
+    if (!EXPENSE_CATEGORIES.includes(budget.category) && !usedCategories.has(budget.category)) {
+      issues.push({
+        type: 'unknownBudgetCategory',
+        table: 'budgets',
+        recordId: budget.id,
+        field: 'category',
+        value: budget.category,
+        record: budget,
+        fix: null,
+      });
+    }
+  }
+
+  // Recurring templates
+  for (const template of recurring) {
+    checkFields('recurring', template, {
+      dates: ['startDate', 'nextOccurrence'],
+      optionalDates: ['endDate', 'lastGenerated'],
+      amounts: ['amount'],
+      currency: 'originalCurrency',
+    });
+
+    if (isValidDate(template.lastGenerated) && isValidDate(template.nextOccurrence)) {
+      const expected = calculateNextOccurrence(template.lastGenerated, template.frequency);
+      if (template.nextOccurrence !== expected) {
+        issues.push({
+          type: 'scheduleMismatch',
+          table: 'recurring',
+          recordId: template.id,
+          field: 'nextOccurrence',
+          value: template.nextOccurrence,
+          record: template,
+          fix: { ...template, nextOccurrence: expected },
+        });
+      }
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Number of issues per type (every type listed, zero when clean)
+ */
+export function countIssues(issues: IntegrityIssue[]): Record<IntegrityIssueType, number> {
+  const counts = Object.fromEntries(INTEGRITY_ISSUE_TYPES.map(type => [type, 0])) as Record<IntegrityIssueType, number>;
+  for (const issue of issues) counts[issue.type]++;
+  return counts;
+}
+
+/**
+ * Record changes that repair the given issue types. Several fixes to one
+ * record are combined; a delete wins over field fixes. Issues that need
+ * manual review are left out.
+ */
+export function planRepairs(issues: IntegrityIssue[], types: IntegrityIssueType[]): RecordChange[] {
+  const planned = new Map<string, RecordChange>();
+
+  for (const issue of issues) {
+    if (!types.includes(issue.type) || issue.fix === undefined) continue;
+
+    const key = `${issue.table}:${issue.recordId}`;
+    const existing = planned.get(key);
+
+    let after: VersionedRecord | null = issue.fix;
+    if (existing && (existing.after === null || issue.fix === null)) {
+      after = null;
+    } else if (existing?.after && issue.fix) {
+      // Merge only the fields this issue changes
+      const changed = Object.keys({ ...issue.record, ...issue.fix }).filter(
+        field =>
+          (issue.record as unknown as Record<string, unknown>)[field] !==
+          (issue.fix as unknown as Record<string, unknown>)[field]
+      );
+      const merged: Record<string, unknown> = { ...existing.after };
+      for (const field of changed) {
+        const value = (issue.fix as unknown as Record<string, unknown>)[field];
+        if (value === undefined) {
+          delete merged[field];
+        } else {
+          merged[field] = value;
+        }
+      }
+      after = merged as unknown as VersionedRecord;
+    }
+
+    planned.set(key, { table: issue.table, recordId: issue.recordId, before: issue.record, after });
+  }
+
+  return [...planned.values()];
+}
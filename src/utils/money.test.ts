@@ -0,0 +1,156 @@
+import { describe, it, expect } from 'vitest';
+import fc from 'fast-check';
+import {
+  add,
+  allocate,
+  convert,
+  fromMinor,
+  money,
+  multiply,
+  roundMinor,
+  split,
+  subtract,
+  sum,
+  sumAmounts,
+  toAmount,
+  toDecimalString,
+} from './money';
+
+// Amounts within what a household ledger sees, in minor units
+const minorUnits = fc.integer({ min: -1_000_000_000, max: 1_000_000_000 });
+const currency = fc.constantFrom('TRY', 'USD', 'JPY', 'KWD');
+const amountIn = (code: string) => minorUnits.map((minor) => fromMinor(minor, code));
+
+describe('Money', () => {
+  it('should round decimal amounts half away from zero', () => {
+    expect(money(1.005, 'USD').minor).toBe(101);
+    expect(money(-1.005, 'USD').minor).toBe(-101);
+    expect(money(0.1 + 0.2, 'USD').minor).toBe(30);
+    expect(money(1234.5, 'JPY').minor).toBe(1235);
+    expect(money(1.2345, 'KWD').minor).toBe(1235);
+  });
+
+  it('should support half-even and truncating rounding', () => {
+    expect(roundMinor(2.5, 'half-even')).toBe(2);
+    expect(roundMinor(3.5, 'half-even')).toBe(4);
+    expect(roundMinor(-2.5, 'half-even')).toBe(-2);
+    expect(roundMinor(2.99, 'down')).toBe(2);
+    expect(roundMinor(-2.99, 'down')).toBe(-2);
+    expect(Object.is(roundMinor(-0.4), 0)).toBe(true);
+  });
+
+  it('should write exact decimal strings', () => {
+    expect(toDecimalString(fromMinor(-123450, 'TRY'))).toBe('-1234.50');
+    expect(toDecimalString(fromMinor(5, 'USD'))).toBe('0.05');
+    expect(toDecimalString(fromMinor(1235, 'JPY'))).toBe('1235');
+    expect(toDecimalString(fromMinor(1, 'KWD'))).toBe('0.001');
+  });
+
+  it('should refuse to mix currencies', () => {
+    expect(() => add(money(1, 'USD'), money(1, 'EUR'))).toThrow('[Money] Currency mismatch');
+  });
+
+  it('should sum cents without drift', () => {
+    expect(sumAmounts([0.1, 0.2, 0.3], 'USD')).toBe(0.6);
+    expect(sumAmounts(Array(10).fill(0.1), 'USD')).toBe(1);
+  });
+
+  it('should split 100.00 three ways into 33.34, 33.33, 33.33', () => {
+    expect(split(money(100, 'USD'), 3).map(toDecimalString)).toEqual(['33.34', '33.33', '33.33']);
+    expect(split(money(-100, 'USD'), 3).map(toDecimalString)).toEqual(['-33.34', '-33.33', '-33.33']);
+  });
+
+  it('should convert once in the target currency', () => {
+    expect(convert(money(10, 'USD'), 'JPY', 150.456).minor).toBe(1505);
+    expect(convert(money(1000, 'JPY'), 'USD', 0.006647).minor).toBe(665);
+    expect(convert(money(1, 'KWD'), 'USD', 3.2549).minor).toBe(325);
+  });
+
+  describe('properties', () => {
+    it('addition is exact, commutative and undone by subtraction', () => {
+      fc.assert(
+        fc.property(currency.chain((code) => fc.tuple(amountIn(code), amountIn(code))), ([a, b]) => {
+          expect(add(a, b).minor).toBe(a.minor + b.minor);
+          expect(add(a, b)).toEqual(add(b, a));
+          expect(subtract(add(a, b), b)).toEqual(a);
+        })
+      );
+    });
+
+    it('sums do not depend on order', () => {
+      fc.assert(
+        fc.property(currency.chain((code) => fc.array(amountIn(code), { maxLength: 30 }).map((list) => [code, list] as const)), ([code, list]) => {
+          expect(sum([...list].reverse(), code)).toEqual(sum(list, code));
+        })
+      );
+    });
+
+    it('decimal amounts survive a round trip', () => {
+      fc.assert(
+        fc.property(currency.chain(amountIn), (value) => {
+          expect(money(toAmount(value), value.currency)).toEqual(value);
+          expect(money(Number(toDecimalString(value)), value.currency)).toEqual(value);
+        })
+      );
+    });
+
+    it('summing decimals equals summing their minor units', () => {
+      fc.assert(
+        fc.property(fc.array(minorUnits, { maxLength: 30 }), (list) => {
+          const total = list.reduce((acc, minor) => acc + minor, 0);
+          expect(sumAmounts(list.map((minor) => minor / 100), 'USD')).toBe(total / 100);
+        })
+      );
+    });
+
+    it('allocation always adds up to the whole', () => {
+      fc.assert(
+        fc.property(
+          currency.chain(amountIn),
+          fc.array(fc.double({ min: 0, max: 1000, noNaN: true }), { minLength: 1, maxLength: 12 })
+            .filter((weights) => weights.some((weight) => weight > 0)),
+          (value, weights) => {
+            const parts = allocate(value, weights);
+            expect(parts).toHaveLength(weights.length);
+            expect(sum(parts, value.currency)).toEqual(value);
+            parts.forEach((part, i) => {
+              expect(Number.isInteger(part.minor)).toBe(true);
+              if (weights[i] === 0) expect(part.minor).toBe(0);
+              if (part.minor !== 0) expect(Math.sign(part.minor)).toBe(Math.sign(value.minor));
+            });
+          }
+        )
+      );
+    });
+
+    it('equal splits differ by at most one minor unit, larger parts first', () => {
+      fc.assert(
+        fc.property(currency.chain(amountIn), fc.integer({ min: 1, max: 50 }), (value, count) => {
+          const parts = split(value, count).map((part) => Math.abs(part.minor));
+          expect(Math.max(...parts) - Math.min(...parts)).toBeLessThanOrEqual(1);
+          expect([...parts].sort((a, b) => b - a)).toEqual(parts);
+        })
+      );
+    });
+
+    it('rounding is odd-symmetric and within half a unit', () => {
+      fc.assert(
+        fc.property(fc.double({ min: -1e9, max: 1e9, noNaN: true }), fc.constantFrom('half-up', 'half-even', 'down'), (value, mode) => {
+          const rounded = roundMinor(value, mode);
+          expect(Number.isInteger(rounded)).toBe(true);
+          expect(roundMinor(-value, mode)).toBe(rounded === 0 ? 0 : -rounded);
+          expect(Math.abs(rounded - value)).toBeLessThanOrEqual(mode === 'down' ? 1 : 0.5 + 1e-6);
+        })
+      );
+    });
+
+    it('scaling by one and converting at rate one change nothing', () => {
+      fc.assert(
+        fc.property(amountIn('USD'), (value) => {
+          expect(multiply(value, 1)).toEqual(value);
+          expect(convert(value, 'EUR', 1).minor).toBe(value.minor);
+        })
+      );
+    });
+  });
+});
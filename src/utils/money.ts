@@ -0,0 +1,221 @@
+import type { CurrencyCode } from '../types';
+import { getCurrency } from './currencies';
+
+/**
+ * Money
+ *
+ * Amounts are stored and entered as decimal numbers, but floats can't add
+ * cents exactly (0.1 + 0.2). Arithmetic that has to balance - totals,
+ * budgets, exports - goes through Money: an integer count of the currency's
+ * minor units (cents, kuruş; none for JPY, mills for KWD) plus its currency.
+ *
+ * Rounding rules:
+ * - Decimal amounts become minor units rounding half away from zero
+ *   (1.005 -> 1.01, -1.005 -> -1.01), after dropping float noise.
+ * - Conversion and scaling round the same way unless a mode is given.
+ * - Allocation never rounds: parts always add up to the whole, leftover
+ *   minor units going to the largest remainders (earlier parts on ties).
+ */
+
+export interface Money {
+  readonly minor: number;         // Integer minor units
+  readonly currency: CurrencyCode;
+}
+
+export type RoundingMode = 'half-up' | 'half-even' | 'down';
+
+// Digits kept when cleaning float noise before rounding (1.005 * 100 = 100.49999999999999);
+// past NOISE_LIMIT floats have too few fraction bits for the noise to matter
+const SIGNIFICANT_DIGITS = 15;
+const NOISE_LIMIT = 1e12;
+
+const factorOf = (currency: CurrencyCode) => 10 ** getCurrency(currency).minorUnits;
+
+/**
+ * Round a scaled value to an integer. 'half-up' rounds halves away from
+ * zero, 'half-even' to the even neighbour, 'down' towards zero.
+ */
+export function roundMinor(value: number, mode: RoundingMode = 'half-up'): number {
+  if (!Number.isFinite(value)) throw new Error(`[Money] Cannot round ${value}`);
+  const clean = Math.abs(Math.abs(value) < NOISE_LIMIT ? Number(value.toPrecision(SIGNIFICANT_DIGITS)) : value);
+  const whole = Math.floor(clean);
+  const fraction = clean - whole;
+
+  let rounded: number;
+  if (mode === 'down' || fraction < 0.5) rounded = whole;
+  else if (fraction > 0.5 || mode === 'half-up') rounded = whole + 1;
+  else rounded = whole % 2 === 0 ? whole : whole + 1;
+
+  return value < 0 && rounded !== 0 ? -rounded : rounded;
+}
+
+function assertSafe(minor: number): number {
+  if (!Number.isSafeInteger(minor)) throw new Error(`[Money] Amount out of range: ${minor}`);
+  return minor;
+}
+
+function assertSameCurrency(a: Money, b: Money): void {
+  if (a.currency !== b.currency) throw new Error(`[Money] Currency mismatch: ${a.currency} and ${b.currency}`);
+}
+
+// ============================================
+// CREATE / READ
+// ============================================
+
+/**
+ * Money from a decimal amount, rounded to the currency's minor units
+ */
+export function money(amount: number, currency: CurrencyCode, mode: RoundingMode = 'half-up'): Money {
+  return { minor: assertSafe(roundMinor(amount * factorOf(currency), mode)), currency };
+}
+
+/**
+ * Money from a count of minor units
+ */
+export function fromMinor(minor: number, currency: CurrencyCode): Money {
+  if (!Number.isInteger(minor)) throw new Error(`[Money] Minor units must be an integer: ${minor}`);
+  return { minor: assertSafe(minor), currency };
+}
+
+export const zero = (currency: CurrencyCode): Money => ({ minor: 0, currency });
+
+/**
+ * Back to a decimal amount (for display and storage)
+ */
+export function toAmount(value: Money): number {
+  return value.minor / factorOf(value.currency);
+}
+
+/**
+ * Exact plain decimal string with the currency's digits, e.g. "-1234.50";
+ * what exports write instead of toFixed(2)
+ */
+export function toDecimalString(value: Money): string {
+  const digits = getCurrency(value.currency).minorUnits;
+  const sign = value.minor < 0 ? '-' : '';
+  const units = String(Math.abs(value.minor)).padStart(digits + 1, '0');
+  if (digits === 0) return `${sign}${units}`;
+  return `${sign}${units.slice(0, -digits)}.${units.slice(-digits)}`;
+}
+
+// ============================================
+// ARITHMETIC
+// ============================================
+
+export function add(a: Money, b: Money): Money {
+  assertSameCurrency(a, b);
+  return { minor: assertSafe(a.minor + b.minor), currency: a.currency };
+}
+
+export function subtract(a: Money, b: Money): Money {
+  assertSameCurrency(a, b);
+  return { minor: assertSafe(a.minor - b.minor), currency: a.currency };
+}
+
+export function negate(value: Money): Money {
+  return { minor: value.minor === 0 ? 0 : -value.minor, currency: value.currency };
+}
+
+/**
+ * Sum of amounts in one currency (zero for none)
+ */
+export function sum(values: Money[], currency: CurrencyCode): Money {
+  return values.reduce(add, zero(currency));
+}
+
+/**
+ * Scale by a factor (a percentage, an interest rate), rounding the result
+ */
+export function multiply(value: Money, factor: number, mode: RoundingMode = 'half-up'): Money {
+  return { minor: assertSafe(roundMinor(value.minor * factor, mode)), currency: value.currency };
+}
+
+export function compare(a: Money, b: Money): -1 | 0 | 1 {
+  assertSameCurrency(a, b);
+  return a.minor < b.minor ? -1 : a.minor > b.minor ? 1 : 0;
+}
+
+/**
+ * Convert at a rate (units of `to` per one unit of `from`), rounding once
+ * in the target currency's minor units
+ */
+export function convert(value: Money, to: CurrencyCode, rate: number, mode: RoundingMode = 'half-up'): Money {
+  if (!Number.isFinite(rate) || rate <= 0) throw new Error(`[Money] Invalid rate: ${rate}`);
+  if (to === value.currency) return value;
+  const scale = factorOf(to) / factorOf(value.currency);
+  return { minor: assertSafe(roundMinor(value.minor * rate * scale, mode)), currency: to };
+}
+
+// ============================================
+// ALLOCATION
+// ============================================
+
+/**
+ * Split by weights so the parts add up to exactly the whole. Each part gets
+ * its share rounded towards zero; the leftover minor units go one each to
+ * the parts with the largest remainders (earlier parts win ties).
+ */
+export function allocate(value: Money, weights: number[]): Money[] {
+  if (weights.length === 0) throw new Error('[Money] Nothing to allocate to');
+  if (weights.some(weight => !Number.isFinite(weight) || weight < 0)) {
+    throw new Error('[Money] Weights must be non-negative numbers');
+  }
+  const totalWeight = weights.reduce((total, weight) => total + weight, 0);
+  if (totalWeight === 0) throw new Error('[Money] Weights must not all be zero');
+
+  const whole = Math.abs(value.minor);
+  const shares = weights.map(weight => (whole * weight) / totalWeight);
+  const parts = shares.map(share => Math.floor(share));
+  let leftover = whole - parts.reduce((total, part) => total + part, 0);
+
+  const byRemainder = shares
+    .map((share, index) => ({ index, remainder: share - parts[index] }))
+    .filter(({ index }) => weights[index] > 0)
+    .sort((a, b) => b.remainder - a.remainder || a.index - b.index);
+  for (let i = 0; leftover > 0; i = (i + 1) % byRemainder.length, leftover--) {
+    parts[byRemainder[i].index]++;
+  }
+  // Float shares can floor one unit high; take it back from the smallest remainders
+  for (let i = byRemainder.length - 1; leftover < 0; i = (i - 1 + byRemainder.length) % byRemainder.length) {
+    const index = byRemainder[i].index;
+    if (parts[index] > 0) {
+      parts[index]--;
+      leftover++;
+    }
+  }
+
+  return parts.map(part => ({ minor: value.minor < 0 && part !== 0 ? -part : part, currency: value.currency }));
+}
+
+/**
+ * Split into `count` equal parts, e.g. 100.00 three ways -> 33.34, 33.33, 33.33
+ */
+export function split(value: Money, count: number): Money[] {
+  if (!Number.isInteger(count) || count < 1) throw new Error(`[Money] Cannot split into ${count} parts`);
+  return allocate(value, Array(count).fill(1));
+}
+
+// ============================================
+// DECIMAL HELPERS
+// ============================================
+
+/**
+ * Exact sum of decimal amounts in one currency, as a decimal amount
+ */
+export function sumAmounts(amounts: number[], currency: CurrencyCode): number {
+  return toAmount(sum(amounts.map(amount => money(amount, currency)), currency));
+}
+
+/**
+ * Total of amounts that may be in different currencies. Each currency is
+ * summed exactly; the per-currency totals are then added as they are (use
+ * this only where the amounts are already in one currency, or where the
+ * caller accepts adding them unconverted).
+ */
+export function totalAmount(entries: Array<{ amount: number; currency: CurrencyCode }>): number {
+  const byCurrency = new Map<CurrencyCode, Money>();
+  for (const { amount, currency } of entries) {
+    byCurrency.set(currency, add(byCurrency.get(currency) ?? zero(currency), money(amount, currency)));
+  }
+  return [...byCurrency.values()].reduce((total, value) => total + toAmount(value), 0);
+}
@@ -1,5 +1,6 @@
-import type { CategoryBudget, RecurringTransaction, Transaction } from '../types';
+import type { Account, CategoryBudget, RecurringTransaction, Transaction } from '../types';
 import { translateCategory, getMonthName } from './i18n';
+import { daysUntilDue, type Statement } from './statements';
 
 type Language = 'tr' | 'en';
 
@@ -10,6 +11,7 @@ export type NotificationType =
   | 'budget_warning'      // 80% of budget reached
   | 'budget_exceeded'     // Budget exceeded
   | 'recurring_due'       // Recurring transaction is due
+  | 'statement_due'       // Credit card statement due soon or overdue
   | 'savings_milestone'   // Reached savings goal
   | 'expense_spike';      // Unusual high spending
 
@@ -30,17 +32,22 @@ export interface NotificationSettings {
   budgetWarnings: boolean;
   budgetExceeded: boolean;
   recurringReminders: boolean;
+  statementReminders: boolean;
   savingsMilestones: boolean;
   expenseSpikes: boolean;
   sound: boolean;
   desktop: boolean; // Browser notifications
 }
 
+// Days before a statement's due date its reminder goes out
+const STATEMENT_REMINDER_DAYS = 3;
+
 export const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
   enabled: true,
   budgetWarnings: true,
   budgetExceeded: true,
   recurringReminders: true,
+  statementReminders: true,
   savingsMilestones: false,
   expenseSpikes: false,
   sound: false,
@@ -53,6 +60,7 @@ export const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
  * Handles all notification logic:
  * - Budget alerts
  * - Recurring reminders
+ * - Credit card statement due dates
  * - Savings milestones
  * - Expense spike detection
  */
@@ -346,6 +354,50 @@ export class NotificationManager {
     });
   }
 
+  /**
+   * Check a credit card statement: remind once when it's due within a few
+   * days and once more if it becomes overdue, while anything is left to pay
+   */
+  checkStatementDue(card: Account, statement: Statement, now: Date = new Date()): void {
+    if (!this.settings.enabled || !this.settings.statementReminders) return;
+    if (!statement.isClosed || statement.remaining <= 0) return;
+
+    const days = daysUntilDue(statement, now);
+    if (days > STATEMENT_REMINDER_DAYS) return;
+
+    const overdue = days < 0;
+    const existing = this.notifications.find(
+      n => n.type === 'statement_due' &&
+           n.metadata?.accountId === card.id &&
+           n.metadata?.dueDate === statement.dueDate &&
+           n.metadata?.overdue === overdue
+    );
+    if (existing) return;
+
+    const amount = `${statement.remaining.toFixed(2)} ${card.currency}`;
+    const message = this.language === 'tr'
+      ? overdue
+        ? `${statement.dueDate} tarihli ekstrenin ${amount} tutarı ödenmedi. Ödemek için panodaki Kredi Kartları bölümüne gidin.`
+        : `${amount} tutarındaki ekstre ${days === 0 ? 'bugün' : `${days} gün içinde`} (${statement.dueDate}) ödenmeli.`
+      : overdue
+        ? `${amount} of the statement due ${statement.dueDate} is unpaid. Go to Credit Cards on the dashboard to pay it.`
+        : `A statement of ${amount} is due ${days === 0 ? 'today' : `in ${days} day${days === 1 ? '' : 's'}`} (${statement.dueDate}).`;
+
+    this.addNotification({
+      type: 'statement_due',
+      title: card.name,
+      message,
+      severity: overdue ? 'error' : 'warning',
+      metadata: {
+        accountId: card.id,
+        closingDate: statement.closingDate,
+        dueDate: statement.dueDate,
+        remaining: statement.remaining,
+        overdue
+      }
+    });
+  }
+
   /**
    * Check savings milestones
    */
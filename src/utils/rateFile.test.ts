@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { parseRateFile } from './rateFile';
+
+describe('Rate files', () => {
+  it('should read a JSON list of days', () => {
+    const content = JSON.stringify([
+      { date: '2022-06-01', rates: { TRY: 16, EUR: 0.9 } },
+      { date: '2022-01-03', rates: { TRY: 13 } },
+    ]);
+    expect(parseRateFile(content)).toEqual([
+      { date: '2022-01-03', rates: { TRY: 13 } },
+      { date: '2022-06-01', rates: { TRY: 16, EUR: 0.9 } },
+    ]);
+  });
+
+  it('should read a JSON map of days and re-base on USD', () => {
+    const content = JSON.stringify({ '2022-01-03': { TRY: 1, USD: 0.08 } });
+    expect(parseRateFile(content)).toEqual([{ date: '2022-01-03', rates: { TRY: 12.5, USD: 1 } }]);
+  });
+
+  it('should read a long CSV', () => {
+    const content = 'Date,Currency,Rate\n2022-01-03,TRY,13.2\n2022-01-03,eur,"0,88"\n2022-01-04,TRY,13.4\n';
+    expect(parseRateFile(content)).toEqual([
+      { date: '2022-01-03', rates: { TRY: 13.2, EUR: 0.88 } },
+      { date: '2022-01-04', rates: { TRY: 13.4 } },
+    ]);
+  });
+
+  it('should read a wide CSV, skipping empty and invalid cells', () => {
+    const content = 'date,TRY,EUR\n2022-01-03,13.2,\n2022-01-04,abc,0.89\n01/05/2022,13.5,0.9';
+    expect(parseRateFile(content)).toEqual([
+      { date: '2022-01-03', rates: { TRY: 13.2 } },
+      { date: '2022-01-04', rates: { EUR: 0.89 } },
+    ]);
+  });
+
+  it('should reject files without rates', () => {
+    expect(() => parseRateFile('{not json')).toThrow('Invalid JSON');
+    expect(() => parseRateFile('day,TRY\n2022-01-03,13')).toThrow('date');
+    expect(() => parseRateFile('[]')).toThrow('No valid rates');
+  });
+});
@@ -0,0 +1,107 @@
+import Papa from 'papaparse';
+import type { DatedRates } from '../db/schema';
+import { normalizeRates } from './exchange';
+
+/**
+ * Rate files
+ *
+ * Parses an imported file of historical exchange rates. Accepted shapes:
+ * - JSON list:  [{ "date": "2022-01-03", "rates": { "TRY": 13.3, "EUR": 0.88 } }, ...]
+ * - JSON map:   { "2022-01-03": { "TRY": 13.3, "EUR": 0.88 }, ... }
+ * - Long CSV:   date,currency,rate (one rate per line)
+ * - Wide CSV:   date,TRY,EUR,... (one day per line)
+ * Rates are units per USD; a day that lists USD is re-based on it.
+ */
+
+export type ParsedRates = Pick<DatedRates, 'date' | 'rates'>;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const CURRENCY_PATTERN = /^[A-Z]{3}$/;
+
+function parseRate(value: unknown): number | null {
+  const rate = typeof value === 'number' ? value : Number(String(value).trim().replace(',', '.'));
+  return Number.isFinite(rate) && rate > 0 ? rate : null;
+}
+
+// Merge the rates of each day, skipping invalid dates, codes and rates
+function collect(entries: Array<[date: string, currency: string, rate: unknown]>): ParsedRates[] {
+  const byDate = new Map<string, Record<string, number>>();
+  for (const [rawDate, rawCurrency, rawRate] of entries) {
+    const date = rawDate.trim();
+    const currency = rawCurrency.trim().toUpperCase();
+    const rate = parseRate(rawRate);
+    if (!DATE_PATTERN.test(date) || !CURRENCY_PATTERN.test(currency) || rate === null) continue;
+
+    const rates = byDate.get(date) ?? {};
+    rates[currency] = rate;
+    byDate.set(date, rates);
+  }
+
+  return [...byDate.entries()]
+    .map(([date, rates]) => ({ date, rates: normalizeRates(rates) }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+function fromJSON(data: unknown): ParsedRates[] {
+  const days: Array<[string, unknown]> = Array.isArray(data)
+    ? data.map((item) => [String(item?.date ?? ''), item?.rates])
+    : Object.entries(data as Record<string, unknown>);
+
+  return collect(
+    days.flatMap(([date, rates]) =>
+      rates && typeof rates === 'object'
+        ? Object.entries(rates).map(([currency, rate]): [string, string, unknown] => [date, currency, rate])
+        : []
+    )
+  );
+}
+
+function fromCSV(content: string): ParsedRates[] {
+  const { data, meta } = Papa.parse<Record<string, string>>(content.trim(), {
+    header: true,
+    skipEmptyLines: true,
+    transformHeader: (header) => header.trim(),
+  });
+  const fields = meta.fields ?? [];
+  const column = (name: string) => fields.find((field) => field.toLowerCase() === name);
+
+  const dateColumn = column('date');
+  if (!dateColumn) throw new Error('[RateFile] CSV needs a "date" column');
+
+  const currencyColumn = column('currency');
+  const rateColumn = column('rate');
+  if (currencyColumn && rateColumn) {
+    return collect(data.map((row): [string, string, unknown] => [row[dateColumn] ?? '', row[currencyColumn] ?? '', row[rateColumn]]));
+  }
+
+  const currencyColumns = fields.filter((field) => field !== dateColumn);
+  return collect(
+    data.flatMap((row) =>
+      currencyColumns.map((currency): [string, string, unknown] => [row[dateColumn] ?? '', currency, row[currency]])
+    )
+  );
+}
+
+/**
+ * Parse a JSON or CSV rate file into dated rates, oldest first.
+ * Throws if the file can't be read or holds no valid rates.
+ */
+export function parseRateFile(content: string): ParsedRates[] {
+  const text = content.trim();
+  let parsed: ParsedRates[];
+
+  if (text.startsWith('{') || text.startsWith('[')) {
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      throw new Error('[RateFile] Invalid JSON');
+    }
+    parsed = fromJSON(data);
+  } else {
+    parsed = fromCSV(text);
+  }
+
+  if (parsed.length === 0) throw new Error('[RateFile] No valid rates found');
+  return parsed;
+}
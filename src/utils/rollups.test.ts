@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyRollupDeltas,
+  compareRollups,
+  computeRollups,
+  rollupCategoryTotals,
+  rollupDeltas,
+  rollupMonthlyTotals,
+} from './rollups';
+import { createTransaction } from '../test/fixtures';
+
+describe('Rollups', () => {
+  it('should group by year, month, type, category and currency', () => {
+    const rows = computeRollups([
+      createTransaction({ id: 'a', amount: 100, type: 'expense', category: 'Food', date: '2025-01-05' }),
+      createTransaction({ id: 'b', amount: 50, type: 'expense', category: 'Food', date: '2025-01-20' }),
+      createTransaction({ id: 'c', amount: 10, type: 'expense', category: 'Food', date: '2025-01-20', originalCurrency: 'USD' }),
+      createTransaction({ id: 'd', amount: 70, type: 'expense', category: 'Food', date: '2025-02-01' }),
+    ]);
+
+    expect(rows).toEqual([
+      { year: 2025, month: 1, type: 'expense', category: 'Food', currency: 'TRY', amount: 150, count: 2 },
+      { year: 2025, month: 1, type: 'expense', category: 'Food', currency: 'USD', amount: 10, count: 1 },
+      { year: 2025, month: 2, type: 'expense', category: 'Food', currency: 'TRY', amount: 70, count: 1 },
+    ]);
+  });
+
+  it('should count settled amounts in their settled currency', () => {
+    const rows = computeRollups([
+      createTransaction({ amount: 10, type: 'expense', originalCurrency: 'EUR', settledAmount: 371.25, settledCurrency: 'TRY' }),
+    ]);
+    expect(rows).toEqual([
+      { year: 2025, month: 1, type: 'expense', category: 'Test', currency: 'TRY', amount: 371.25, count: 1 },
+    ]);
+  });
+
+  it('should leave transfers between accounts out', () => {
+    const rows = computeRollups([
+      createTransaction({ amount: 300, type: 'transfer', accountId: 'bank', toAccountId: 'cash' }),
+    ]);
+    expect(rows).toEqual([]);
+  });
+
+  it('should turn an edit into a move between groups', () => {
+    const before = createTransaction({ amount: 100, type: 'income', date: '2025-01-05' });
+    const after = { ...before, amount: 80, date: '2025-02-05' };
+
+    expect(rollupDeltas([{ table: 'transactions', recordId: '1', before, after }])).toEqual([
+      { year: 2025, month: 1, type: 'income', category: 'Test', currency: 'TRY', amount: -100, count: -1 },
+      { year: 2025, month: 2, type: 'income', category: 'Test', currency: 'TRY', amount: 80, count: 1 },
+    ]);
+  });
+
+  it('should ignore title-only edits and non-transaction changes', () => {
+    const before = createTransaction({ amount: 100 });
+    expect(rollupDeltas([{ table: 'transactions', recordId: '1', before, after: { ...before, title: 'Renamed' } }])).toEqual([]);
+    expect(rollupDeltas([{ table: 'budgets', recordId: 'b', before: null, after: null }])).toEqual([]);
+  });
+
+  it('should remove groups left without transactions', () => {
+    const [row] = computeRollups([createTransaction({ amount: 100, type: 'income' })]);
+    const deltas = rollupDeltas([{ table: 'transactions', recordId: '1', before: createTransaction({ amount: 100, type: 'income' }), after: null }]);
+
+    expect(applyRollupDeltas([row], deltas)).toEqual({ put: [], remove: [[2025, 1, 'income', 'Test', 'TRY']] });
+  });
+
+  it('should report missing, extra and different groups', () => {
+    const expected = computeRollups([
+      createTransaction({ id: 'a', amount: 100, type: 'income' }),
+      createTransaction({ id: 'b', amount: 5, type: 'expense' }),
+    ]);
+    const actual = [
+      { ...expected[0], amount: 99 },
+      { year: 2024, month: 12, type: 'income' as const, category: 'Test', currency: 'TRY', amount: 1, count: 1 },
+    ];
+
+    expect(compareRollups(expected, actual).map(m => [m.key.join('|'), m.expected?.amount ?? null, m.actual?.amount ?? null])).toEqual([
+      ['2025|1|income|Test|TRY', 100, 99],
+      ['2025|1|expense|Test|TRY', 5, null],
+      ['2024|12|income|Test|TRY', null, 1],
+    ]);
+  });
+
+  it('should read monthly and category totals within a month range', () => {
+    const rows = computeRollups([
+      createTransaction({ id: 'a', amount: 100, type: 'expense', category: 'Food', date: '2025-01-05' }),
+      createTransaction({ id: 'b', amount: 300, type: 'expense', category: 'Rent', date: '2025-02-01' }),
+      createTransaction({ id: 'c', amount: 20, type: 'expense', category: 'Food', date: '2025-02-10' }),
+      createTransaction({ id: 'd', amount: 1000, type: 'income', date: '2025-03-01' }),
+    ]);
+
+    expect(rollupMonthlyTotals(rows, 'TRY', { from: '2025-02' })).toEqual([
+      { month: '2025-02', income: 0, expense: 320, savings: 0, withdrawal: 0 },
+      { month: '2025-03', income: 1000, expense: 0, savings: 0, withdrawal: 0 },
+    ]);
+    expect(rollupCategoryTotals(rows, 'expense', 'TRY', { to: '2025-02' })).toEqual([
+      { category: 'Rent', amount: 300, count: 1 },
+      { category: 'Food', amount: 120, count: 2 },
+    ]);
+  });
+});
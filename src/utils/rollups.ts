@@ -0,0 +1,202 @@
+import type { Transaction } from '../types';
+import type { MonthlyRollup, RollupKey } from '../db/schema';
+import type { RecordChange } from './undoJournal';
+import type { CategoryTotal, MonthlyTotals } from './aggregations';
+import { bookedAmount, convertCurrency, valuationDate, type Valuation } from './exchange';
+import { sumAmounts } from './money';
+
+/**
+ * Monthly rollups
+ *
+ * Pure helpers behind the rollup store: per-change deltas, a full recompute
+ * for rebuilds and verification, and reads converted to the display currency.
+ * Rows stay in the transactions' booked currency (their own, or the one they
+ * settled in) so rate changes never invalidate them; under historical valuation a month converts at the rate
+ * closest to its 15th.
+ */
+
+export interface RollupMismatch {
+  key: RollupKey;
+  expected: Pick<MonthlyRollup, 'amount' | 'count'> | null;   // null = row shouldn't exist
+  actual: Pick<MonthlyRollup, 'amount' | 'count'> | null;     // null = row is missing
+}
+
+/**
+ * Inclusive YYYY-MM bounds; either side may be open
+ */
+export interface MonthRange {
+  from?: string;
+  to?: string;
+}
+
+// Sums are compared to the cent; rows written before sums went through Money
+// can carry float noise
+const AMOUNT_TOLERANCE = 0.005;
+
+export const rollupKeyOf = (row: Pick<MonthlyRollup, 'year' | 'month' | 'type' | 'category' | 'currency'>): RollupKey =>
+  [row.year, row.month, row.type, row.category, row.currency];
+
+const keyString = (key: RollupKey) => key.join('|');
+
+const monthOf = (row: Pick<MonthlyRollup, 'year' | 'month'>) =>
+  `${row.year}-${String(row.month).padStart(2, '0')}`;
+
+// The group a transaction counts towards (soft-deleted ones and transfers
+// between accounts count nowhere)
+function groupOf(transaction: Transaction): Omit<MonthlyRollup, 'amount' | 'count'> | null {
+  if (transaction.deletedAt || transaction.type === 'transfer') return null;
+  return {
+    year: Number(transaction.date.slice(0, 4)),
+    month: Number(transaction.date.slice(5, 7)),
+    type: transaction.type,
+    category: transaction.category,
+    currency: bookedAmount(transaction).currency,
+  };
+}
+
+function addTo(groups: Map<string, MonthlyRollup>, transaction: Transaction, sign: 1 | -1): void {
+  const group = groupOf(transaction);
+  if (!group) return;
+
+  const key = keyString(rollupKeyOf(group));
+  const row = groups.get(key) ?? { ...group, amount: 0, count: 0 };
+  row.amount = sumAmounts([row.amount, sign * bookedAmount(transaction).amount], row.currency);
+  row.count += sign;
+  groups.set(key, row);
+}
+
+// ============================================
+// WRITE
+// ============================================
+
+/**
+ * Full recompute from the transactions
+ */
+export function computeRollups(transactions: Transaction[]): MonthlyRollup[] {
+  const groups = new Map<string, MonthlyRollup>();
+  for (const transaction of transactions) addTo(groups, transaction, 1);
+  return [...groups.values()];
+}
+
+/**
+ * What a set of changes adds to (or takes from) each group. Only transaction
+ * changes count; groups the changes cancel out in are dropped.
+ */
+export function rollupDeltas(changes: RecordChange[]): MonthlyRollup[] {
+  const groups = new Map<string, MonthlyRollup>();
+  for (const change of changes) {
+    if (change.table !== 'transactions') continue;
+    if (change.before) addTo(groups, change.before as Transaction, -1);
+    if (change.after) addTo(groups, change.after as Transaction, 1);
+  }
+  return [...groups.values()].filter(delta => delta.count !== 0 || Math.abs(delta.amount) > 0);
+}
+
+/**
+ * Add deltas to the current rows of their groups. Groups left without
+ * transactions are removed.
+ */
+export function applyRollupDeltas(
+  current: Array<MonthlyRollup | undefined>,
+  deltas: MonthlyRollup[]
+): { put: MonthlyRollup[]; remove: RollupKey[] } {
+  const byKey = new Map(current.filter(row => row !== undefined).map(row => [keyString(rollupKeyOf(row)), row]));
+  const put: MonthlyRollup[] = [];
+  const remove: RollupKey[] = [];
+
+  for (const delta of deltas) {
+    const key = rollupKeyOf(delta);
+    const row = byKey.get(keyString(key));
+    const count = (row?.count ?? 0) + delta.count;
+    if (count <= 0) {
+      if (row) remove.push(key);
+      continue;
+    }
+    put.push({ ...delta, amount: sumAmounts([row?.amount ?? 0, delta.amount], delta.currency), count });
+  }
+  return { put, remove };
+}
+
+/**
+ * Differences between stored rollups and a full recompute
+ */
+export function compareRollups(expected: MonthlyRollup[], actual: MonthlyRollup[]): RollupMismatch[] {
+  const stored = new Map(actual.map(row => [keyString(rollupKeyOf(row)), row]));
+  const mismatches: RollupMismatch[] = [];
+
+  for (const row of expected) {
+    const key = keyString(rollupKeyOf(row));
+    const found = stored.get(key);
+    stored.delete(key);
+    if (!found || found.count !== row.count || Math.abs(found.amount - row.amount) > AMOUNT_TOLERANCE) {
+      mismatches.push({
+        key: rollupKeyOf(row),
+        expected: { amount: row.amount, count: row.count },
+        actual: found ? { amount: found.amount, count: found.count } : null,
+      });
+    }
+  }
+  for (const extra of stored.values()) {
+    mismatches.push({ key: rollupKeyOf(extra), expected: null, actual: { amount: extra.amount, count: extra.count } });
+  }
+  return mismatches;
+}
+
+// ============================================
+// READ
+// ============================================
+
+const inRange = (row: MonthlyRollup, { from, to }: MonthRange) => {
+  const month = monthOf(row);
+  return (!from || month >= from) && (!to || month <= to);
+};
+
+// Today's rates without a valuation
+const convertRow = (row: MonthlyRollup, currency: string, valuation?: Valuation) =>
+  valuation
+    ? convertCurrency(row.amount, row.currency, currency, valuationDate(`${monthOf(row)}-15`, valuation.mode), valuation.history)
+    : convertCurrency(row.amount, row.currency, currency);
+
+/**
+ * Totals per month in the display currency, oldest first
+ */
+export function rollupMonthlyTotals(
+  rollups: MonthlyRollup[],
+  currency: string,
+  range: MonthRange = {},
+  valuation?: Valuation
+): MonthlyTotals[] {
+  const byMonth = new Map<string, MonthlyTotals>();
+  for (const row of rollups) {
+    if (row.type === 'transfer' || !inRange(row, range)) continue;
+    const month = monthOf(row);
+    let totals = byMonth.get(month);
+    if (!totals) {
+      totals = { month, income: 0, expense: 0, savings: 0, withdrawal: 0 };
+      byMonth.set(month, totals);
+    }
+    totals[row.type] += convertRow(row, currency, valuation);
+  }
+  return [...byMonth.values()].sort((a, b) => a.month.localeCompare(b.month));
+}
+
+/**
+ * Totals of one type per category in the display currency, largest first
+ */
+export function rollupCategoryTotals(
+  rollups: MonthlyRollup[],
+  type: Transaction['type'],
+  currency: string,
+  range: MonthRange = {},
+  valuation?: Valuation
+): CategoryTotal[] {
+  const byCategory = new Map<string, CategoryTotal>();
+  for (const row of rollups) {
+    if (row.type !== type || !inRange(row, range)) continue;
+    const total = byCategory.get(row.category) ?? { category: row.category, amount: 0, count: 0 };
+    total.amount += convertRow(row, currency, valuation);
+    total.count += row.count;
+    byCategory.set(row.category, total);
+  }
+  return [...byCategory.values()].sort((a, b) => b.amount - a.amount);
+}
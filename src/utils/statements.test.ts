@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { buildStatements, daysUntilDue, statementPayment } from './statements';
+import type { Valuation } from './exchange';
+import type { Account } from '../types';
+import { createTransaction } from '../test/fixtures';
+
+const card: Account = {
+  id: 'card',
+  name: 'Card',
+  type: 'credit',
+  currency: 'TRY',
+  openingBalance: 0,
+  isActive: true,
+  statementDay: 15,
+  dueDay: 25,
+  creditLimit: 1000,
+};
+
+const valuation: Valuation = { mode: 'historical', history: [] };
+const now = new Date(2025, 2, 20);
+
+const transactions = [
+  createTransaction({ id: 'a', amount: 100, date: '2025-01-20', accountId: 'card' }),
+  createTransaction({ id: 'b', amount: 50, date: '2025-02-10', accountId: 'card' }),
+  createTransaction({ id: 'c', amount: 150, date: '2025-02-20', type: 'transfer', accountId: 'bank', toAccountId: 'card' }),
+  createTransaction({ id: 'd', amount: 200.5, date: '2025-03-01', accountId: 'card' }),
+  createTransaction({ id: 'e', amount: 30, date: '2025-03-18', accountId: 'card' }),
+  createTransaction({ id: 'f', amount: 999, date: '2025-03-02', accountId: 'bank' }), // Another account
+];
+
+describe('Credit card statements', () => {
+  it('should cut a statement per cycle up to the one running today', () => {
+    const statements = buildStatements(card, transactions, valuation, now);
+
+    expect(statements.map(s => [s.periodStart, s.closingDate, s.dueDate, s.isClosed])).toEqual([
+      ['2025-01-16', '2025-02-15', '2025-02-25', true],
+      ['2025-02-16', '2025-03-15', '2025-03-25', true],
+      ['2025-03-16', '2025-04-15', '2025-04-25', false],
+    ]);
+    expect(statements.map(s => s.purchases.map(p => p.id))).toEqual([['a', 'b'], ['d'], ['e']]);
+    expect(statements.map(s => s.charges)).toEqual([150, 200.5, 30]);
+  });
+
+  it('should ask for what was owed at closing less what was paid in since', () => {
+    const [first, second, open] = buildStatements(card, transactions, valuation, now);
+
+    expect([first.balance, first.paid, first.remaining]).toEqual([150, 150, 0]);
+    expect([second.balance, second.paid, second.remaining]).toEqual([200.5, 0, 200.5]);
+    expect([open.balance, open.remaining]).toEqual([230.5, 0]);
+  });
+
+  it('should move the due date to the next month when it comes before closing', () => {
+    const statements = buildStatements({ ...card, statementDay: 25, dueDay: 5 }, transactions, valuation, now);
+    expect(statements[0]).toMatchObject({ periodStart: '2024-12-26', closingDate: '2025-01-25', dueDate: '2025-02-05' });
+  });
+
+  it('should fall back to the last day of short months', () => {
+    const statements = buildStatements({ ...card, statementDay: 31, dueDay: 31 }, transactions, valuation, now);
+    expect(statements.map(s => [s.closingDate, s.dueDate])).toEqual([
+      ['2025-01-31', '2025-02-28'],
+      ['2025-02-28', '2025-03-31'],
+      ['2025-03-31', '2025-04-30'],
+    ]);
+  });
+
+  it('should have no statements without closing and due days', () => {
+    expect(buildStatements({ ...card, statementDay: undefined }, transactions, valuation, now)).toEqual([]);
+    expect(buildStatements({ ...card, type: 'bank' }, transactions, valuation, now)).toEqual([]);
+  });
+
+  it('should pay what is left with a transfer into the card', () => {
+    const [, second] = buildStatements(card, transactions, valuation, now);
+
+    expect(daysUntilDue(second, now)).toBe(5);
+    expect(statementPayment(second, card, 'bank', 'Card payment', '2025-03-21')).toEqual({
+      title: 'Card payment',
+      amount: 200.5,
+      category: 'Transfer',
+      date: '2025-03-21',
+      type: 'transfer',
+      accountId: 'bank',
+      toAccountId: 'card',
+      originalCurrency: 'TRY',
+    });
+  });
+});
@@ -0,0 +1,156 @@
+import type { Account, Transaction } from '../types';
+import type { Valuation } from './exchange';
+import { dateToISOString } from './formatters';
+import { money, negate, subtract, sum, toAmount, zero } from './money';
+import { accountDelta, touchesAccount, TRANSFER_CATEGORY } from './accounts';
+
+/**
+ * Credit card statements
+ *
+ * Purchases on a card count as expenses on the day they're made, but the
+ * money leaves the bank on the statement's due date. A credit account with
+ * a closing day gets one statement per month: it covers the day after the
+ * previous closing up to the closing day, and is due on the next due day
+ * after closing. What a statement asks for is what was owed on the card at
+ * closing; transfers into the card after closing pay it off. Days past the
+ * end of a short month fall on its last day.
+ */
+
+export interface Statement {
+  accountId: string;
+  periodStart: string;      // First day of the cycle, YYYY-MM-DD
+  closingDate: string;      // Last day of the cycle (inclusive)
+  dueDate: string;
+  isClosed: boolean;        // False for the cycle still running
+  purchases: Transaction[]; // Everything in the cycle except payments, oldest first
+  charges: number;          // Net of the purchases (refunds lower it), in the card's currency
+  balance: number;          // Owed on the card at closing (today for the open cycle)
+  paid: number;             // Paid into the card since closing
+  remaining: number;        // Still to pay (never negative)
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// A day of a month, moved back to the month's last day when it's shorter
+const dayOf = (year: number, month: number, day: number) => {
+  const lastDay = new Date(year, month + 1, 0).getDate();
+  const at = new Date(year, month, Math.min(day, lastDay));
+  return `${at.getFullYear()}-${pad(at.getMonth() + 1)}-${pad(at.getDate())}`;
+};
+
+const nextDay = (date: string) => {
+  const [year, month, day] = date.split('-').map(Number);
+  return dateToISOString(new Date(year, month - 1, day + 1));
+};
+
+/**
+ * Whether a credit account has what its statements need
+ */
+export function hasStatements(account: Account): boolean {
+  return account.type === 'credit' && !!account.statementDay && !!account.dueDay;
+}
+
+/**
+ * A payment into the card from another account (what pays statements off)
+ */
+export function isCardPayment(transaction: Transaction, accountId: string): boolean {
+  return transaction.type === 'transfer' && transaction.toAccountId === accountId && transaction.accountId !== accountId;
+}
+
+/**
+ * Statements of a credit account, oldest first, from the cycle of its first
+ * transaction up to the one running today (the last entry, not closed yet)
+ */
+export function buildStatements(
+  account: Account,
+  transactions: Transaction[],
+  valuation: Valuation,
+  now: Date = new Date()
+): Statement[] {
+  if (!hasStatements(account)) return [];
+
+  const today = dateToISOString(now);
+  const currency = account.currency;
+  const touching = transactions
+    .filter(t => !t.deletedAt && touchesAccount(t, account.id))
+    .sort((a, b) => a.date.localeCompare(b.date) || a.id.localeCompare(b.id));
+  const first = touching[0]?.date ?? today;
+
+  const closingDay = account.statementDay!;
+  const dueDay = account.dueDay!;
+  const deltaOf = (t: Transaction) => accountDelta(t, account, valuation);
+
+  // Owed on the card at the end of a day (a credit balance is negative)
+  const owedOn = (date: string) =>
+    negate(sum([money(account.openingBalance, currency), ...touching.filter(t => t.date <= date).map(deltaOf)], currency));
+
+  // The first cycle closes on or after the first transaction (months past 11 roll over)
+  const [year, firstMonth] = first.split('-').map(Number);
+  let month = dayOf(year, firstMonth - 1, closingDay) < first ? firstMonth : firstMonth - 1;
+
+  const statements: Statement[] = [];
+  let periodStart = nextDay(dayOf(year, month - 1, closingDay));
+  for (;;) {
+    const closingDate = dayOf(year, month, closingDay);
+    const dueInMonth = dayOf(year, month, dueDay);
+    const dueDate = dueInMonth > closingDate ? dueInMonth : dayOf(year, month + 1, dueDay);
+    const isClosed = closingDate < today;
+
+    const inCycle = touching.filter(t => t.date >= periodStart && t.date <= closingDate);
+    const purchases = inCycle.filter(t => !isCardPayment(t, account.id));
+    const charges = negate(sum(purchases.map(deltaOf), currency));
+    const balance = owedOn(isClosed ? closingDate : today);
+    const paid = isClosed
+      ? sum(touching.filter(t => t.date > closingDate && isCardPayment(t, account.id)).map(deltaOf), currency)
+      : zero(currency);
+
+    statements.push({
+      accountId: account.id,
+      periodStart,
+      closingDate,
+      dueDate,
+      isClosed,
+      purchases,
+      charges: toAmount(charges),
+      balance: toAmount(balance),
+      paid: toAmount(paid),
+      remaining: isClosed ? Math.max(0, toAmount(subtract(balance, paid))) : 0,
+    });
+
+    if (!isClosed) return statements;
+    periodStart = nextDay(closingDate);
+    month++;
+  }
+}
+
+/**
+ * The transfer that pays what's left of a statement from another account
+ */
+export function statementPayment(
+  statement: Statement,
+  card: Account,
+  fromAccountId: string,
+  title: string,
+  date: string = dateToISOString(new Date())
+): Omit<Transaction, 'id'> {
+  return {
+    title,
+    amount: statement.remaining,
+    category: TRANSFER_CATEGORY,
+    date,
+    type: 'transfer',
+    accountId: fromAccountId,
+    toAccountId: card.id,
+    originalCurrency: card.currency,
+  };
+}
+
+/**
+ * Whole days from today until a statement is due (negative once overdue)
+ */
+export function daysUntilDue(statement: Statement, now: Date = new Date()): number {
+  const [year, month, day] = statement.dueDate.split('-').map(Number);
+  const due = new Date(year, month - 1, day);
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  return Math.round((due.getTime() - today.getTime()) / (24 * 60 * 60 * 1000));
+}
@@ -0,0 +1,146 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { Transaction, RecurringTransaction } from '../types';
+import { InMemoryAdapter } from '../db/InMemoryAdapter';
+import { UndoJournal, diffRecords, replayEntry, type RecordChange } from './undoJournal';
+import { tx } from '../test/fixtures';
+
+const template: RecurringTransaction = {
+  id: 'r1',
+  title: 'Rent',
+  amount: 5000,
+  category: 'housing',
+  type: 'expense',
+  originalCurrency: 'TRY',
+  frequency: 'monthly',
+  startDate: '2026-01-01',
+  nextOccurrence: '2026-02-01',
+  isActive: true,
+  version: 1,
+};
+
+const txChange = (before: Transaction | null, after: Transaction | null): RecordChange => ({
+  table: 'transactions',
+  recordId: (before ?? after)!.id,
+  before,
+  after,
+});
+
+describe('UndoJournal', () => {
+  it('moves entries between the undo and redo stacks', () => {
+    const journal = new UndoJournal();
+    const first = journal.record('addTransaction', [txChange(null, tx('t1'))]);
+    journal.record('deleteTransaction', [txChange(tx('t1'), null)]);
+
+    expect(journal.peekUndo()?.action).toBe('deleteTransaction');
+    journal.commitUndo();
+    expect(journal.peekUndo()?.id).toBe(first?.id);
+    expect(journal.peekRedo()?.action).toBe('deleteTransaction');
+
+    journal.commitRedo();
+    expect(journal.canRedo()).toBe(false);
+    expect(journal.peekUndo()?.action).toBe('deleteTransaction');
+  });
+
+  it('clears the redo stack on a new action and ignores empty ones', () => {
+    const journal = new UndoJournal();
+    journal.record('addTransaction', [txChange(null, tx('t1'))]);
+    journal.commitUndo();
+
+    expect(journal.record('addBulkTransactions', [])).toBeNull();
+    expect(journal.canRedo()).toBe(true);
+
+    journal.record('addTransaction', [txChange(null, tx('t2'))]);
+    expect(journal.canRedo()).toBe(false);
+  });
+
+  it('keeps at most `limit` entries', () => {
+    const journal = new UndoJournal(2);
+    for (const id of ['t1', 't2', 't3']) {
+      journal.record('addTransaction', [txChange(null, tx(id))]);
+    }
+
+    journal.commitUndo();
+    journal.commitUndo();
+    expect(journal.canUndo()).toBe(false);
+    expect(journal.peekRedo()?.changes[0].recordId).toBe('t2');
+  });
+
+  it('diffs tables by id', () => {
+    const changes = diffRecords('transactions', [tx('t1'), tx('t2')], [tx('t2', { amount: 5 }), tx('t3')]);
+    expect(changes.map((c) => [c.recordId, c.before !== null, c.after !== null])).toEqual([
+      ['t1', true, false],
+      ['t2', true, true],
+      ['t3', false, true],
+    ]);
+  });
+});
+
+describe('replayEntry', () => {
+  let storage: InMemoryAdapter;
+  let journal: UndoJournal;
+
+  beforeEach(async () => {
+    storage = new InMemoryAdapter();
+    journal = new UndoJournal();
+    await storage.bulkAddTransactions([tx('t1'), tx('t2')]);
+  });
+
+  it('undoes and redoes a bulk replace', async () => {
+    const before = await storage.getAllTransactions();
+    const after = [tx('t2', { amount: 250 }), tx('t3')];
+    await storage.importAll({ ...(await storage.exportAll()), transactions: after });
+    const entry = journal.record('addBulkTransactions', diffRecords('transactions', before, after))!;
+
+    const undone = await replayEntry(storage, entry, 'undo');
+    const restored = await storage.getAllTransactions();
+    expect(restored.map((t) => t.id).sort()).toEqual(['t1', 't2']);
+    expect(restored.find((t) => t.id === 't2')?.amount).toBe(100);
+    expect(undone.filter((w) => w.op === 'delete').map((w) => w.recordId)).toEqual(['t3']);
+
+    await replayEntry(storage, entry, 'redo');
+    expect((await storage.getAllTransactions()).map((t) => t.id).sort()).toEqual(['t2', 't3']);
+  });
+
+  it('stamps restored records as newer than the stored ones', async () => {
+    const edited = { ...tx('t1', { description: 'note', amount: 42 }), version: 2 };
+    await storage.updateTransaction('t1', edited);
+    const entry = journal.record('updateTransaction', [txChange(tx('t1'), edited)])!;
+
+    await replayEntry(storage, entry, 'undo');
+    const restored = await storage.getTransaction('t1');
+    expect(restored?.amount).toBe(100);
+    expect(restored?.description).toBeUndefined();
+    expect(restored?.version).toBe(3);
+  });
+
+  it('restores a deleted recurring template with its generated transactions', async () => {
+    const generated = [tx('g1', { recurringId: 'r1' }), tx('g2', { recurringId: 'r1' })];
+    await storage.addRecurring(template);
+    await storage.bulkAddTransactions(generated);
+    for (const t of generated) await storage.deleteTransaction(t.id);
+    await storage.deleteRecurring('r1');
+
+    const entry = journal.record('deleteRecurring', [
+      ...generated.map((t) => txChange(t, null)),
+      { table: 'recurring', recordId: 'r1', before: template, after: null },
+    ])!;
+
+    const writes = await replayEntry(storage, entry, 'undo');
+    expect(writes[0]).toMatchObject({ table: 'recurring', recordId: 'r1', op: 'upsert', before: null });
+    expect((await storage.getRecurring('r1'))?.title).toBe('Rent');
+    expect((await storage.getAllTransactions()).filter((t) => t.recurringId === 'r1')).toHaveLength(2);
+  });
+
+  it('restores settings recorded with the entry', async () => {
+    const before = await storage.getSettings();
+    await storage.clearAll();
+    const entry = journal.record('clearAll', diffRecords('transactions', [tx('t1'), tx('t2')], []), {
+      before: { ...before, currency: 'USD' },
+      after: before,
+    })!;
+
+    await replayEntry(storage, entry, 'undo');
+    expect((await storage.getSettings()).currency).toBe('USD');
+    expect(await storage.getAllTransactions()).toHaveLength(2);
+  });
+});
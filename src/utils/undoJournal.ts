@@ -0,0 +1,296 @@
+import type { AppSettings, Transaction, CategoryBudget, RecurringTransaction } from '../types';
+import type { SyncTable, VersionedRecord } from '../db/schema';
+import type { StorageAdapter } from '../db/StorageAdapter';
+import { bumpVersion } from './versioning';
+
+export type JournalTable = Exclude<SyncTable, 'settings'>;
+
+/**
+ * User actions that can be undone
+ */
+export type JournalAction =
+  | 'addTransaction'
+  | 'updateTransaction'
+  | 'deleteTransaction'
+  | 'addBulkTransactions'
+  | 'importData'
+  | 'clearAll'
+  | 'addRecurring'
+  | 'updateRecurring'
+  | 'deleteRecurring'
+  | 'toggleRecurring'
+  | 'addBudget'
+  | 'updateBudget'
+  | 'deleteBudget'
+  | 'toggleBudget'
+  | 'revertRecord'
+  | 'repairData';
+
+/**
+ * One record before and after an action (null = did not exist)
+ */
+export interface RecordChange {
+  table: JournalTable;
+  recordId: string;
+  before: VersionedRecord | null;
+  after: VersionedRecord | null;
+}
+
+export interface JournalEntry {
+  id: number;
+  action: JournalAction;
+  createdAt: string;        // ISO timestamp
+  changes: RecordChange[];  // In the order they were applied
+  settings?: { before: AppSettings; after: AppSettings };
+}
+
+export type JournalDirection = 'undo' | 'redo';
+
+const DEFAULT_LIMIT = 100;
+
+/**
+ * Actions that remove or overwrite data (they get an "Undo" toast)
+ */
+export const DESTRUCTIVE_ACTIONS: JournalAction[] = [
+  'deleteTransaction',
+  'addBulkTransactions',
+  'importData',
+  'clearAll',
+  'updateRecurring',
+  'deleteRecurring',
+  'deleteBudget',
+  'repairData',
+];
+
+/**
+ * Changes between two versions of a table (records compared by id)
+ */
+export function diffRecords<T extends VersionedRecord>(
+  table: JournalTable,
+  before: T[],
+  after: T[]
+): RecordChange[] {
+  const beforeById = new Map(before.map((record) => [record.id, record]));
+  const afterById = new Map(after.map((record) => [record.id, record]));
+  const changes: RecordChange[] = [];
+
+  for (const record of before) {
+    const next = afterById.get(record.id) ?? null;
+    if (!next || JSON.stringify(next) !== JSON.stringify(record)) {
+      changes.push({ table, recordId: record.id, before: record, after: next });
+    }
+  }
+  for (const record of after) {
+    if (!beforeById.has(record.id)) {
+      changes.push({ table, recordId: record.id, before: null, after: record });
+    }
+  }
+  return changes;
+}
+
+/**
+ * The record state each change should be taken to, in replay order.
+ * Undo walks the changes backwards so dependent records are restored in the
+ * right order (e.g. a recurring template before its generated transactions).
+ */
+export function replayTargets(entry: JournalEntry, direction: JournalDirection): Array<RecordChange & { target: VersionedRecord | null }> {
+  const ordered = direction === 'undo' ? [...entry.changes].reverse() : entry.changes;
+  return ordered.map((change) => ({ ...change, target: direction === 'undo' ? change.before : change.after }));
+}
+
+/**
+ * Record write performed while replaying an entry (for the sync outbox and audit log)
+ */
+export interface ReplayedWrite extends RecordChange {
+  op: 'upsert' | 'delete';
+}
+
+async function readRecord(storage: StorageAdapter, table: JournalTable, id: string): Promise<VersionedRecord | undefined> {
+  switch (table) {
+    case 'transactions':
+      return storage.getTransaction(id);
+    case 'budgets':
+      return storage.getBudget(id);
+    case 'recurring':
+      return storage.getRecurring(id);
+  }
+}
+
+async function writeRecord(storage: StorageAdapter, table: JournalTable, record: VersionedRecord, exists: boolean): Promise<void> {
+  switch (table) {
+    case 'transactions':
+      return exists
+        ? storage.updateTransaction(record.id, record as Transaction)
+        : storage.addTransaction(record as Transaction);
+    case 'budgets':
+      return exists
+        ? storage.updateBudget(record.id, record as CategoryBudget)
+        : storage.addBudget(record as CategoryBudget);
+    case 'recurring':
+      return exists
+        ? storage.updateRecurring(record.id, record as RecurringTransaction)
+        : storage.addRecurring(record as RecurringTransaction);
+  }
+}
+
+async function deleteRecord(storage: StorageAdapter, table: JournalTable, id: string): Promise<void> {
+  switch (table) {
+    case 'transactions':
+      return storage.deleteTransaction(id);
+    case 'budgets':
+      return storage.deleteBudget(id);
+    case 'recurring':
+      return storage.deleteRecurring(id);
+  }
+}
+
+/**
+ * Put one record into the given state (null = deleted). The record is stamped
+ * as a new edit on top of whatever is stored now, so the sync layer pushes it
+ * instead of reporting a conflict. Returns null when nothing had to change.
+ */
+export async function applyRecordState(
+  storage: StorageAdapter,
+  table: JournalTable,
+  recordId: string,
+  target: VersionedRecord | null
+): Promise<ReplayedWrite | null> {
+  const current = await readRecord(storage, table, recordId);
+
+  if (!target) {
+    if (!current) return null;
+    await deleteRecord(storage, table, recordId);
+    return { table, recordId, op: 'delete', before: current, after: null };
+  }
+
+  // Fields the target never had are cleared, not left over from the current record
+  const cleared = Object.fromEntries(
+    Object.keys(current ?? {})
+      .filter((key) => !(key in target))
+      .map((key) => [key, undefined])
+  );
+  const restored = { ...cleared, ...target, ...bumpVersion(current ?? target) } as VersionedRecord;
+  await writeRecord(storage, table, restored, current !== undefined);
+  return { table, recordId, op: 'upsert', before: current ?? null, after: restored };
+}
+
+/**
+ * Take every record of an entry to its before (undo) or after (redo) state
+ */
+export async function replayEntry(
+  storage: StorageAdapter,
+  entry: JournalEntry,
+  direction: JournalDirection
+): Promise<ReplayedWrite[]> {
+  const writes: ReplayedWrite[] = [];
+
+  for (const { table, recordId, target } of replayTargets(entry, direction)) {
+    const write = await applyRecordState(storage, table, recordId, target);
+    if (write) writes.push(write);
+  }
+
+  if (entry.settings) {
+    await storage.updateSettings(direction === 'undo' ? entry.settings.before : entry.settings.after);
+  }
+  return writes;
+}
+
+/**
+ * UndoJournal - in-memory undo/redo stacks of finance mutations
+ *
+ * Entries describe what changed, not how; FinanceContext replays them against
+ * the storage backend. Recording a new entry clears the redo stack.
+ */
+export class UndoJournal {
+  private past: JournalEntry[] = [];
+  private future: JournalEntry[] = [];
+  private nextId = 1;
+  private limit: number;
+  private onChange?: () => void;
+
+  constructor(limit: number = DEFAULT_LIMIT) {
+    this.limit = limit;
+  }
+
+  setOnChange(callback: () => void): void {
+    this.onChange = callback;
+  }
+
+  private notify(): void {
+    this.onChange?.();
+  }
+
+  /**
+   * Record an action. Returns the entry, or null when nothing changed.
+   */
+  record(
+    action: JournalAction,
+    changes: RecordChange[],
+    settings?: JournalEntry['settings']
+  ): JournalEntry | null {
+    if (changes.length === 0 && !settings) return null;
+
+    const entry: JournalEntry = {
+      id: this.nextId++,
+      action,
+      createdAt: new Date().toISOString(),
+      changes,
+      settings,
+    };
+    this.past.push(entry);
+    if (this.past.length > this.limit) this.past.shift();
+    this.future = [];
+    this.notify();
+    return entry;
+  }
+
+  /**
+   * Add follow-up changes to an entry (e.g. transactions generated after a
+   * recurring template was created). Ignored once the entry was undone.
+   */
+  extend(entryId: number, changes: RecordChange[]): void {
+    const entry = this.past.find((e) => e.id === entryId);
+    if (!entry || changes.length === 0) return;
+    entry.changes = [...entry.changes, ...changes];
+  }
+
+  canUndo(): boolean {
+    return this.past.length > 0;
+  }
+
+  canRedo(): boolean {
+    return this.future.length > 0;
+  }
+
+  peekUndo(): JournalEntry | null {
+    return this.past[this.past.length - 1] ?? null;
+  }
+
+  peekRedo(): JournalEntry | null {
+    return this.future[this.future.length - 1] ?? null;
+  }
+
+  /**
+   * Move the latest entry to the redo stack (call after it was replayed)
+   */
+  commitUndo(): void {
+    const entry = this.past.pop();
+    if (entry) this.future.push(entry);
+    this.notify();
+  }
+
+  /**
+   * Move the latest undone entry back (call after it was replayed)
+   */
+  commitRedo(): void {
+    const entry = this.future.pop();
+    if (entry) this.past.push(entry);
+    this.notify();
+  }
+
+  clear(): void {
+    this.past = [];
+    this.future = [];
+    this.notify();
+  }
+}
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { bumpVersion, diffFields, mergeRecords } from './versioning';
+import { createTransaction } from '../test/fixtures';
+
+describe('Record Versioning', () => {
+  describe('bumpVersion', () => {
+    it('should start new records at version 1', () => {
+      expect(bumpVersion().version).toBe(1);
+    });
+
+    it('should increment the previous version', () => {
+      expect(bumpVersion({ version: 4 }).version).toBe(5);
+    });
+  });
+
+  describe('diffFields', () => {
+    it('should ignore version bookkeeping', () => {
+      const local = createTransaction({ version: 2, updatedAt: '2025-02-01T00:00:00.000Z' });
+      const remote = createTransaction({ version: 3 });
+      expect(diffFields(local, remote)).toEqual([]);
+    });
+
+    it('should list changed fields', () => {
+      const local = createTransaction({ title: 'Lunch' });
+      const remote = createTransaction({ amount: 250 });
+      expect(diffFields(local, remote).sort()).toEqual(['amount', 'title']);
+    });
+
+    it('should treat missing and empty optional fields as equal', () => {
+      const local = createTransaction({ description: '' });
+      const remote = createTransaction({});
+      expect(diffFields(local, remote)).toEqual([]);
+    });
+  });
+
+  describe('mergeRecords', () => {
+    it('should take chosen fields from the remote version', () => {
+      const local = createTransaction({ title: 'Lunch', amount: 120, version: 2 });
+      const remote = createTransaction({ title: 'Dinner', amount: 300, version: 3 });
+
+      const merged = mergeRecords(local, remote, { title: 'local', amount: 'remote' });
+
+      expect(merged.title).toBe('Lunch');
+      expect(merged.amount).toBe(300);
+    });
+
+    it('should supersede both versions', () => {
+      const local = createTransaction({ version: 5 });
+      const remote = createTransaction({ version: 3 });
+      expect(mergeRecords(local, remote, {}).version).toBe(6);
+    });
+  });
+});
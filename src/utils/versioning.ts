@@ -0,0 +1,54 @@
+import type { Versioned } from '../types';
+
+// Bookkeeping fields that never take part in a field-by-field comparison
+const META_FIELDS = new Set(['id', 'version', 'updatedAt']);
+
+export type FieldSide = 'local' | 'remote';
+
+/**
+ * Version stamp for a record that is being created or edited locally
+ * @param previous - The record before the edit (omit for new records)
+ */
+export function bumpVersion(previous?: Versioned): Required<Pick<Versioned, 'version' | 'updatedAt'>> {
+  return {
+    version: (previous?.version ?? 0) + 1,
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * List the fields whose values differ between two versions of a record
+ */
+export function diffFields<T extends object>(local: T, remote: T): (keyof T & string)[] {
+  const keys = new Set([...Object.keys(local), ...Object.keys(remote)]);
+  return [...keys]
+    .filter((key) => !META_FIELDS.has(key))
+    .filter((key) => {
+      const a = (local as Record<string, unknown>)[key];
+      const b = (remote as Record<string, unknown>)[key];
+      // Missing and empty optional fields are the same thing; arrays (tags) compare by value
+      return JSON.stringify(a ?? '') !== JSON.stringify(b ?? '');
+    }) as (keyof T & string)[];
+}
+
+/**
+ * Merge two versions of a record field by field. Fields not listed in `choices`
+ * come from the local version. The result is stamped as a new edit on top of
+ * the newer of the two versions, so it supersedes both.
+ */
+export function mergeRecords<T extends Versioned>(
+  local: T,
+  remote: T,
+  choices: Partial<Record<keyof T & string, FieldSide>>
+): T {
+  const merged = { ...local } as Record<string, unknown>;
+  for (const [field, side] of Object.entries(choices)) {
+    if (side === 'remote') {
+      merged[field] = (remote as Record<string, unknown>)[field];
+    }
+  }
+  return {
+    ...(merged as T),
+    ...bumpVersion({ version: Math.max(local.version ?? 0, remote.version ?? 0) }),
+  };
+}
@@ -0,0 +1,29 @@
+import { buildSnapshot, runAggregation, type AggregationSnapshot } from '../utils/aggregations';
+import { registerCustomUnits } from '../utils/currencies';
+import type { AggregationRequest, AggregationResponse } from '../services/aggregationService';
+
+/**
+ * Aggregation worker - builds the snapshot from the posted transactions and
+ * answers queries against it. Messages are handled in order, so a query
+ * always sees the data loaded before it.
+ */
+const scope = self as unknown as Worker;
+let snapshot: AggregationSnapshot = { currency: 'TRY', rows: [] };
+
+scope.onmessage = (event: MessageEvent<AggregationRequest>) => {
+  const request = event.data;
+  if (request.type === 'load') {
+    // The main thread's unit registry isn't shared with the worker
+    registerCustomUnits(request.customUnits);
+    snapshot = buildSnapshot(request.transactions, request.currency, request.rates, request.valuation);
+    return;
+  }
+
+  let response: AggregationResponse;
+  try {
+    response = { id: request.id, result: runAggregation(snapshot, request.query) };
+  } catch (error) {
+    response = { id: request.id, error: error instanceof Error ? error.message : String(error) };
+  }
+  scope.postMessage(response);
+};
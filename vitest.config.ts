@@ -1,4 +1,4 @@
-import { defineConfig } from 'vitest/config';
+import { defineConfig, configDefaults } from 'vitest/config';
 import react from '@vitejs/plugin-react';
 
 export default defineConfig({
@@ -7,6 +7,8 @@ export default defineConfig({
     globals: true,
     environment: 'jsdom',
     setupFiles: './src/test/setup.ts',
+    // security.test.ts holds manual scenarios run from the browser console, not vitest suites
+    exclude: [...configDefaults.exclude, 'src/tests/security.test.ts'],
     coverage: {
       provider: 'v8',
       reporter: ['text', 'json', 'html'],